@@ -0,0 +1,15 @@
+import { HydrateClient } from "~/trpc/server";
+import BulkImportPanel from "~/components/admin/BulkImportPanel";
+
+export default function AdminImportPage() {
+  return (
+    <HydrateClient>
+      <div className="space-y-4">
+        <h1 className="[font-family:var(--font-display)] text-2xl">
+          Bulk import
+        </h1>
+        <BulkImportPanel />
+      </div>
+    </HydrateClient>
+  );
+}
@@ -0,0 +1,19 @@
+import { HydrateClient } from "~/trpc/server";
+import JobsPanel from "~/components/admin/JobsPanel";
+import { env } from "~/env";
+
+export default function AdminJobsPage() {
+  return (
+    <HydrateClient>
+      <div className="space-y-4">
+        <h1 className="[font-family:var(--font-display)] text-2xl">Jobs</h1>
+        <p className="opacity-80">
+          {env.JOB_WORKER === "inline"
+            ? "Jobs run inside the web server."
+            : "Jobs run in a separate worker process (`npm run worker`)."}
+        </p>
+        <JobsPanel />
+      </div>
+    </HydrateClient>
+  );
+}
@@ -18,6 +18,9 @@ export default async function AdminLayout({
             <Link href="/admin">Stats</Link>
             <Link href="/admin/users">User Editor</Link>
             <Link href="/admin/resources">Resource Manager</Link>
+            <Link href="/admin/import">Bulk import</Link>
+            <Link href="/admin/jobs">Jobs</Link>
+            <Link href="/admin/storage">Storage</Link>
             <Link href="/admin/email">Email</Link>
           </nav>
         </div>
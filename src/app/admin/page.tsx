@@ -3,7 +3,7 @@ import { db } from "~/server/db";
 export default async function AdminStatsPage() {
   const [userCount, modelCount] = await Promise.all([
     db.user.count(),
-    db.model.count(),
+    db.model.count({ where: { deletedAt: null } }),
   ]);
 
   return (
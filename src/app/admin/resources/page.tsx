@@ -1,6 +1,11 @@
 import { HydrateClient } from "~/trpc/server";
 import ShareCreatorClient from "~/components/share/ShareCreatorClient";
 import UploadPanel from "~/components/admin/UploadPanel";
+import ModelVersionsPanel from "~/components/admin/ModelVersionsPanel";
+import AnnotationEditor from "~/components/admin/AnnotationEditor";
+import ViewpointEditor from "~/components/admin/ViewpointEditor";
+import TrashPanel from "~/components/admin/TrashPanel";
+import { env } from "~/env";
 
 export default function ResourcesPage() {
   return (
@@ -16,8 +21,30 @@ export default function ResourcesPage() {
           </section>
           <section className="rounded-md border p-4">
             <h2 className="mb-3 text-lg font-semibold">Upload Assets</h2>
-            <p className="mb-2 opacity-80">Upload GLB/USDZ via UploadThing.</p>
-            <UploadPanel />
+            <p className="mb-2 opacity-80">
+              {env.STORAGE_DRIVER === "uploadthing"
+                ? "Upload GLB/USDZ via UploadThing."
+                : `Upload GLB/USDZ to ${env.STORAGE_DRIVER} storage.`}
+            </p>
+            <UploadPanel direct={env.STORAGE_DRIVER !== "uploadthing"} />
+          </section>
+          <section className="rounded-md border p-4">
+            <h2 className="mb-3 text-lg font-semibold">Model Versions</h2>
+            <ModelVersionsPanel direct={env.STORAGE_DRIVER !== "uploadthing"} />
+          </section>
+          <section className="rounded-md border p-4">
+            <h2 className="mb-3 text-lg font-semibold">Annotations</h2>
+            <AnnotationEditor />
+          </section>
+          <section className="rounded-md border p-4">
+            <h2 className="mb-3 text-lg font-semibold">
+              Viewpoints &amp; Tours
+            </h2>
+            <ViewpointEditor />
+          </section>
+          <section className="rounded-md border p-4">
+            <h2 className="mb-3 text-lg font-semibold">Trash</h2>
+            <TrashPanel />
           </section>
         </div>
       </div>
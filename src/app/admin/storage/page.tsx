@@ -0,0 +1,22 @@
+import { HydrateClient } from "~/trpc/server";
+import StoragePanel from "~/components/admin/StoragePanel";
+import { env } from "~/env";
+
+export default function AdminStoragePage() {
+  return (
+    <HydrateClient>
+      <div className="space-y-4">
+        <h1 className="[font-family:var(--font-display)] text-2xl">Storage</h1>
+        <p className="opacity-80">
+          Default quotas: users {env.QUOTA_USER_MB || "unlimited"} MB /{" "}
+          {env.QUOTA_USER_MODELS || "unlimited"} models, employees{" "}
+          {env.QUOTA_EMPLOYEE_MB || "unlimited"} MB /{" "}
+          {env.QUOTA_EMPLOYEE_MODELS || "unlimited"} models, admins{" "}
+          {env.QUOTA_ADMIN_MB || "unlimited"} MB /{" "}
+          {env.QUOTA_ADMIN_MODELS || "unlimited"} models.
+        </p>
+        <StoragePanel />
+      </div>
+    </HydrateClient>
+  );
+}
@@ -1,4 +1,5 @@
 import { api } from "~/trpc/server";
+import TransferOwnershipPanel from "~/components/admin/TransferOwnershipPanel";
 import { Button } from "~/components/ui/button";
 
 export default async function AdminUsersPage() {
@@ -50,6 +51,9 @@ export default async function AdminUsersPage() {
           </tbody>
         </table>
       </div>
+      <TransferOwnershipPanel
+        users={users.map(({ id, name, email }) => ({ id, name, email }))}
+      />
     </div>
   );
 }
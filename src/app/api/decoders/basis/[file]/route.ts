@@ -0,0 +1,32 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { NextResponse, type NextRequest } from "next/server";
+
+const BASIS_DIR = path.join(
+  process.cwd(),
+  "node_modules/three/examples/jsm/libs/basis",
+);
+const FILES: Record<string, string> = {
+  "basis_transcoder.js": "text/javascript",
+  "basis_transcoder.wasm": "application/wasm",
+};
+
+/**
+ * The Basis Universal transcoder the viewer's `KTX2Loader` runs, served from the installed three
+ * rather than a CDN so it updates with the app.
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ file: string }> },
+) {
+  const { file } = await params;
+  const contentType = FILES[file];
+  if (!contentType) return new NextResponse("Not found", { status: 404 });
+  const body = await readFile(path.join(BASIS_DIR, file));
+  return new NextResponse(new Uint8Array(body), {
+    headers: {
+      "Content-Type": contentType,
+      "Cache-Control": "public, max-age=86400",
+    },
+  });
+}
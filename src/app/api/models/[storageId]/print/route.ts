@@ -0,0 +1,115 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { z } from "zod";
+import { auth } from "~/server/auth";
+import { findModelAsset, hasDownloadAccess } from "~/server/assets/access";
+import { GlbValidationError } from "~/server/gltf/glb";
+import {
+  MAX_PRINT_SIZE_MM,
+  preparePrintOnce,
+  PRINT_FORMATS,
+  PRINT_MAX_BYTES,
+  PrintExportError,
+  scalePrint,
+  to3mf,
+  toStl,
+} from "~/server/gltf/print";
+import { storage } from "~/server/storage";
+import { readAll } from "~/server/storage/utils";
+
+const querySchema = z.object({
+  // Without a format the route answers with the report only
+  format: z.enum(PRINT_FORMATS).optional(),
+  size: z.coerce.number().positive().max(MAX_PRINT_SIZE_MM).optional(),
+  mesh: z.coerce.number().int().min(0).optional(),
+});
+
+const PRINT_CONTENT_TYPES = {
+  stl: "model/stl",
+  "3mf": "model/3mf",
+} as const;
+
+/**
+ * Converts a model's GLB for 3D printing. `?format=stl|3mf` downloads the file, `size` scales the
+ * longest side to that many millimetres and `mesh` exports one mesh by index; otherwise the model
+ * prints at its real size. Without `format` it returns the meshes, the resulting size and the
+ * manifold check as JSON, for the print dialog, which then downloads from the same preparation.
+ * Its owner, staff and anyone its download policy allows may export it; a signed viewer link is
+ * not enough.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ storageId: string }> },
+) {
+  const { storageId } = await params;
+  const { searchParams } = new URL(req.url);
+  const parsed = querySchema.safeParse(
+    Object.fromEntries(
+      ["format", "size", "mesh"].flatMap((k) => {
+        const value = searchParams.get(k);
+        return value ? [[k, value]] : [];
+      }),
+    ),
+  );
+  if (!parsed.success) {
+    return NextResponse.json({ error: "invalid request" }, { status: 400 });
+  }
+  const { format, size, mesh } = parsed.data;
+
+  const session = await auth();
+  const lookup = await findModelAsset(storageId, session);
+  if (lookup.status === "not_found") {
+    return NextResponse.json({ error: "not found" }, { status: 404 });
+  }
+  if (
+    lookup.status === "forbidden" ||
+    !hasDownloadAccess(session, lookup.model)
+  ) {
+    return NextResponse.json({ error: "forbidden" }, { status: 403 });
+  }
+  if (lookup.kind !== "glb") {
+    return NextResponse.json(
+      { error: "only GLB models can be exported for printing" },
+      { status: 415 },
+    );
+  }
+
+  const object = await storage.stat(storageId).catch(() => null);
+  if (!object) {
+    return NextResponse.json({ error: "not found" }, { status: 404 });
+  }
+  if (object.size > PRINT_MAX_BYTES) {
+    return NextResponse.json({ error: "model too large" }, { status: 413 });
+  }
+
+  try {
+    const prepared = await preparePrintOnce(
+      storageId,
+      async () => readAll(await storage.stream(storageId)),
+      { mesh, metersPerUnit: lookup.model.metersPerUnit },
+    );
+    const { solid, report } = scalePrint(prepared, size);
+    if (!format) return NextResponse.json(report);
+
+    const title = lookup.model.title;
+    const body = format === "stl" ? toStl(solid) : to3mf(solid, title);
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": PRINT_CONTENT_TYPES[format],
+        "Content-Length": String(body.byteLength),
+        "Content-Disposition": `attachment; filename="${encodeURIComponent(title)}.${format}"`,
+        "Cache-Control": "private, max-age=3600",
+      },
+    });
+  } catch (err) {
+    if (err instanceof PrintExportError) {
+      return NextResponse.json({ error: err.message }, { status: 422 });
+    }
+    if (err instanceof GlbValidationError) {
+      return NextResponse.json(
+        { error: `Invalid GLB: ${err.message}` },
+        { status: 422 },
+      );
+    }
+    throw err;
+  }
+}
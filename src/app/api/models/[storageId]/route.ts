@@ -0,0 +1,18 @@
+import type { NextRequest } from "next/server";
+import { serveModelAsset } from "~/server/assets/serve";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ storageId: string }> },
+) {
+  const { storageId } = await params;
+  return serveModelAsset(req, storageId, "GET", false);
+}
+
+export async function HEAD(
+  req: NextRequest,
+  { params }: { params: Promise<{ storageId: string }> },
+) {
+  const { storageId } = await params;
+  return serveModelAsset(req, storageId, "HEAD", false);
+}
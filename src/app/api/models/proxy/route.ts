@@ -1,33 +1,46 @@
-import { NextRequest, NextResponse } from "next/server";
-
-const ALLOWED_HOSTS = new Set([
-	"t3rgh6yjwx.ufs.sh",
-]);
+import { type NextRequest, NextResponse } from "next/server";
+import { auth } from "~/server/auth";
+import { findModelAsset, requiresSignedUrl } from "~/server/assets/access";
+import { resolveStorageUrl } from "~/server/storage";
 
 export async function GET(req: NextRequest) {
 	const { searchParams } = new URL(req.url);
 	const url = searchParams.get("url");
 	if (!url) return new NextResponse("Missing url", { status: 400 });
+	const resolved = resolveStorageUrl(url);
+	if (!resolved) {
+		return new NextResponse("Forbidden host", { status: 403 });
+	}
+	// Files of a model follow its access rules; other files on allowed hosts stay public
+	const session = await auth();
+	const lookup = await findModelAsset(resolved.key, session);
+	if (
+		lookup.status === "forbidden" ||
+		(lookup.status === "ok" && requiresSignedUrl(session, lookup.model))
+	) {
+		return new NextResponse("Forbidden", { status: 403 });
+	}
+	const cacheable =
+		lookup.status === "not_found" ||
+		(lookup.shared && lookup.model.downloadPolicy === "ALLOWED");
 	try {
-		const u = new URL(url);
-		if (!ALLOWED_HOSTS.has(u.host)) {
-			return new NextResponse("Forbidden host", { status: 403 });
-		}
-		const upstream = await fetch(url, { cache: "no-store" });
-		if (!upstream.ok || !upstream.body) {
-			return new NextResponse("Upstream error", { status: upstream.status || 502 });
-		}
-		const res = new NextResponse(upstream.body, {
+		const object = await resolved.driver.stat(resolved.key);
+		if (!object) return new NextResponse("Not found", { status: 404 });
+		const body = await resolved.driver.stream(resolved.key);
+		const res = new NextResponse(body, {
 			status: 200,
 			headers: {
-				"Content-Type": upstream.headers.get("content-type") ?? "application/octet-stream",
+				"Content-Type": object.contentType ?? "application/octet-stream",
+				"Content-Length": String(object.size),
 				"Access-Control-Allow-Origin": "*",
-				"Cache-Control": "public, max-age=3600, s-maxage=3600",
+				"Cache-Control": cacheable
+					? "public, max-age=3600, s-maxage=3600"
+					: "private, max-age=3600",
 			},
 		});
 		return res;
 	} catch {
-		return new NextResponse("Bad Request", { status: 400 });
+		return new NextResponse("Upstream error", { status: 502 });
 	}
 }
 
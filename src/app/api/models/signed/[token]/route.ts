@@ -0,0 +1,30 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { serveModelAsset } from "~/server/assets/serve";
+import { openAssetToken } from "~/server/storage/signing";
+
+/** Serves a model's file through a link made by `signedAssetPath`, until it expires. */
+async function handle(
+  req: NextRequest,
+  params: Promise<{ token: string }>,
+  method: "GET" | "HEAD",
+) {
+  const storageId = openAssetToken((await params).token);
+  if (!storageId) {
+    return new NextResponse("Link expired or invalid", { status: 403 });
+  }
+  return serveModelAsset(req, storageId, method, true);
+}
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ token: string }> },
+) {
+  return handle(req, params, "GET");
+}
+
+export async function HEAD(
+  req: NextRequest,
+  { params }: { params: Promise<{ token: string }> },
+) {
+  return handle(req, params, "HEAD");
+}
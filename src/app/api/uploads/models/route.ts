@@ -0,0 +1,111 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { auth } from "~/server/auth";
+import { db } from "~/server/db";
+import { GlbValidationError } from "~/server/gltf/glb";
+import { ModelImportError } from "~/server/gltf/import";
+import { canManageModel } from "~/server/models/access";
+import { assertWithinQuota, QuotaExceededError } from "~/server/models/quota";
+import { storage } from "~/server/storage";
+import {
+  isModelUpload,
+  MAX_MODEL_BYTES,
+  recordModelUpload,
+} from "~/server/uploads/models";
+
+/**
+ * Direct model upload for the local and S3 storage drivers. The client sends the raw file as the
+ * request body with `?name=` set to the original file name (its extension selects the import
+ * format for non-GLB files) (and `?modelId=` for a new version,
+ * `?optimize=1` to build a web-optimized derivative), mirroring the UploadThing endpoint.
+ */
+export async function POST(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+  }
+  if (storage.name === "uploadthing") {
+    return NextResponse.json(
+      { error: "uploads go through UploadThing" },
+      { status: 400 },
+    );
+  }
+
+  const { searchParams } = new URL(req.url);
+  const name = searchParams.get("name") ?? "model.glb";
+  // Optional: upload a new version of an existing model
+  const modelId = searchParams.get("modelId") ?? undefined;
+  const optimize = searchParams.get("optimize") === "1";
+  // New versions count against the model owner's quota
+  let ownerId = session.user.id;
+  if (modelId) {
+    const model = await db.model.findFirst({
+      where: { id: modelId, deletedAt: null },
+    });
+    if (!model || !canManageModel(session, model)) {
+      return NextResponse.json({ error: "forbidden" }, { status: 403 });
+    }
+    ownerId = model.ownerId;
+  }
+  const type = req.headers.get("content-type") ?? "application/octet-stream";
+  if (!isModelUpload(name, type)) {
+    return NextResponse.json({ error: "unsupported type" }, { status: 415 });
+  }
+  const size = Number(req.headers.get("content-length") ?? NaN);
+  if (!Number.isFinite(size) || size <= 0) {
+    return NextResponse.json({ error: "length required" }, { status: 411 });
+  }
+  if (size > MAX_MODEL_BYTES) {
+    return NextResponse.json({ error: "file too large" }, { status: 413 });
+  }
+  if (!req.body) {
+    return NextResponse.json({ error: "empty body" }, { status: 400 });
+  }
+  try {
+    await assertWithinQuota(ownerId, { bytes: size, newModel: !modelId });
+  } catch (err) {
+    if (err instanceof QuotaExceededError) {
+      return NextResponse.json({ error: err.message }, { status: 413 });
+    }
+    throw err;
+  }
+
+  const stored = await storage.put(req.body, { name, contentType: type, size });
+  try {
+    const model = await recordModelUpload({
+      userId: session.user.id,
+      key: stored.key,
+      name,
+      type,
+      modelId,
+      optimize,
+    });
+    return NextResponse.json({
+      key: model.key,
+      url: `/api/models/${model.key}`,
+      type,
+      modelId: model.id,
+      meshCount: model.meshCount,
+      triangleCount: model.triangleCount,
+      textureCount: model.textureCount,
+      sizeBytes: model.sizeBytes,
+      sha256: model.sha256,
+      deduplicated: model.deduplicated,
+      sourceFormat: model.sourceFormat,
+      importWarnings: model.importWarnings,
+    });
+  } catch (err) {
+    if (err instanceof GlbValidationError) {
+      return NextResponse.json(
+        { error: `Invalid GLB: ${err.message}` },
+        { status: 422 },
+      );
+    }
+    if (err instanceof ModelImportError) {
+      return NextResponse.json(
+        { error: `Could not convert: ${err.message}` },
+        { status: 422 },
+      );
+    }
+    throw err;
+  }
+}
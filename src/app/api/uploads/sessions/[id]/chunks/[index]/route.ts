@@ -0,0 +1,45 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { auth } from "~/server/auth";
+import {
+  getUploadSession,
+  putChunk,
+  readChunk,
+  UploadSessionError,
+} from "~/server/uploads/resumable";
+
+/**
+ * Receives one chunk of a resumable upload as the raw request body. The client sends the chunk's
+ * SHA-256 as `Upload-Checksum: sha256 <base64>`; a mismatch answers 422 and the chunk is resent.
+ */
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; index: string }> },
+) {
+  const { id, index } = await params;
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+  }
+  const checksum = /^sha256 (\S+)$/.exec(
+    req.headers.get("upload-checksum") ?? "",
+  )?.[1];
+  if (!checksum) {
+    return NextResponse.json({ error: "checksum required" }, { status: 400 });
+  }
+  try {
+    const upload = await getUploadSession(id, session.user.id);
+    // Refuse oversized bodies before reading them
+    const length = Number(req.headers.get("content-length") ?? NaN);
+    if (Number.isFinite(length) && length > upload.chunkSize) {
+      return NextResponse.json({ error: "chunk too large" }, { status: 413 });
+    }
+    const bytes = await readChunk(upload, req.body);
+    await putChunk(upload, Number(index), bytes, checksum);
+    return new NextResponse(null, { status: 204 });
+  } catch (err) {
+    if (err instanceof UploadSessionError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,95 @@
+import { NextResponse } from "next/server";
+import { auth } from "~/server/auth";
+import { db } from "~/server/db";
+import { GlbValidationError } from "~/server/gltf/glb";
+import { ModelImportError } from "~/server/gltf/import";
+import { assertWithinQuota, QuotaExceededError } from "~/server/models/quota";
+import { createBulkImport } from "~/server/uploads/bulk";
+import { recordModelUpload } from "~/server/uploads/models";
+import {
+  completeUploadSession,
+  getUploadSession,
+  UploadSessionError,
+} from "~/server/uploads/resumable";
+
+/**
+ * Joins the chunks of a resumable upload and records the model, answering like
+ * `/api/uploads/models`. A bulk import zip is queued for its dry run instead and answered with
+ * `{ importId }`.
+ */
+export async function POST(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+  }
+  try {
+    const upload = await getUploadSession(id, session.user.id);
+    // Checked again: other uploads may have used up the room there was when this one started
+    const target = upload.modelId
+      ? await db.model.findUnique({
+          where: { id: upload.modelId },
+          select: { ownerId: true },
+        })
+      : null;
+    await assertWithinQuota(target?.ownerId ?? session.user.id, {
+      bytes: upload.size,
+      newModel: !upload.modelId && upload.purpose === "model",
+    });
+    const key = await completeUploadSession(upload);
+    if (upload.purpose === "bulk-import") {
+      const bulk = await createBulkImport({
+        ownerId: session.user.id,
+        name: upload.name,
+        storageId: key,
+        optimize: upload.optimize,
+      });
+      return NextResponse.json({ importId: bulk.id });
+    }
+    const model = await recordModelUpload({
+      userId: session.user.id,
+      key,
+      name: upload.name,
+      type: upload.contentType,
+      modelId: upload.modelId ?? undefined,
+      optimize: upload.optimize,
+    });
+    return NextResponse.json({
+      key: model.key,
+      url: `/api/models/${model.key}`,
+      type: upload.contentType,
+      modelId: model.id,
+      meshCount: model.meshCount,
+      triangleCount: model.triangleCount,
+      textureCount: model.textureCount,
+      sizeBytes: model.sizeBytes,
+      sha256: model.sha256,
+      deduplicated: model.deduplicated,
+      sourceFormat: model.sourceFormat,
+      importWarnings: model.importWarnings,
+    });
+  } catch (err) {
+    if (err instanceof UploadSessionError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    if (err instanceof QuotaExceededError) {
+      return NextResponse.json({ error: err.message }, { status: 413 });
+    }
+    if (err instanceof GlbValidationError) {
+      return NextResponse.json(
+        { error: `Invalid GLB: ${err.message}` },
+        { status: 422 },
+      );
+    }
+    if (err instanceof ModelImportError) {
+      return NextResponse.json(
+        { error: `Could not convert: ${err.message}` },
+        { status: 422 },
+      );
+    }
+    throw err;
+  }
+}
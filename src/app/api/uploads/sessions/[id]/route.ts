@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { auth } from "~/server/auth";
+import {
+  abortUploadSession,
+  describeUploadSession,
+  getUploadSession,
+  UploadSessionError,
+} from "~/server/uploads/resumable";
+
+/** Which chunks of a resumable upload have arrived, so a client can pick up where it left off. */
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+  }
+  try {
+    const upload = await getUploadSession(id, session.user.id);
+    return NextResponse.json(describeUploadSession(upload));
+  } catch (err) {
+    if (err instanceof UploadSessionError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
+  }
+}
+
+/** Cancels a resumable upload and deletes the chunks received so far. */
+export async function DELETE(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+  }
+  try {
+    await getUploadSession(id, session.user.id);
+    await abortUploadSession(id);
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    if (err instanceof UploadSessionError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,92 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { z } from "zod";
+import { auth } from "~/server/auth";
+import { db } from "~/server/db";
+import { canManageModel } from "~/server/models/access";
+import { assertWithinQuota, QuotaExceededError } from "~/server/models/quota";
+import { BULK_IMPORT_MAX_BYTES } from "~/server/uploads/bulk";
+import { isModelUpload, MAX_MODEL_BYTES } from "~/server/uploads/models";
+import {
+  createUploadSession,
+  describeUploadSession,
+  getUploadSession,
+} from "~/server/uploads/resumable";
+
+const createSchema = z.object({
+  name: z.string().min(1).max(255),
+  size: z.number().int().positive(),
+  contentType: z.string().default("application/octet-stream"),
+  modelId: z.string().cuid().optional(),
+  optimize: z.boolean().optional(),
+  purpose: z.enum(["model", "bulk-import"]).default("model"),
+});
+
+/**
+ * Starts a resumable model upload. The client then sends the file in chunks to
+ * `/api/uploads/sessions/<id>/chunks/<index>` and finishes with `/complete`; see
+ * `~/server/uploads/resumable`. Works with every storage driver. Admins also send bulk import
+ * zips this way, with `purpose: "bulk-import"`.
+ */
+export async function POST(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+  }
+  const parsed = createSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "invalid request" }, { status: 400 });
+  }
+  const input = parsed.data;
+  if (input.purpose === "bulk-import") {
+    if (session.user.role !== "ADMIN") {
+      return NextResponse.json({ error: "forbidden" }, { status: 403 });
+    }
+    if (input.modelId || !input.name.toLowerCase().endsWith(".zip")) {
+      return NextResponse.json({ error: "unsupported type" }, { status: 415 });
+    }
+    if (input.size > BULK_IMPORT_MAX_BYTES) {
+      return NextResponse.json({ error: "file too large" }, { status: 413 });
+    }
+  } else if (!isModelUpload(input.name, input.contentType)) {
+    return NextResponse.json({ error: "unsupported type" }, { status: 415 });
+  } else if (input.size > MAX_MODEL_BYTES) {
+    return NextResponse.json({ error: "file too large" }, { status: 413 });
+  }
+  // New versions count against the model owner's quota
+  let ownerId = session.user.id;
+  if (input.modelId) {
+    const model = await db.model.findFirst({
+      where: { id: input.modelId, deletedAt: null },
+    });
+    if (!model || !canManageModel(session, model)) {
+      return NextResponse.json({ error: "forbidden" }, { status: 403 });
+    }
+    ownerId = model.ownerId;
+  }
+  try {
+    // A bulk import's models are counted by its dry run
+    await assertWithinQuota(ownerId, {
+      bytes: input.size,
+      newModel: !input.modelId && input.purpose === "model",
+    });
+  } catch (err) {
+    if (err instanceof QuotaExceededError) {
+      return NextResponse.json({ error: err.message }, { status: 413 });
+    }
+    throw err;
+  }
+
+  const created = await createUploadSession({
+    ownerId: session.user.id,
+    modelId: input.modelId,
+    name: input.name,
+    contentType: input.contentType,
+    size: input.size,
+    optimize: input.optimize ?? false,
+    purpose: input.purpose,
+  });
+  return NextResponse.json(
+    describeUploadSession(await getUploadSession(created.id, session.user.id)),
+    { status: 201 },
+  );
+}
@@ -0,0 +1,93 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { auth } from "~/server/auth";
+import { db } from "~/server/db";
+import { canManageModel } from "~/server/models/access";
+import { assertWithinQuota, QuotaExceededError } from "~/server/models/quota";
+import { storage } from "~/server/storage";
+import {
+  MAX_MODEL_BYTES,
+  USDZ_CONTENT_TYPES,
+  recordUsdzUpload,
+} from "~/server/uploads/models";
+import { UsdzValidationError } from "~/server/usdz/usdz";
+
+/**
+ * Direct USDZ companion upload for the local and S3 storage drivers. The raw file is the request
+ * body and `?modelId=` names the model whose current version it pairs with, mirroring the
+ * `usdzFiles` UploadThing endpoint.
+ */
+export async function POST(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+  }
+  if (storage.name === "uploadthing") {
+    return NextResponse.json(
+      { error: "uploads go through UploadThing" },
+      { status: 400 },
+    );
+  }
+
+  const { searchParams } = new URL(req.url);
+  const name = searchParams.get("name") ?? "model.usdz";
+  const modelId = searchParams.get("modelId");
+  if (!modelId) {
+    return NextResponse.json({ error: "modelId required" }, { status: 400 });
+  }
+  const model = await db.model.findFirst({
+    where: { id: modelId, deletedAt: null },
+  });
+  if (!model || !canManageModel(session, model)) {
+    return NextResponse.json({ error: "forbidden" }, { status: 403 });
+  }
+  const type = req.headers.get("content-type") ?? "application/octet-stream";
+  if (!USDZ_CONTENT_TYPES.includes(type)) {
+    return NextResponse.json({ error: "unsupported type" }, { status: 415 });
+  }
+  const size = Number(req.headers.get("content-length") ?? NaN);
+  if (!Number.isFinite(size) || size <= 0) {
+    return NextResponse.json({ error: "length required" }, { status: 411 });
+  }
+  if (size > MAX_MODEL_BYTES) {
+    return NextResponse.json({ error: "file too large" }, { status: 413 });
+  }
+  if (!req.body) {
+    return NextResponse.json({ error: "empty body" }, { status: 400 });
+  }
+  try {
+    await assertWithinQuota(model.ownerId, { bytes: size, newModel: false });
+  } catch (err) {
+    if (err instanceof QuotaExceededError) {
+      return NextResponse.json({ error: err.message }, { status: 413 });
+    }
+    throw err;
+  }
+
+  const stored = await storage.put(req.body, {
+    name,
+    contentType: "model/vnd.usdz+zip",
+    size,
+  });
+  try {
+    const updated = await recordUsdzUpload({
+      userId: session.user.id,
+      key: stored.key,
+      type,
+      modelId,
+    });
+    return NextResponse.json({
+      key: stored.key,
+      url: `/api/models/${stored.key}`,
+      modelId: updated.id,
+      usdzStorageId: updated.usdzStorageId,
+    });
+  } catch (err) {
+    if (err instanceof UsdzValidationError) {
+      return NextResponse.json(
+        { error: `Invalid USDZ: ${err.message}` },
+        { status: 422 },
+      );
+    }
+    throw err;
+  }
+}
@@ -1,7 +1,7 @@
 "use client";
 import DashboardClient from "~/components/dashboard/DashboardClient";
 
-type CardType = "markdown" | "model" | "video" | "pdf";
+type CardType = "markdown" | "model" | "video" | "pdf" | "collection";
 interface CardDef {
   id: string;
   type: CardType;
@@ -1,13 +1,14 @@
 import { redirect } from "next/navigation";
 import { auth } from "~/server/auth";
 import { HydrateClient, api } from "~/trpc/server";
+import StorageMeter from "~/components/dashboard/StorageMeter";
 import DashboardWrapper from "./_components/DashboardWrapper";
 
 export default async function DashboardPage() {
   const session = await auth();
   if (!session?.user) redirect("/api/auth/signin");
   const doc = await api.dashboard.getMine();
-  type CardType = "markdown" | "model" | "video" | "pdf";
+  type CardType = "markdown" | "model" | "video" | "pdf" | "collection";
   type DashboardContent = {
     cards: Array<{
       id: string;
@@ -48,6 +49,9 @@ export default async function DashboardPage() {
         <h1 className="mb-4 [font-family:var(--font-display)] text-3xl">
           Welcome {session.user.name ?? "User"}!
         </h1>
+        <div className="mb-6">
+          <StorageMeter />
+        </div>
         <DashboardWrapper initialContent={initialContent} />
       </main>
     </HydrateClient>
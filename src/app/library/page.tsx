@@ -0,0 +1,24 @@
+import { redirect } from "next/navigation";
+import ModelLibrary from "~/components/models/ModelLibrary";
+import { auth } from "~/server/auth";
+import { HydrateClient } from "~/trpc/server";
+
+export default async function LibraryPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ collection?: string }>;
+}) {
+  const { collection } = await searchParams;
+  const session = await auth();
+  if (!session?.user) redirect("/api/auth/signin");
+  return (
+    <HydrateClient>
+      <main className="mx-auto max-w-6xl px-4 py-8">
+        <h1 className="mb-4 [font-family:var(--font-display)] text-3xl">
+          Model Library
+        </h1>
+        <ModelLibrary initialCollectionId={collection ?? null} />
+      </main>
+    </HydrateClient>
+  );
+}
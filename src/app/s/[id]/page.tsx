@@ -1,24 +1,28 @@
 import { notFound } from "next/navigation";
+import CollectionGallery from "~/components/viewer/CollectionGallery";
+import DuplicateModelButton from "~/components/viewer/DuplicateModelButton";
 import ModelViewer from "~/components/viewer/ModelViewer";
 import { api } from "~/trpc/server";
 import SharePageClient from "./_components/SharePageClient";
 
+/**
+ * `?view=<id>` opens at a saved viewpoint and its cuts, `?tour=<id>` offers that tour first, and
+ * `?kiosk=1` plays it unattended on a loop, e.g. on a gallery screen.
+ */
 export default async function SharePage({
   params,
+  searchParams,
 }: {
   params: Promise<{ id: string }>;
+  searchParams: Promise<{ tour?: string; view?: string; kiosk?: string }>;
 }) {
   const resolvedParams = await params;
+  const { tour: tourId, view: viewpointId, kiosk } = await searchParams;
   const share = await api.share
     .get({ id: resolvedParams.id })
     .catch(() => null);
   if (!share) return notFound();
-  const modelUrl = share.model?.glbStorageId
-    ? `/api/models/${share.model.glbStorageId}`
-    : (share.modelUrl ?? "/Earth_Model.glb");
-  const usdzUrl = share.model?.usdzStorageId
-    ? `/api/models/${share.model.usdzStorageId}`
-    : "/Earth_Model.usdz";
+  const { model } = share;
 
   return (
     <main className="bg-background text-foreground min-h-screen">
@@ -31,7 +35,35 @@ export default async function SharePage({
         )}
 
         <div className="grid grid-cols-1 gap-6 md:grid-cols-[1fr_280px]">
-          <ModelViewer src={modelUrl} usdz={usdzUrl} title={share.title} background="dark" />
+          {share.collectionId ? (
+            <CollectionGallery
+              items={share.collectionModels}
+              tourId={tourId}
+              viewpointId={viewpointId}
+              kiosk={kiosk === "1"}
+            />
+          ) : (
+            <div className="space-y-3">
+              <ModelViewer
+                src={model?.src ?? share.modelUrl ?? "/Earth_Model.glb"}
+                originalSrc={model?.originalSrc}
+                usdz={model?.usdz}
+                title={model?.title ?? share.title}
+                background="dark"
+                credit={model?.credit}
+                downloadable={model?.downloadable ?? true}
+                annotations={model?.annotations}
+                viewpoints={model?.viewpoints}
+                tours={model?.tours}
+                tourId={tourId}
+                viewpointId={viewpointId}
+                kiosk={kiosk === "1"}
+                metersPerUnit={model?.metersPerUnit}
+                animationClip={share.animationClip}
+              />
+              {model?.copyable && <DuplicateModelButton modelId={model.id} />}
+            </div>
+          )}
           <SharePageClient
             shareUrl={`${process.env.PUB_URL ?? "http://localhost:3000"}/s/${resolvedParams.id}`}
           />
@@ -63,6 +63,10 @@ export default function TrecfPage() {
               src="https://t3rgh6yjwx.ufs.sh/f/DGcq4LQh6E89Co1yGNeldY0T6O4ZvbiLtsrpqA9PuzUwVMmx"
               usdz="https://t3rgh6yjwx.ufs.sh/f/DGcq4LQh6E89hu2KiSpvRJ2ubg0iEeqLh6flO9Pm5STDWYaB"
               background="studio"
+              credit={{
+                credit: "3DShipwrecks for Dean Richmond",
+                sourceUrl: "https://3dshipwrecks.org",
+              }}
             />
             <p className="mt-2 text-sm opacity-80">
               Dean Richmond was a 238–239 ft wooden propeller steamer (built
@@ -75,14 +79,6 @@ export default function TrecfPage() {
               >
                 Dean Richmond
               </a>
-              . Model courtesy of{" "}
-              <a
-                href="https://3dshipwrecks.org"
-                target="_blank"
-                className="underline"
-              >
-                3DShipwrecks
-              </a>
               .
             </p>
             <div className="mt-4 rounded-md bg-[color:var(--color-goals-bg)] p-4 text-[color:var(--color-header-text)]">
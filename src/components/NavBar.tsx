@@ -24,6 +24,7 @@ export default function NavBar() {
           <Link href="#features">Features</Link>
           <Link href="#contact">Contact</Link>
           {session?.user && <Link href="/dashboard">Dashboard</Link>}
+          {session?.user && <Link href="/library">Library</Link>}
           {isAdmin && <Link href="/admin">Admin</Link>}
           {!session?.user ? (
             <Link href="/auth/signin" className="underline">
@@ -80,6 +81,15 @@ export default function NavBar() {
                 Dashboard
               </Link>
             )}
+            {session?.user && (
+              <Link
+                onClick={() => setOpen(false)}
+                href="/library"
+                className="block"
+              >
+                Library
+              </Link>
+            )}
             {isAdmin && (
               <Link
                 onClick={() => setOpen(false)}
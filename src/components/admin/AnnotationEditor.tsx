@@ -0,0 +1,242 @@
+"use client";
+import { useState } from "react";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Textarea } from "~/components/ui/textarea";
+import ModelPicker, {
+  type LibraryModel,
+} from "~/components/models/ModelPicker";
+import ModelViewer from "~/components/viewer/ModelViewer";
+import type { Vec3, ViewerAnnotation } from "~/lib/annotations";
+import { api } from "~/trpc/react";
+
+function AnnotationForm({
+  annotation,
+  onSaved,
+}: {
+  annotation: ViewerAnnotation;
+  onSaved: () => void;
+}) {
+  const [title, setTitle] = useState(annotation.title);
+  const [body, setBody] = useState(annotation.body ?? "");
+  const [mediaUrl, setMediaUrl] = useState(annotation.mediaUrl ?? "");
+  const [error, setError] = useState<string | null>(null);
+  const utils = api.useUtils();
+  const update = api.annotation.update.useMutation({
+    onSuccess: async () => {
+      await utils.annotation.list.invalidate();
+      onSaved();
+    },
+    onError: (err) => setError(err.message),
+  });
+
+  return (
+    <form
+      className="space-y-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        setError(null);
+        update.mutate({
+          id: annotation.id,
+          title,
+          body: body.trim() ? body : null,
+          mediaUrl: mediaUrl.trim() ? mediaUrl.trim() : null,
+        });
+      }}
+    >
+      <Input
+        value={title}
+        maxLength={200}
+        placeholder="Title, e.g. The paddle wheel"
+        onChange={(e) => setTitle(e.target.value)}
+      />
+      <Textarea
+        rows={4}
+        value={body}
+        placeholder="Description (Markdown)"
+        onChange={(e) => setBody(e.target.value)}
+      />
+      <Input
+        value={mediaUrl}
+        placeholder="Image, video or page URL (optional)"
+        onChange={(e) => setMediaUrl(e.target.value)}
+      />
+      <Button
+        size="sm"
+        type="submit"
+        disabled={update.isPending || !title.trim()}
+      >
+        {update.isPending ? "Saving…" : "Save"}
+      </Button>
+      {error && <div className="text-sm text-red-600">{error}</div>}
+    </form>
+  );
+}
+
+/**
+ * Places hotspots on a model by clicking its surface, then edits their text, media and order.
+ * `placing` is "new" while adding a hotspot, or the id of one being moved to a new spot.
+ */
+export default function AnnotationEditor() {
+  const [model, setModel] = useState<LibraryModel | null>(null);
+  const [placing, setPlacing] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const modelId = model?.id ?? "";
+  const utils = api.useUtils();
+  const annotations = api.annotation.list.useQuery(
+    { modelId },
+    { enabled: !!modelId },
+  );
+  const onError = (err: { message: string }) => setError(err.message);
+  const create = api.annotation.create.useMutation({
+    onSuccess: async (created) => {
+      await utils.annotation.list.invalidate();
+      setEditingId(created.id);
+    },
+    onError,
+  });
+  const update = api.annotation.update.useMutation({
+    onSuccess: () => utils.annotation.list.invalidate(),
+    onError,
+  });
+  const reorder = api.annotation.reorder.useMutation({
+    onSuccess: () => utils.annotation.list.invalidate(),
+    onError,
+  });
+  const remove = api.annotation.remove.useMutation({
+    onSuccess: () => utils.annotation.list.invalidate(),
+    onError,
+  });
+
+  const list = annotations.data ?? [];
+  const place = (anchor: Vec3, normal: Vec3) => {
+    setError(null);
+    if (placing === "new") {
+      create.mutate({
+        modelId,
+        anchor,
+        normal,
+        title: `Hotspot ${list.length + 1}`,
+      });
+    } else if (placing) {
+      update.mutate({ id: placing, anchor, normal });
+    }
+    setPlacing(null);
+  };
+  const move = (index: number, by: number) => {
+    const ids = list.map((a) => a.id);
+    const [id] = ids.splice(index, 1);
+    ids.splice(index + by, 0, id!);
+    reorder.mutate({ modelId, ids });
+  };
+
+  return (
+    <div className="space-y-3">
+      <ModelPicker
+        value={model}
+        onChange={(m) => {
+          setModel(m);
+          setPlacing(null);
+          setEditingId(null);
+        }}
+      />
+      {model && (
+        <>
+          <ModelViewer
+            key={model.id}
+            src={`/api/models/${model.optimizedGlbStorageId ?? model.glbStorageId}`}
+            title={model.title}
+            metersPerUnit={model.metersPerUnit}
+            annotations={list}
+            onPlaceAnnotation={placing ? place : undefined}
+          />
+          <div className="flex items-center gap-2 text-sm">
+            <Button
+              size="sm"
+              variant={placing === "new" ? "secondary" : "default"}
+              disabled={create.isPending}
+              onClick={() => setPlacing(placing === "new" ? null : "new")}
+            >
+              {placing === "new" ? "Cancel" : "Add hotspot"}
+            </Button>
+            {placing && (
+              <span className="opacity-80">
+                Click the model where the hotspot should go.
+              </span>
+            )}
+          </div>
+          {error && <div className="text-sm text-red-600">{error}</div>}
+          {list.length === 0 && !annotations.isLoading && (
+            <div className="text-sm opacity-70">No hotspots yet.</div>
+          )}
+          <ol className="space-y-2">
+            {list.map((a, i) => (
+              <li
+                key={a.id}
+                className="space-y-2 rounded-md border p-3 text-sm"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span>
+                    <span className="font-semibold">{i + 1}.</span> {a.title}
+                  </span>
+                  <div className="flex shrink-0 gap-1">
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      disabled={i === 0 || reorder.isPending}
+                      onClick={() => move(i, -1)}
+                      title="Move up"
+                    >
+                      ↑
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      disabled={i === list.length - 1 || reorder.isPending}
+                      onClick={() => move(i, 1)}
+                      title="Move down"
+                    >
+                      ↓
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      onClick={() => setPlacing(placing === a.id ? null : a.id)}
+                    >
+                      {placing === a.id ? "Cancel" : "Re-place"}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      onClick={() =>
+                        setEditingId(editingId === a.id ? null : a.id)
+                      }
+                    >
+                      {editingId === a.id ? "Close" : "Edit"}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      disabled={remove.isPending}
+                      onClick={() => remove.mutate({ id: a.id })}
+                    >
+                      Delete
+                    </Button>
+                  </div>
+                </div>
+                {editingId === a.id && (
+                  <AnnotationForm
+                    key={a.id}
+                    annotation={a}
+                    onSaved={() => setEditingId(null)}
+                  />
+                )}
+              </li>
+            ))}
+          </ol>
+        </>
+      )}
+    </div>
+  );
+}
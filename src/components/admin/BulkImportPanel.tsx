@@ -0,0 +1,309 @@
+"use client";
+import { useEffect, useRef, useState } from "react";
+import { Button } from "~/components/ui/button";
+import { formatBytes } from "~/lib/format";
+import {
+  cancelResumable,
+  discardPendingUpload,
+  listPendingUploads,
+  type PendingUpload,
+  uploadResumable,
+} from "~/lib/resumableUpload";
+import { api, type RouterOutputs } from "~/trpc/react";
+
+type BulkImport = RouterOutputs["admin"]["listBulkImports"][number];
+
+const STATUS_LABELS: Record<BulkImport["status"], string> = {
+  VALIDATING: "Checking…",
+  INVALID: "Cannot be imported",
+  READY: "Ready to import",
+  IMPORTING: "Importing…",
+  DONE: "Imported",
+};
+
+function Messages({
+  items,
+  tone,
+}: {
+  items: string[];
+  tone: "error" | "warning";
+}) {
+  if (items.length === 0) return null;
+  return (
+    <ul
+      className={`list-disc pl-5 text-xs ${tone === "error" ? "text-red-600" : "text-amber-600"}`}
+    >
+      {items.map((m) => (
+        <li key={m}>{m}</li>
+      ))}
+    </ul>
+  );
+}
+
+/** The dry-run report of one import, and what was created once it has run. */
+function BulkImportCard({ bulk }: { bulk: BulkImport }) {
+  const utils = api.useUtils();
+  const [error, setError] = useState<string | null>(null);
+  const start = api.admin.startBulkImport.useMutation({
+    onSuccess: () => utils.admin.listBulkImports.invalidate(),
+    onError: (err) => setError(err.message),
+  });
+  const discard = api.admin.discardBulkImport.useMutation({
+    onSuccess: () => utils.admin.listBulkImports.invalidate(),
+    onError: (err) => setError(err.message),
+  });
+  const report = bulk.report;
+  const results = new Map(bulk.results.map((r) => [r.row, r]));
+  const importable = report?.items.filter((i) => i.errors.length === 0) ?? [];
+
+  return (
+    <div className="space-y-3 rounded-md border p-3 text-sm">
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <div>
+          <strong>{bulk.name}</strong>{" "}
+          <span className="opacity-70">
+            · {STATUS_LABELS[bulk.status]} · {bulk.createdAt.toLocaleString()}
+            {bulk.owner.name && ` · ${bulk.owner.name}`}
+            {bulk.optimize && " · optimized"}
+          </span>
+        </div>
+        <div className="flex gap-2">
+          {bulk.status === "READY" && (
+            <Button
+              size="sm"
+              disabled={start.isPending}
+              onClick={() => {
+                setError(null);
+                start.mutate({ id: bulk.id });
+              }}
+            >
+              Import {importable.length} models
+            </Button>
+          )}
+          {bulk.status !== "IMPORTING" && bulk.status !== "VALIDATING" && (
+            <Button
+              size="sm"
+              variant="ghost"
+              disabled={discard.isPending}
+              onClick={() => discard.mutate({ id: bulk.id })}
+            >
+              {bulk.status === "DONE" ? "Remove" : "Discard"}
+            </Button>
+          )}
+        </div>
+      </div>
+      {error && <div className="text-red-600">{error}</div>}
+      {report && (
+        <>
+          <Messages items={report.errors} tone="error" />
+          <Messages items={report.warnings} tone="warning" />
+          {report.items.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-xs">
+                <thead>
+                  <tr className="bg-muted/50 text-left">
+                    <th className="p-2">Row</th>
+                    <th className="p-2">File</th>
+                    <th className="p-2">Title</th>
+                    <th className="p-2">Tags</th>
+                    <th className="p-2">Collection</th>
+                    <th className="p-2">Size</th>
+                    <th className="p-2">Result</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.items.map((item) => {
+                    const result = results.get(item.row);
+                    return (
+                      <tr key={item.row} className="border-t align-top">
+                        <td className="p-2">{item.row}</td>
+                        <td className="max-w-xs p-2 font-mono break-words">
+                          {item.path ?? item.file}
+                        </td>
+                        <td className="p-2">{item.title}</td>
+                        <td className="p-2">{item.tags.join(", ")}</td>
+                        <td className="p-2">
+                          {item.collection}
+                          {item.newCollection && (
+                            <span className="opacity-70"> (new)</span>
+                          )}
+                        </td>
+                        <td className="p-2 whitespace-nowrap">
+                          {formatBytes(item.sizeBytes)}
+                        </td>
+                        <td className="max-w-sm p-2">
+                          {result?.modelId && (
+                            <span className="text-green-700">Created</span>
+                          )}
+                          {result?.error && (
+                            <span className="text-red-600">{result.error}</span>
+                          )}
+                          {!result && item.errors.length === 0 && (
+                            <span className="opacity-70">
+                              {bulk.status === "DONE" ? "—" : "OK"}
+                            </span>
+                          )}
+                          <Messages items={item.errors} tone="error" />
+                          <Messages items={item.warnings} tone="warning" />
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Uploads a zip of models with a manifest, shows its dry-run report and imports it in the
+ * background once confirmed.
+ */
+export default function BulkImportPanel() {
+  const utils = api.useUtils();
+  const { data: imports } = api.admin.listBulkImports.useQuery(undefined, {
+    // Poll while a dry run or import is running
+    refetchInterval: (query) =>
+      query.state.data?.some(
+        (b) => b.status === "VALIDATING" || b.status === "IMPORTING",
+      )
+        ? 3000
+        : false,
+  });
+  const [optimize, setOptimize] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [progress, setProgress] = useState({ sent: 0, total: 0 });
+  const [paused, setPaused] = useState(false);
+  const controller = useRef<AbortController | null>(null);
+  const [pending, setPending] = useState<PendingUpload[]>([]);
+  useEffect(() => setPending(listPendingUploads("bulk-import")), []);
+
+  async function upload(f: File) {
+    const abort = new AbortController();
+    controller.current = abort;
+    setFile(f);
+    setPaused(false);
+    setError(null);
+    try {
+      await uploadResumable<{ importId: string }>(f, {
+        optimize,
+        purpose: "bulk-import",
+        signal: abort.signal,
+        onProgress: (sent, total) => setProgress({ sent, total }),
+      });
+      setFile(null);
+      await utils.admin.listBulkImports.invalidate();
+    } catch (err) {
+      if (abort.signal.aborted) setPaused(true);
+      else setError(err instanceof Error ? err.message : "Upload failed");
+    } finally {
+      setPending(listPendingUploads("bulk-import"));
+    }
+  }
+
+  async function cancel() {
+    if (!file) return;
+    controller.current?.abort();
+    await cancelResumable(file, undefined, "bulk-import");
+    setFile(null);
+    setPending(listPendingUploads("bulk-import"));
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm opacity-80">
+        Zip the model files with a <code>manifest.csv</code> or{" "}
+        <code>manifest.json</code>. Columns: <code>file</code> (path inside the
+        zip, relative to the manifest), <code>title</code>,{" "}
+        <code>description</code>, <code>credit</code>, <code>tags</code>{" "}
+        (separated by <code>;</code>) and <code>collection</code> (the title of
+        one of your collections, created when missing). The zip is checked
+        first; nothing is created until you start the import.
+      </p>
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={optimize}
+          onChange={(e) => setOptimize(e.target.checked)}
+        />
+        Optimize for web viewing (compressed geometry, WebP textures)
+      </label>
+      <input
+        type="file"
+        accept=".zip,application/zip"
+        disabled={!!file && !paused}
+        onChange={(e) => {
+          const f = e.target.files?.[0];
+          if (f) void upload(f);
+          e.target.value = "";
+        }}
+      />
+      {file && (
+        <div className="space-y-2 rounded-md border p-3 text-sm">
+          <div className="flex justify-between gap-4">
+            <span className="truncate">{file.name}</span>
+            <span className="shrink-0 opacity-70">
+              {formatBytes(progress.sent)} of {formatBytes(progress.total)}
+              {paused && " · paused"}
+            </span>
+          </div>
+          <progress
+            className="w-full"
+            max={progress.total || 1}
+            value={progress.sent}
+          />
+          <div className="flex gap-2">
+            {paused ? (
+              <Button size="sm" onClick={() => void upload(file)}>
+                Resume
+              </Button>
+            ) : (
+              <Button
+                size="sm"
+                variant="secondary"
+                onClick={() => controller.current?.abort()}
+              >
+                Pause
+              </Button>
+            )}
+            <Button size="sm" variant="ghost" onClick={() => void cancel()}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+      {!file &&
+        pending.map((p) => (
+          <div
+            key={p.id}
+            className="flex items-center justify-between gap-2 rounded-md border p-2 text-sm"
+          >
+            <span>
+              Unfinished upload of <strong>{p.name}</strong> (
+              {formatBytes(p.receivedBytes)} of {formatBytes(p.size)}). Choose
+              the same file to resume.
+            </span>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={async () => {
+                await discardPendingUpload(p.id);
+                setPending(listPendingUploads("bulk-import"));
+              }}
+            >
+              Discard
+            </Button>
+          </div>
+        ))}
+      {error && <div className="text-sm text-red-600">{error}</div>}
+      {imports?.map((bulk) => (
+        <BulkImportCard key={bulk.id} bulk={bulk} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+import { useState } from "react";
+import { Button } from "~/components/ui/button";
+import { api } from "~/trpc/react";
+
+const STATUSES = ["FAILED", "PENDING", "RUNNING", "COMPLETED"] as const;
+type Status = (typeof STATUSES)[number];
+
+/** Background jobs by status; failed jobs show their last error and can be queued again. */
+export default function JobsPanel() {
+  const utils = api.useUtils();
+  const [status, setStatus] = useState<Status>("FAILED");
+  const [error, setError] = useState<string | null>(null);
+  const { data: counts } = api.admin.jobCounts.useQuery(undefined, {
+    refetchInterval: 5000,
+  });
+  const { data: jobs, isLoading } = api.admin.listJobs.useQuery(
+    { status },
+    { refetchInterval: 5000 },
+  );
+  const retry = api.admin.retryJob.useMutation({
+    onSuccess: () => utils.admin.invalidate(),
+    onError: (err) => setError(err.message),
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {STATUSES.map((s) => (
+          <Button
+            key={s}
+            size="sm"
+            variant={s === status ? "default" : "secondary"}
+            onClick={() => setStatus(s)}
+          >
+            {s} ({counts?.[s] ?? 0})
+          </Button>
+        ))}
+      </div>
+      {error && <div className="text-sm text-red-600">{error}</div>}
+      <div className="overflow-x-auto rounded-md border">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="bg-muted/50 text-left">
+              <th className="p-2">Type</th>
+              <th className="p-2">Payload</th>
+              <th className="p-2">Attempts</th>
+              <th className="p-2">Updated</th>
+              <th className="p-2">Last error</th>
+              <th className="p-2">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {jobs?.map((job) => (
+              <tr key={job.id} className="border-t align-top">
+                <td className="p-2 font-mono">{job.type}</td>
+                <td className="max-w-xs truncate p-2 font-mono text-xs">
+                  {JSON.stringify(job.payload)}
+                </td>
+                <td className="p-2">
+                  {job.attempts}/{job.maxAttempts}
+                </td>
+                <td className="p-2 whitespace-nowrap">
+                  {job.updatedAt.toLocaleString()}
+                </td>
+                <td className="max-w-md p-2 break-words text-red-600">
+                  {job.lastError}
+                </td>
+                <td className="p-2">
+                  {job.status === "FAILED" && (
+                    <Button
+                      size="sm"
+                      disabled={retry.isPending}
+                      onClick={() => {
+                        setError(null);
+                        retry.mutate({ id: job.id });
+                      }}
+                    >
+                      Retry
+                    </Button>
+                  )}
+                </td>
+              </tr>
+            ))}
+            {!isLoading && jobs?.length === 0 && (
+              <tr>
+                <td className="p-2 opacity-70" colSpan={6}>
+                  No {status.toLowerCase()} jobs.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
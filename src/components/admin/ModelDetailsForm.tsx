@@ -0,0 +1,226 @@
+"use client";
+import { useState } from "react";
+import type { DownloadPolicy, ModelLicense } from "@prisma/client";
+import type { LibraryModel } from "~/components/models/ModelPicker";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { Textarea } from "~/components/ui/textarea";
+import {
+  DOWNLOAD_POLICIES,
+  DOWNLOAD_POLICY_VALUES,
+} from "~/lib/downloadPolicies";
+import { LICENSE_VALUES, LICENSES } from "~/lib/licenses";
+import { SCALE_UNITS, type ScaleUnit } from "~/lib/measurements";
+import { api } from "~/trpc/react";
+
+/** Empty inputs clear the field rather than storing blank strings. */
+function orNull(value: string) {
+  return value.trim() ? value.trim() : null;
+}
+
+/** A saved scale in the unit it was most likely entered in, e.g. 0.3048 m as 1 ft. */
+function scaleInUnits(metersPerUnit: number | null) {
+  if (!metersPerUnit) return { value: "", unit: "m" as ScaleUnit };
+  const unit =
+    (Object.keys(SCALE_UNITS) as ScaleUnit[]).find(
+      (u) => Math.abs(metersPerUnit / SCALE_UNITS[u].meters - 1) < 1e-9,
+    ) ?? "m";
+  return {
+    value: String(metersPerUnit / SCALE_UNITS[unit].meters),
+    unit,
+  };
+}
+
+/**
+ * Title, description, license, download policy, credit and real-world scale of a model; shown
+ * wherever the model is shared.
+ */
+export default function ModelDetailsForm({ model }: { model: LibraryModel }) {
+  const utils = api.useUtils();
+  const [title, setTitle] = useState(model.title);
+  const [description, setDescription] = useState(model.description ?? "");
+  const [license, setLicense] = useState<ModelLicense | "">(
+    model.license ?? "",
+  );
+  const [downloadPolicy, setDownloadPolicy] = useState<DownloadPolicy>(
+    model.downloadPolicy,
+  );
+  const [credit, setCredit] = useState(model.credit ?? "");
+  const [sourceUrl, setSourceUrl] = useState(model.sourceUrl ?? "");
+  const [acknowledgements, setAcknowledgements] = useState(
+    model.acknowledgements ?? "",
+  );
+  const [tags, setTags] = useState(model.tags.join(", "));
+  const [scale, setScale] = useState(() => scaleInUnits(model.metersPerUnit));
+  const [error, setError] = useState<string | null>(null);
+  const update = api.model.update.useMutation({
+    onError: (err) => setError(err.message),
+  });
+  const saveTags = api.model.setTags.useMutation({
+    onError: (err) => setError(err.message),
+  });
+
+  return (
+    <form
+      className="space-y-3 rounded-md border p-3 text-sm"
+      onSubmit={async (e) => {
+        e.preventDefault();
+        setError(null);
+        try {
+          await update.mutateAsync({
+            id: model.id,
+            title,
+            description: orNull(description),
+            license: license || null,
+            credit: orNull(credit),
+            sourceUrl: orNull(sourceUrl),
+            acknowledgements: orNull(acknowledgements),
+            downloadPolicy,
+            metersPerUnit: scale.value
+              ? Number(scale.value) * SCALE_UNITS[scale.unit].meters
+              : null,
+          });
+          await saveTags.mutateAsync({
+            modelId: model.id,
+            tags: tags.split(","),
+          });
+          await utils.model.invalidate();
+        } catch {
+          // Shown through onError
+        }
+      }}
+    >
+      <div className="space-y-2">
+        <Label htmlFor="model-title">Title</Label>
+        <Input
+          id="model-title"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          required
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="model-description">Description</Label>
+        <Textarea
+          id="model-description"
+          rows={2}
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="model-license">License</Label>
+        <select
+          id="model-license"
+          className="bg-background w-full rounded-md border p-2"
+          value={license}
+          onChange={(e) => setLicense(e.target.value as ModelLicense | "")}
+        >
+          <option value="">Not specified</option>
+          {LICENSE_VALUES.map((value) => (
+            <option key={value} value={value}>
+              {LICENSES[value].label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="model-download-policy">Downloads</Label>
+        <select
+          id="model-download-policy"
+          className="bg-background w-full rounded-md border p-2"
+          value={downloadPolicy}
+          onChange={(e) => setDownloadPolicy(e.target.value as DownloadPolicy)}
+        >
+          {DOWNLOAD_POLICY_VALUES.map((value) => (
+            <option key={value} value={value}>
+              {DOWNLOAD_POLICIES[value].label}
+            </option>
+          ))}
+        </select>
+        <p className="text-xs opacity-70">
+          {DOWNLOAD_POLICIES[downloadPolicy].description}
+        </p>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="model-credit">Credit</Label>
+        <Input
+          id="model-credit"
+          value={credit}
+          onChange={(e) => setCredit(e.target.value)}
+          placeholder="3DShipwrecks for Dean Richmond"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="model-source">Source URL</Label>
+        <Input
+          id="model-source"
+          type="url"
+          value={sourceUrl}
+          onChange={(e) => setSourceUrl(e.target.value)}
+          placeholder="https://"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="model-acknowledgements">Acknowledgements</Label>
+        <Textarea
+          id="model-acknowledgements"
+          rows={2}
+          value={acknowledgements}
+          onChange={(e) => setAcknowledgements(e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="model-scale">Scale</Label>
+        <div className="flex items-center gap-2">
+          <span className="shrink-0">1 scene unit =</span>
+          <Input
+            id="model-scale"
+            type="number"
+            min={0}
+            step="any"
+            value={scale.value}
+            onChange={(e) => setScale({ ...scale, value: e.target.value })}
+            placeholder="Not calibrated"
+          />
+          <select
+            className="bg-background rounded-md border p-2"
+            value={scale.unit}
+            onChange={(e) =>
+              setScale({ ...scale, unit: e.target.value as ScaleUnit })
+            }
+            aria-label="Scale unit"
+          >
+            {(Object.keys(SCALE_UNITS) as ScaleUnit[]).map((unit) => (
+              <option key={unit} value={unit}>
+                {SCALE_UNITS[unit].label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <p className="text-xs opacity-70">
+          Lets viewers measure in real units and compare the model with a
+          person. Most scans use 1 unit = 1 metre.
+        </p>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="model-tags">Tags</Label>
+        <Input
+          id="model-tags"
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          placeholder="shipwreck, lake erie"
+        />
+      </div>
+      <Button
+        type="submit"
+        size="sm"
+        disabled={update.isPending || saveTags.isPending}
+      >
+        {update.isPending || saveTags.isPending ? "Saving…" : "Save details"}
+      </Button>
+      {error && <div className="text-red-600">{error}</div>}
+    </form>
+  );
+}
@@ -0,0 +1,93 @@
+"use client";
+import { useState } from "react";
+import { Button } from "~/components/ui/button";
+import { api } from "~/trpc/react";
+
+/** Moves a model to the trash after showing which shares will stop working. */
+export default function ModelTrashButton({
+  modelId,
+  onTrashed,
+}: {
+  modelId: string;
+  onTrashed?: () => void;
+}) {
+  const utils = api.useUtils();
+  const [confirming, setConfirming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const impact = api.model.deletionImpact.useQuery(
+    { id: modelId },
+    { enabled: confirming },
+  );
+  const remove = api.model.remove.useMutation({
+    onSuccess: async () => {
+      setConfirming(false);
+      await utils.model.invalidate();
+      onTrashed?.();
+    },
+    onError: (err) => setError(err.message),
+  });
+
+  if (!confirming) {
+    return (
+      <Button
+        size="sm"
+        variant="destructive"
+        onClick={() => {
+          setError(null);
+          setConfirming(true);
+        }}
+      >
+        Move to trash
+      </Button>
+    );
+  }
+
+  const shares = impact.data?.shares ?? [];
+  return (
+    <div className="space-y-2 rounded-md border border-red-600/50 p-3 text-sm">
+      {impact.isLoading ? (
+        <div className="opacity-80">Checking shares…</div>
+      ) : (
+        <>
+          <div>
+            The model can be restored from the trash for{" "}
+            {impact.data?.retentionDays} days, then it and its files are deleted
+            for good.
+          </div>
+          {shares.length > 0 && (
+            <div className="text-amber-600">
+              {shares.length === 1
+                ? "1 share stops"
+                : `${shares.length} shares stop`}{" "}
+              working while the model is in the trash and will be deleted with
+              it:
+              <ul className="list-disc pl-5">
+                {shares.map((s) => (
+                  <li key={s.id}>{s.title}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          variant="destructive"
+          disabled={impact.isLoading || remove.isPending}
+          onClick={() => remove.mutate({ id: modelId })}
+        >
+          Move to trash
+        </Button>
+        <Button
+          size="sm"
+          variant="secondary"
+          onClick={() => setConfirming(false)}
+        >
+          Cancel
+        </Button>
+      </div>
+      {error && <div className="text-red-600">{error}</div>}
+    </div>
+  );
+}
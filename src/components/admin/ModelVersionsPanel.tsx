@@ -0,0 +1,126 @@
+"use client";
+import { useState } from "react";
+import { Button } from "~/components/ui/button";
+import { Textarea } from "~/components/ui/textarea";
+import ModelDetailsForm from "~/components/admin/ModelDetailsForm";
+import ModelTrashButton from "~/components/admin/ModelTrashButton";
+import OptimizationSlot from "~/components/admin/OptimizationSlot";
+import UsdzSlot from "~/components/admin/UsdzSlot";
+import ModelPicker, {
+  type LibraryModel,
+} from "~/components/models/ModelPicker";
+import { api } from "~/trpc/react";
+
+function VersionNotes({
+  versionId,
+  initial,
+}: {
+  versionId: string;
+  initial: string;
+}) {
+  const [notes, setNotes] = useState(initial);
+  const utils = api.useUtils();
+  const save = api.model.updateVersionNotes.useMutation({
+    onSuccess: () => utils.model.listVersions.invalidate(),
+  });
+  return (
+    <div className="space-y-1">
+      <Textarea
+        rows={2}
+        value={notes}
+        placeholder="Release notes"
+        onChange={(e) => setNotes(e.target.value)}
+      />
+      <Button
+        size="sm"
+        variant="secondary"
+        disabled={save.isPending || notes === initial}
+        onClick={() => save.mutate({ versionId, notes })}
+      >
+        {save.isPending ? "Saving…" : "Save notes"}
+      </Button>
+    </div>
+  );
+}
+
+export default function ModelVersionsPanel({
+  direct = false,
+}: {
+  /** Upload companions through the direct route instead of UploadThing. */
+  direct?: boolean;
+}) {
+  const [model, setModel] = useState<LibraryModel | null>(null);
+  const modelId = model?.id ?? "";
+  const utils = api.useUtils();
+  const versions = api.model.listVersions.useQuery(
+    { modelId },
+    { enabled: !!modelId },
+  );
+  const rollback = api.model.rollback.useMutation({
+    onSuccess: () => utils.model.invalidate(),
+  });
+
+  return (
+    <div className="space-y-3">
+      <ModelPicker value={model} onChange={setModel} />
+      {model && <ModelDetailsForm key={model.id} model={model} />}
+      {model && (
+        <ModelTrashButton
+          key={`trash-${model.id}`}
+          modelId={model.id}
+          onTrashed={() => setModel(null)}
+        />
+      )}
+      {model && <OptimizationSlot modelId={model.id} />}
+      {model && <UsdzSlot modelId={model.id} direct={direct} />}
+      {versions.data?.map((v) => (
+        <div key={v.id} className="space-y-2 rounded-md border p-3 text-sm">
+          <div className="flex items-center justify-between gap-2">
+            <div>
+              <span className="font-semibold">v{v.version}</span>{" "}
+              <span className="opacity-70">
+                {v.createdAt.toLocaleString()} ·{" "}
+                {v.createdBy.name ?? v.createdBy.email}
+                {v._count.shares > 0 && ` · pinned by ${v._count.shares}`}
+                {v.usdzStorageId && " · USDZ"}
+                {v.optimizedGlbStorageId && " · optimized"}
+                {v.sourceStorageId && (
+                  <>
+                    {" · converted from "}
+                    <a
+                      className="underline"
+                      href={`/api/models/${v.sourceStorageId}`}
+                    >
+                      {v.sourceImport?.format.toUpperCase() ?? "original"}
+                    </a>
+                  </>
+                )}
+              </span>
+            </div>
+            {v.isCurrent ? (
+              <span className="rounded bg-green-600 px-2 py-0.5 text-xs text-white">
+                Current
+              </span>
+            ) : (
+              <Button
+                size="sm"
+                disabled={rollback.isPending}
+                onClick={() => rollback.mutate({ modelId, versionId: v.id })}
+              >
+                Make current
+              </Button>
+            )}
+          </div>
+          {!!v.sourceImport?.warnings.length && (
+            <ul className="list-disc pl-5 text-xs opacity-70">
+              {v.sourceImport.warnings.map((w) => (
+                <li key={w}>{w}</li>
+              ))}
+            </ul>
+          )}
+          <VersionNotes versionId={v.id} initial={v.notes ?? ""} />
+        </div>
+      ))}
+    </div>
+  );
+}
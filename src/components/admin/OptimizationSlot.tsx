@@ -0,0 +1,130 @@
+"use client";
+import { useState } from "react";
+import { Button } from "~/components/ui/button";
+import { api } from "~/trpc/react";
+
+type Geometry = "meshopt" | "draco" | "none";
+type Textures = "webp" | "ktx2" | "keep";
+
+function formatBytes(bytes: number) {
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+}
+
+/**
+ * Builds, re-builds or discards the web-optimized GLB that viewers load instead of the original
+ * for a model's current version.
+ */
+export default function OptimizationSlot({ modelId }: { modelId: string }) {
+  const utils = api.useUtils();
+  const [geometry, setGeometry] = useState<Geometry>("meshopt");
+  const [textures, setTextures] = useState<Textures>("webp");
+  const [maxTextureSize, setMaxTextureSize] = useState(2048);
+  const [error, setError] = useState<string | null>(null);
+  const { data: status } = api.model.optimizationStatus.useQuery(
+    { modelId },
+    {
+      // Poll while the optimizer runs in the background
+      refetchInterval: (query) =>
+        query.state.data?.optimization?.status === "pending" ? 3000 : false,
+    },
+  );
+  const optimization = status?.optimization;
+  const optimize = api.model.optimize.useMutation({
+    onSuccess: () => utils.model.optimizationStatus.invalidate({ modelId }),
+    onError: (err) => setError(err.message),
+  });
+  const discard = api.model.discardOptimized.useMutation({
+    onSuccess: () => utils.model.invalidate(),
+    onError: (err) => setError(err.message),
+  });
+  const pending = optimization?.status === "pending";
+
+  return (
+    <div className="space-y-2 rounded-md border p-3 text-sm">
+      {status?.optimizedGlbStorageId && optimization?.optimizedBytes ? (
+        <div className="flex items-center justify-between gap-2">
+          <span>
+            Viewers load the optimized GLB:{" "}
+            {formatBytes(optimization.originalBytes ?? 0)} →{" "}
+            {formatBytes(optimization.optimizedBytes)}
+          </span>
+          <Button
+            size="sm"
+            variant="secondary"
+            disabled={discard.isPending || pending}
+            onClick={() => discard.mutate({ modelId })}
+          >
+            Serve original
+          </Button>
+        </div>
+      ) : pending ? (
+        <div className="opacity-80">Optimizing…</div>
+      ) : (
+        <div className="opacity-80">Viewers load the original GLB.</div>
+      )}
+      {optimization?.status === "skipped" && (
+        <div className="opacity-80">
+          The optimized file was not smaller, so the original is kept.
+        </div>
+      )}
+      {optimization?.status === "failed" && (
+        <div className="text-red-600">
+          Optimization failed: {optimization.error}
+        </div>
+      )}
+      {optimization?.warnings.length ? (
+        <ul className="list-disc pl-5 text-amber-600">
+          {optimization.warnings.map((w) => (
+            <li key={w}>{w}</li>
+          ))}
+        </ul>
+      ) : null}
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          className="bg-background rounded-md border p-1"
+          value={geometry}
+          onChange={(e) => setGeometry(e.target.value as Geometry)}
+          aria-label="Geometry compression"
+        >
+          <option value="meshopt">Meshopt geometry</option>
+          <option value="draco">Draco geometry</option>
+          <option value="none">Uncompressed geometry</option>
+        </select>
+        <select
+          className="bg-background rounded-md border p-1"
+          value={textures}
+          onChange={(e) => setTextures(e.target.value as Textures)}
+          aria-label="Texture format"
+        >
+          <option value="webp">WebP textures</option>
+          <option value="ktx2">KTX2 textures</option>
+          <option value="keep">Keep texture format</option>
+        </select>
+        <select
+          className="bg-background rounded-md border p-1"
+          value={maxTextureSize}
+          onChange={(e) => setMaxTextureSize(Number(e.target.value))}
+          aria-label="Maximum texture size"
+        >
+          {[1024, 2048, 4096].map((size) => (
+            <option key={size} value={size}>
+              Max {size}px
+            </option>
+          ))}
+        </select>
+        <Button
+          size="sm"
+          disabled={optimize.isPending || pending}
+          onClick={() => {
+            setError(null);
+            optimize.mutate({ modelId, geometry, textures, maxTextureSize });
+          }}
+        >
+          {status?.optimizedGlbStorageId ? "Re-optimize" : "Optimize"}
+        </Button>
+      </div>
+      {error && <div className="text-red-600">{error}</div>}
+    </div>
+  );
+}
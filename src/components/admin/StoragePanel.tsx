@@ -0,0 +1,132 @@
+"use client";
+import { useState } from "react";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { formatBytes } from "~/lib/format";
+import { api, type RouterOutputs } from "~/trpc/react";
+
+type ReportRow = RouterOutputs["admin"]["storageReport"][number];
+
+/** Blank restores the role default. */
+function parseOverride(value: string) {
+  return value.trim() === "" ? null : Math.max(0, Math.floor(Number(value)));
+}
+
+function QuotaForm({ row }: { row: ReportRow }) {
+  const utils = api.useUtils();
+  const [mb, setMb] = useState(row.storageQuotaMb?.toString() ?? "");
+  const [models, setModels] = useState(row.modelQuota?.toString() ?? "");
+  const setQuota = api.admin.setQuota.useMutation({
+    onSuccess: () => utils.admin.storageReport.invalidate(),
+  });
+
+  return (
+    <form
+      className="flex items-center gap-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        setQuota.mutate({
+          userId: row.id,
+          storageQuotaMb: parseOverride(mb),
+          modelQuota: parseOverride(models),
+        });
+      }}
+    >
+      <Input
+        className="w-24"
+        type="number"
+        min={0}
+        value={mb}
+        onChange={(e) => setMb(e.target.value)}
+        placeholder="MB"
+        aria-label="Storage quota override in MB"
+      />
+      <Input
+        className="w-20"
+        type="number"
+        min={0}
+        value={models}
+        onChange={(e) => setModels(e.target.value)}
+        placeholder="Models"
+        aria-label="Model quota override"
+      />
+      <Button type="submit" size="sm" disabled={setQuota.isPending}>
+        Save
+      </Button>
+    </form>
+  );
+}
+
+/** Heaviest users by stored bytes, with per-user quota overrides. */
+export default function StoragePanel() {
+  const utils = api.useUtils();
+  const { data: rows, isLoading } = api.admin.storageReport.useQuery({});
+  const recount = api.admin.recountStorage.useMutation({
+    onSuccess: () => utils.admin.storageReport.invalidate(),
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <Button
+          size="sm"
+          variant="secondary"
+          disabled={recount.isPending}
+          onClick={() => recount.mutate()}
+        >
+          {recount.isPending ? "Recalculating…" : "Recalculate usage"}
+        </Button>
+        {recount.data && (
+          <span className="opacity-70">
+            {recount.data.files} files checked, {recount.data.added} updated,{" "}
+            {recount.data.removed} removed.
+          </span>
+        )}
+      </div>
+      <p className="text-sm opacity-70">
+        Overrides replace the role default; leave blank to use the default and
+        enter 0 for unlimited.
+      </p>
+      <div className="overflow-x-auto rounded-md border">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="bg-muted/50 text-left">
+              <th className="p-2">User</th>
+              <th className="p-2">Role</th>
+              <th className="p-2">Storage</th>
+              <th className="p-2">Models</th>
+              <th className="p-2">Overrides</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows?.map((row) => (
+              <tr key={row.id} className="border-t align-top">
+                <td className="p-2">
+                  <div>{row.name}</div>
+                  <div className="opacity-70">{row.email}</div>
+                </td>
+                <td className="p-2">{row.role}</td>
+                <td className="p-2">
+                  {formatBytes(row.bytes)} /{" "}
+                  {row.quota.maxBytes === null
+                    ? "unlimited"
+                    : formatBytes(row.quota.maxBytes)}
+                  <div className="opacity-70">{row.files} files</div>
+                </td>
+                <td className="p-2">
+                  {row.models} / {row.quota.maxModels ?? "unlimited"}
+                </td>
+                <td className="p-2">
+                  <QuotaForm row={row} />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {!isLoading && rows?.length === 0 && (
+        <div className="opacity-70">No stored files recorded yet.</div>
+      )}
+    </div>
+  );
+}
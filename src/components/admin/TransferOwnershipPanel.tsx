@@ -0,0 +1,146 @@
+"use client";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { Button } from "~/components/ui/button";
+import { api, type RouterOutputs } from "~/trpc/react";
+
+interface UserOption {
+  id: string;
+  name: string | null;
+  email: string | null;
+}
+
+type TransferCounts = RouterOutputs["admin"]["transferOwnership"];
+
+function userLabel(user: UserOption) {
+  return user.name
+    ? `${user.name} (${user.email ?? "no email"})`
+    : (user.email ?? user.id);
+}
+
+/**
+ * Moves everything one user owns to another, e.g. before removing a departing staff member, whose
+ * account cannot be deleted while it owns models. Once moved, the account can be deleted here.
+ */
+export default function TransferOwnershipPanel({
+  users,
+}: {
+  users: UserOption[];
+}) {
+  const [fromUserId, setFromUserId] = useState("");
+  const [toUserId, setToUserId] = useState("");
+  const [confirming, setConfirming] = useState(false);
+  const [result, setResult] = useState<TransferCounts | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+  const transfer = api.admin.transferOwnership.useMutation({
+    onSuccess: (counts) => {
+      setConfirming(false);
+      setResult(counts);
+    },
+    onError: (err) => setError(err.message),
+  });
+  const deleteUser = api.admin.deleteUser.useMutation({
+    onSuccess: () => {
+      setFromUserId("");
+      setResult(null);
+      router.refresh();
+    },
+    onError: (err) => setError(err.message),
+  });
+
+  const from = users.find((u) => u.id === fromUserId);
+  const to = users.find((u) => u.id === toUserId);
+  const select = (value: string, onChange: (id: string) => void) => (
+    <select
+      className="w-full rounded-md border bg-transparent p-1"
+      value={value}
+      onChange={(e) => {
+        onChange(e.target.value);
+        setConfirming(false);
+        setResult(null);
+        setError(null);
+      }}
+    >
+      <option value="">Choose a user…</option>
+      {users.map((u) => (
+        <option key={u.id} value={u.id}>
+          {userLabel(u)}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="space-y-3 rounded-md border p-4 text-sm">
+      <h2 className="font-semibold">Transfer ownership</h2>
+      <p className="opacity-80">
+        Moves all models (including the trash), shares, collections and the
+        dashboard of one user to another. Storage stays charged to the recipient
+        even if it puts them over their quota.
+      </p>
+      <div className="grid gap-3 sm:grid-cols-2">
+        <label className="block">
+          <span className="mb-1 block opacity-80">From</span>
+          {select(fromUserId, setFromUserId)}
+        </label>
+        <label className="block">
+          <span className="mb-1 block opacity-80">To</span>
+          {select(toUserId, setToUserId)}
+        </label>
+      </div>
+      {confirming && from && to ? (
+        <div className="space-y-2 rounded-md border border-amber-600/50 p-3">
+          <div>
+            Everything {userLabel(from)} owns will belong to {userLabel(to)}.
+            This cannot be undone automatically.
+          </div>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              disabled={transfer.isPending}
+              onClick={() => transfer.mutate({ fromUserId, toUserId })}
+            >
+              Transfer
+            </Button>
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={() => setConfirming(false)}
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button
+          size="sm"
+          disabled={!from || !to || from.id === to.id}
+          onClick={() => setConfirming(true)}
+        >
+          Transfer…
+        </Button>
+      )}
+      {result && (
+        <div className="space-y-2">
+          <div className="text-green-600">
+            Moved {result.models} models, {result.shares} shares,{" "}
+            {result.collections} collections, {result.dashboards} dashboards and{" "}
+            {result.storedFiles} stored files.
+          </div>
+          {from && (
+            <Button
+              size="sm"
+              variant="destructive"
+              disabled={deleteUser.isPending}
+              onClick={() => deleteUser.mutate({ userId: from.id })}
+            >
+              Delete {userLabel(from)}&apos;s account
+            </Button>
+          )}
+        </div>
+      )}
+      {error && <div className="text-red-600">{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+import { useState } from "react";
+import { Button } from "~/components/ui/button";
+import { api } from "~/trpc/react";
+
+/** Trashed models with their purge date; they can be restored or deleted right away. */
+export default function TrashPanel() {
+  const utils = api.useUtils();
+  const [error, setError] = useState<string | null>(null);
+  const { data: models } = api.model.listTrash.useQuery();
+  const restore = api.model.restore.useMutation({
+    onSuccess: () => utils.model.invalidate(),
+    onError: (err) => setError(err.message),
+  });
+  const purge = api.model.purge.useMutation({
+    onSuccess: () => utils.model.listTrash.invalidate(),
+    onError: (err) => setError(err.message),
+  });
+
+  if (models?.length === 0) {
+    return <div className="text-sm opacity-80">The trash is empty.</div>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {models?.map((m) => (
+        <div
+          key={m.id}
+          className="flex items-center justify-between gap-2 rounded-md border p-3 text-sm"
+        >
+          <div>
+            <div className="font-semibold">{m.title}</div>
+            <div className="opacity-70">
+              Deleted {m.deletedAt?.toLocaleDateString()} · purged{" "}
+              {m.purgeAt.toLocaleDateString()}
+              {m._count.shares > 0 && ` · ${m._count.shares} shares`}
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              disabled={restore.isPending}
+              onClick={() => {
+                setError(null);
+                restore.mutate({ id: m.id });
+              }}
+            >
+              Restore
+            </Button>
+            <Button
+              size="sm"
+              variant="destructive"
+              disabled={purge.isPending}
+              onClick={() => {
+                if (!confirm(`Delete "${m.title}" and its files now?`)) return;
+                setError(null);
+                purge.mutate({ id: m.id });
+              }}
+            >
+              Delete now
+            </Button>
+          </div>
+        </div>
+      ))}
+      {error && <div className="text-sm text-red-600">{error}</div>}
+    </div>
+  );
+}
@@ -1,38 +1,309 @@
 "use client";
-import { useCallback, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { UploadButton } from "@uploadthing/react";
 import type { OurFileRouter } from "~/server/uploadthing/core";
 import { Button } from "~/components/ui/button";
+import OptimizationSlot from "~/components/admin/OptimizationSlot";
+import UsdzSlot from "~/components/admin/UsdzSlot";
+import ModelPicker, {
+  type LibraryModel,
+} from "~/components/models/ModelPicker";
+import { formatBytes } from "~/lib/format";
+import {
+  cancelResumable,
+  discardPendingUpload,
+  hashFile,
+  listPendingUploads,
+  MAX_HASHED_BYTES,
+  type PendingUpload,
+  uploadResumable,
+} from "~/lib/resumableUpload";
+import { api } from "~/trpc/react";
+
+type UploadSummary = {
+  modelId?: string;
+  meshCount?: number | null;
+  triangleCount?: number | null;
+  textureCount?: number | null;
+  sizeBytes?: number | null;
+  /** The same bytes were already stored, so the existing file is used. */
+  deduplicated?: boolean;
+  /** Set when the upload was converted to GLB, e.g. "obj" or "zip". */
+  sourceFormat?: string | null;
+  importWarnings?: string[];
+};
+type UploadedFile = {
+  key: string;
+  url: string;
+  type?: string;
+  serverData?: UploadSummary | null;
+};
+
+// Anything but GLB is converted on upload; zips carry textures, .mtl and .bin files along
+const MODEL_FILE_ACCEPT =
+  ".glb,.gltf,.obj,.stl,.ply,.fbx,.zip,model/gltf-binary";
 
 export default function UploadPanel({
   onComplete,
+  direct = false,
 }: {
   onComplete?: (file: { key: string; url: string; type?: string }) => void;
+  /** Upload only through the resumable upload API instead of UploadThing (local/S3 storage). */
+  direct?: boolean;
 }) {
-  const [last, setLast] = useState<{
-    key: string;
-    url: string;
-    type?: string;
-  } | null>(null);
+  const [last, setLast] = useState<UploadedFile | null>(null);
+  const utils = api.useUtils();
   const handleComplete = useCallback(
-    (res: Array<{ key: string; url: string; type?: string }>) => {
+    (res: Array<UploadedFile>) => {
       if (res?.[0]) {
         setLast(res[0]);
         onComplete?.(res[0]);
+        void utils.model.invalidate();
       }
     },
-    [onComplete],
+    [onComplete, utils],
   );
+  const { data: suggestion } = api.upload.suggestUsdz.useQuery(
+    { glbSizeBytes: last?.serverData?.sizeBytes ?? 1 },
+    { enabled: !!last?.serverData?.sizeBytes },
+  );
+  // None means "new model"; otherwise the upload becomes a new version of this model.
+  const [target, setTarget] = useState<LibraryModel | null>(null);
+  const targetModelId = target?.id ?? "";
+  // Build a lighter derivative for the viewer after upload
+  const [optimize, setOptimize] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Resumable upload in progress; `paused` once its request has been aborted
+  const [file, setFile] = useState<File | null>(null);
+  const [progress, setProgress] = useState({ sent: 0, total: 0 });
+  const [paused, setPaused] = useState(false);
+  const controller = useRef<AbortController | null>(null);
+  // Unfinished uploads from an earlier visit; picking the same file resumes them
+  const [pending, setPending] = useState<PendingUpload[]>([]);
+  useEffect(() => setPending(listPendingUploads()), []);
+  // A picked file whose bytes are already stored, waiting for the user to choose
+  const [duplicate, setDuplicate] = useState<{
+    file: File;
+    sha256: string;
+    models: { id: string; title: string }[];
+  } | null>(null);
+  const [reusedModelId, setReusedModelId] = useState<string | null>(null);
+  const lastModelId = last?.serverData?.modelId ?? reusedModelId;
+  const reuse = api.model.reuseAsset.useMutation({
+    onSuccess: async ({ modelId }) => {
+      setDuplicate(null);
+      setLast(null);
+      setReusedModelId(modelId);
+      await utils.model.invalidate();
+    },
+    onError: (err) => setError(err.message),
+  });
+
+  /** Offers to reuse an identical stored file before uploading a new one. */
+  async function pickFile(f: File) {
+    setError(null);
+    setReusedModelId(null);
+    const resuming = pending.some(
+      (p) => p.name === f.name && p.size === f.size,
+    );
+    // Only GLBs are stored as uploaded; other formats are compared after conversion
+    const glb = /\.glb$/i.test(f.name);
+    if (glb && !resuming && f.size <= MAX_HASHED_BYTES) {
+      try {
+        const sha256 = await hashFile(f);
+        const models = await utils.model.findDuplicates.fetch({
+          sha256,
+          excludeModelId: targetModelId || undefined,
+        });
+        if (models.length > 0) {
+          setDuplicate({ file: f, sha256, models });
+          return;
+        }
+      } catch {
+        // Checking is only a shortcut; upload normally
+      }
+    }
+    await runResumable(f);
+  }
+
+  async function runResumable(f: File) {
+    const abort = new AbortController();
+    controller.current = abort;
+    setFile(f);
+    setPaused(false);
+    setError(null);
+    try {
+      const body = await uploadResumable<
+        UploadSummary & { key: string; url: string; type?: string }
+      >(f, {
+        modelId: targetModelId || undefined,
+        optimize,
+        signal: abort.signal,
+        onProgress: (sent, total) => setProgress({ sent, total }),
+      });
+      setFile(null);
+      handleComplete([
+        { key: body.key, url: body.url, type: body.type, serverData: body },
+      ]);
+    } catch (err) {
+      if (abort.signal.aborted) setPaused(true);
+      else setError(err instanceof Error ? err.message : "Upload failed");
+    } finally {
+      setPending(listPendingUploads());
+    }
+  }
+
+  async function cancel() {
+    if (!file) return;
+    controller.current?.abort();
+    await cancelResumable(file, targetModelId || undefined);
+    setFile(null);
+    setPending(listPendingUploads());
+  }
 
   return (
     <div className="space-y-3">
-      <UploadButton<OurFileRouter, "modelFiles">
-        endpoint="modelFiles"
-        onClientUploadComplete={handleComplete}
-        appearance={{
-          button: "bg-[color:var(--color-contact-button-bg)] text-black",
-        }}
+      <ModelPicker
+        value={target}
+        onChange={setTarget}
+        emptyLabel="Upload as a new model"
+        placeholder="Search for a model to add a version to…"
       />
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={optimize}
+          onChange={(e) => setOptimize(e.target.checked)}
+        />
+        Optimize for web viewing (compressed geometry, WebP textures)
+      </label>
+      <p className="text-xs opacity-70">
+        GLB, or OBJ, STL, PLY, FBX and glTF converted to GLB. Zip an OBJ with
+        its .mtl and textures, or a .gltf with its .bin and textures.
+      </p>
+      {!direct && (
+        <UploadButton<OurFileRouter, "modelFiles">
+          endpoint="modelFiles"
+          input={{ modelId: targetModelId || undefined, optimize }}
+          onClientUploadComplete={handleComplete}
+          onUploadBegin={() => setError(null)}
+          onUploadError={(err) => setError(err.message)}
+          appearance={{
+            button: "bg-[color:var(--color-contact-button-bg)] text-black",
+          }}
+        />
+      )}
+      <label className="block text-sm">
+        {!direct && (
+          <span className="mb-1 block opacity-80">
+            Large file or unreliable connection? Use a resumable upload:
+          </span>
+        )}
+        <input
+          type="file"
+          accept={MODEL_FILE_ACCEPT}
+          disabled={!!file && !paused}
+          onChange={(e) => {
+            const f = e.target.files?.[0];
+            if (f) void pickFile(f);
+            e.target.value = "";
+          }}
+        />
+      </label>
+      {file && (
+        <div className="space-y-2 rounded-md border p-3 text-sm">
+          <div className="flex justify-between gap-4">
+            <span className="truncate">{file.name}</span>
+            <span className="shrink-0 opacity-70">
+              {formatBytes(progress.sent)} of {formatBytes(progress.total)}
+              {paused && " · paused"}
+            </span>
+          </div>
+          <progress
+            className="w-full"
+            max={progress.total || 1}
+            value={progress.sent}
+          />
+          <div className="flex gap-2">
+            {paused ? (
+              <Button size="sm" onClick={() => void runResumable(file)}>
+                Resume
+              </Button>
+            ) : (
+              <Button
+                size="sm"
+                variant="secondary"
+                onClick={() => controller.current?.abort()}
+              >
+                Pause
+              </Button>
+            )}
+            <Button size="sm" variant="ghost" onClick={() => void cancel()}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+      {duplicate && (
+        <div className="space-y-2 rounded-md border p-3 text-sm">
+          <div>
+            <strong>{duplicate.file.name}</strong> is identical to a file
+            already stored in {duplicate.models.map((m) => m.title).join(", ")}.
+          </div>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              disabled={reuse.isPending}
+              onClick={() =>
+                reuse.mutate({
+                  sha256: duplicate.sha256,
+                  modelId: targetModelId || undefined,
+                  title: duplicate.file.name.replace(/\.glb$/i, ""),
+                  optimize,
+                })
+              }
+            >
+              Reuse file
+            </Button>
+            <Button
+              size="sm"
+              variant="secondary"
+              disabled={reuse.isPending}
+              onClick={() => {
+                const f = duplicate.file;
+                setDuplicate(null);
+                void runResumable(f);
+              }}
+            >
+              Upload anyway
+            </Button>
+          </div>
+        </div>
+      )}
+      {!file &&
+        pending.map((p) => (
+          <div
+            key={p.id}
+            className="flex items-center justify-between gap-2 rounded-md border p-2 text-sm"
+          >
+            <span>
+              Unfinished upload of <strong>{p.name}</strong> (
+              {formatBytes(p.receivedBytes)} of {formatBytes(p.size)}). Choose
+              the same file to resume.
+            </span>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={async () => {
+                await discardPendingUpload(p.id);
+                setPending(listPendingUploads());
+              }}
+            >
+              Discard
+            </Button>
+          </div>
+        ))}
+      {error && <div className="text-sm text-red-600">{error}</div>}
       {last && (
         <div className="text-sm opacity-80">
           Uploaded:{" "}
@@ -44,13 +315,46 @@ export default function UploadPanel({
           >
             {last.key}
           </a>
+          {last.serverData?.sourceFormat && (
+            <div className="mt-1 text-xs">
+              Converted from {last.serverData.sourceFormat.toUpperCase()} to
+              GLB; the original is kept with the version.
+              {!!last.serverData.importWarnings?.length && (
+                <ul className="list-disc pl-5 text-amber-600">
+                  {last.serverData.importWarnings.map((w) => (
+                    <li key={w}>{w}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+          {last.serverData?.deduplicated && (
+            <div className="mt-1 text-xs">
+              Identical to a file already stored; kept once.
+            </div>
+          )}
+          {last.serverData?.meshCount != null && (
+            <div className="mt-1 text-xs">
+              {last.serverData.meshCount} meshes ·{" "}
+              {(last.serverData.triangleCount ?? 0).toLocaleString()} triangles
+              · {last.serverData.textureCount ?? 0} textures
+            </div>
+          )}
         </div>
       )}
-      {last?.type === "model/gltf-binary" && (
-        <div className="rounded-md border p-3 text-sm">
-          For iOS AR, upload a matching USDZ and link it to the model.
+      {reusedModelId && (
+        <div className="text-sm opacity-80">
+          Reused the stored file; nothing was uploaded.
         </div>
       )}
+      {lastModelId && <OptimizationSlot modelId={lastModelId} />}
+      {lastModelId && (
+        <UsdzSlot
+          modelId={lastModelId}
+          direct={direct}
+          recommended={suggestion?.requireUsdz}
+        />
+      )}
       <Button asChild variant="secondary">
         <a href="/admin/resources">Go to Resource Manager</a>
       </Button>
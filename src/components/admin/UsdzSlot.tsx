@@ -0,0 +1,158 @@
+"use client";
+import { useState } from "react";
+import { UploadButton } from "@uploadthing/react";
+import type { OurFileRouter } from "~/server/uploadthing/core";
+import { Button } from "~/components/ui/button";
+import { api } from "~/trpc/react";
+
+/**
+ * Upload, generate, replace or remove the USDZ that iOS Quick Look opens for a model's current
+ * version.
+ */
+export default function UsdzSlot({
+  modelId,
+  direct = false,
+  recommended = false,
+}: {
+  modelId: string;
+  /** Upload through `/api/uploads/usdz` instead of UploadThing (local/S3 storage). */
+  direct?: boolean;
+  /** Large GLBs are slow in Quick Look's converter, so a companion is strongly suggested. */
+  recommended?: boolean;
+}) {
+  const utils = api.useUtils();
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { data: status } = api.model.usdzStatus.useQuery(
+    { modelId },
+    {
+      // Poll while a conversion runs in the background
+      refetchInterval: (query) =>
+        query.state.data?.conversion?.status === "pending" ? 3000 : false,
+    },
+  );
+  const usdzStorageId = status?.usdzStorageId ?? null;
+  const conversion = status?.conversion;
+  const remove = api.model.removeUsdz.useMutation({
+    onSuccess: () => utils.model.invalidate(),
+    onError: (err) => setError(err.message),
+  });
+  const generate = api.model.generateUsdz.useMutation({
+    onSuccess: () => utils.model.usdzStatus.invalidate({ modelId }),
+    onError: (err) => setError(err.message),
+  });
+
+  async function uploadDirect(file: File) {
+    setUploading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ name: file.name, modelId });
+      const res = await fetch(`/api/uploads/usdz?${params.toString()}`, {
+        method: "POST",
+        headers: { "Content-Type": file.type || "application/octet-stream" },
+        body: file,
+      });
+      const body = (await res.json()) as { error?: string };
+      if (!res.ok) {
+        setError(body.error ?? "Upload failed");
+        return;
+      }
+      await utils.model.invalidate();
+    } catch {
+      setError("Upload failed");
+    } finally {
+      setUploading(false);
+    }
+  }
+
+  return (
+    <div className="space-y-2 rounded-md border p-3 text-sm">
+      {usdzStorageId ? (
+        <div className="flex items-center justify-between gap-2">
+          <a
+            className="underline"
+            href={`/api/models/${usdzStorageId}`}
+            target="_blank"
+            rel="noreferrer"
+          >
+            USDZ for iOS AR
+          </a>
+          <Button
+            size="sm"
+            variant="secondary"
+            disabled={remove.isPending}
+            onClick={() => remove.mutate({ modelId })}
+          >
+            Remove
+          </Button>
+        </div>
+      ) : conversion?.status === "pending" ? (
+        <div className="opacity-80">Generating USDZ from the GLB…</div>
+      ) : (
+        <div className="flex items-center justify-between gap-2">
+          <span className={recommended ? "text-amber-600" : "opacity-80"}>
+            {recommended
+              ? "This model is large: add a USDZ so iOS AR opens quickly."
+              : "No USDZ yet. iOS devices cannot open this model in AR."}
+          </span>
+          <Button
+            size="sm"
+            variant="secondary"
+            disabled={generate.isPending}
+            onClick={() => generate.mutate({ modelId })}
+          >
+            Generate
+          </Button>
+        </div>
+      )}
+      {conversion?.status === "failed" && !usdzStorageId && (
+        <div className="text-red-600">
+          Automatic conversion failed: {conversion.error}
+        </div>
+      )}
+      {conversion?.status === "done" && conversion.warnings.length > 0 && (
+        <div>
+          <div className="font-medium">Generated with warnings:</div>
+          <ul className="list-disc pl-5 text-amber-600">
+            {conversion.warnings.map((w) => (
+              <li key={w}>{w}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {direct ? (
+        <label className="block">
+          <span className="mr-2">
+            {usdzStorageId ? "Replace USDZ" : "Upload USDZ"}
+          </span>
+          <input
+            type="file"
+            accept=".usdz,model/vnd.usdz+zip"
+            disabled={uploading}
+            onChange={(e) => {
+              const f = e.target.files?.[0];
+              if (f) void uploadDirect(f);
+              e.target.value = "";
+            }}
+          />
+          {uploading && <span className="ml-2 opacity-70">Uploading…</span>}
+        </label>
+      ) : (
+        <UploadButton<OurFileRouter, "usdzFiles">
+          endpoint="usdzFiles"
+          input={{ modelId }}
+          onClientUploadComplete={() => void utils.model.invalidate()}
+          onUploadBegin={() => setError(null)}
+          onUploadError={(err) => setError(err.message)}
+          content={{
+            button: usdzStorageId ? "Replace USDZ" : "Upload USDZ",
+          }}
+          appearance={{
+            button: "bg-[color:var(--color-contact-button-bg)] text-black",
+          }}
+        />
+      )}
+      {error && <div className="text-red-600">{error}</div>}
+    </div>
+  );
+}
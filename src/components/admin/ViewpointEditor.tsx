@@ -0,0 +1,379 @@
+"use client";
+import { useState } from "react";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Textarea } from "~/components/ui/textarea";
+import ModelPicker, {
+  type LibraryModel,
+} from "~/components/models/ModelPicker";
+import ModelViewer from "~/components/viewer/ModelViewer";
+import {
+  DEFAULT_STOP_MS,
+  MAX_TOUR_STOPS,
+  resolveTour,
+  type TourStop,
+  type ViewerViewpoint,
+  type ViewpointCamera,
+} from "~/lib/viewpoints";
+import type { SectionPlane } from "~/lib/sections";
+import { api } from "~/trpc/react";
+
+function ViewpointTitle({ viewpoint }: { viewpoint: ViewerViewpoint }) {
+  const [title, setTitle] = useState(viewpoint.title);
+  const utils = api.useUtils();
+  const update = api.viewpoint.update.useMutation({
+    onSuccess: () => utils.viewpoint.list.invalidate(),
+  });
+  return (
+    <Input
+      className="h-8"
+      value={title}
+      maxLength={200}
+      onChange={(e) => setTitle(e.target.value)}
+      onBlur={() => {
+        if (title.trim() && title !== viewpoint.title) {
+          update.mutate({ id: viewpoint.id, title });
+        }
+      }}
+    />
+  );
+}
+
+function TourForm({
+  modelId,
+  tour,
+  viewpoints,
+  onDone,
+}: {
+  modelId: string;
+  tour?: { id: string; title: string; stops: TourStop[] };
+  viewpoints: ViewerViewpoint[];
+  onDone: () => void;
+}) {
+  const [title, setTitle] = useState(tour?.title ?? "");
+  const [stops, setStops] = useState<TourStop[]>(tour?.stops ?? []);
+  const [error, setError] = useState<string | null>(null);
+  const utils = api.useUtils();
+  const save = api.viewpoint.saveTour.useMutation({
+    onSuccess: async () => {
+      await utils.viewpoint.list.invalidate();
+      onDone();
+    },
+    onError: (err) => setError(err.message),
+  });
+  const setStop = (i: number, patch: Partial<TourStop>) =>
+    setStops(stops.map((s, j) => (j === i ? { ...s, ...patch } : s)));
+  const moveStop = (i: number, by: number) => {
+    const next = [...stops];
+    const [stop] = next.splice(i, 1);
+    next.splice(i + by, 0, stop!);
+    setStops(next);
+  };
+
+  return (
+    <form
+      className="space-y-2 rounded-md border p-3"
+      onSubmit={(e) => {
+        e.preventDefault();
+        setError(null);
+        save.mutate({ id: tour?.id, modelId, title, stops });
+      }}
+    >
+      <Input
+        value={title}
+        maxLength={200}
+        placeholder="Tour title, e.g. Life aboard"
+        onChange={(e) => setTitle(e.target.value)}
+      />
+      <ol className="space-y-2">
+        {stops.map((stop, i) => (
+          <li key={i} className="space-y-1 rounded-md border p-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-semibold">{i + 1}.</span>
+              <select
+                className="rounded-md border bg-transparent p-1"
+                value={stop.viewpointId}
+                onChange={(e) => setStop(i, { viewpointId: e.target.value })}
+              >
+                {viewpoints.map((v) => (
+                  <option key={v.id} value={v.id}>
+                    {v.title}
+                  </option>
+                ))}
+              </select>
+              <label className="flex items-center gap-1">
+                <Input
+                  type="number"
+                  className="h-8 w-20"
+                  min={0.5}
+                  max={600}
+                  step={0.5}
+                  value={stop.durationMs / 1000}
+                  onChange={(e) =>
+                    setStop(i, {
+                      durationMs: Math.round(Number(e.target.value) * 1000),
+                    })
+                  }
+                />
+                s
+              </label>
+              <Button
+                type="button"
+                size="sm"
+                variant="secondary"
+                disabled={i === 0}
+                onClick={() => moveStop(i, -1)}
+                title="Move up"
+              >
+                ↑
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="secondary"
+                disabled={i === stops.length - 1}
+                onClick={() => moveStop(i, 1)}
+                title="Move down"
+              >
+                ↓
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="destructive"
+                onClick={() => setStops(stops.filter((_, j) => j !== i))}
+              >
+                Remove
+              </Button>
+            </div>
+            <Textarea
+              rows={2}
+              value={stop.caption ?? ""}
+              placeholder="Caption shown at this stop"
+              onChange={(e) => setStop(i, { caption: e.target.value || null })}
+            />
+          </li>
+        ))}
+      </ol>
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          size="sm"
+          variant="secondary"
+          disabled={viewpoints.length === 0 || stops.length >= MAX_TOUR_STOPS}
+          onClick={() =>
+            setStops([
+              ...stops,
+              {
+                viewpointId: viewpoints[0]!.id,
+                caption: null,
+                durationMs: DEFAULT_STOP_MS,
+              },
+            ])
+          }
+        >
+          Add stop
+        </Button>
+        <Button
+          type="submit"
+          size="sm"
+          disabled={save.isPending || !title.trim()}
+        >
+          {save.isPending ? "Saving…" : "Save tour"}
+        </Button>
+        <Button type="button" size="sm" variant="secondary" onClick={onDone}>
+          Cancel
+        </Button>
+      </div>
+      {error && <div className="text-red-600">{error}</div>}
+    </form>
+  );
+}
+
+/**
+ * Saves camera viewpoints of a model from the viewer and strings them into guided tours with
+ * captions and timings. `recapture` is the viewpoint the next "Save view" overwrites, if any.
+ */
+export default function ViewpointEditor() {
+  const [model, setModel] = useState<LibraryModel | null>(null);
+  const [recapture, setRecapture] = useState<string | null>(null);
+  const [editingTour, setEditingTour] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const modelId = model?.id ?? "";
+  const utils = api.useUtils();
+  const list = api.viewpoint.list.useQuery({ modelId }, { enabled: !!modelId });
+  const onError = (err: { message: string }) => setError(err.message);
+  const invalidate = () => utils.viewpoint.list.invalidate();
+  const create = api.viewpoint.create.useMutation({
+    onSuccess: invalidate,
+    onError,
+  });
+  const update = api.viewpoint.update.useMutation({
+    onSuccess: invalidate,
+    onError,
+  });
+  const reorder = api.viewpoint.reorder.useMutation({
+    onSuccess: invalidate,
+    onError,
+  });
+  const remove = api.viewpoint.remove.useMutation({
+    onSuccess: invalidate,
+    onError,
+  });
+  const removeTour = api.viewpoint.removeTour.useMutation({
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const viewpoints = list.data?.viewpoints ?? [];
+  const tours = list.data?.tours ?? [];
+  const capture = (camera: ViewpointCamera, section: SectionPlane[]) => {
+    setError(null);
+    if (recapture) {
+      update.mutate({ id: recapture, camera, section });
+      setRecapture(null);
+    } else {
+      create.mutate({
+        modelId,
+        title: `View ${viewpoints.length + 1}`,
+        camera,
+        section,
+      });
+    }
+  };
+  const move = (index: number, by: number) => {
+    const ids = viewpoints.map((v) => v.id);
+    const [id] = ids.splice(index, 1);
+    ids.splice(index + by, 0, id!);
+    reorder.mutate({ modelId, ids });
+  };
+
+  return (
+    <div className="space-y-3 text-sm">
+      <ModelPicker
+        value={model}
+        onChange={(m) => {
+          setModel(m);
+          setRecapture(null);
+          setEditingTour(null);
+        }}
+      />
+      {model && (
+        <>
+          <ModelViewer
+            key={model.id}
+            src={`/api/models/${model.optimizedGlbStorageId ?? model.glbStorageId}`}
+            title={model.title}
+            metersPerUnit={model.metersPerUnit}
+            viewpoints={viewpoints}
+            tours={tours
+              .map((t) => resolveTour(t, viewpoints))
+              .filter((t) => t.stops.length > 0)}
+            onCaptureView={capture}
+          />
+          <div className="opacity-80">
+            {recapture
+              ? "Frame the model and set up any cuts, then use Save view to replace the viewpoint."
+              : "Frame the model and set up any cuts with Section, then use Save view to add a viewpoint. The viewer opens at the first one; share links open at another with ?view=."}
+          </div>
+          {error && <div className="text-red-600">{error}</div>}
+          <ol className="space-y-2">
+            {viewpoints.map((v, i) => (
+              <li key={v.id} className="flex items-center gap-2">
+                <span className="font-semibold">{i + 1}.</span>
+                <ViewpointTitle key={v.title} viewpoint={v} />
+                <span className="shrink-0 text-xs opacity-70">
+                  {v.section ? `${v.section.length} cut · ` : ""}?view={v.id}
+                </span>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  disabled={i === 0 || reorder.isPending}
+                  onClick={() => move(i, -1)}
+                  title="Move up"
+                >
+                  ↑
+                </Button>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  disabled={i === viewpoints.length - 1 || reorder.isPending}
+                  onClick={() => move(i, 1)}
+                  title="Move down"
+                >
+                  ↓
+                </Button>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={() => setRecapture(recapture === v.id ? null : v.id)}
+                >
+                  {recapture === v.id ? "Cancel" : "Re-frame"}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  disabled={remove.isPending}
+                  onClick={() => remove.mutate({ id: v.id })}
+                >
+                  Delete
+                </Button>
+              </li>
+            ))}
+          </ol>
+          <h3 className="font-semibold">Tours</h3>
+          {tours.map((t) =>
+            editingTour === t.id ? (
+              <TourForm
+                key={t.id}
+                modelId={modelId}
+                tour={t}
+                viewpoints={viewpoints}
+                onDone={() => setEditingTour(null)}
+              />
+            ) : (
+              <div key={t.id} className="flex items-center gap-2">
+                <span className="flex-1">
+                  {t.title}{" "}
+                  <span className="opacity-70">
+                    · {t.stops.length} stops · /s/…?tour={t.id}
+                  </span>
+                </span>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={() => setEditingTour(t.id)}
+                >
+                  Edit
+                </Button>
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  disabled={removeTour.isPending}
+                  onClick={() => removeTour.mutate({ id: t.id })}
+                >
+                  Delete
+                </Button>
+              </div>
+            ),
+          )}
+          {editingTour === "new" ? (
+            <TourForm
+              modelId={modelId}
+              viewpoints={viewpoints}
+              onDone={() => setEditingTour(null)}
+            />
+          ) : (
+            <Button
+              size="sm"
+              disabled={viewpoints.length === 0}
+              onClick={() => setEditingTour("new")}
+            >
+              New tour
+            </Button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+"use client";
+import Link from "next/link";
+import CollectionSelect from "~/components/models/CollectionSelect";
+import { api } from "~/trpc/react";
+
+/** Dashboard card listing the models of a chosen collection, in the collection's order. */
+export default function CollectionCard({
+  collectionId,
+  onChange,
+}: {
+  collectionId: string;
+  onChange: (collectionId: string) => void;
+}) {
+  const { data, isLoading } = api.model.library.useQuery(
+    { collectionId, sort: "manual", limit: 12 },
+    { enabled: !!collectionId },
+  );
+
+  return (
+    <div className="space-y-2 text-sm">
+      <CollectionSelect value={collectionId} onChange={onChange} />
+      {collectionId && (
+        <>
+          {!isLoading && data?.items.length === 0 && (
+            <div className="opacity-70">No models in this collection yet.</div>
+          )}
+          <ul className="space-y-1">
+            {data?.items.map((m) => (
+              <li key={m.id} className="truncate">
+                {m.title}
+              </li>
+            ))}
+          </ul>
+          <Link
+            href={`/library?collection=${collectionId}`}
+            className="underline"
+          >
+            Open in library
+          </Link>
+        </>
+      )}
+    </div>
+  );
+}
@@ -11,6 +11,8 @@ import {
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import rehypeSanitize from "rehype-sanitize";
+import CollectionCard from "~/components/dashboard/CollectionCard";
+import ModelViewer from "~/components/viewer/ModelViewer";
 import { Button } from "~/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
 import { Input } from "~/components/ui/input";
@@ -60,7 +62,7 @@ const RGL = (props: {
   return <Comp {...props} />;
 };
 
-type CardType = "markdown" | "model" | "video" | "pdf";
+type CardType = "markdown" | "model" | "video" | "pdf" | "collection";
 interface CardDef {
   id: string;
   type: CardType;
@@ -94,6 +96,27 @@ export default function DashboardClient({
         >
           {save.isPending ? "Saving..." : "Save"}
         </Button>
+        <Button
+          variant="secondary"
+          onClick={() =>
+            setContent((prev) => ({
+              cards: [
+                ...prev.cards,
+                {
+                  id: `collection-${Date.now()}`,
+                  type: "collection",
+                  x: 0,
+                  y: Math.max(0, ...prev.cards.map((c) => c.y + c.h)),
+                  w: 4,
+                  h: 5,
+                  data: { collectionId: "" },
+                },
+              ],
+            }))
+          }
+        >
+          Add collection card
+        </Button>
         <label className="text-sm">
           Change logo/icon
           <input
@@ -233,6 +256,25 @@ export default function DashboardClient({
                   </div>
                 )}
 
+                {card.type === "collection" && (
+                  <CollectionCard
+                    collectionId={
+                      typeof card.data?.collectionId === "string"
+                        ? card.data.collectionId
+                        : ""
+                    }
+                    onChange={(collectionId) =>
+                      setContent((prev) => ({
+                        cards: prev.cards.map((c) =>
+                          c.id === card.id
+                            ? { ...c, data: { ...c.data, collectionId } }
+                            : c,
+                        ),
+                      }))
+                    }
+                  />
+                )}
+
                 {card.type === "model" && (
                   <div className="space-y-2">
                     <Input
@@ -251,9 +293,42 @@ export default function DashboardClient({
                         }))
                       }
                     />
-                    <div className="text-sm opacity-70">
-                      3D preview coming soon.
-                    </div>
+                    <Input
+                      placeholder="Animation to autoplay (optional)"
+                      defaultValue={
+                        typeof card.data?.animationClip === "string"
+                          ? card.data.animationClip
+                          : ""
+                      }
+                      // Committed once typed out, so the viewer does not switch clips per keystroke
+                      onBlur={(e) =>
+                        setContent((prev) => ({
+                          cards: prev.cards.map((c) =>
+                            c.id === card.id
+                              ? {
+                                  ...c,
+                                  data: {
+                                    ...c.data,
+                                    animationClip: e.target.value || undefined,
+                                  },
+                                }
+                              : c,
+                          ),
+                        }))
+                      }
+                    />
+                    {typeof card.data?.src === "string" &&
+                      /\.glb(\?|$)|^\/api\/models\//i.test(card.data.src) && (
+                        <ModelViewer
+                          key={card.data.src}
+                          src={card.data.src}
+                          animationClip={
+                            typeof card.data.animationClip === "string"
+                              ? card.data.animationClip
+                              : undefined
+                          }
+                        />
+                      )}
                   </div>
                 )}
               </CardContent>
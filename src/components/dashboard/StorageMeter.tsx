@@ -0,0 +1,69 @@
+"use client";
+import { formatBytes } from "~/lib/format";
+import { api } from "~/trpc/react";
+
+function Meter({
+  label,
+  used,
+  max,
+  format,
+}: {
+  label: string;
+  used: number;
+  max: number | null;
+  format: (value: number) => string;
+}) {
+  const percent = max ? Math.min(100, (used / max) * 100) : 0;
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between gap-4 text-sm">
+        <span>{label}</span>
+        <span className="opacity-70">
+          {format(used)} of {max === null ? "unlimited" : format(max)}
+        </span>
+      </div>
+      {max !== null && (
+        <div
+          className="bg-muted h-2 overflow-hidden rounded"
+          role="meter"
+          aria-label={label}
+          aria-valuemin={0}
+          aria-valuemax={max}
+          aria-valuenow={used}
+        >
+          <div
+            className={`h-full ${percent >= 90 ? "bg-red-600" : "bg-primary"}`}
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** The caller's storage and model count against their quota. */
+export default function StorageMeter() {
+  const { data } = api.user.storageUsage.useQuery();
+  if (!data) return null;
+  const { usage, quota } = data;
+
+  return (
+    <div className="max-w-md space-y-3 rounded-md border p-3">
+      <Meter
+        label="Storage"
+        used={usage.bytes}
+        max={quota.maxBytes}
+        format={formatBytes}
+      />
+      <Meter
+        label="Models"
+        used={usage.models}
+        max={quota.maxModels}
+        format={(n) => n.toLocaleString()}
+      />
+      <p className="text-xs opacity-70">
+        Trashed models count until they are purged.
+      </p>
+    </div>
+  );
+}
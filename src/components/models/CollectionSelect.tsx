@@ -0,0 +1,48 @@
+"use client";
+import { useMemo } from "react";
+import { api } from "~/trpc/react";
+
+/** `<select>` of every collection the caller can see, labelled with its full path. */
+export default function CollectionSelect({
+  value,
+  onChange,
+  emptyLabel = "Choose a collection",
+  id,
+}: {
+  value: string;
+  onChange: (collectionId: string) => void;
+  emptyLabel?: string;
+  id?: string;
+}) {
+  const { data } = api.collection.all.useQuery();
+  const options = useMemo(() => {
+    const byId = new Map((data ?? []).map((c) => [c.id, c]));
+    return (data ?? [])
+      .map((c) => {
+        const titles = [c.title];
+        let parent = c.parentId ? byId.get(c.parentId) : undefined;
+        while (parent && titles.length < 10) {
+          titles.unshift(parent.title);
+          parent = parent.parentId ? byId.get(parent.parentId) : undefined;
+        }
+        return { id: c.id, label: titles.join(" / ") };
+      })
+      .sort((a, b) => a.label.localeCompare(b.label));
+  }, [data]);
+
+  return (
+    <select
+      id={id}
+      className="bg-background w-full rounded-md border p-2"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+    >
+      <option value="">{emptyLabel}</option>
+      {options.map((o) => (
+        <option key={o.id} value={o.id}>
+          {o.label}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,148 @@
+"use client";
+import { useState } from "react";
+import CollectionSelect from "~/components/models/CollectionSelect";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { Textarea } from "~/components/ui/textarea";
+import { api, type RouterOutputs } from "~/trpc/react";
+
+type Collection = RouterOutputs["collection"]["get"];
+
+/** Edits a collection's details and place in the tree, or deletes it. */
+export default function CollectionSettings({
+  collection,
+  onDeleted,
+}: {
+  collection: Collection;
+  onDeleted: () => void;
+}) {
+  const utils = api.useUtils();
+  const [title, setTitle] = useState(collection.title);
+  const [description, setDescription] = useState(collection.description ?? "");
+  const [coverImageUrl, setCoverImageUrl] = useState(
+    collection.coverImageUrl ?? "",
+  );
+  const [parentId, setParentId] = useState(collection.parentId ?? "");
+  const [confirming, setConfirming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const onError = (err: { message: string }) => setError(err.message);
+  const update = api.collection.update.useMutation({ onError });
+  const move = api.collection.move.useMutation({ onError });
+  const remove = api.collection.remove.useMutation({
+    onError,
+    onSuccess: async () => {
+      await utils.collection.invalidate();
+      onDeleted();
+    },
+  });
+
+  return (
+    <form
+      className="space-y-3 rounded-md border p-3 text-sm"
+      onSubmit={async (e) => {
+        e.preventDefault();
+        setError(null);
+        try {
+          await update.mutateAsync({
+            id: collection.id,
+            title,
+            description: description.trim() || null,
+            coverImageUrl: coverImageUrl.trim() || null,
+          });
+          if (parentId !== (collection.parentId ?? "")) {
+            await move.mutateAsync({
+              id: collection.id,
+              parentId: parentId || null,
+            });
+          }
+          await utils.collection.invalidate();
+        } catch {
+          // Shown through onError
+        }
+      }}
+    >
+      <div className="space-y-2">
+        <Label htmlFor="collection-title">Title</Label>
+        <Input
+          id="collection-title"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          required
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="collection-description">Description</Label>
+        <Textarea
+          id="collection-description"
+          rows={2}
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="collection-cover">Cover image URL</Label>
+        <Input
+          id="collection-cover"
+          value={coverImageUrl}
+          onChange={(e) => setCoverImageUrl(e.target.value)}
+          placeholder="https://"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="collection-parent">Inside</Label>
+        <CollectionSelect
+          id="collection-parent"
+          value={parentId}
+          onChange={setParentId}
+          emptyLabel="Top level"
+        />
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <Button
+          type="submit"
+          size="sm"
+          disabled={update.isPending || move.isPending}
+        >
+          {update.isPending || move.isPending ? "Saving…" : "Save collection"}
+        </Button>
+        {confirming ? (
+          <>
+            <Button
+              type="button"
+              size="sm"
+              variant="destructive"
+              disabled={remove.isPending}
+              onClick={() => remove.mutate({ id: collection.id })}
+            >
+              Delete with its sub-collections
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant="secondary"
+              onClick={() => setConfirming(false)}
+            >
+              Cancel
+            </Button>
+          </>
+        ) : (
+          <Button
+            type="button"
+            size="sm"
+            variant="secondary"
+            onClick={() => setConfirming(true)}
+          >
+            Delete collection
+          </Button>
+        )}
+      </div>
+      {confirming && (
+        <p className="opacity-70">
+          Models stay in the library; shares of this collection stop working.
+        </p>
+      )}
+      {error && <div className="text-red-600">{error}</div>}
+    </form>
+  );
+}
@@ -0,0 +1,341 @@
+"use client";
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import CollectionSettings from "~/components/models/CollectionSettings";
+import ModelPicker from "~/components/models/ModelPicker";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { formatBytes } from "~/lib/format";
+import { LICENSES } from "~/lib/licenses";
+import { useDebounced } from "~/lib/useDebounced";
+import { api } from "~/trpc/react";
+
+const SORTS = [
+  { value: "relevance", label: "Best match" },
+  { value: "newest", label: "Newest" },
+  { value: "oldest", label: "Oldest" },
+  { value: "title", label: "Title" },
+  { value: "largest", label: "Largest" },
+  { value: "manual", label: "Collection order" },
+] as const;
+type Sort = (typeof SORTS)[number]["value"];
+
+/**
+ * Grid of the caller's models with search, tag filters and sorting, loaded a page at a time.
+ * Collections show as folders; inside one, only its models are listed and can be reordered.
+ */
+export default function ModelLibrary({
+  initialCollectionId = null,
+}: {
+  initialCollectionId?: string | null;
+}) {
+  const router = useRouter();
+  const utils = api.useUtils();
+  const [collectionId, setCollectionId] = useState(initialCollectionId);
+  const [query, setQuery] = useState("");
+  const [tags, setTags] = useState<string[]>([]);
+  const [sort, setSort] = useState<Sort>(
+    initialCollectionId ? "manual" : "relevance",
+  );
+  const [newFolder, setNewFolder] = useState("");
+  const [showSettings, setShowSettings] = useState(false);
+  const q = useDebounced(query);
+  const { data: allTags } = api.model.tags.useQuery();
+  const { data: current } = api.collection.get.useQuery(
+    { id: collectionId ?? "" },
+    { enabled: !!collectionId },
+  );
+  const { data: folders } = api.collection.list.useQuery({
+    parentId: collectionId,
+  });
+  const library = api.model.library.useInfiniteQuery(
+    { q: q || undefined, tags, sort, limit: 24, collectionId },
+    { getNextPageParam: (page) => page.nextCursor },
+  );
+  const models = library.data?.pages.flatMap((p) => p.items) ?? [];
+  const refresh = async () => {
+    await utils.collection.invalidate();
+    await utils.model.library.invalidate();
+  };
+  const createFolder = api.collection.create.useMutation({
+    onSuccess: async () => {
+      setNewFolder("");
+      await refresh();
+    },
+  });
+  const addModels = api.collection.addModels.useMutation({
+    onSuccess: refresh,
+  });
+  const removeModel = api.collection.removeModel.useMutation({
+    onSuccess: refresh,
+  });
+  const reorderModels = api.collection.reorderModels.useMutation({
+    onSuccess: refresh,
+  });
+  // Reordering a filtered list would shuffle models the caller cannot see
+  const canReorder =
+    !!collectionId && sort === "manual" && !q && tags.length === 0;
+
+  function openCollection(id: string | null) {
+    setCollectionId(id);
+    setSort(id ? "manual" : "relevance");
+    setShowSettings(false);
+    router.replace(id ? `/library?collection=${id}` : "/library", {
+      scroll: false,
+    });
+  }
+
+  function moveModel(index: number, delta: number) {
+    if (!collectionId) return;
+    const ids = models.map((m) => m.id);
+    const [moved] = ids.splice(index, 1);
+    if (!moved) return;
+    ids.splice(index + delta, 0, moved);
+    reorderModels.mutate({ id: collectionId, modelIds: ids });
+  }
+
+  function toggleTag(name: string) {
+    setTags((prev) =>
+      prev.includes(name) ? prev.filter((t) => t !== name) : [...prev, name],
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <nav
+        aria-label="Collections"
+        className="flex flex-wrap items-center gap-1 text-sm"
+      >
+        <button
+          type="button"
+          className="underline"
+          onClick={() => openCollection(null)}
+        >
+          All models
+        </button>
+        {current?.path.map((c) => (
+          <span key={c.id} className="flex items-center gap-1">
+            <span className="opacity-60">/</span>
+            {c.id === collectionId ? (
+              <span className="font-semibold">{c.title}</span>
+            ) : (
+              <button
+                type="button"
+                className="underline"
+                onClick={() => openCollection(c.id)}
+              >
+                {c.title}
+              </button>
+            )}
+          </span>
+        ))}
+        {current && (
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => setShowSettings((v) => !v)}
+          >
+            {showSettings ? "Close settings" : "Collection settings"}
+          </Button>
+        )}
+      </nav>
+      {current?.description && (
+        <p className="opacity-80">{current.description}</p>
+      )}
+      {current && showSettings && (
+        <CollectionSettings
+          key={current.id}
+          collection={current}
+          onDeleted={() => openCollection(current.parentId)}
+        />
+      )}
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-4">
+        {folders?.map((f) => (
+          <button
+            key={f.id}
+            type="button"
+            className="bg-card text-card-foreground overflow-hidden rounded-md border text-left text-sm"
+            onClick={() => openCollection(f.id)}
+          >
+            <div
+              className="bg-muted aspect-video bg-cover bg-center"
+              style={
+                f.coverImageUrl
+                  ? {
+                      backgroundImage: `url(${JSON.stringify(f.coverImageUrl)})`,
+                    }
+                  : undefined
+              }
+            />
+            <div className="p-2">
+              <div className="truncate font-semibold">{f.title}</div>
+              <div className="opacity-70">
+                {f._count.models} models
+                {f._count.children > 0 && ` · ${f._count.children} collections`}
+              </div>
+            </div>
+          </button>
+        ))}
+        <form
+          className="flex flex-col justify-center gap-2 rounded-md border border-dashed p-2 text-sm"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (!newFolder.trim()) return;
+            createFolder.mutate({ title: newFolder, parentId: collectionId });
+          }}
+        >
+          <Input
+            value={newFolder}
+            placeholder="New collection"
+            onChange={(e) => setNewFolder(e.target.value)}
+            aria-label="New collection title"
+          />
+          <Button
+            type="submit"
+            size="sm"
+            variant="secondary"
+            disabled={createFolder.isPending || !newFolder.trim()}
+          >
+            Create
+          </Button>
+        </form>
+      </div>
+      {collectionId && (
+        <div className="max-w-sm space-y-1 text-sm">
+          <div className="opacity-70">Add a model to this collection</div>
+          <ModelPicker
+            value={null}
+            onChange={(m) => {
+              if (m) addModels.mutate({ id: collectionId, modelIds: [m.id] });
+            }}
+          />
+        </div>
+      )}
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          className="max-w-sm"
+          value={query}
+          placeholder="Search title, description, credits…"
+          onChange={(e) => setQuery(e.target.value)}
+          aria-label="Search models"
+        />
+        <select
+          className="bg-background rounded-md border p-2 text-sm"
+          value={sort}
+          onChange={(e) => setSort(e.target.value as Sort)}
+          aria-label="Sort"
+        >
+          {SORTS.filter((s) => !!collectionId || s.value !== "manual").map(
+            (s) => (
+              <option key={s.value} value={s.value}>
+                {s.label}
+              </option>
+            ),
+          )}
+        </select>
+      </div>
+      {allTags && allTags.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {allTags.map((t) => (
+            <Button
+              key={t.name}
+              size="sm"
+              variant={tags.includes(t.name) ? "default" : "secondary"}
+              onClick={() => toggleTag(t.name)}
+            >
+              {t.name} ({t.count})
+            </Button>
+          ))}
+        </div>
+      )}
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+        {models.map((m, index) => (
+          <div
+            key={m.id}
+            className="bg-card text-card-foreground space-y-1 rounded-md border p-4 text-sm"
+          >
+            <div className="truncate text-base font-semibold">{m.title}</div>
+            {m.description && (
+              <p className="line-clamp-2 opacity-80">{m.description}</p>
+            )}
+            <div className="opacity-70">
+              {m.createdAt.toLocaleDateString()}
+              {m.sizeBytes != null && ` · ${formatBytes(m.sizeBytes)}`}
+              {m.triangleCount != null &&
+                ` · ${m.triangleCount.toLocaleString()} triangles`}
+            </div>
+            {(m.credit ?? m.license) && (
+              <div className="opacity-70">
+                {m.credit}
+                {m.credit && m.license && " · "}
+                {m.license && LICENSES[m.license].label}
+              </div>
+            )}
+            {m.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1 pt-1">
+                {m.tags.map((t) => (
+                  <span
+                    key={t}
+                    className="bg-muted rounded px-2 py-0.5 text-xs"
+                  >
+                    {t}
+                  </span>
+                ))}
+              </div>
+            )}
+            {collectionId && (
+              <div className="flex flex-wrap gap-2 pt-1">
+                {canReorder && (
+                  <>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={index === 0 || reorderModels.isPending}
+                      onClick={() => moveModel(index, -1)}
+                      aria-label="Move earlier"
+                    >
+                      ↑
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={
+                        index === models.length - 1 || reorderModels.isPending
+                      }
+                      onClick={() => moveModel(index, 1)}
+                      aria-label="Move later"
+                    >
+                      ↓
+                    </Button>
+                  </>
+                )}
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={removeModel.isPending}
+                  onClick={() =>
+                    removeModel.mutate({ id: collectionId, modelId: m.id })
+                  }
+                >
+                  Remove from collection
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+      {!library.isLoading && models.length === 0 && (
+        <div className="opacity-70">No models match.</div>
+      )}
+      {library.hasNextPage && (
+        <Button
+          variant="secondary"
+          disabled={library.isFetchingNextPage}
+          onClick={() => void library.fetchNextPage()}
+        >
+          {library.isFetchingNextPage ? "Loading…" : "Load more"}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+"use client";
+import { useState } from "react";
+import { Input } from "~/components/ui/input";
+import { useDebounced } from "~/lib/useDebounced";
+import { api, type RouterOutputs } from "~/trpc/react";
+
+export type LibraryModel = RouterOutputs["model"]["library"]["items"][number];
+
+/** Searchable replacement for a `<select>` of every model the caller can see. */
+export default function ModelPicker({
+  value,
+  onChange,
+  placeholder = "Search models…",
+  emptyLabel,
+  id,
+}: {
+  value: LibraryModel | null;
+  onChange: (model: LibraryModel | null) => void;
+  placeholder?: string;
+  /** Shown instead of a blank when nothing is picked, e.g. "Upload as a new model". */
+  emptyLabel?: string;
+  id?: string;
+}) {
+  const [query, setQuery] = useState("");
+  const [open, setOpen] = useState(false);
+  const q = useDebounced(query);
+  const { data, isFetching } = api.model.library.useQuery(
+    { q: q || undefined, limit: 20 },
+    { enabled: open },
+  );
+
+  if (value && !open) {
+    return (
+      <div className="flex items-center justify-between gap-2 rounded-md border p-2 text-sm">
+        <span className="truncate">{value.title}</span>
+        <div className="flex shrink-0 gap-2">
+          <button
+            type="button"
+            className="underline"
+            onClick={() => setOpen(true)}
+          >
+            Change
+          </button>
+          <button
+            type="button"
+            className="underline"
+            onClick={() => onChange(null)}
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <Input
+        id={id}
+        value={query}
+        placeholder={value || !emptyLabel ? placeholder : emptyLabel}
+        onChange={(e) => setQuery(e.target.value)}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setTimeout(() => setOpen(false), 150)}
+        onKeyDown={(e) => {
+          if (e.key === "Escape") setOpen(false);
+        }}
+        role="combobox"
+        aria-expanded={open}
+        autoComplete="off"
+      />
+      {open && (
+        <ul
+          role="listbox"
+          className="bg-background absolute z-10 mt-1 max-h-64 w-full overflow-y-auto rounded-md border text-sm shadow"
+        >
+          {emptyLabel && (
+            <li
+              role="option"
+              aria-selected={!value}
+              className="hover:bg-muted cursor-pointer p-2 opacity-80"
+              onMouseDown={() => {
+                onChange(null);
+                setOpen(false);
+              }}
+            >
+              {emptyLabel}
+            </li>
+          )}
+          {data?.items.map((m) => (
+            <li
+              key={m.id}
+              role="option"
+              aria-selected={m.id === value?.id}
+              className="hover:bg-muted cursor-pointer p-2"
+              onMouseDown={() => {
+                onChange(m);
+                setQuery("");
+                setOpen(false);
+              }}
+            >
+              <div className="truncate">{m.title}</div>
+              {m.tags.length > 0 && (
+                <div className="truncate text-xs opacity-60">
+                  {m.tags.join(", ")}
+                </div>
+              )}
+            </li>
+          ))}
+          {!isFetching && data?.items.length === 0 && (
+            <li className="p-2 opacity-70">No models found.</li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -6,30 +6,46 @@ import { Button } from "~/components/ui/button";
 import { Input } from "~/components/ui/input";
 import { Label } from "~/components/ui/label";
 import { Textarea } from "~/components/ui/textarea";
+import CollectionSelect from "~/components/models/CollectionSelect";
+import ModelPicker, {
+  type LibraryModel,
+} from "~/components/models/ModelPicker";
+import { animationNames } from "~/lib/animations";
 import { api } from "~/trpc/react";
 
 const QRCode = dynamic(() => import("~/components/qr/QRCodeClient"), {
   ssr: false,
 }) as unknown as (p: { value: string; size?: number }) => React.ReactElement;
 
-type Mode = "existing" | "url";
+type Mode = "existing" | "collection" | "url";
 
 export default function ShareCreatorClient() {
-  const { data: models } = api.model.listMine.useQuery();
   const create = api.share.create.useMutation();
 
   const [mode, setMode] = useState<Mode>("existing");
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
-  const [modelId, setModelId] = useState<string>("");
+  const [model, setModel] = useState<LibraryModel | null>(null);
+  const modelId = model?.id ?? "";
+  // Empty follows the model's current version; otherwise the share is pinned.
+  const [modelVersionId, setModelVersionId] = useState<string>("");
+  // Empty leaves the model's animations paused until the visitor plays one
+  const [animationClip, setAnimationClip] = useState<string>("");
+  const clips = animationNames(model?.animations);
   const [modelUrl, setModelUrl] = useState<string>("");
+  const [collectionId, setCollectionId] = useState<string>("");
   const [shareId, setShareId] = useState<string | null>(null);
+  const { data: versions } = api.model.listVersions.useQuery(
+    { modelId },
+    { enabled: mode === "existing" && !!modelId },
+  );
 
   const canSubmit = useMemo(() => {
     if (!title.trim()) return false;
     if (mode === "existing") return !!modelId;
+    if (mode === "collection") return !!collectionId;
     return !!modelUrl.trim();
-  }, [title, mode, modelId, modelUrl]);
+  }, [title, mode, modelId, collectionId, modelUrl]);
 
   async function onCreate() {
     if (!canSubmit) return;
@@ -37,9 +53,16 @@ export default function ShareCreatorClient() {
       title: string;
       description?: string;
       modelId?: string;
+      modelVersionId?: string;
       modelUrl?: string;
+      collectionId?: string;
+      animationClip?: string;
     } = { title, description: description || undefined };
-    if (mode === "existing") input.modelId = modelId;
+    if (mode === "existing") {
+      input.modelId = modelId;
+      input.modelVersionId = modelVersionId || undefined;
+      input.animationClip = animationClip || undefined;
+    } else if (mode === "collection") input.collectionId = collectionId;
     else input.modelUrl = modelUrl;
     const created = await create.mutateAsync(input);
     setShareId(created.id);
@@ -101,6 +124,15 @@ export default function ShareCreatorClient() {
             />
             Use an existing model
           </label>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="radio"
+              name="mode"
+              checked={mode === "collection"}
+              onChange={() => setMode("collection")}
+            />
+            Share a collection
+          </label>
           <label className="flex items-center gap-2 text-sm">
             <input
               type="radio"
@@ -115,19 +147,65 @@ export default function ShareCreatorClient() {
         {mode === "existing" ? (
           <div className="space-y-2">
             <Label htmlFor="model">Model</Label>
-            <select
+            <ModelPicker
               id="model"
-              className="bg-background w-full rounded-md border p-2"
-              value={modelId}
-              onChange={(e) => setModelId(e.target.value)}
-            >
-              <option value="">Select a model…</option>
-              {(models ?? []).map((m) => (
-                <option key={m.id} value={m.id}>
-                  {m.title}
-                </option>
-              ))}
-            </select>
+              value={model}
+              onChange={(m) => {
+                setModel(m);
+                setModelVersionId("");
+                setAnimationClip("");
+              }}
+            />
+            {modelId && (
+              <>
+                <Label htmlFor="modelVersion">Version</Label>
+                <select
+                  id="modelVersion"
+                  className="bg-background w-full rounded-md border p-2"
+                  value={modelVersionId}
+                  onChange={(e) => setModelVersionId(e.target.value)}
+                >
+                  <option value="">Always show the latest version</option>
+                  {(versions ?? []).map((v) => (
+                    <option key={v.id} value={v.id}>
+                      Pin v{v.version}
+                      {v.notes ? ` – ${v.notes.slice(0, 40)}` : ""}
+                    </option>
+                  ))}
+                </select>
+              </>
+            )}
+            {clips.length > 0 && (
+              <>
+                <Label htmlFor="animationClip">Animation</Label>
+                <select
+                  id="animationClip"
+                  className="bg-background w-full rounded-md border p-2"
+                  value={animationClip}
+                  onChange={(e) => setAnimationClip(e.target.value)}
+                >
+                  <option value="">Paused until the visitor plays it</option>
+                  {clips.map((name) => (
+                    <option key={name} value={name}>
+                      Autoplay {name}
+                    </option>
+                  ))}
+                </select>
+              </>
+            )}
+          </div>
+        ) : mode === "collection" ? (
+          <div className="space-y-2">
+            <Label htmlFor="collection">Collection</Label>
+            <CollectionSelect
+              id="collection"
+              value={collectionId}
+              onChange={setCollectionId}
+            />
+            <p className="text-xs opacity-70">
+              Visitors can browse every model in the collection, including those
+              in nested collections.
+            </p>
           </div>
         ) : (
           <div className="space-y-2">
@@ -0,0 +1,111 @@
+"use client";
+import { useEffect, useState, type RefObject } from "react";
+import type {
+  AnimationPlayback,
+  AnimationTimeline,
+} from "~/components/viewer/ModelAnimations";
+
+const SPEEDS = [0.25, 0.5, 1, 1.5, 2];
+const BLENDS = [0, 0.3, 1];
+
+/** Clip picker, transport and timeline for a model's animations, shown under the viewer. */
+export default function AnimationControls({
+  clips,
+  playback,
+  onChange,
+  timeline,
+}: {
+  clips: string[];
+  playback: AnimationPlayback;
+  onChange: (patch: Partial<AnimationPlayback>) => void;
+  timeline: RefObject<AnimationTimeline | null>;
+}) {
+  const [time, setTime] = useState(0);
+  const duration = timeline.current?.duration ?? 0;
+
+  // The mixer runs inside the canvas; follow it here without re-rendering the viewer
+  useEffect(() => {
+    let frame = 0;
+    const tick = () => {
+      setTime(timeline.current?.time() ?? 0);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [timeline]);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      {clips.length > 1 && (
+        <select
+          className="rounded-md border bg-transparent px-2 py-1"
+          value={playback.clip ?? ""}
+          onChange={(e) => onChange({ clip: e.target.value, playing: true })}
+          title="Animation"
+        >
+          {clips.map((name) => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </select>
+      )}
+      <button
+        type="button"
+        className="rounded-md bg-white px-3 py-1 text-black"
+        onClick={() => onChange({ playing: !playback.playing })}
+      >
+        {playback.playing
+          ? "Pause"
+          : `Play${clips.length > 1 ? "" : ` ${playback.clip}`}`}
+      </button>
+      <input
+        type="range"
+        className="min-w-32 flex-1"
+        min={0}
+        max={duration}
+        step={0.01}
+        value={Math.min(time, duration)}
+        onChange={(e) => timeline.current?.seek(Number(e.target.value))}
+        aria-label="Animation time"
+      />
+      <span className="tabular-nums opacity-80">
+        {time.toFixed(1)} / {duration.toFixed(1)} s
+      </span>
+      <label className="flex items-center gap-1">
+        <input
+          type="checkbox"
+          checked={playback.loop}
+          onChange={(e) => onChange({ loop: e.target.checked })}
+        />
+        Loop
+      </label>
+      <select
+        className="rounded-md border bg-transparent px-2 py-1"
+        value={playback.speed}
+        onChange={(e) => onChange({ speed: Number(e.target.value) })}
+        title="Speed"
+      >
+        {SPEEDS.map((speed) => (
+          <option key={speed} value={speed}>
+            {speed}×
+          </option>
+        ))}
+      </select>
+      {clips.length > 1 && (
+        <select
+          className="rounded-md border bg-transparent px-2 py-1"
+          value={playback.blend}
+          onChange={(e) => onChange({ blend: Number(e.target.value) })}
+          title="Blend into the next clip"
+        >
+          {BLENDS.map((blend) => (
+            <option key={blend} value={blend}>
+              {blend ? `Blend ${blend} s` : "No blend"}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
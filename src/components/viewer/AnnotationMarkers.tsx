@@ -0,0 +1,101 @@
+"use client";
+import { Html } from "@react-three/drei";
+import { useState, type RefObject } from "react";
+import ReactMarkdown from "react-markdown";
+import rehypeSanitize from "rehype-sanitize";
+import remarkGfm from "remark-gfm";
+import type { Object3D } from "three";
+import {
+  annotationMediaKind,
+  type Vec3,
+  type ViewerAnnotation,
+} from "~/lib/annotations";
+
+function AnnotationMedia({ url, title }: { url: string; title: string }) {
+  const kind = annotationMediaKind(url);
+  if (kind === "image") {
+    return (
+      // Media may be hosted anywhere, so next/image's allow-listed loader does not apply
+      // eslint-disable-next-line @next/next/no-img-element
+      <img
+        src={url}
+        alt={title}
+        className="max-h-40 w-full rounded object-contain"
+      />
+    );
+  }
+  if (kind === "video") {
+    return <video src={url} controls className="max-h-40 w-full rounded" />;
+  }
+  return (
+    <a href={url} target="_blank" rel="noreferrer" className="underline">
+      More about {title}
+    </a>
+  );
+}
+
+/**
+ * Numbered hotspots drawn as children of a model's scene, so they move with it. Each marker sits
+ * `offset` scene units off the surface along its normal and is hidden while `occluder` is between
+ * it and the camera. Clicking a marker opens its text and media.
+ */
+export default function AnnotationMarkers({
+  annotations,
+  occluder,
+  offset,
+}: {
+  annotations: ViewerAnnotation[];
+  occluder: RefObject<Object3D>;
+  offset: number;
+}) {
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  return annotations.map((a, i) => {
+    const position: Vec3 = [
+      a.anchor[0] + a.normal[0] * offset,
+      a.anchor[1] + a.normal[1] * offset,
+      a.anchor[2] + a.normal[2] * offset,
+    ];
+    const open = openId === a.id;
+    return (
+      <Html
+        key={a.id}
+        position={position}
+        occlude={[occluder]}
+        zIndexRange={open ? [40, 30] : [20, 10]}
+      >
+        <div className="relative -translate-x-1/2 -translate-y-1/2">
+          <button
+            type="button"
+            className={`flex h-6 w-6 items-center justify-center rounded-full border-2 border-white text-xs font-semibold text-white shadow ${
+              open ? "bg-blue-600" : "bg-black/70"
+            }`}
+            title={a.title}
+            aria-expanded={open}
+            onClick={() => setOpenId(open ? null : a.id)}
+          >
+            {i + 1}
+          </button>
+          {open && (
+            <div className="absolute top-7 left-1/2 w-64 -translate-x-1/2 space-y-2 rounded-md bg-black/85 p-3 text-sm text-white">
+              <div className="font-semibold">{a.title}</div>
+              {a.body && (
+                <div className="prose prose-sm prose-invert max-h-48 overflow-y-auto">
+                  <ReactMarkdown
+                    remarkPlugins={[remarkGfm]}
+                    rehypePlugins={[rehypeSanitize]}
+                  >
+                    {a.body}
+                  </ReactMarkdown>
+                </div>
+              )}
+              {a.mediaUrl && (
+                <AnnotationMedia url={a.mediaUrl} title={a.title} />
+              )}
+            </div>
+          )}
+        </div>
+      </Html>
+    );
+  });
+}
@@ -0,0 +1,72 @@
+"use client";
+import { useBounds } from "@react-three/drei";
+import { useFrame, useThree } from "@react-three/fiber";
+import { useEffect, useRef, type RefObject } from "react";
+import { PerspectiveCamera, Vector3, type Object3D } from "three";
+import type { ViewpointCamera } from "~/lib/viewpoints";
+
+/** A camera to fly to; a new object flies there again even when the camera is the same. */
+export interface CameraMove {
+  camera: ViewpointCamera;
+}
+
+/** The current camera in `scene` space, to save as a viewpoint. */
+export function captureView(
+  camera: PerspectiveCamera,
+  target: Vector3,
+  scene: Object3D,
+): ViewpointCamera {
+  const toScene = scene.matrixWorld.clone().invert();
+  return {
+    position: camera.position.clone().applyMatrix4(toScene).toArray(),
+    target: target.clone().applyMatrix4(toScene).toArray(),
+    fov: camera.fov,
+  };
+}
+
+/**
+ * Flies the camera to `move` through the surrounding `<Bounds>`, which also animates "Fit", so the
+ * two never pull the camera different ways; the field of view eases alongside. Viewpoints are in
+ * the model scene's own coordinates, so they still line up after the stage re-centres the model.
+ */
+export default function CameraRig({
+  move,
+  scene,
+}: {
+  move: CameraMove | null;
+  scene: RefObject<Object3D>;
+}) {
+  const bounds = useBounds();
+  const camera = useThree((state) => state.camera);
+  const fovGoal = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (!move) return;
+    // Defer one tick so the model is mounted and placed by the stage
+    const t = setTimeout(() => {
+      const object = scene.current;
+      object.updateWorldMatrix(true, false);
+      const { position, target, fov } = move.camera;
+      bounds
+        .moveTo(new Vector3(...position).applyMatrix4(object.matrixWorld))
+        .lookAt({
+          target: new Vector3(...target).applyMatrix4(object.matrixWorld),
+        });
+      fovGoal.current = fov;
+    }, 0);
+    return () => clearTimeout(t);
+  }, [move, bounds, scene]);
+
+  useFrame((_, delta) => {
+    const goal = fovGoal.current;
+    if (goal === null || !(camera instanceof PerspectiveCamera)) return;
+    camera.fov += (goal - camera.fov) * Math.min(1, delta * 5);
+    if (Math.abs(goal - camera.fov) < 0.05) {
+      camera.fov = goal;
+      fovGoal.current = null;
+    }
+    camera.updateProjectionMatrix();
+  });
+
+  return null;
+}
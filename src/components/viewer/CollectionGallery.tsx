@@ -0,0 +1,97 @@
+"use client";
+import { useState } from "react";
+import DuplicateModelButton from "~/components/viewer/DuplicateModelButton";
+import ModelViewer from "~/components/viewer/ModelViewer";
+import type { ViewerAnnotation } from "~/lib/annotations";
+import type { ModelCredit } from "~/lib/licenses";
+import type { ViewerTour, ViewerViewpoint } from "~/lib/viewpoints";
+
+export interface GalleryItem {
+  id: string;
+  title: string;
+  src: string;
+  originalSrc?: string;
+  usdz?: string;
+  credit?: ModelCredit;
+  downloadable?: boolean;
+  annotations?: ViewerAnnotation[];
+  viewpoints?: ViewerViewpoint[];
+  tours?: ViewerTour[];
+  metersPerUnit?: number | null;
+  /** Offers "Duplicate to my library"; the id is the model's. */
+  copyable?: boolean;
+}
+
+/**
+ * One viewer for a shared collection, with a strip of its models to switch between. `tourId` and
+ * `kiosk` apply to whichever model has that tour.
+ */
+export default function CollectionGallery({
+  items,
+  tourId,
+  viewpointId,
+  kiosk,
+}: {
+  items: GalleryItem[];
+  tourId?: string;
+  viewpointId?: string;
+  kiosk?: boolean;
+}) {
+  const [selectedId, setSelectedId] = useState(
+    () =>
+      (tourId &&
+        items.find((i) => i.tours?.some((t) => t.id === tourId))?.id) ??
+      (viewpointId &&
+        items.find((i) => i.viewpoints?.some((v) => v.id === viewpointId))
+          ?.id) ??
+      items[0]?.id,
+  );
+  const selected = items.find((i) => i.id === selectedId) ?? items[0];
+
+  if (!selected) {
+    return <div className="opacity-70">This collection is empty.</div>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <ModelViewer
+        key={selected.id}
+        src={selected.src}
+        originalSrc={selected.originalSrc}
+        usdz={selected.usdz}
+        title={selected.title}
+        background="dark"
+        credit={selected.credit}
+        downloadable={selected.downloadable}
+        annotations={selected.annotations}
+        viewpoints={selected.viewpoints}
+        tours={selected.tours}
+        metersPerUnit={selected.metersPerUnit}
+        tourId={tourId}
+        viewpointId={viewpointId}
+        kiosk={kiosk}
+      />
+      {selected.copyable && (
+        <DuplicateModelButton key={selected.id} modelId={selected.id} />
+      )}
+      {items.length > 1 && (
+        <div className="flex gap-2 overflow-x-auto pb-1" role="tablist">
+          {items.map((item) => (
+            <button
+              key={item.id}
+              type="button"
+              role="tab"
+              aria-selected={item.id === selected.id}
+              className={`shrink-0 rounded-md border px-3 py-2 text-sm ${
+                item.id === selected.id ? "bg-muted font-semibold" : ""
+              }`}
+              onClick={() => setSelectedId(item.id)}
+            >
+              {item.title}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+"use client";
+import Link from "next/link";
+import { useState } from "react";
+import { api } from "~/trpc/react";
+
+/** Copies a shared model into the signed-in viewer's library. */
+export default function DuplicateModelButton({ modelId }: { modelId: string }) {
+  const [error, setError] = useState<string | null>(null);
+  const duplicate = api.model.duplicate.useMutation({
+    onError: (err) => setError(err.message),
+  });
+
+  if (duplicate.isSuccess) {
+    return (
+      <div className="text-sm">
+        Copied to your{" "}
+        <Link href="/library" className="underline">
+          library
+        </Link>
+        .
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      <button
+        type="button"
+        className="rounded-md border px-3 py-1 text-sm disabled:opacity-50"
+        disabled={duplicate.isPending}
+        onClick={() => {
+          setError(null);
+          duplicate.mutate({ id: modelId });
+        }}
+      >
+        {duplicate.isPending ? "Copying…" : "Duplicate to my library"}
+      </button>
+      {error && <div className="text-sm text-red-600">{error}</div>}
+    </div>
+  );
+}
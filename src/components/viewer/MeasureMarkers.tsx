@@ -0,0 +1,68 @@
+"use client";
+import { Html, Line } from "@react-three/drei";
+import type { Vec3 } from "~/lib/annotations";
+import type { MeasureMode } from "~/lib/measurements";
+
+// Markers are drawn over the model and never picked, so the next click lands on the surface
+const noRaycast = () => null;
+
+/** Where the reading sits: mid-span for a distance, at the vertex of an angle, inside an area. */
+function labelPosition(mode: MeasureMode, points: Vec3[]): Vec3 {
+  if (mode === "angle") return points[1]!;
+  const sum = points.reduce<Vec3>(
+    (acc, p) => [acc[0] + p[0], acc[1] + p[1], acc[2] + p[2]],
+    [0, 0, 0],
+  );
+  return [
+    sum[0] / points.length,
+    sum[1] / points.length,
+    sum[2] / points.length,
+  ];
+}
+
+/**
+ * The points picked for a measurement and the lines between them, drawn as children of the model's
+ * scene in its coordinates. `size` is the radius of a point; `label` is the reading, once there is
+ * one.
+ */
+export default function MeasureMarkers({
+  mode,
+  points,
+  label,
+  size,
+}: {
+  mode: MeasureMode;
+  points: Vec3[];
+  label: string | null;
+  size: number;
+}) {
+  if (points.length === 0) return null;
+  const outline = mode === "area" && points.length > 2;
+  return (
+    <>
+      {points.map((p, i) => (
+        <mesh key={i} position={p} renderOrder={999} raycast={noRaycast}>
+          <sphereGeometry args={[size, 12, 12]} />
+          <meshBasicMaterial color="#facc15" depthTest={false} />
+        </mesh>
+      ))}
+      {points.length > 1 && (
+        <Line
+          points={outline ? [...points, points[0]!] : points}
+          color="#facc15"
+          lineWidth={2}
+          depthTest={false}
+          renderOrder={999}
+          raycast={noRaycast}
+        />
+      )}
+      {label && (
+        <Html position={labelPosition(mode, points)} center>
+          <div className="pointer-events-none rounded bg-black/80 px-2 py-1 text-xs whitespace-nowrap text-white">
+            {label}
+          </div>
+        </Html>
+      )}
+    </>
+  );
+}
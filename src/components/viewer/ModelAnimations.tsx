@@ -0,0 +1,112 @@
+"use client";
+import { useFrame } from "@react-three/fiber";
+import { useEffect, useMemo, useRef, type RefObject } from "react";
+import {
+  AnimationMixer,
+  LoopOnce,
+  LoopRepeat,
+  type AnimationAction,
+  type AnimationClip,
+  type Object3D,
+} from "three";
+import { clipName } from "~/lib/animations";
+
+export interface AnimationPlayback {
+  /** Name of the selected clip, see `clipName`. */
+  clip: string | null;
+  playing: boolean;
+  loop: boolean;
+  speed: number;
+  /** Seconds spent cross-fading into a newly picked clip; 0 switches at once. */
+  blend: number;
+}
+
+/** The selected clip's time, read and set from outside the canvas without re-rendering it. */
+export interface AnimationTimeline {
+  duration: number;
+  time: () => number;
+  seek: (seconds: number) => void;
+}
+
+/**
+ * Plays a model's clips as `playback` says. A clip played once stops on its last frame and
+ * reports `onEnded`; `timeline` is kept pointing at the selected clip for scrubbing.
+ */
+export default function ModelAnimations({
+  scene,
+  clips,
+  playback,
+  timeline,
+  onEnded,
+}: {
+  scene: Object3D;
+  clips: AnimationClip[];
+  playback: AnimationPlayback;
+  timeline: RefObject<AnimationTimeline | null>;
+  onEnded: () => void;
+}) {
+  const mixer = useMemo(() => new AnimationMixer(scene), [scene]);
+  const current = useRef<AnimationAction | null>(null);
+  const fading = useRef<AnimationAction | null>(null);
+  const clip = clips.find((c, i) => clipName(c.name, i) === playback.clip);
+
+  useFrame((_, delta) => mixer.update(delta));
+
+  useEffect(() => {
+    // A clip fading out may finish too; only the selected one counts
+    const listener = ({ action }: { action: AnimationAction }) => {
+      if (action === current.current) onEnded();
+    };
+    mixer.addEventListener("finished", listener);
+    return () => mixer.removeEventListener("finished", listener);
+  }, [mixer, onEnded]);
+
+  useEffect(
+    () => () => {
+      mixer.stopAllAction();
+      mixer.uncacheRoot(scene);
+    },
+    [mixer, scene],
+  );
+
+  useEffect(() => {
+    const previous = current.current;
+    const next = clip ? mixer.clipAction(clip) : null;
+    if (next === previous) return;
+    fading.current?.stop();
+    fading.current = null;
+    next?.reset().play();
+    if (previous && next && playback.blend > 0) {
+      previous.crossFadeTo(next, playback.blend, false);
+      fading.current = previous;
+    } else {
+      previous?.stop();
+    }
+    current.current = next;
+    timeline.current =
+      next && clip
+        ? {
+            duration: clip.duration,
+            time: () => next.time,
+            seek: (seconds) => {
+              next.time = seconds;
+              // Poses the model at the new time even while paused
+              mixer.update(0);
+            },
+          }
+        : null;
+  }, [clip, mixer, playback.blend, timeline]);
+
+  useEffect(() => {
+    const action = current.current;
+    if (!action || !clip) return;
+    action.setLoop(playback.loop ? LoopRepeat : LoopOnce, Infinity);
+    action.clampWhenFinished = true;
+    // Playing a clip that ran to its end starts it over
+    if (playback.playing && action.time >= clip.duration) action.time = 0;
+    action.paused = !playback.playing;
+    mixer.timeScale = playback.speed;
+  }, [clip, mixer, playback.loop, playback.playing, playback.speed]);
+
+  return null;
+}
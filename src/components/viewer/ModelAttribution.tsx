@@ -0,0 +1,55 @@
+import { LICENSES, type ModelCredit } from "~/lib/licenses";
+
+/** Credit, license and source for a model; renders nothing when none are set. */
+export default function ModelAttribution({
+  credit,
+  license,
+  sourceUrl,
+  acknowledgements,
+}: ModelCredit) {
+  if (!credit && !license && !sourceUrl && !acknowledgements) return null;
+  const info = license ? LICENSES[license] : null;
+
+  return (
+    <div className="space-y-1 text-sm opacity-80">
+      {(credit ?? sourceUrl) && (
+        <p>
+          Model courtesy of{" "}
+          {sourceUrl ? (
+            <a
+              className="underline"
+              href={sourceUrl}
+              target="_blank"
+              rel="noreferrer"
+            >
+              {credit ?? sourceUrl}
+            </a>
+          ) : (
+            credit
+          )}
+          .
+        </p>
+      )}
+      {info && (
+        <p>
+          License:{" "}
+          {info.url ? (
+            <a
+              className="underline"
+              href={info.url}
+              target="_blank"
+              rel="license noreferrer"
+            >
+              {info.label}
+            </a>
+          ) : (
+            info.label
+          )}
+        </p>
+      )}
+      {acknowledgements && (
+        <p className="whitespace-pre-line">{acknowledgements}</p>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 "use client";
-import { Canvas } from "@react-three/fiber";
+import { Canvas, useThree, type ThreeEvent } from "@react-three/fiber";
 import {
   OrbitControls,
   Stage,
@@ -11,11 +11,248 @@ import {
 } from "@react-three/drei";
 import * as React from "react";
 import { Suspense, useEffect } from "react";
+import {
+  Box3,
+  PerspectiveCamera,
+  Sphere,
+  Vector3,
+  type Mesh,
+  type Object3D,
+  type SkinnedMesh,
+  type WebGLRenderer,
+} from "three";
+import { KTX2Loader } from "three-stdlib";
+import AnimationControls from "~/components/viewer/AnimationControls";
+import AnnotationMarkers from "~/components/viewer/AnnotationMarkers";
+import CameraRig, {
+  captureView,
+  type CameraMove,
+} from "~/components/viewer/CameraRig";
+import MeasureMarkers from "~/components/viewer/MeasureMarkers";
+import ModelAnimations, {
+  type AnimationPlayback,
+  type AnimationTimeline,
+} from "~/components/viewer/ModelAnimations";
+import ModelAttribution from "~/components/viewer/ModelAttribution";
+import PrintExport from "~/components/viewer/PrintExport";
+import ScaleFigure from "~/components/viewer/ScaleFigure";
+import SectionPlanes from "~/components/viewer/SectionPlanes";
+import { sceneBox } from "~/components/viewer/sceneBox";
+import { useTour } from "~/components/viewer/useTour";
+import { clipName } from "~/lib/animations";
+import type { Vec3, ViewerAnnotation } from "~/lib/annotations";
+import { attributionText, type ModelCredit } from "~/lib/licenses";
+import {
+  defaultUnitSystem,
+  formatLength,
+  HUMAN_HEIGHT_M,
+  MEASURE_POINTS,
+  measurementText,
+  type MeasureMode,
+  type UnitSystem,
+} from "~/lib/measurements";
+import {
+  flipSection,
+  isCutAway,
+  MAX_SECTION_PLANES,
+  presetSection,
+  type SectionAxis,
+  type SectionPlane,
+} from "~/lib/sections";
+import type {
+  ViewerTour,
+  ViewerViewpoint,
+  ViewpointCamera,
+  ViewpointView,
+} from "~/lib/viewpoints";
+
+const BASIS_TRANSCODER_PATH = "/api/decoders/basis/";
+
+// One transcoder per renderer; optimized models may carry KTX2 textures
+const ktx2Loaders = new WeakMap<WebGLRenderer, KTX2Loader>();
+function ktx2LoaderFor(gl: WebGLRenderer) {
+  let loader = ktx2Loaders.get(gl);
+  if (!loader) {
+    loader = new KTX2Loader()
+      .setTranscoderPath(BASIS_TRANSCODER_PATH)
+      .detectSupport(gl);
+    ktx2Loaders.set(gl, loader);
+  }
+  return loader;
+}
+
+/** Called with a point picked on the model's surface, in the scene's own coordinates. */
+type PlaceAnnotation = (anchor: Vec3, normal: Vec3) => void;
+
+/** Where a click hit the model: the point and the outward surface normal, in `scene` space. */
+function pickSurface(e: ThreeEvent<MouseEvent>, scene: Object3D) {
+  const toScene = scene.matrixWorld.clone().invert();
+  const normal = e.face?.normal
+    .clone()
+    .transformDirection(e.object.matrixWorld);
+  // Double-sided faces can be hit from behind; the marker belongs on the side facing the camera
+  if (normal && normal.dot(e.ray.direction) > 0) normal.negate();
+  return {
+    anchor: e.point.clone().applyMatrix4(toScene).toArray(),
+    normal:
+      normal?.transformDirection(toScene).toArray() ?? ([0, 1, 0] as Vec3),
+  };
+}
+
+/**
+ * A point picked for measuring, in `scene` space. It snaps to the corner of the hit triangle when
+ * that is within about 1% of the viewing distance, so edges and corners are easy to hit exactly.
+ */
+function pickMeasurePoint(e: ThreeEvent<MouseEvent>, scene: Object3D): Vec3 {
+  let point = e.point;
+  // Skinned and morphed meshes are drawn away from their stored vertices
+  const mesh = e.object as Partial<SkinnedMesh>;
+  const position =
+    mesh.isMesh && !mesh.isSkinnedMesh && !mesh.morphTargetInfluences?.length
+      ? mesh.geometry?.getAttribute("position")
+      : undefined;
+  if (e.face && position) {
+    let nearest = e.distance * 0.01;
+    for (const index of [e.face.a, e.face.b, e.face.c]) {
+      const corner = new Vector3()
+        .fromBufferAttribute(position, index)
+        .applyMatrix4(e.object.matrixWorld);
+      const d = corner.distanceTo(e.point);
+      if (d < nearest) {
+        nearest = d;
+        point = corner;
+      }
+    }
+  }
+  return point
+    .clone()
+    .applyMatrix4(scene.matrixWorld.clone().invert())
+    .toArray();
+}
+
+/** The measurement in progress, drawn on the model. */
+interface MeasureState {
+  mode: MeasureMode;
+  points: Vec3[];
+  label: string | null;
+  onPick: (point: Vec3) => void;
+}
+
 // Relax types when local env lacks @types/three
-type GLTFResult = { scene: object };
-function GLB({ src }: { src: string }) {
-  const result: GLTFResult = useGLTF(src) as unknown as GLTFResult;
-  return <primitive object={result.scene} />;
+function GLB({
+  src,
+  sceneRef,
+  annotations,
+  onPlaceAnnotation,
+  measure,
+  scaleFigure,
+  section,
+  sectionEditing,
+  animation,
+}: {
+  src: string;
+  /** Set to the loaded scene; annotations and viewpoints are in its coordinates. */
+  sceneRef: React.RefObject<Object3D>;
+  annotations?: ViewerAnnotation[];
+  onPlaceAnnotation?: PlaceAnnotation;
+  /** While set, clicks pick measuring points instead of placing annotations. */
+  measure?: MeasureState;
+  scaleFigure?: { metersPerUnit: number; label: string };
+  /** Cuts through the model; clicks pass through the parts cut away. */
+  section: SectionPlane[];
+  sectionEditing?: React.ComponentProps<typeof SectionPlanes>["editing"];
+  /** Playback of the model's clips, whose names are reported through `onClips` once loaded. */
+  animation: Omit<
+    React.ComponentProps<typeof ModelAnimations>,
+    "scene" | "clips"
+  > & { onClips: (names: string[]) => void };
+}) {
+  const gl = useThree((state) => state.gl);
+  // Draco and meshopt decoders are on by default in useGLTF
+  const result = useGLTF(src, true, true, (loader) =>
+    loader.setKTX2Loader(ktx2LoaderFor(gl)),
+  );
+  const scene: Object3D = result.scene;
+  const { onClips } = animation;
+  useEffect(() => {
+    onClips(result.animations.map((clip, i) => clipName(clip.name, i)));
+  }, [result, onClips]);
+  // Measured before any overlay is added to the scene
+  const radius = React.useMemo(
+    () =>
+      new Box3().setFromObject(scene).getBoundingSphere(new Sphere()).radius,
+    [scene],
+  );
+  const meshes = React.useMemo(() => {
+    const found: Mesh[] = [];
+    scene.traverse((o) => {
+      if ((o as Partial<Mesh>).isMesh) found.push(o as Mesh);
+    });
+    return found;
+  }, [scene]);
+  // Markers float 1% of the model's size off the surface so it does not hide them
+  const markerOffset = radius * 0.01;
+  return (
+    <primitive
+      object={scene}
+      ref={sceneRef}
+      onClick={
+        measure || onPlaceAnnotation
+          ? (e: ThreeEvent<MouseEvent>) => {
+              // A drag to orbit also ends in a click
+              if (e.delta > 4) return;
+              // Leaves the event to the next surface along the ray
+              const local = e.point
+                .clone()
+                .applyMatrix4(scene.matrixWorld.clone().invert())
+                .toArray();
+              if (isCutAway(section, local)) return;
+              e.stopPropagation();
+              if (measure) {
+                measure.onPick(pickMeasurePoint(e, scene));
+              } else if (onPlaceAnnotation) {
+                const { anchor, normal } = pickSurface(e, scene);
+                onPlaceAnnotation(anchor, normal);
+              }
+            }
+          : undefined
+      }
+    >
+      {!!annotations?.length && (
+        <AnnotationMarkers
+          annotations={annotations}
+          occluder={sceneRef}
+          offset={markerOffset}
+        />
+      )}
+      {measure && (
+        <MeasureMarkers
+          mode={measure.mode}
+          points={measure.points}
+          label={measure.label}
+          size={markerOffset * 0.6}
+        />
+      )}
+      {scaleFigure && <ScaleFigure scene={scene} {...scaleFigure} />}
+      {result.animations.length > 0 && (
+        <ModelAnimations
+          scene={scene}
+          clips={result.animations}
+          playback={animation.playback}
+          timeline={animation.timeline}
+          onEnded={animation.onEnded}
+        />
+      )}
+      {section.length > 0 && (
+        <SectionPlanes
+          section={section}
+          meshes={meshes}
+          radius={radius}
+          editing={sectionEditing}
+        />
+      )}
+    </primitive>
+  );
 }
 
 function isIOS() {
@@ -69,28 +306,344 @@ class ErrorBoundary extends React.Component<
   }
 }
 
+type EnvPreset = "studio" | "city" | "sunset" | "forest";
+
+function LoaderBar() {
+  const { progress } = useProgress();
+  const pct = Math.max(1, Math.round(progress));
+  return (
+    <Html fullscreen>
+      <div className="flex h-full w-full items-center justify-center bg-black/50">
+        <div className="w-56 rounded-md bg-black/80 p-4 text-white">
+          <div className="h-2 w-full rounded bg-white/20">
+            <div
+              className="h-2 rounded bg-white"
+              style={{ width: `${pct}%` }}
+            />
+          </div>
+          <div className="mt-2 text-center text-xs">Loading {pct}%</div>
+        </div>
+      </div>
+    </Html>
+  );
+}
+
+type ToolbarProps = {
+  onFit: () => void;
+  onSaveView?: () => void;
+  measuring: boolean;
+  onToggleMeasure: () => void;
+  sectioning: boolean;
+  onToggleSection: () => void;
+  /** Only offered when the model's scale is known. */
+  showFigure?: boolean;
+  onToggleFigure?: () => void;
+  autoRotate: boolean;
+  onToggleAutoRotate: () => void;
+  envPreset?: EnvPreset;
+  onEnvPreset: (preset: EnvPreset | undefined) => void;
+  onReload: () => void;
+};
+
+function Toolbar({
+  onFit,
+  onSaveView,
+  measuring,
+  onToggleMeasure,
+  sectioning,
+  onToggleSection,
+  showFigure,
+  onToggleFigure,
+  autoRotate,
+  onToggleAutoRotate,
+  envPreset,
+  onEnvPreset,
+  onReload,
+}: ToolbarProps) {
+  return (
+    <Html position={[0, 0, 0]} fullscreen>
+      <div className="pointer-events-auto absolute top-3 right-3 flex gap-2">
+        <button
+          className="rounded bg-white/90 px-2 py-1 text-xs text-black"
+          onClick={onFit}
+          title="Fit to view"
+        >
+          Fit
+        </button>
+        <button
+          className="rounded bg-white/90 px-2 py-1 text-xs text-black"
+          onClick={onToggleMeasure}
+          title="Measure distances, angles and areas"
+        >
+          {measuring ? "Done" : "Measure"}
+        </button>
+        <button
+          className="rounded bg-white/90 px-2 py-1 text-xs text-black"
+          onClick={onToggleSection}
+          title="Cut the model open"
+        >
+          {sectioning ? "Done" : "Section"}
+        </button>
+        {onToggleFigure && (
+          <button
+            className="rounded bg-white/90 px-2 py-1 text-xs text-black"
+            onClick={onToggleFigure}
+            title="Show a person for scale"
+          >
+            {showFigure ? "Hide person" : "Person"}
+          </button>
+        )}
+        {onSaveView && (
+          <button
+            className="rounded bg-white/90 px-2 py-1 text-xs text-black"
+            onClick={onSaveView}
+            title="Save the current camera as a viewpoint"
+          >
+            Save view
+          </button>
+        )}
+        <button
+          className="rounded bg-white/90 px-2 py-1 text-xs text-black"
+          onClick={onToggleAutoRotate}
+          title="Toggle autorotate"
+        >
+          {autoRotate ? "Pause" : "Rotate"}
+        </button>
+        <select
+          className="rounded bg-white/90 px-2 py-1 text-xs text-black"
+          value={envPreset ?? "none"}
+          onChange={(e) =>
+            onEnvPreset(
+              e.target.value === "none"
+                ? undefined
+                : (e.target.value as EnvPreset),
+            )
+          }
+          title="Environment"
+        >
+          <option value="none">Env: none</option>
+          <option value="studio">Env: studio</option>
+          <option value="city">Env: city</option>
+          <option value="sunset">Env: sunset</option>
+          <option value="forest">Env: forest</option>
+        </select>
+        <button
+          className="rounded bg-white/90 px-2 py-1 text-xs text-black"
+          onClick={onReload}
+          title="Reload model"
+        >
+          Reload
+        </button>
+      </div>
+    </Html>
+  );
+}
+
+/** The toolbar inside the canvas, where it can reach the bounds and the camera. */
+function FitButtonOverlay({
+  onBeforeFit,
+  onCaptureView,
+  sceneRef,
+  ...toolbar
+}: Omit<ToolbarProps, "onFit" | "onSaveView"> & {
+  onBeforeFit: () => void;
+  onCaptureView?: (camera: ViewpointCamera) => void;
+  sceneRef: React.RefObject<Object3D>;
+}) {
+  const api = useBounds();
+  const camera = useThree((state) => state.camera);
+  const controls = useThree((state) => state.controls) as unknown as {
+    target: Vector3;
+  } | null;
+  return (
+    <Toolbar
+      {...toolbar}
+      onFit={() => {
+        onBeforeFit();
+        api.refresh().fit();
+      }}
+      onSaveView={
+        onCaptureView && camera instanceof PerspectiveCamera
+          ? () =>
+              onCaptureView(
+                captureView(
+                  camera,
+                  controls?.target ?? new Vector3(),
+                  sceneRef.current,
+                ),
+              )
+          : undefined
+      }
+    />
+  );
+}
+
+/** Fits the camera to the model whenever it (re)loads. */
+function AutoFit({ src, reloadKey }: { src: string; reloadKey: number }) {
+  // The bounds API changes identity as the camera and controls settle, which must not refit
+  const bounds = useBounds();
+  const latestBounds = React.useRef(bounds);
+  useEffect(() => {
+    latestBounds.current = bounds;
+  }, [bounds]);
+  useEffect(() => {
+    // Defer one tick to ensure geometry is ready
+    const t = setTimeout(() => latestBounds.current.refresh().fit(), 0);
+    return () => clearTimeout(t);
+  }, [src, reloadKey]);
+  return null;
+}
+
 export default function ModelViewer({
   src,
+  originalSrc,
   usdz,
-  title: _title,
+  title,
   background = "dark",
+  credit,
+  downloadable = true,
+  annotations,
+  onPlaceAnnotation,
+  viewpoints,
+  tours,
+  tourId,
+  viewpointId,
+  kiosk = false,
+  animationClip,
+  onCaptureView,
+  metersPerUnit,
 }: {
   src: string;
+  /**
+   * The file as uploaded when `src` is an optimized derivative. Downloads, Scene Viewer and the VR
+   * page use it since they cannot decode every compression extension.
+   */
+  originalSrc?: string;
   usdz?: string;
   title?: string;
   background?: ViewerBackground;
+  /** Licensing and credit shown under the viewer and offered with downloads. */
+  credit?: ModelCredit;
+  /** Offer the file for download and 3D printing; off when the model's policy forbids it. */
+  downloadable?: boolean;
+  /** Numbered hotspots pinned to the model. */
+  annotations?: ViewerAnnotation[];
+  /** Authoring mode: clicking the model picks a point for a new annotation instead of orbiting. */
+  onPlaceAnnotation?: PlaceAnnotation;
+  /** Saved camera bookmarks; the viewer opens at the first. */
+  viewpoints?: ViewerViewpoint[];
+  /** Guided tours through the viewpoints; `tourId` picks the one offered first. */
+  tours?: ViewerTour[];
+  tourId?: string;
+  /** The viewpoint to open at instead of the first. */
+  viewpointId?: string;
+  /** Unattended screens: the tour plays by itself and loops. */
+  kiosk?: boolean;
+  /** Animation clip to play as soon as the model loads; otherwise the first waits for Play. */
+  animationClip?: string | null;
+  /** Authoring: adds a "Save view" button that reports the current camera and cuts. */
+  onCaptureView?: (camera: ViewpointCamera, section: SectionPlane[]) => void;
+  /** The model's scale for measuring; without it lengths are given in scene units. */
+  metersPerUnit?: number | null;
 }) {
-  const [envPreset, setEnvPreset] = React.useState<
-    "studio" | "city" | "sunset" | "forest" | undefined
-  >(
+  const [envPreset, setEnvPreset] = React.useState<EnvPreset | undefined>(
     background === "studio"
       ? "studio"
       : background === "outdoor"
         ? "city"
         : undefined,
   );
-  const [autoRotate, setAutoRotate] = React.useState(true);
+  const [autoRotate, setAutoRotate] = React.useState(
+    !viewpoints?.length && !kiosk,
+  );
   const [reloadKey, setReloadKey] = React.useState(0);
+  const sceneRef = React.useRef<Object3D>(null!);
+  const initialView = kiosk
+    ? undefined
+    : (viewpoints?.find((v) => v.id === viewpointId) ?? viewpoints?.[0]);
+  const [move, setMove] = React.useState<CameraMove | null>(() =>
+    initialView ? { camera: initialView.camera } : null,
+  );
+  const [section, setSection] = React.useState<SectionPlane[]>(
+    () => initialView?.section ?? [],
+  );
+  const [sectionPanel, setSectionPanel] = React.useState(false);
+  const [activeCut, setActiveCut] = React.useState(0);
+  const [gizmoMode, setGizmoMode] = React.useState<"translate" | "rotate">(
+    "translate",
+  );
+  const goTo = React.useCallback((view: ViewpointView) => {
+    setMove({ camera: view.camera });
+    setSection(view.section ?? []);
+    setAutoRotate(false);
+  }, []);
+  const [clips, setClips] = React.useState<string[]>([]);
+  const [playback, setPlayback] = React.useState<AnimationPlayback>({
+    clip: animationClip ?? null,
+    playing: !!animationClip,
+    loop: true,
+    speed: 1,
+    blend: 0.3,
+  });
+  const timeline = React.useRef<AnimationTimeline | null>(null);
+  // A new default clip, e.g. from editing a dashboard card, plays in the loaded model
+  const defaultClip = React.useRef(animationClip);
+  useEffect(() => {
+    if (defaultClip.current === animationClip) return;
+    defaultClip.current = animationClip;
+    setPlayback((p) => ({
+      ...p,
+      clip: animationClip ?? p.clip,
+      playing: !!animationClip,
+    }));
+  }, [animationClip]);
+  const onClips = React.useCallback((names: string[]) => {
+    setClips(names);
+    // A default clip the model does not have falls back to its first, paused
+    setPlayback((p) =>
+      p.clip && names.includes(p.clip)
+        ? p
+        : { ...p, clip: names[0] ?? null, playing: false },
+    );
+  }, []);
+  const onAnimationEnded = React.useCallback(
+    () => setPlayback((p) => ({ ...p, playing: false })),
+    [],
+  );
+  const addCut = (axis: SectionAxis) => {
+    const center = sceneBox(sceneRef.current).getCenter(new Vector3());
+    setSection([...section, presetSection(axis, center.toArray())]);
+    setActiveCut(section.length);
+  };
+  const [activeTourId, setActiveTourId] = React.useState(
+    tourId ?? tours?.[0]?.id,
+  );
+  const activeTour = tours?.find((t) => t.id === activeTourId) ?? tours?.[0];
+  const tour = useTour(activeTour, goTo, kiosk);
+  const [measureMode, setMeasureMode] = React.useState<MeasureMode | null>(
+    null,
+  );
+  const [measurePoints, setMeasurePoints] = React.useState<Vec3[]>([]);
+  const [unitSystem, setUnitSystem] =
+    React.useState<UnitSystem>(defaultUnitSystem);
+  const [showFigure, setShowFigure] = React.useState(false);
+  const measureLabel = measureMode
+    ? measurementText(measureMode, measurePoints, metersPerUnit, unitSystem)
+    : null;
+  const measure: MeasureState | undefined = measureMode
+    ? {
+        mode: measureMode,
+        points: measurePoints,
+        label: measureLabel,
+        // A finished measurement makes way for the next one
+        onPick: (point) =>
+          setMeasurePoints((points) =>
+            points.length >= MEASURE_POINTS[measureMode]
+              ? [point]
+              : [...points, point],
+          ),
+      }
+    : undefined;
   const bgColor =
     background === "transparent"
       ? undefined
@@ -99,95 +652,16 @@ export default function ModelViewer({
         : "#000000";
   const stageEnv = envPreset;
 
-  function LoaderBar() {
-    const { progress } = useProgress();
-    const pct = Math.max(1, Math.round(progress));
-    return (
-      <Html fullscreen>
-        <div className="flex h-full w-full items-center justify-center bg-black/50">
-          <div className="w-56 rounded-md bg-black/80 p-4 text-white">
-            <div className="h-2 w-full rounded bg-white/20">
-              <div
-                className="h-2 rounded bg-white"
-                style={{ width: `${pct}%` }}
-              />
-            </div>
-            <div className="mt-2 text-center text-xs">Loading {pct}%</div>
-          </div>
-        </div>
-      </Html>
-    );
-  }
-
-  function Toolbar({ onFit }: { onFit: () => void }) {
-    return (
-      <Html position={[0, 0, 0]} fullscreen>
-        <div className="pointer-events-auto absolute top-3 right-3 flex gap-2">
-          <button
-            className="rounded bg-white/90 px-2 py-1 text-xs text-black"
-            onClick={onFit}
-            title="Fit to view"
-          >
-            Fit
-          </button>
-          <button
-            className="rounded bg-white/90 px-2 py-1 text-xs text-black"
-            onClick={() => setAutoRotate((v) => !v)}
-            title="Toggle autorotate"
-          >
-            {autoRotate ? "Pause" : "Rotate"}
-          </button>
-          <select
-            className="rounded bg-white/90 px-2 py-1 text-xs text-black"
-            value={envPreset ?? "none"}
-            onChange={(e) =>
-              setEnvPreset(
-                e.target.value === "none"
-                  ? undefined
-                  : (e.target.value as typeof envPreset),
-              )
-            }
-            title="Environment"
-          >
-            <option value="none">Env: none</option>
-            <option value="studio">Env: studio</option>
-            <option value="city">Env: city</option>
-            <option value="sunset">Env: sunset</option>
-            <option value="forest">Env: forest</option>
-          </select>
-          <button
-            className="rounded bg-white/90 px-2 py-1 text-xs text-black"
-            onClick={() => setReloadKey((k) => k + 1)}
-            title="Reload model"
-          >
-            Reload
-          </button>
-        </div>
-      </Html>
-    );
-  }
-
-  function FitButtonOverlay() {
-    const api = useBounds();
-    return <Toolbar onFit={() => api.refresh().fit()} />;
-  }
-
-  function AutoFit({ deps }: { deps: React.DependencyList }) {
-    const api = useBounds();
-    useEffect(() => {
-      // Defer one tick to ensure geometry is ready
-      const t = setTimeout(() => api.refresh().fit(), 0);
-      return () => clearTimeout(t);
-      // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, deps);
-    return null;
-  }
-
   return (
     <div className="space-y-2">
-      <div className="h-[420px] rounded-lg">
+      <div
+        className={`relative h-[420px] rounded-lg ${onPlaceAnnotation || measureMode ? "cursor-crosshair" : ""}`}
+        onPointerDown={tour.interrupt}
+      >
         <Canvas
           camera={{ position: [2.2, 1.2, 2.2], fov: 50 }}
+          // Section caps are masked with the stencil buffer
+          gl={{ stencil: true }}
           dpr={[1, 2]}
           shadows
         >
@@ -199,11 +673,74 @@ export default function ModelViewer({
             <Suspense fallback={<LoaderBar />}>
               <ErrorBoundary onRetry={() => setReloadKey((k) => k + 1)}>
                 <Bounds fit clip observe margin={1.1}>
-                  <AutoFit deps={[src, reloadKey]} />
+                  <AutoFit src={src} reloadKey={reloadKey} />
+                  <CameraRig move={move} scene={sceneRef} />
                   <group key={reloadKey}>
-                    <GLB src={src} />
+                    <GLB
+                      src={src}
+                      sceneRef={sceneRef}
+                      annotations={annotations}
+                      onPlaceAnnotation={onPlaceAnnotation}
+                      measure={measure}
+                      animation={{
+                        playback,
+                        timeline,
+                        onEnded: onAnimationEnded,
+                        onClips,
+                      }}
+                      section={section}
+                      sectionEditing={
+                        sectionPanel && section[activeCut]
+                          ? {
+                              index: activeCut,
+                              mode: gizmoMode,
+                              onChange: (index, plane) =>
+                                setSection((planes) =>
+                                  planes.map((p, i) =>
+                                    i === index ? plane : p,
+                                  ),
+                                ),
+                            }
+                          : undefined
+                      }
+                      scaleFigure={
+                        showFigure && metersPerUnit
+                          ? {
+                              metersPerUnit,
+                              label: formatLength(
+                                HUMAN_HEIGHT_M / metersPerUnit,
+                                metersPerUnit,
+                                unitSystem,
+                              ),
+                            }
+                          : undefined
+                      }
+                    />
                   </group>
-                  <FitButtonOverlay />
+                  <FitButtonOverlay
+                    sceneRef={sceneRef}
+                    onBeforeFit={tour.exit}
+                    onCaptureView={
+                      onCaptureView &&
+                      ((camera) => onCaptureView(camera, section))
+                    }
+                    measuring={!!measureMode}
+                    onToggleMeasure={() => {
+                      setMeasureMode(measureMode ? null : "distance");
+                      setMeasurePoints([]);
+                    }}
+                    sectioning={sectionPanel}
+                    onToggleSection={() => setSectionPanel((v) => !v)}
+                    showFigure={showFigure}
+                    onToggleFigure={
+                      metersPerUnit ? () => setShowFigure((v) => !v) : undefined
+                    }
+                    autoRotate={autoRotate}
+                    onToggleAutoRotate={() => setAutoRotate((v) => !v)}
+                    envPreset={envPreset}
+                    onEnvPreset={setEnvPreset}
+                    onReload={() => setReloadKey((k) => k + 1)}
+                  />
                 </Bounds>
               </ErrorBoundary>
             </Suspense>
@@ -213,11 +750,212 @@ export default function ModelViewer({
             enablePan={false}
             enableDamping
             dampingFactor={0.05}
-            autoRotate={autoRotate}
+            autoRotate={autoRotate && !onPlaceAnnotation && !measureMode}
             autoRotateSpeed={0.5}
           />
         </Canvas>
+        <div className="absolute top-3 left-3 space-y-2 text-xs text-white">
+          {sectionPanel && (
+            <div className="space-y-2 rounded-md bg-black/75 p-2">
+              <div className="flex items-center gap-1">
+                <span className="mr-1">Add cut</span>
+                {(["x", "y", "z"] as const).map((axis) => (
+                  <button
+                    key={axis}
+                    type="button"
+                    className="rounded bg-white/20 px-2 py-1 uppercase"
+                    disabled={section.length >= MAX_SECTION_PLANES}
+                    onClick={() => addCut(axis)}
+                    title={`Cut across the ${axis.toUpperCase()} axis`}
+                  >
+                    {axis}
+                  </button>
+                ))}
+              </div>
+              {section.map((plane, i) => (
+                <div key={i} className="flex items-center gap-1">
+                  <button
+                    type="button"
+                    className={`rounded px-2 py-1 ${i === activeCut ? "bg-white text-black" : "bg-white/20"}`}
+                    onClick={() => setActiveCut(i)}
+                    title="Move this cut with the handles"
+                  >
+                    Cut {i + 1}
+                  </button>
+                  <button
+                    type="button"
+                    className="rounded bg-white/20 px-2 py-1"
+                    onClick={() =>
+                      setSection(
+                        section.map((p, j) => (j === i ? flipSection(p) : p)),
+                      )
+                    }
+                    title="Show the other side"
+                  >
+                    Flip
+                  </button>
+                  <button
+                    type="button"
+                    className="rounded bg-white/20 px-2 py-1"
+                    onClick={() => {
+                      setSection(section.filter((_, j) => j !== i));
+                      setActiveCut(0);
+                    }}
+                    title="Remove this cut"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+              {section.length > 0 && (
+                <div className="flex gap-1">
+                  {(["translate", "rotate"] as const).map((mode) => (
+                    <button
+                      key={mode}
+                      type="button"
+                      className={`rounded px-2 py-1 ${mode === gizmoMode ? "bg-white text-black" : "bg-white/20"}`}
+                      onClick={() => setGizmoMode(mode)}
+                    >
+                      {mode === "translate" ? "Move" : "Rotate"}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+          {measureMode && (
+            <div className="space-y-2 rounded-md bg-black/75 p-2">
+              <div className="flex gap-1">
+                {(["distance", "angle", "area"] as const).map((mode) => (
+                  <button
+                    key={mode}
+                    type="button"
+                    className={`rounded px-2 py-1 capitalize ${mode === measureMode ? "bg-white text-black" : "bg-white/20"}`}
+                    onClick={() => {
+                      setMeasureMode(mode);
+                      setMeasurePoints([]);
+                    }}
+                  >
+                    {mode}
+                  </button>
+                ))}
+              </div>
+              <div className="flex items-center gap-2">
+                <select
+                  className="rounded bg-white/90 px-1 py-0.5 text-black"
+                  value={unitSystem}
+                  onChange={(e) => setUnitSystem(e.target.value as UnitSystem)}
+                  title="Units"
+                >
+                  <option value="metric">Metric</option>
+                  <option value="imperial">Imperial</option>
+                </select>
+                <button
+                  type="button"
+                  className="rounded bg-white/20 px-2 py-0.5"
+                  onClick={() => setMeasurePoints([])}
+                >
+                  Clear
+                </button>
+              </div>
+              <div className="text-sm font-semibold">
+                {measureLabel ??
+                  (measureMode === "distance"
+                    ? "Click two points on the model"
+                    : measureMode === "angle"
+                      ? "Click a point, the corner, then another point"
+                      : "Click the corners of the area")}
+              </div>
+              {!metersPerUnit && (
+                <div className="opacity-70">
+                  This model has no real-world scale yet; lengths are in scene
+                  units.
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+        {tour.stop && (
+          <div className="pointer-events-none absolute inset-x-3 bottom-3 rounded-md bg-black/70 p-3 text-sm text-white">
+            <div className="font-semibold">
+              {tour.index! + 1}/{tour.count} · {tour.stop.title}
+            </div>
+            {tour.stop.caption && <div>{tour.stop.caption}</div>}
+          </div>
+        )}
       </div>
+      {clips.length > 0 && (
+        <AnimationControls
+          clips={clips}
+          playback={playback}
+          onChange={(patch) => setPlayback((p) => ({ ...p, ...patch }))}
+          timeline={timeline}
+        />
+      )}
+      {(!!viewpoints?.length || activeTour) && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          {viewpoints?.map((v) => (
+            <button
+              key={v.id}
+              type="button"
+              className="rounded-md border px-2 py-1"
+              onClick={() => {
+                tour.exit();
+                goTo(v);
+              }}
+            >
+              {v.title}
+            </button>
+          ))}
+          {activeTour && (
+            <div className="flex items-center gap-1">
+              {tours!.length > 1 && (
+                <select
+                  className="rounded-md border bg-transparent px-2 py-1"
+                  value={activeTour.id}
+                  onChange={(e) => setActiveTourId(e.target.value)}
+                  title="Tour"
+                >
+                  {tours!.map((t) => (
+                    <option key={t.id} value={t.id}>
+                      {t.title}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <button
+                type="button"
+                className="rounded-md border px-2 py-1"
+                disabled={!tour.index}
+                onClick={tour.prev}
+                title="Previous stop"
+              >
+                ‹
+              </button>
+              <button
+                type="button"
+                className="rounded-md bg-white px-3 py-1 text-black"
+                onClick={tour.playing ? tour.pause : tour.play}
+              >
+                {tour.playing
+                  ? "Pause tour"
+                  : tour.index === null
+                    ? `Play tour${tours!.length > 1 ? "" : `: ${activeTour.title}`}`
+                    : "Resume tour"}
+              </button>
+              <button
+                type="button"
+                className="rounded-md border px-2 py-1"
+                disabled={tour.index === tour.count - 1}
+                onClick={tour.next}
+                title="Next stop"
+              >
+                ›
+              </button>
+            </div>
+          )}
+        </div>
+      )}
       <div className="flex flex-wrap gap-2">
         {(() => {
           const commonClass =
@@ -236,25 +974,33 @@ export default function ModelViewer({
               </a>
             );
           }
+          const fileSrc = originalSrc ?? src;
           if (isAndroid()) {
-            const sceneViewer = `intent://arvr.google.com/scene-viewer/1.0?file=${encodeURIComponent(src)}#Intent;scheme=https;package=com.google.android.googlequicksearchbox;action=android.intent.action.VIEW;S.browser_fallback_url=${encodeURIComponent(src)};end;`;
+            const sceneViewer = `intent://arvr.google.com/scene-viewer/1.0?file=${encodeURIComponent(fileSrc)}#Intent;scheme=https;package=com.google.android.googlequicksearchbox;action=android.intent.action.VIEW;S.browser_fallback_url=${encodeURIComponent(fileSrc)};end;`;
             return (
               <a href={sceneViewer} className={commonClass}>
                 View in AR
               </a>
             );
           }
+          if (!downloadable) return null;
           return (
-            <a href={src} className={commonClass} download>
+            <a
+              href={fileSrc}
+              className={commonClass}
+              download
+              title={credit ? attributionText({ title, ...credit }) : undefined}
+            >
               Download Model
             </a>
           );
         })()}
         {(() => {
-          const needsProxy = /^https?:\/\/t3rgh6yjwx\.ufs\.sh\//.test(src);
+          const fileSrc = originalSrc ?? src;
+          const needsProxy = /^https?:\/\/t3rgh6yjwx\.ufs\.sh\//.test(fileSrc);
           const vrSrc = needsProxy
-            ? `/api/models/proxy?url=${encodeURIComponent(src)}`
-            : src;
+            ? `/api/models/proxy?url=${encodeURIComponent(fileSrc)}`
+            : fileSrc;
           return (
             <a
               href={`/vr360.html?src=${encodeURIComponent(vrSrc)}`}
@@ -265,7 +1011,17 @@ export default function ModelViewer({
             </a>
           );
         })()}
+        {(() => {
+          // Print export converts files we store; external URLs have no endpoint. It checks
+          // access itself, so a signed link's query is not passed on.
+          const fileSrc = (originalSrc ?? src).split("?")[0]!;
+          if (!downloadable || !/^\/api\/models\/[^/]+$/.test(fileSrc)) {
+            return null;
+          }
+          return <PrintExport src={fileSrc} />;
+        })()}
       </div>
+      {credit && <ModelAttribution {...credit} />}
     </div>
   );
 }
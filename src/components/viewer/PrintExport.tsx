@@ -0,0 +1,170 @@
+"use client";
+import { useEffect, useState } from "react";
+
+type PrintFormat = "stl" | "3mf";
+
+/** What `/api/models/<key>/print` reports without a format. */
+interface PrintReport {
+  meshes: { index: number; name: string; triangles: number }[];
+  sizeMm: [number, number, number];
+  check: {
+    triangles: number;
+    openEdges: number;
+    nonManifoldEdges: number;
+    degenerateTriangles: number;
+    watertight: boolean;
+  };
+  warnings: string[];
+}
+
+function formatMm(value: number) {
+  return `${value.toLocaleString(undefined, { maximumFractionDigits: 1 })} mm`;
+}
+
+/**
+ * Export for 3D printing: picks the whole model or one mesh, the size of its longest side and the
+ * file format, and shows whether the surface is closed before downloading. `src` is the model's
+ * `/api/models/<key>` URL.
+ */
+export default function PrintExport({ src }: { src: string }) {
+  const [open, setOpen] = useState(false);
+  const [mesh, setMesh] = useState<number | null>(null);
+  const [sizeMm, setSizeMm] = useState("");
+  const [format, setFormat] = useState<PrintFormat>("stl");
+  const [report, setReport] = useState<PrintReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  // The report at real size; its longest side is the default print size
+  useEffect(() => {
+    if (!open) return;
+    const abort = new AbortController();
+    setLoading(true);
+    setError(null);
+    const query = mesh === null ? "" : `?mesh=${mesh}`;
+    fetch(`${src}/print${query}`, { signal: abort.signal })
+      .then(async (res) => {
+        const body = (await res.json()) as PrintReport & { error?: string };
+        if (!res.ok) throw new Error(body.error ?? "Export failed");
+        setReport(body);
+        setSizeMm(String(Math.round(Math.max(...body.sizeMm) * 10) / 10));
+      })
+      .catch((err: unknown) => {
+        if (!abort.signal.aborted) {
+          setError(err instanceof Error ? err.message : "Export failed");
+        }
+      })
+      .finally(() => {
+        if (!abort.signal.aborted) setLoading(false);
+      });
+    return () => abort.abort();
+  }, [open, src, mesh]);
+
+  const longest = report ? Math.max(...report.sizeMm) : 0;
+  const size = Number(sizeMm);
+  const scale = longest > 0 && size > 0 ? size / longest : 1;
+  const params = new URLSearchParams({ format });
+  if (size > 0) params.set("size", String(size));
+  if (mesh !== null) params.set("mesh", String(mesh));
+
+  return (
+    <>
+      <button
+        type="button"
+        className="rounded-md bg-white px-3 py-1 text-sm text-black"
+        onClick={() => setOpen(!open)}
+      >
+        3D Print
+      </button>
+      {open && (
+        <div className="w-full space-y-2 rounded-md border p-3 text-sm">
+          {report && report.meshes.length > 1 && (
+            <label className="block">
+              <span className="mb-1 block opacity-80">Part</span>
+              <select
+                className="w-full rounded-md border bg-transparent p-1"
+                value={mesh ?? ""}
+                onChange={(e) =>
+                  setMesh(e.target.value === "" ? null : Number(e.target.value))
+                }
+              >
+                <option value="">Whole model (all parts merged)</option>
+                {report.meshes.map((m) => (
+                  <option key={m.index} value={m.index}>
+                    {m.name} ({m.triangles.toLocaleString()} triangles)
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <div className="flex flex-wrap items-end gap-3">
+            <label className="block">
+              <span className="mb-1 block opacity-80">Longest side (mm)</span>
+              <input
+                type="number"
+                min={1}
+                max={2000}
+                step="any"
+                className="w-28 rounded-md border bg-transparent p-1"
+                value={sizeMm}
+                onChange={(e) => setSizeMm(e.target.value)}
+              />
+            </label>
+            <label className="flex items-center gap-1">
+              <input
+                type="radio"
+                checked={format === "stl"}
+                onChange={() => setFormat("stl")}
+              />
+              STL
+            </label>
+            <label className="flex items-center gap-1">
+              <input
+                type="radio"
+                checked={format === "3mf"}
+                onChange={() => setFormat("3mf")}
+              />
+              3MF
+            </label>
+          </div>
+          {loading && <div className="opacity-70">Checking the model…</div>}
+          {error && <div className="text-red-600">{error}</div>}
+          {report && !loading && (
+            <div className="space-y-1 text-xs">
+              <div className="opacity-80">
+                {report.sizeMm.map((v) => formatMm(v * scale)).join(" × ")} ·{" "}
+                {report.check.triangles.toLocaleString()} triangles
+              </div>
+              {report.check.watertight ? (
+                <div className="text-green-600">
+                  Closed surface; ready to slice.
+                </div>
+              ) : (
+                <div className="text-amber-600">
+                  Not watertight: {report.check.openEdges.toLocaleString()} open
+                  and {report.check.nonManifoldEdges.toLocaleString()}{" "}
+                  non-manifold edges. Most slicers can repair this; check the
+                  preview before printing.
+                </div>
+              )}
+              {report.warnings.map((w) => (
+                <div key={w} className="text-amber-600">
+                  {w}
+                </div>
+              ))}
+            </div>
+          )}
+          <a
+            href={`${src}/print?${params.toString()}`}
+            className={`inline-block rounded-md bg-white px-3 py-1 text-black ${
+              report ? "" : "pointer-events-none opacity-50"
+            }`}
+            download
+          >
+            Download {format.toUpperCase()}
+          </a>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,76 @@
+"use client";
+import { Html } from "@react-three/drei";
+import { useMemo } from "react";
+import { DoubleSide, Shape, Vector2, type Object3D } from "three";
+import { sceneBox } from "~/components/viewer/sceneBox";
+import { HUMAN_HEIGHT_M } from "~/lib/measurements";
+
+/** Right half of a standing figure, in metres from the feet up; mirrored for the left half. */
+const HALF_OUTLINE: [number, number][] = [
+  [0, 0.82],
+  [0.03, 0],
+  [0.15, 0],
+  [0.16, 0.9],
+  [0.17, 1.3],
+  [0.19, 0.8],
+  [0.25, 0.8],
+  [0.25, 1.4],
+  [0.18, 1.47],
+  [0.06, 1.49],
+  [0.05, 1.53],
+];
+const HEAD_RADIUS = 0.11;
+
+function figureShapes() {
+  const outline = [
+    ...HALF_OUTLINE,
+    ...HALF_OUTLINE.slice(1)
+      .reverse()
+      .map(([x, y]): [number, number] => [-x, y]),
+  ].map(([x, y]) => new Vector2(x, y));
+  const head = new Shape();
+  head.absarc(0, HUMAN_HEIGHT_M - HEAD_RADIUS, HEAD_RADIUS, 0, Math.PI * 2);
+  return [new Shape(outline), head];
+}
+
+const noRaycast = () => null;
+
+/**
+ * A person-sized silhouette standing beside the model for a sense of scale, drawn as a child of the
+ * model's scene. `metersPerUnit` is the model's calibration; `label` names the figure's height.
+ */
+export default function ScaleFigure({
+  scene,
+  metersPerUnit,
+  label,
+}: {
+  scene: Object3D;
+  metersPerUnit: number;
+  label: string;
+}) {
+  const shapes = useMemo(figureShapes, []);
+  // The figure stands on the model's lowest point
+  const box = useMemo(() => sceneBox(scene), [scene]);
+  const scale = 1 / metersPerUnit;
+  const x = box.min.x - 0.5 * scale;
+  const z = (box.min.z + box.max.z) / 2;
+
+  return (
+    <group position={[x, box.min.y, z]} scale={scale}>
+      <mesh raycast={noRaycast}>
+        <shapeGeometry args={[shapes]} />
+        <meshBasicMaterial
+          color="#9ca3af"
+          side={DoubleSide}
+          transparent
+          opacity={0.85}
+        />
+      </mesh>
+      <Html position={[0, HUMAN_HEIGHT_M + 0.1, 0]} center>
+        <div className="pointer-events-none rounded bg-black/70 px-1.5 py-0.5 text-[10px] whitespace-nowrap text-white">
+          {label}
+        </div>
+      </Html>
+    </group>
+  );
+}
@@ -0,0 +1,231 @@
+"use client";
+import { TransformControls } from "@react-three/drei";
+import { createPortal, useFrame, useThree } from "@react-three/fiber";
+import { useEffect, useMemo, useRef } from "react";
+import {
+  AlwaysStencilFunc,
+  BackSide,
+  DecrementWrapStencilOp,
+  DoubleSide,
+  FrontSide,
+  Group,
+  IncrementWrapStencilOp,
+  Mesh,
+  MeshBasicMaterial,
+  MeshStandardMaterial,
+  NotEqualStencilFunc,
+  Plane,
+  PlaneGeometry,
+  Quaternion,
+  ReplaceStencilOp,
+  Vector3,
+  type Material,
+  type SkinnedMesh,
+} from "three";
+import type { Vec3 } from "~/lib/annotations";
+import type { SectionPlane } from "~/lib/sections";
+
+const CAP_COLOR = "#dc2626";
+const Z_AXIS = new Vector3(0, 0, 1);
+
+function orientation(normal: Vec3) {
+  return new Quaternion().setFromUnitVectors(
+    Z_AXIS,
+    new Vector3(...normal).normalize(),
+  );
+}
+
+/**
+ * Fills the opening one plane cuts into the model, using the stencil technique from three's
+ * clipping examples: the model's back faces count up and its front faces count down, so the
+ * stencil is non-zero exactly where the cut shows the inside, and the cap is drawn only there.
+ */
+function buildCap(
+  plane: Plane,
+  others: Plane[],
+  meshes: Mesh[],
+  size: number,
+  order: number,
+) {
+  const stencil = {
+    depthWrite: false,
+    depthTest: false,
+    colorWrite: false,
+    stencilWrite: true,
+    stencilFunc: AlwaysStencilFunc,
+    clippingPlanes: [plane],
+  };
+  const back = new MeshBasicMaterial({
+    ...stencil,
+    side: BackSide,
+    stencilFail: IncrementWrapStencilOp,
+    stencilZFail: IncrementWrapStencilOp,
+    stencilZPass: IncrementWrapStencilOp,
+  });
+  const front = new MeshBasicMaterial({
+    ...stencil,
+    side: FrontSide,
+    stencilFail: DecrementWrapStencilOp,
+    stencilZFail: DecrementWrapStencilOp,
+    stencilZPass: DecrementWrapStencilOp,
+  });
+  const group = new Group();
+  for (const source of meshes) {
+    for (const material of [back, front]) {
+      const copy = new Mesh(source.geometry, material);
+      // Drawn where the model's mesh is, wherever the stage has moved it
+      copy.matrixAutoUpdate = false;
+      copy.frustumCulled = false;
+      copy.renderOrder = order;
+      copy.onBeforeRender = () => copy.matrixWorld.copy(source.matrixWorld);
+      group.add(copy);
+    }
+  }
+  const capMaterial = new MeshStandardMaterial({
+    color: CAP_COLOR,
+    roughness: 0.8,
+    side: DoubleSide,
+    clippingPlanes: others,
+    stencilWrite: true,
+    stencilRef: 0,
+    stencilFunc: NotEqualStencilFunc,
+    stencilFail: ReplaceStencilOp,
+    stencilZFail: ReplaceStencilOp,
+    stencilZPass: ReplaceStencilOp,
+  });
+  const capGeometry = new PlaneGeometry(size, size);
+  const cap = new Mesh(capGeometry, capMaterial);
+  cap.renderOrder = order + 0.1;
+  // Each plane's count starts from zero
+  cap.onAfterRender = (renderer) => renderer.clearStencil();
+  group.add(cap);
+  return {
+    group,
+    cap,
+    dispose: () => {
+      for (const material of [back, front, capMaterial]) material.dispose();
+      capGeometry.dispose();
+    },
+  };
+}
+
+/**
+ * Cuts the model open along `section`, filling each opening with a solid cap. Rendered as a child
+ * of the model's scene: each plane follows a helper there, which the gizmo moves and turns while
+ * `editing` names it; the new plane is reported once the drag ends. Skinned meshes are cut but not
+ * capped.
+ */
+export default function SectionPlanes({
+  section,
+  meshes,
+  radius,
+  editing,
+}: {
+  section: SectionPlane[];
+  /** The model's own meshes, without overlays. */
+  meshes: Mesh[];
+  /** Bounding radius of the model; caps are sized to cover it. */
+  radius: number;
+  editing?: {
+    index: number;
+    mode: "translate" | "rotate";
+    onChange: (index: number, plane: SectionPlane) => void;
+  };
+}) {
+  const gl = useThree((state) => state.gl);
+  const root = useThree((state) => state.scene);
+  const count = section.length;
+  const planes = useMemo(
+    () => Array.from({ length: count }, () => new Plane()),
+    [count],
+  );
+  const helpers = useRef<(Group | null)[]>([]);
+  const activeHelper = useRef<Group>(null!);
+
+  useEffect(() => {
+    gl.localClippingEnabled = true;
+    const materials = new Set<Material>(
+      meshes.flatMap((m) =>
+        Array.isArray(m.material) ? m.material : [m.material],
+      ),
+    );
+    for (const material of materials) material.clippingPlanes = planes;
+    return () => {
+      for (const material of materials) material.clippingPlanes = null;
+    };
+  }, [gl, meshes, planes]);
+
+  const caps = useMemo(
+    () =>
+      planes.map((plane, i) =>
+        buildCap(
+          plane,
+          planes.filter((p) => p !== plane),
+          meshes.filter((m) => !(m as Partial<SkinnedMesh>).isSkinnedMesh),
+          radius * 4,
+          i + 1,
+        ),
+      ),
+    [planes, meshes, radius],
+  );
+  useEffect(() => () => caps.forEach((c) => c.dispose()), [caps]);
+
+  useFrame(() => {
+    planes.forEach((plane, i) => {
+      const helper = helpers.current[i];
+      if (!helper) return;
+      const point = helper.getWorldPosition(new Vector3());
+      const normal = Z_AXIS.clone()
+        .applyQuaternion(helper.getWorldQuaternion(new Quaternion()))
+        .normalize();
+      plane.setFromNormalAndCoplanarPoint(normal, point);
+      const cap = caps[i]?.cap;
+      if (cap) {
+        plane.coplanarPoint(cap.position);
+        cap.lookAt(cap.position.clone().sub(normal));
+      }
+    });
+  });
+
+  return (
+    <>
+      {section.map((plane, i) => (
+        <group
+          key={i}
+          ref={(group) => {
+            helpers.current[i] = group;
+            if (i === editing?.index && group) activeHelper.current = group;
+          }}
+          position={plane.point}
+          quaternion={orientation(plane.normal)}
+        />
+      ))}
+      {createPortal(
+        <>
+          {caps.map((c, i) => (
+            <primitive key={i} object={c.group} />
+          ))}
+          {editing && section[editing.index] && (
+            <TransformControls
+              key={editing.index}
+              object={activeHelper}
+              mode={editing.mode}
+              size={0.7}
+              onMouseUp={() => {
+                const helper = activeHelper.current;
+                editing.onChange(editing.index, {
+                  point: helper.position.toArray(),
+                  normal: Z_AXIS.clone()
+                    .applyQuaternion(helper.quaternion)
+                    .normalize()
+                    .toArray(),
+                });
+              }}
+            />
+          )}
+        </>,
+        root,
+      )}
+    </>
+  );
+}
@@ -0,0 +1,9 @@
+import { Box3, type Object3D } from "three";
+
+/** The extent of `scene` in its own coordinates, which views, cuts and overlays are kept in. */
+export function sceneBox(scene: Object3D) {
+  scene.updateWorldMatrix(true, true);
+  return new Box3()
+    .setFromObject(scene)
+    .applyMatrix4(scene.matrixWorld.clone().invert());
+}
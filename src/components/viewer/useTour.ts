@@ -0,0 +1,89 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import type { ViewerTour, ViewpointView } from "~/lib/viewpoints";
+
+/** How long the camera takes between stops; `<Bounds>` animates moves for one second. */
+const TRAVEL_MS = 1000;
+/** In kiosk use, a tour a visitor interrupted starts again after this long without input. */
+const KIOSK_IDLE_MS = 30_000;
+
+/**
+ * Steps through a tour: flies to a stop with `goTo`, stays for its duration, then moves on and
+ * stops after the last one. In kiosk use the tour starts by itself, loops, and picks up again
+ * once a visitor who took over the camera has left it alone for a while.
+ */
+export function useTour(
+  tour: ViewerTour | undefined,
+  goTo: (view: ViewpointView) => void,
+  kiosk = false,
+) {
+  const [index, setIndex] = useState<number | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [interruptions, setInterruptions] = useState(0);
+  const count = tour?.stops.length ?? 0;
+
+  const show = useCallback(
+    (i: number) => {
+      const stop = tour?.stops[i];
+      if (!stop) return;
+      setIndex(i);
+      goTo(stop);
+    },
+    [tour, goTo],
+  );
+
+  // A different tour starts from the beginning; kiosks start it straight away
+  useEffect(() => {
+    setIndex(null);
+    setPlaying(false);
+    if (kiosk && tour?.stops.length) {
+      show(0);
+      setPlaying(true);
+    }
+  }, [tour, kiosk, show]);
+
+  useEffect(() => {
+    if (!playing || index === null || !tour) return;
+    const stop = tour.stops[index];
+    if (!stop) return;
+    const t = setTimeout(() => {
+      if (index + 1 < count) show(index + 1);
+      else if (kiosk) show(0);
+      else setPlaying(false);
+    }, TRAVEL_MS + stop.durationMs);
+    return () => clearTimeout(t);
+  }, [playing, index, tour, count, kiosk, show]);
+
+  useEffect(() => {
+    if (!kiosk || interruptions === 0) return;
+    const t = setTimeout(() => {
+      show(0);
+      setPlaying(true);
+    }, KIOSK_IDLE_MS);
+    return () => clearTimeout(t);
+  }, [kiosk, interruptions, show]);
+
+  return {
+    index,
+    stop: index === null ? null : (tour?.stops[index] ?? null),
+    count,
+    playing,
+    play: () => {
+      if (index === null || (!playing && index === count - 1)) show(0);
+      setPlaying(true);
+    },
+    pause: () => setPlaying(false),
+    next: () => show(Math.min((index ?? -1) + 1, count - 1)),
+    prev: () => show(Math.max((index ?? 1) - 1, 0)),
+    /** The visitor moved the camera or picked a view: the tour stops where it is. */
+    interrupt: () => {
+      setPlaying(false);
+      if (kiosk) setInterruptions((n) => n + 1);
+    },
+    /** Leaves the tour, removing its caption. */
+    exit: () => {
+      setPlaying(false);
+      setIndex(null);
+    },
+  };
+}
@@ -20,6 +20,31 @@ export const env = createEnv({
     RESEND_FROM_EMAIL: z.string().optional(),
     // Uploads (UploadThing)
     UPLOADTHING_TOKEN: z.string().optional(),
+    // Storage backend: "uploadthing" (default), "local" disk or any "s3"-compatible bucket
+    STORAGE_DRIVER: z
+      .enum(["uploadthing", "local", "s3"])
+      .default("uploadthing"),
+    STORAGE_LOCAL_DIR: z.string().default(".storage"),
+    S3_ENDPOINT: z.string().url().optional(),
+    S3_REGION: z.string().default("auto"),
+    S3_BUCKET: z.string().optional(),
+    S3_ACCESS_KEY_ID: z.string().optional(),
+    S3_SECRET_ACCESS_KEY: z.string().optional(),
+    S3_PUBLIC_URL: z.string().url().optional(),
+    // KTX-Software CLI used for KTX2 texture compression during model optimization
+    KTX_PATH: z.string().default("ktx"),
+    // Background jobs: "inline" runs a worker inside the Next server, "external" expects `npm run worker`
+    JOB_WORKER: z.enum(["inline", "external"]).default("inline"),
+    JOB_CONCURRENCY: z.coerce.number().int().min(1).default(2),
+    // Days a deleted model stays restorable before its files are purged
+    TRASH_RETENTION_DAYS: z.coerce.number().int().min(0).default(30),
+    // Default storage quotas per role, in MB and model count; 0 means unlimited
+    QUOTA_USER_MB: z.coerce.number().int().min(0).default(1024),
+    QUOTA_USER_MODELS: z.coerce.number().int().min(0).default(50),
+    QUOTA_EMPLOYEE_MB: z.coerce.number().int().min(0).default(10240),
+    QUOTA_EMPLOYEE_MODELS: z.coerce.number().int().min(0).default(500),
+    QUOTA_ADMIN_MB: z.coerce.number().int().min(0).default(0),
+    QUOTA_ADMIN_MODELS: z.coerce.number().int().min(0).default(0),
     // Web3Forms contact form
     WEB3FORMS_ACCESS_KEY: z.string().optional(),
     // URLs
@@ -53,6 +78,24 @@ export const env = createEnv({
     RESEND_API_KEY: process.env.RESEND_API_KEY,
     RESEND_FROM_EMAIL: process.env.RESEND_FROM_EMAIL,
     UPLOADTHING_TOKEN: process.env.UPLOADTHING_TOKEN,
+    STORAGE_DRIVER: process.env.STORAGE_DRIVER,
+    STORAGE_LOCAL_DIR: process.env.STORAGE_LOCAL_DIR,
+    S3_ENDPOINT: process.env.S3_ENDPOINT,
+    S3_REGION: process.env.S3_REGION,
+    S3_BUCKET: process.env.S3_BUCKET,
+    S3_ACCESS_KEY_ID: process.env.S3_ACCESS_KEY_ID,
+    S3_SECRET_ACCESS_KEY: process.env.S3_SECRET_ACCESS_KEY,
+    S3_PUBLIC_URL: process.env.S3_PUBLIC_URL,
+    KTX_PATH: process.env.KTX_PATH,
+    JOB_WORKER: process.env.JOB_WORKER,
+    JOB_CONCURRENCY: process.env.JOB_CONCURRENCY,
+    TRASH_RETENTION_DAYS: process.env.TRASH_RETENTION_DAYS,
+    QUOTA_USER_MB: process.env.QUOTA_USER_MB,
+    QUOTA_USER_MODELS: process.env.QUOTA_USER_MODELS,
+    QUOTA_EMPLOYEE_MB: process.env.QUOTA_EMPLOYEE_MB,
+    QUOTA_EMPLOYEE_MODELS: process.env.QUOTA_EMPLOYEE_MODELS,
+    QUOTA_ADMIN_MB: process.env.QUOTA_ADMIN_MB,
+    QUOTA_ADMIN_MODELS: process.env.QUOTA_ADMIN_MODELS,
     WEB3FORMS_ACCESS_KEY: process.env.WEB3FORMS_ACCESS_KEY,
     PUB_URL: process.env.PUB_URL,
     AUTH_URL: process.env.AUTH_URL,
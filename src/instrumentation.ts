@@ -0,0 +1,8 @@
+/** Starts the in-process job worker with the Next server unless jobs run in `npm run worker`. */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+  const { env } = await import("~/env");
+  if (env.JOB_WORKER !== "inline") return;
+  const { runWorker } = await import("~/server/jobs/worker");
+  void runWorker({ concurrency: env.JOB_CONCURRENCY });
+}
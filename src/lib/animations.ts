@@ -0,0 +1,19 @@
+/**
+ * The name a model's clip is known by, matching what inspection records on upload: the clip's own
+ * name, or "Animation 2" for the second clip when it has none. three's GLTFLoader names unnamed
+ * clips `animation_<index>` instead.
+ */
+export function clipName(loaderName: string, index: number) {
+  return loaderName === `animation_${index}`
+    ? `Animation ${index + 1}`
+    : loaderName;
+}
+
+/** Clip names from a model's inspected `animations`, for picking one to autoplay. */
+export function animationNames(value: unknown): string[] {
+  return Array.isArray(value)
+    ? (value as { name?: unknown }[])
+        .map((a) => a?.name)
+        .filter((name): name is string => typeof name === "string")
+    : [];
+}
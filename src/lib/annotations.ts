@@ -0,0 +1,24 @@
+export type Vec3 = [number, number, number];
+
+export const MAX_ANNOTATIONS_PER_MODEL = 100;
+
+/** An annotation as the viewer draws it; `anchor` and `normal` are in the GLB's scene space. */
+export interface ViewerAnnotation {
+  id: string;
+  title: string;
+  /** Markdown. */
+  body: string | null;
+  mediaUrl: string | null;
+  anchor: Vec3;
+  normal: Vec3;
+}
+
+export type AnnotationMediaKind = "image" | "video" | "link";
+
+/** How to show an annotation's media, judged by the URL's file extension. */
+export function annotationMediaKind(url: string): AnnotationMediaKind {
+  const path = url.split(/[?#]/)[0]!.toLowerCase();
+  if (/\.(png|jpe?g|gif|webp|avif|svg)$/.test(path)) return "image";
+  if (/\.(mp4|webm|mov|m4v)$/.test(path)) return "video";
+  return "link";
+}
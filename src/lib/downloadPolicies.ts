@@ -0,0 +1,28 @@
+import type { DownloadPolicy } from "@prisma/client";
+
+export interface DownloadPolicyInfo {
+  label: string;
+  description: string;
+}
+
+export const DOWNLOAD_POLICIES = {
+  ALLOWED: {
+    label: "Download allowed",
+    description: "Anyone who can view the model can download or 3D print it.",
+  },
+  VIEW_ONLY: {
+    label: "Viewer only",
+    description:
+      "The model can be viewed but not downloaded or printed; viewers get expiring links only.",
+  },
+  EMPLOYEES_ONLY: {
+    label: "Employees only",
+    description:
+      "Employees can download and print; everyone else can only view it.",
+  },
+} satisfies Record<DownloadPolicy, DownloadPolicyInfo>;
+
+export const DOWNLOAD_POLICY_VALUES = Object.keys(DOWNLOAD_POLICIES) as [
+  DownloadPolicy,
+  ...DownloadPolicy[],
+];
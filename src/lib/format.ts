@@ -0,0 +1,7 @@
+/** Human-readable file size: KB below a megabyte, GB from a gigabyte up. */
+export function formatBytes(bytes: number) {
+  if (bytes <= 0) return "0 KB";
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+}
@@ -0,0 +1,69 @@
+import type { ModelLicense } from "@prisma/client";
+
+export interface LicenseInfo {
+  label: string;
+  /** Legal code; `null` for all rights reserved. */
+  url: string | null;
+}
+
+export const LICENSES = {
+  CC0: {
+    label: "CC0 1.0 (public domain)",
+    url: "https://creativecommons.org/publicdomain/zero/1.0/",
+  },
+  CC_BY: {
+    label: "CC BY 4.0",
+    url: "https://creativecommons.org/licenses/by/4.0/",
+  },
+  CC_BY_SA: {
+    label: "CC BY-SA 4.0",
+    url: "https://creativecommons.org/licenses/by-sa/4.0/",
+  },
+  CC_BY_ND: {
+    label: "CC BY-ND 4.0",
+    url: "https://creativecommons.org/licenses/by-nd/4.0/",
+  },
+  CC_BY_NC: {
+    label: "CC BY-NC 4.0",
+    url: "https://creativecommons.org/licenses/by-nc/4.0/",
+  },
+  CC_BY_NC_SA: {
+    label: "CC BY-NC-SA 4.0",
+    url: "https://creativecommons.org/licenses/by-nc-sa/4.0/",
+  },
+  CC_BY_NC_ND: {
+    label: "CC BY-NC-ND 4.0",
+    url: "https://creativecommons.org/licenses/by-nc-nd/4.0/",
+  },
+  ALL_RIGHTS_RESERVED: { label: "All rights reserved", url: null },
+} satisfies Record<ModelLicense, LicenseInfo>;
+
+export const LICENSE_VALUES = Object.keys(LICENSES) as [
+  ModelLicense,
+  ...ModelLicense[],
+];
+
+/** The licensing and credit fields of a `Model`. */
+export interface ModelCredit {
+  title?: string;
+  license?: ModelLicense | null;
+  credit?: string | null;
+  sourceUrl?: string | null;
+  acknowledgements?: string | null;
+}
+
+/**
+ * One-line attribution in the title/author/source/license order Creative Commons recommends,
+ * e.g. `"Dean Richmond" by 3DShipwrecks (https://3dshipwrecks.org), CC BY 4.0`.
+ */
+export function attributionText(model: ModelCredit) {
+  const parts: string[] = [];
+  let work = model.title ? `"${model.title}"` : "";
+  if (model.credit) work = work ? `${work} by ${model.credit}` : model.credit;
+  if (model.sourceUrl) {
+    work = work ? `${work} (${model.sourceUrl})` : model.sourceUrl;
+  }
+  if (work) parts.push(work);
+  if (model.license) parts.push(LICENSES[model.license].label);
+  return parts.join(", ");
+}
@@ -0,0 +1,142 @@
+import type { Vec3 } from "~/lib/annotations";
+
+export type UnitSystem = "metric" | "imperial";
+
+export type MeasureMode = "distance" | "angle" | "area";
+
+/** Points a measurement takes; an area keeps taking corners up to the limit. */
+export const MEASURE_POINTS: Record<MeasureMode, number> = {
+  distance: 2,
+  angle: 3,
+  area: 50,
+};
+
+/** Units a model's scale can be given in, e.g. "1 scene unit = 1 ft". */
+export const SCALE_UNITS = {
+  m: { label: "metres", meters: 1 },
+  cm: { label: "centimetres", meters: 0.01 },
+  mm: { label: "millimetres", meters: 0.001 },
+  ft: { label: "feet", meters: 0.3048 },
+  in: { label: "inches", meters: 0.0254 },
+} as const;
+
+export type ScaleUnit = keyof typeof SCALE_UNITS;
+
+/** Height of the reference figure shown next to calibrated models. */
+export const HUMAN_HEIGHT_M = 1.75;
+
+const MILE = 1609.344;
+
+function round(value: number, digits = 2) {
+  return value.toLocaleString(undefined, { maximumFractionDigits: digits });
+}
+
+function sub(a: Vec3, b: Vec3): Vec3 {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+function cross(a: Vec3, b: Vec3): Vec3 {
+  return [
+    a[1] * b[2] - a[2] * b[1],
+    a[2] * b[0] - a[0] * b[2],
+    a[0] * b[1] - a[1] * b[0],
+  ];
+}
+
+export function distance(a: Vec3, b: Vec3) {
+  return Math.hypot(...sub(a, b));
+}
+
+/** Angle at `vertex` between the rays to `a` and `b`, in degrees. */
+export function angleAt(a: Vec3, vertex: Vec3, b: Vec3) {
+  const u = sub(a, vertex);
+  const v = sub(b, vertex);
+  // atan2 of |u×v| and u·v stays accurate for angles near 0° and 180°
+  const dot = u[0] * v[0] + u[1] * v[1] + u[2] * v[2];
+  return (Math.atan2(Math.hypot(...cross(u, v)), dot) * 180) / Math.PI;
+}
+
+/**
+ * Area enclosed by the corners in order. Exact for flat outlines; corners picked off a curved
+ * surface give the area of the outline projected onto its best-fitting plane.
+ */
+export function polygonArea(points: Vec3[]) {
+  const sum: Vec3 = [0, 0, 0];
+  points.forEach((p, i) => {
+    const c = cross(p, points[(i + 1) % points.length]!);
+    sum[0] += c[0];
+    sum[1] += c[1];
+    sum[2] += c[2];
+  });
+  return Math.hypot(...sum) / 2;
+}
+
+/** A length in scene units for display; without a calibration it stays in scene units. */
+export function formatLength(
+  units: number,
+  metersPerUnit: number | null | undefined,
+  system: UnitSystem,
+) {
+  if (!metersPerUnit) return `${round(units)} units`;
+  const meters = units * metersPerUnit;
+  if (system === "imperial") {
+    if (meters >= MILE) return `${round(meters / MILE)} mi`;
+    const inches = meters / SCALE_UNITS.in.meters;
+    if (inches < 12) return `${round(inches, 1)} in`;
+    const whole = Math.round(inches);
+    return `${Math.floor(whole / 12).toLocaleString()} ft ${whole % 12} in`;
+  }
+  if (meters >= 1000) return `${round(meters / 1000)} km`;
+  if (meters >= 1) return `${round(meters)} m`;
+  if (meters >= 0.01) return `${round(meters * 100, 1)} cm`;
+  return `${round(meters * 1000, 1)} mm`;
+}
+
+/** An area in square scene units for display. */
+export function formatArea(
+  units: number,
+  metersPerUnit: number | null | undefined,
+  system: UnitSystem,
+) {
+  if (!metersPerUnit) return `${round(units)} units²`;
+  const squareMeters = units * metersPerUnit ** 2;
+  if (system === "imperial") {
+    const squareFeet = squareMeters / SCALE_UNITS.ft.meters ** 2;
+    return squareFeet < 1
+      ? `${round(squareFeet * 144, 1)} in²`
+      : `${round(squareFeet)} ft²`;
+  }
+  return squareMeters < 1
+    ? `${round(squareMeters * 10_000, 1)} cm²`
+    : `${round(squareMeters)} m²`;
+}
+
+/** The measurement the picked points make so far, or `null` until there are enough of them. */
+export function measurementText(
+  mode: MeasureMode,
+  points: Vec3[],
+  metersPerUnit: number | null | undefined,
+  system: UnitSystem,
+) {
+  if (mode === "distance" && points.length === 2) {
+    return formatLength(
+      distance(points[0]!, points[1]!),
+      metersPerUnit,
+      system,
+    );
+  }
+  if (mode === "angle" && points.length === 3) {
+    return `${round(angleAt(points[0]!, points[1]!, points[2]!), 1)}°`;
+  }
+  if (mode === "area" && points.length >= 3) {
+    return formatArea(polygonArea(points), metersPerUnit, system);
+  }
+  return null;
+}
+
+/** Imperial for US visitors, metric for everyone else. */
+export function defaultUnitSystem(): UnitSystem {
+  return typeof navigator !== "undefined" && navigator.language === "en-US"
+    ? "imperial"
+    : "metric";
+}
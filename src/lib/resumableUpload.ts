@@ -0,0 +1,258 @@
+/**
+ * Browser side of the resumable upload protocol served under `/api/uploads/sessions`. Unfinished
+ * uploads are remembered in localStorage by file name, size and modification time, so picking the
+ * same file again after a reload resumes it instead of starting over.
+ */
+
+const STORAGE_PREFIX = "barnlabs.upload.";
+const MAX_CHUNK_ATTEMPTS = 5;
+
+interface SessionInfo {
+  id: string;
+  name: string;
+  size: number;
+  chunkSize: number;
+  chunkCount: number;
+  received: number[];
+  receivedBytes: number;
+}
+
+/** What localStorage keeps about an unfinished upload. */
+export interface PendingUpload {
+  id: string;
+  name: string;
+  size: number;
+  receivedBytes: number;
+  purpose?: UploadPurpose;
+}
+
+export type UploadPurpose = "model" | "bulk-import";
+
+export interface ResumableOptions {
+  modelId?: string;
+  optimize?: boolean;
+  /** What the server does with the file once complete; see `/api/uploads/sessions`. */
+  purpose?: UploadPurpose;
+  signal?: AbortSignal;
+  onProgress?: (sentBytes: number, totalBytes: number) => void;
+}
+
+class UploadRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = "UploadRequestError";
+  }
+}
+
+function storageKey(
+  file: File,
+  modelId?: string,
+  purpose: UploadPurpose = "model",
+) {
+  const suffix = purpose === "model" ? "" : `:${purpose}`;
+  return `${STORAGE_PREFIX}${file.name}:${file.size}:${file.lastModified}:${modelId ?? ""}${suffix}`;
+}
+
+/** Unfinished uploads from earlier visits, to tell the user which file to pick again. */
+export function listPendingUploads(
+  purpose: UploadPurpose = "model",
+): PendingUpload[] {
+  const pending: PendingUpload[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key?.startsWith(STORAGE_PREFIX)) continue;
+    try {
+      const upload = JSON.parse(
+        localStorage.getItem(key) ?? "",
+      ) as PendingUpload;
+      if ((upload.purpose ?? "model") === purpose) pending.push(upload);
+    } catch {
+      localStorage.removeItem(key);
+    }
+  }
+  return pending;
+}
+
+async function request<T>(url: string, init: RequestInit): Promise<T> {
+  const res = await fetch(url, init);
+  if (!res.ok) {
+    const body = (await res.json().catch(() => ({}))) as { error?: string };
+    throw new UploadRequestError(body.error ?? "Upload failed", res.status);
+  }
+  return (res.status === 204 ? undefined : await res.json()) as T;
+}
+
+async function sha256Base64(data: ArrayBuffer) {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+  return btoa(String.fromCharCode(...digest));
+}
+
+/** Largest file `hashFile` reads into memory at once. */
+export const MAX_HASHED_BYTES = 256 * 1024 * 1024;
+
+/** Hex SHA-256 of a whole file, to look for an identical file already stored. */
+export async function hashFile(file: File) {
+  const digest = new Uint8Array(
+    await crypto.subtle.digest("SHA-256", await file.arrayBuffer()),
+  );
+  return Array.from(digest, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function wait(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", abort, { once: true });
+    function done() {
+      signal?.removeEventListener("abort", abort);
+      resolve();
+    }
+    function abort() {
+      clearTimeout(timer);
+      reject(signal!.reason as Error);
+    }
+  });
+}
+
+/** Finds the stored session for this file, or starts a new one. */
+async function openSession(file: File, options: ResumableOptions) {
+  const saved = localStorage.getItem(
+    storageKey(file, options.modelId, options.purpose),
+  );
+  if (saved) {
+    const { id } = JSON.parse(saved) as PendingUpload;
+    try {
+      return await request<SessionInfo>(`/api/uploads/sessions/${id}`, {
+        signal: options.signal,
+      });
+    } catch (err) {
+      // Expired or cancelled elsewhere; start over
+      if (!(err instanceof UploadRequestError && err.status === 404)) throw err;
+    }
+  }
+  return request<SessionInfo>("/api/uploads/sessions", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      name: file.name,
+      size: file.size,
+      contentType: file.type || "application/octet-stream",
+      modelId: options.modelId,
+      optimize: options.optimize,
+      purpose: options.purpose,
+    }),
+    signal: options.signal,
+  });
+}
+
+/** Sends one chunk, retrying network errors, checksum mismatches and server errors with backoff. */
+async function sendChunk(
+  session: SessionInfo,
+  index: number,
+  data: ArrayBuffer,
+  signal?: AbortSignal,
+) {
+  const checksum = await sha256Base64(data);
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await request(`/api/uploads/sessions/${session.id}/chunks/${index}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/octet-stream",
+          "Upload-Checksum": `sha256 ${checksum}`,
+        },
+        body: data,
+        signal,
+      });
+      return;
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      const retryable =
+        !(err instanceof UploadRequestError) ||
+        err.status === 422 ||
+        err.status >= 500;
+      if (!retryable || attempt >= MAX_CHUNK_ATTEMPTS) throw err;
+      await wait(1000 * 2 ** (attempt - 1), signal);
+    }
+  }
+}
+
+/**
+ * Uploads `file` in chunks, skipping those the server already has. Aborting `signal` pauses the
+ * upload; calling again with the same file resumes it. Resolves with the same summary as
+ * `/api/uploads/models`.
+ */
+export async function uploadResumable<T>(
+  file: File,
+  options: ResumableOptions = {},
+): Promise<T> {
+  const session = await openSession(file, options);
+  const key = storageKey(file, options.modelId, options.purpose);
+  const received = new Set(session.received);
+  let sent = session.receivedBytes;
+  const remember = () =>
+    localStorage.setItem(
+      key,
+      JSON.stringify({
+        id: session.id,
+        name: file.name,
+        size: file.size,
+        receivedBytes: sent,
+        purpose: options.purpose,
+      } satisfies PendingUpload),
+    );
+  remember();
+  options.onProgress?.(sent, file.size);
+
+  for (let index = 0; index < session.chunkCount; index++) {
+    if (received.has(index)) continue;
+    const start = index * session.chunkSize;
+    const data = await file
+      .slice(start, Math.min(start + session.chunkSize, file.size))
+      .arrayBuffer();
+    await sendChunk(session, index, data, options.signal);
+    sent += data.byteLength;
+    remember();
+    options.onProgress?.(sent, file.size);
+  }
+
+  const result = await request<T>(
+    `/api/uploads/sessions/${session.id}/complete`,
+    { method: "POST", signal: options.signal },
+  );
+  localStorage.removeItem(key);
+  return result;
+}
+
+/** Cancels the unfinished upload of `file`, if any, and forgets it. */
+export async function cancelResumable(
+  file: File,
+  modelId?: string,
+  purpose?: UploadPurpose,
+) {
+  const key = storageKey(file, modelId, purpose);
+  const saved = localStorage.getItem(key);
+  localStorage.removeItem(key);
+  if (!saved) return;
+  const { id } = JSON.parse(saved) as PendingUpload;
+  await fetch(`/api/uploads/sessions/${id}`, { method: "DELETE" });
+}
+
+/** Forgets and cancels an upload listed by `listPendingUploads`. */
+export async function discardPendingUpload(id: string) {
+  for (let i = localStorage.length - 1; i >= 0; i--) {
+    const key = localStorage.key(i);
+    if (!key?.startsWith(STORAGE_PREFIX)) continue;
+    try {
+      const pending = JSON.parse(
+        localStorage.getItem(key) ?? "",
+      ) as PendingUpload;
+      if (pending.id === id) localStorage.removeItem(key);
+    } catch {
+      localStorage.removeItem(key);
+    }
+  }
+  await fetch(`/api/uploads/sessions/${id}`, { method: "DELETE" });
+}
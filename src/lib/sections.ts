@@ -0,0 +1,47 @@
+import type { Vec3 } from "~/lib/annotations";
+
+export const MAX_SECTION_PLANES = 3;
+
+/**
+ * A cut through a model in its scene's coordinates: everything on the side `normal` points away
+ * from is hidden.
+ */
+export interface SectionPlane {
+  point: Vec3;
+  normal: Vec3;
+}
+
+export type SectionAxis = "x" | "y" | "z";
+
+/**
+ * A cut across `axis` through `center`, hiding the positive side so the inside faces a camera
+ * looking from there.
+ */
+export function presetSection(axis: SectionAxis, center: Vec3): SectionPlane {
+  return {
+    point: center,
+    normal: [
+      axis === "x" ? -1 : 0,
+      axis === "y" ? -1 : 0,
+      axis === "z" ? -1 : 0,
+    ],
+  };
+}
+
+export function flipSection(plane: SectionPlane): SectionPlane {
+  return {
+    point: plane.point,
+    normal: [-plane.normal[0], -plane.normal[1], -plane.normal[2]],
+  };
+}
+
+/** Whether `point` lies in the part of the model the planes cut away. */
+export function isCutAway(planes: SectionPlane[], point: Vec3) {
+  return planes.some(
+    ({ point: p, normal: n }) =>
+      n[0] * (point[0] - p[0]) +
+        n[1] * (point[1] - p[1]) +
+        n[2] * (point[2] - p[2]) <
+      0,
+  );
+}
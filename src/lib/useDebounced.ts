@@ -0,0 +1,11 @@
+import { useEffect, useState } from "react";
+
+/** Waits until typing pauses so every keystroke does not hit the server. */
+export function useDebounced<T>(value: T, ms = 250) {
+  const [debounced, setDebounced] = useState(value);
+  useEffect(() => {
+    const t = setTimeout(() => setDebounced(value), ms);
+    return () => clearTimeout(t);
+  }, [value, ms]);
+  return debounced;
+}
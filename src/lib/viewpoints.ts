@@ -0,0 +1,64 @@
+import type { Vec3 } from "~/lib/annotations";
+import type { SectionPlane } from "~/lib/sections";
+
+export const MAX_VIEWPOINTS_PER_MODEL = 50;
+export const MAX_TOURS_PER_MODEL = 20;
+export const MAX_TOUR_STOPS = 50;
+export const DEFAULT_STOP_MS = 5000;
+
+/** A camera placement in the GLB's scene space; `fov` is vertical, in degrees. */
+export interface ViewpointCamera {
+  position: Vec3;
+  target: Vec3;
+  fov: number;
+}
+
+export interface ViewerViewpoint {
+  id: string;
+  title: string;
+  camera: ViewpointCamera;
+  /** Cuts through the model shown with the view. */
+  section?: SectionPlane[];
+}
+
+/** What the viewer restores when it moves to a viewpoint or tour stop. */
+export type ViewpointView = Pick<ViewerViewpoint, "camera" | "section">;
+
+/** One step of a tour as stored: which viewpoint, what to say there and for how long. */
+export interface TourStop {
+  viewpointId: string;
+  caption: string | null;
+  /** Time spent at the stop once the camera arrives. */
+  durationMs: number;
+}
+
+export interface ViewerTour {
+  id: string;
+  title: string;
+  stops: (TourStop & ViewpointView & { title: string })[];
+}
+
+/** A tour with each stop's viewpoint filled in. Stops whose viewpoint was deleted are skipped. */
+export function resolveTour(
+  tour: { id: string; title: string; stops: TourStop[] },
+  viewpoints: ViewerViewpoint[],
+): ViewerTour {
+  const byId = new Map(viewpoints.map((v) => [v.id, v]));
+  return {
+    id: tour.id,
+    title: tour.title,
+    stops: tour.stops.flatMap((stop) => {
+      const viewpoint = byId.get(stop.viewpointId);
+      return viewpoint
+        ? [
+            {
+              ...stop,
+              title: viewpoint.title,
+              camera: viewpoint.camera,
+              section: viewpoint.section,
+            },
+          ]
+        : [];
+    }),
+  };
+}
@@ -5,6 +5,9 @@ import { uploadRouter } from "~/server/api/routers/upload";
 import { authRouter } from "~/server/api/routers/auth";
 import { dashboardRouter } from "~/server/api/routers/dashboard";
 import { shareRouter } from "~/server/api/routers/share";
+import { collectionRouter } from "~/server/api/routers/collection";
+import { annotationRouter } from "~/server/api/routers/annotation";
+import { viewpointRouter } from "~/server/api/routers/viewpoint";
 import { createCallerFactory, createTRPCRouter } from "~/server/api/trpc";
 
 /**
@@ -20,6 +23,9 @@ export const appRouter = createTRPCRouter({
   auth: authRouter,
   dashboard: dashboardRouter,
   share: shareRouter,
+  collection: collectionRouter,
+  annotation: annotationRouter,
+  viewpoint: viewpointRouter,
 });
 
 // export type definition of API
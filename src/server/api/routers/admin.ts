@@ -1,7 +1,17 @@
  
 import { z } from "zod";
 import { type Role } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
 import { adminProcedure, createTRPCRouter } from "~/server/api/trpc";
+import { retryJob } from "~/server/jobs/queue";
+import { deleteUser, transferOwnership } from "~/server/models/ownership";
+import { heaviestUsers, recountStoredFiles } from "~/server/models/quota";
+import {
+  discardBulkImport,
+  parseBulkImportReport,
+  parseBulkImportResults,
+  startBulkImport,
+} from "~/server/uploads/bulk";
 
 
 
@@ -28,4 +38,117 @@ export const adminRouter = createTRPCRouter({
       });
       return updated;
     }),
+  /** Hands a user's models, shares, collections and dashboard to another user. */
+  transferOwnership: adminProcedure
+    .input(
+      z.object({ fromUserId: z.string().cuid(), toUserId: z.string().cuid() }),
+    )
+    .mutation(async ({ ctx, input }) =>
+      transferOwnership(input.fromUserId, input.toUserId, ctx.session.user.id),
+    ),
+  /** Deletes an account that no longer owns models; transfer its ownership first. */
+  deleteUser: adminProcedure
+    .input(z.object({ userId: z.string().cuid() }))
+    .mutation(async ({ ctx, input }) =>
+      deleteUser(input.userId, ctx.session.user.id),
+    ),
+  storageReport: adminProcedure
+    .input(z.object({ limit: z.number().int().min(1).max(200).default(25) }))
+    .query(async ({ input }) => heaviestUsers(input.limit)),
+  /** Overrides a user's quotas; `null` restores the role default and 0 means unlimited. */
+  setQuota: adminProcedure
+    .input(
+      z.object({
+        userId: z.string().cuid(),
+        storageQuotaMb: z.number().int().min(0).nullable(),
+        modelQuota: z.number().int().min(0).nullable(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { userId, ...data } = input;
+      const updated = await ctx.db.user.update({ where: { id: userId }, data });
+      await ctx.db.auditLog.create({
+        data: {
+          actorId: ctx.session.user.id,
+          event: "USER_QUOTA_CHANGED",
+          details: { targetUserId: userId, ...data },
+        },
+      });
+      return updated;
+    }),
+  recountStorage: adminProcedure.mutation(async () => recountStoredFiles()),
+  jobCounts: adminProcedure.query(async ({ ctx }) => {
+    const groups = await ctx.db.job.groupBy({
+      by: ["status"],
+      _count: { _all: true },
+    });
+    return Object.fromEntries(groups.map((g) => [g.status, g._count._all]));
+  }),
+  listJobs: adminProcedure
+    .input(
+      z.object({
+        status: z.enum(["PENDING", "RUNNING", "COMPLETED", "FAILED"]),
+        limit: z.number().int().min(1).max(200).default(50),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      return ctx.db.job.findMany({
+        where: { status: input.status },
+        orderBy: { updatedAt: "desc" },
+        take: input.limit,
+      });
+    }),
+  retryJob: adminProcedure
+    .input(z.object({ id: z.string().cuid() }))
+    .mutation(async ({ ctx, input }) => {
+      if (!(await retryJob(input.id))) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Only failed jobs can be retried",
+        });
+      }
+      await ctx.db.auditLog.create({
+        data: {
+          actorId: ctx.session.user.id,
+          event: "JOB_RETRIED",
+          details: { jobId: input.id },
+        },
+      });
+      return { ok: true };
+    }),
+  listBulkImports: adminProcedure.query(async ({ ctx }) => {
+    const imports = await ctx.db.bulkImport.findMany({
+      orderBy: { createdAt: "desc" },
+      take: 20,
+      include: { owner: { select: { name: true, email: true } } },
+    });
+    return imports.map(({ report, results, ...rest }) => ({
+      ...rest,
+      report: parseBulkImportReport(report),
+      results: parseBulkImportResults(results),
+    }));
+  }),
+  /** Imports the rows of a validated zip that passed its dry run. */
+  startBulkImport: adminProcedure
+    .input(z.object({ id: z.string().cuid() }))
+    .mutation(async ({ ctx, input }) => {
+      if (!(await startBulkImport(input.id, ctx.session.user.id))) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Only a validated import can be started",
+        });
+      }
+      return { ok: true };
+    }),
+  discardBulkImport: adminProcedure
+    .input(z.object({ id: z.string().cuid() }))
+    .mutation(async ({ input }) => {
+      if (!(await discardBulkImport(input.id))) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "An import cannot be discarded while it runs",
+        });
+      }
+      return { ok: true };
+    }),
 });
@@ -0,0 +1,118 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { MAX_ANNOTATIONS_PER_MODEL } from "~/lib/annotations";
+import { getManageableModel } from "~/server/models/access";
+import {
+  getManageableAnnotation,
+  nextAnnotationPosition,
+  toViewerAnnotation,
+} from "~/server/models/annotations";
+
+const vec3 = z.tuple([
+  z.number().finite(),
+  z.number().finite(),
+  z.number().finite(),
+]);
+
+// Media may be site-relative (e.g. from /public) or any http(s) URL
+const mediaUrl = z
+  .string()
+  .trim()
+  .max(2000)
+  .refine((url) => url.startsWith("/") || /^https?:\/\//i.test(url), {
+    message: "Must be an http(s) URL or a path on this site",
+  });
+
+export const annotationRouter = createTRPCRouter({
+  /** A model's annotations in marker order, for editing. */
+  list: protectedProcedure
+    .input(z.object({ modelId: z.string().cuid() }))
+    .query(async ({ ctx, input }) => {
+      await getManageableModel(ctx.session, input.modelId);
+      const rows = await ctx.db.annotation.findMany({
+        where: { modelId: input.modelId },
+        orderBy: [{ position: "asc" }, { createdAt: "asc" }],
+      });
+      return rows.map(toViewerAnnotation);
+    }),
+  /** Places a hotspot at a point picked on the model's surface. */
+  create: protectedProcedure
+    .input(
+      z.object({
+        modelId: z.string().cuid(),
+        anchor: vec3,
+        normal: vec3,
+        title: z.string().trim().min(1).max(200),
+        body: z.string().max(20000).optional(),
+        mediaUrl: mediaUrl.optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await getManageableModel(ctx.session, input.modelId);
+      const count = await ctx.db.annotation.count({
+        where: { modelId: input.modelId },
+      });
+      if (count >= MAX_ANNOTATIONS_PER_MODEL) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `A model can have at most ${MAX_ANNOTATIONS_PER_MODEL} annotations`,
+        });
+      }
+      const row = await ctx.db.annotation.create({
+        data: {
+          ...input,
+          position: await nextAnnotationPosition(input.modelId),
+        },
+      });
+      return toViewerAnnotation(row);
+    }),
+  update: protectedProcedure
+    .input(
+      z.object({
+        id: z.string().cuid(),
+        title: z.string().trim().min(1).max(200).optional(),
+        body: z.string().max(20000).nullable().optional(),
+        mediaUrl: mediaUrl.nullable().optional(),
+        anchor: vec3.optional(),
+        normal: vec3.optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await getManageableAnnotation(ctx.session, input.id);
+      const { id, ...data } = input;
+      const row = await ctx.db.annotation.update({ where: { id }, data });
+      return toViewerAnnotation(row);
+    }),
+  /** Saves the order of a model's annotations, and so their numbers; `ids` lists them first to last. */
+  reorder: protectedProcedure
+    .input(
+      z.object({
+        modelId: z.string().cuid(),
+        ids: z.array(z.string().cuid()).max(MAX_ANNOTATIONS_PER_MODEL),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await getManageableModel(ctx.session, input.modelId);
+      const rows = await ctx.db.annotation.findMany({
+        where: { id: { in: input.ids }, modelId: input.modelId },
+        select: { id: true },
+      });
+      if (rows.length !== input.ids.length) {
+        throw new TRPCError({ code: "BAD_REQUEST" });
+      }
+      await ctx.db.$transaction(
+        input.ids.map((id, position) =>
+          ctx.db.annotation.update({ where: { id }, data: { position } }),
+        ),
+      );
+      return { ok: true };
+    }),
+  remove: protectedProcedure
+    .input(z.object({ id: z.string().cuid() }))
+    .mutation(async ({ ctx, input }) => {
+      await getManageableAnnotation(ctx.session, input.id);
+      await ctx.db.annotation.delete({ where: { id: input.id } });
+      return { ok: true };
+    }),
+});
@@ -0,0 +1,219 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { isStaff } from "~/server/assets/access";
+import {
+  assertCanNest,
+  collectionPath,
+  getManageableCollection,
+  nextCollectionPosition,
+  visibleCollections,
+} from "~/server/models/collections";
+
+// Cover images may be site-relative (e.g. from /public) or any http(s) URL
+const coverImageUrl = z
+  .string()
+  .trim()
+  .max(2000)
+  .refine((url) => url.startsWith("/") || /^https?:\/\//i.test(url), {
+    message: "Must be an http(s) URL or a path on this site",
+  });
+
+export const collectionRouter = createTRPCRouter({
+  /** Collections directly under `parentId` (top level when null), in their saved order. */
+  list: protectedProcedure
+    .input(z.object({ parentId: z.string().cuid().nullable() }))
+    .query(async ({ ctx, input }) => {
+      return ctx.db.collection.findMany({
+        where: { parentId: input.parentId, ...visibleCollections(ctx.session) },
+        orderBy: [{ position: "asc" }, { createdAt: "asc" }],
+        include: { _count: { select: { models: true, children: true } } },
+      });
+    }),
+  /** Every collection the caller can see, flat; for pickers. */
+  all: protectedProcedure.query(async ({ ctx }) => {
+    return ctx.db.collection.findMany({
+      where: visibleCollections(ctx.session),
+      orderBy: [{ title: "asc" }],
+      select: { id: true, title: true, parentId: true },
+    });
+  }),
+  get: protectedProcedure
+    .input(z.object({ id: z.string().cuid() }))
+    .query(async ({ ctx, input }) => {
+      const collection = await getManageableCollection(ctx.session, input.id);
+      return { ...collection, path: await collectionPath(input.id) };
+    }),
+  create: protectedProcedure
+    .input(
+      z.object({
+        title: z.string().trim().min(1).max(200),
+        description: z.string().trim().max(5000).optional(),
+        coverImageUrl: coverImageUrl.optional(),
+        parentId: z.string().cuid().nullish(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const parentId = input.parentId ?? null;
+      if (parentId) {
+        await getManageableCollection(ctx.session, parentId);
+        await assertCanNest(null, parentId);
+      }
+      return ctx.db.collection.create({
+        data: {
+          title: input.title,
+          description: input.description,
+          coverImageUrl: input.coverImageUrl,
+          parentId,
+          ownerId: ctx.session.user.id,
+          position: await nextCollectionPosition(ctx.session.user.id, parentId),
+        },
+      });
+    }),
+  update: protectedProcedure
+    .input(
+      z.object({
+        id: z.string().cuid(),
+        title: z.string().trim().min(1).max(200).optional(),
+        description: z.string().trim().max(5000).nullable().optional(),
+        coverImageUrl: coverImageUrl.nullable().optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await getManageableCollection(ctx.session, input.id);
+      const { id, ...data } = input;
+      return ctx.db.collection.update({ where: { id }, data });
+    }),
+  /** Moves a collection under another one, or to the top level with `parentId: null`. */
+  move: protectedProcedure
+    .input(
+      z.object({
+        id: z.string().cuid(),
+        parentId: z.string().cuid().nullable(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const collection = await getManageableCollection(ctx.session, input.id);
+      if (input.parentId) {
+        await getManageableCollection(ctx.session, input.parentId);
+        await assertCanNest(input.id, input.parentId);
+      }
+      return ctx.db.collection.update({
+        where: { id: input.id },
+        data: {
+          parentId: input.parentId,
+          position: await nextCollectionPosition(
+            collection.ownerId,
+            input.parentId,
+          ),
+        },
+      });
+    }),
+  /** Saves the order of sibling collections; `ids` lists them first to last. */
+  reorder: protectedProcedure
+    .input(
+      z.object({
+        parentId: z.string().cuid().nullable(),
+        ids: z.array(z.string().cuid()).max(500),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const siblings = await ctx.db.collection.findMany({
+        where: {
+          id: { in: input.ids },
+          parentId: input.parentId,
+          ...visibleCollections(ctx.session),
+        },
+        select: { id: true },
+      });
+      if (siblings.length !== input.ids.length) {
+        throw new TRPCError({ code: "BAD_REQUEST" });
+      }
+      await ctx.db.$transaction(
+        input.ids.map((id, position) =>
+          ctx.db.collection.update({ where: { id }, data: { position } }),
+        ),
+      );
+      return { ok: true };
+    }),
+  /** Deletes the collection and the collections nested in it; the models are kept. */
+  remove: protectedProcedure
+    .input(z.object({ id: z.string().cuid() }))
+    .mutation(async ({ ctx, input }) => {
+      await getManageableCollection(ctx.session, input.id);
+      await ctx.db.collection.delete({ where: { id: input.id } });
+      await ctx.db.auditLog.create({
+        data: {
+          actorId: ctx.session.user.id,
+          event: "COLLECTION_DELETED",
+          details: { collectionId: input.id },
+        },
+      });
+      return { ok: true };
+    }),
+  /** Files models in a collection, after the ones already there. */
+  addModels: protectedProcedure
+    .input(
+      z.object({
+        id: z.string().cuid(),
+        modelIds: z.array(z.string().cuid()).min(1).max(200),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await getManageableCollection(ctx.session, input.id);
+      const models = await ctx.db.model.findMany({
+        where: {
+          id: { in: input.modelIds },
+          deletedAt: null,
+          ...(isStaff(ctx.session) ? {} : { ownerId: ctx.session.user.id }),
+        },
+        select: { id: true },
+      });
+      if (models.length !== new Set(input.modelIds).size) {
+        throw new TRPCError({ code: "FORBIDDEN" });
+      }
+      const last = await ctx.db.collectionModel.aggregate({
+        where: { collectionId: input.id },
+        _max: { position: true },
+      });
+      const start = (last._max.position ?? -1) + 1;
+      await ctx.db.collectionModel.createMany({
+        data: models.map((m, i) => ({
+          collectionId: input.id,
+          modelId: m.id,
+          position: start + i,
+        })),
+        skipDuplicates: true,
+      });
+      return { ok: true };
+    }),
+  removeModel: protectedProcedure
+    .input(z.object({ id: z.string().cuid(), modelId: z.string().cuid() }))
+    .mutation(async ({ ctx, input }) => {
+      await getManageableCollection(ctx.session, input.id);
+      await ctx.db.collectionModel.deleteMany({
+        where: { collectionId: input.id, modelId: input.modelId },
+      });
+      return { ok: true };
+    }),
+  /** Saves the order of a collection's models; `modelIds` lists them first to last. */
+  reorderModels: protectedProcedure
+    .input(
+      z.object({
+        id: z.string().cuid(),
+        modelIds: z.array(z.string().cuid()).max(2000),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await getManageableCollection(ctx.session, input.id);
+      await ctx.db.$transaction(
+        input.modelIds.map((modelId, position) =>
+          ctx.db.collectionModel.updateMany({
+            where: { collectionId: input.id, modelId },
+            data: { position },
+          }),
+        ),
+      );
+      return { ok: true };
+    }),
+});
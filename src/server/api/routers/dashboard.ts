@@ -4,7 +4,8 @@ import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
 
 const cardDataSchema = z.union([
   z.object({ md: z.string() }), // For markdown type
-  z.object({ src: z.string() }), // For model type
+  z.object({ src: z.string(), animationClip: z.string().max(200).optional() }), // For model type
+  z.object({ collectionId: z.string() }), // For collection type
   // Add other card data schemas as needed
 ]);
 
@@ -1,5 +1,57 @@
+import { TRPCError } from "@trpc/server";
 import { z } from "zod";
+import { DOWNLOAD_POLICY_VALUES } from "~/lib/downloadPolicies";
+import { LICENSE_VALUES } from "~/lib/licenses";
+import { env } from "~/env";
 import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { isStaff } from "~/server/assets/access";
+import { GlbValidationError } from "~/server/gltf/glb";
+import { GEOMETRY_COMPRESSION, TEXTURE_FORMATS } from "~/server/gltf/optimize";
+import { getManageableModel } from "~/server/models/access";
+import { getManageableCollection } from "~/server/models/collections";
+import {
+  LIBRARY_SORTS,
+  listLibrary,
+  listTags,
+  MAX_TAG_LENGTH,
+  MAX_TAGS_PER_MODEL,
+  setModelTags,
+} from "~/server/models/library";
+import {
+  discardOptimized,
+  parseOptimization,
+  scheduleOptimization,
+} from "~/server/models/optimization";
+import { duplicateModel } from "~/server/models/ownership";
+import {
+  findDuplicateModels,
+  findReusableVersion,
+} from "~/server/models/dedup";
+import {
+  assertWithinQuota,
+  ownsStoredFiles,
+  QuotaExceededError,
+} from "~/server/models/quota";
+import {
+  addModelVersion,
+  createModel,
+  ensureInitialVersion,
+  parseSourceImport,
+  parseStats,
+  setCurrentVersion,
+} from "~/server/models/versions";
+import {
+  getAffectedShares,
+  purgeDate,
+  purgeModel,
+  restoreModel,
+  trashModel,
+} from "~/server/models/trash";
+import { inspectStoredModel, removeUsdz } from "~/server/uploads/models";
+import {
+  parseUsdzConversion,
+  scheduleUsdzConversion,
+} from "~/server/usdz/generate";
 
 
 
@@ -8,15 +60,50 @@ export const modelRouter = createTRPCRouter({
   listMine: protectedProcedure.query(async ({ ctx }) => {
     const role = (ctx.session?.user as { role?: "USER" | "EMPLOYEE" | "ADMIN" } | undefined)?.role;
     if (role === "ADMIN" || role === "EMPLOYEE") {
-      return ctx.db.model.findMany({ orderBy: { createdAt: "desc" } });
+      return ctx.db.model.findMany({
+        where: { deletedAt: null },
+        orderBy: { createdAt: "desc" },
+      });
     }
-    return ctx.db.model.findMany({ where: { ownerId: ctx.session.user.id } });
+    return ctx.db.model.findMany({
+      where: { ownerId: ctx.session.user.id, deletedAt: null },
+    });
   }),
+  /** Paginated, searchable library; use with `useInfiniteQuery`. */
+  library: protectedProcedure
+    .input(
+      z.object({
+        q: z.string().max(200).optional(),
+        tags: z.array(z.string().max(MAX_TAG_LENGTH)).max(10).optional(),
+        collectionId: z.string().cuid().nullish(),
+        sort: z.enum(LIBRARY_SORTS).default("relevance"),
+        limit: z.number().int().min(1).max(100).default(24),
+        cursor: z.string().cuid().nullish(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      if (input.collectionId) {
+        await getManageableCollection(ctx.session, input.collectionId);
+      }
+      return listLibrary(ctx.session, input);
+    }),
+  tags: protectedProcedure.query(async ({ ctx }) => listTags(ctx.session)),
+  setTags: protectedProcedure
+    .input(
+      z.object({
+        modelId: z.string().cuid(),
+        tags: z.array(z.string().max(MAX_TAG_LENGTH)).max(MAX_TAGS_PER_MODEL),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await getManageableModel(ctx.session, input.modelId);
+      return setModelTags(input.modelId, input.tags);
+    }),
   getById: protectedProcedure
     .input(z.object({ id: z.string().cuid() }))
     .query(async ({ ctx, input }) => {
       return ctx.db.model.findFirst({
-        where: { id: input.id, ownerId: ctx.session.user.id },
+        where: { id: input.id, ownerId: ctx.session.user.id, deletedAt: null },
       });
     }),
   create: protectedProcedure
@@ -29,21 +116,388 @@ export const modelRouter = createTRPCRouter({
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      return ctx.db.model.create({
-        data: {
-          title: input.title,
-          description: input.description,
+      // Only files the caller stored; other keys would hand them someone else's files
+      const keys = [input.glbStorageId, input.usdzStorageId ?? ""].filter(Boolean);
+      if (!(await ownsStoredFiles(ctx.session.user.id, keys))) {
+        throw new TRPCError({ code: "FORBIDDEN" });
+      }
+      const stats = await inspectStoredModel(input.glbStorageId).catch((err) => {
+        if (err instanceof GlbValidationError) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: err.message });
+        }
+        throw err;
+      });
+      const model = await createModel({
+        title: input.title,
+        description: input.description,
+        ownerId: ctx.session.user.id,
+        glbStorageId: input.glbStorageId,
+        usdzStorageId: input.usdzStorageId,
+        stats,
+      });
+      if (!input.usdzStorageId) {
+        await scheduleUsdzConversion(model.currentVersionId!);
+      }
+      return model;
+    }),
+  /** Models the caller can see that already hold a file with this SHA-256 (hex). */
+  findDuplicates: protectedProcedure
+    .input(
+      z.object({
+        sha256: z.string().regex(/^[0-9a-f]{64}$/),
+        excludeModelId: z.string().cuid().optional(),
+      }),
+    )
+    .query(async ({ ctx, input }) =>
+      findDuplicateModels(ctx.session, input.sha256, input.excludeModelId),
+    ),
+  /**
+   * Uses an already stored file instead of uploading identical bytes again: as a new version of
+   * `modelId`, or as a new model. The file is shared, not copied.
+   */
+  reuseAsset: protectedProcedure
+    .input(
+      z.object({
+        sha256: z.string().regex(/^[0-9a-f]{64}$/),
+        modelId: z.string().cuid().optional(),
+        title: z.string().min(1).max(255).optional(),
+        optimize: z.boolean().optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const source = await findReusableVersion(ctx.session, input.sha256);
+      if (!source) throw new TRPCError({ code: "NOT_FOUND" });
+      const stats =
+        parseStats(source.stats) ??
+        (await inspectStoredModel(source.glbStorageId));
+
+      let modelId: string;
+      let versionId: string;
+      if (input.modelId) {
+        await getManageableModel(ctx.session, input.modelId);
+        const added = await addModelVersion({
+          modelId: input.modelId,
+          userId: ctx.session.user.id,
+          glbStorageId: source.glbStorageId,
+          usdzStorageId: source.usdzStorageId,
+          stats,
+        });
+        modelId = input.modelId;
+        versionId = added.id;
+      } else {
+        try {
+          await assertWithinQuota(ctx.session.user.id, {
+            bytes: 0,
+            newModel: true,
+          });
+        } catch (err) {
+          if (err instanceof QuotaExceededError) {
+            throw new TRPCError({
+              code: "PAYLOAD_TOO_LARGE",
+              message: err.message,
+            });
+          }
+          throw err;
+        }
+        const model = await createModel({
+          title: input.title ?? "Untitled model",
           ownerId: ctx.session.user.id,
-          glbStorageId: input.glbStorageId,
-          usdzStorageId: input.usdzStorageId,
+          glbStorageId: source.glbStorageId,
+          usdzStorageId: source.usdzStorageId,
+          stats,
+        });
+        modelId = model.id;
+        versionId = model.currentVersionId!;
+      }
+      if (!source.usdzStorageId) await scheduleUsdzConversion(versionId);
+      if (input.optimize) await scheduleOptimization(versionId);
+      await ctx.db.auditLog.create({
+        data: {
+          actorId: ctx.session.user.id,
+          event: "FILE_REUSED",
+          details: {
+            key: source.glbStorageId,
+            sha256: input.sha256,
+            modelId,
+            sourceModelId: source.modelId,
+          },
         },
       });
+      return { modelId };
+    }),
+  /** Copies a shared model into the caller's library, reusing its stored files. */
+  duplicate: protectedProcedure
+    .input(z.object({ id: z.string().cuid() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const model = await duplicateModel(ctx.session, input.id);
+        return { modelId: model.id };
+      } catch (err) {
+        if (err instanceof QuotaExceededError) {
+          throw new TRPCError({
+            code: "PAYLOAD_TOO_LARGE",
+            message: err.message,
+          });
+        }
+        throw err;
+      }
     }),
+  update: protectedProcedure
+    .input(
+      z.object({
+        id: z.string().cuid(),
+        title: z.string().trim().min(1).max(200).optional(),
+        description: z.string().trim().max(5000).nullable().optional(),
+        license: z.enum(LICENSE_VALUES).nullable().optional(),
+        credit: z.string().trim().max(300).nullable().optional(),
+        sourceUrl: z
+          .string()
+          .trim()
+          .url()
+          .refine((url) => /^https?:\/\//i.test(url), {
+            message: "Must be an http(s) URL",
+          })
+          .nullable()
+          .optional(),
+        acknowledgements: z.string().trim().max(2000).nullable().optional(),
+        downloadPolicy: z.enum(DOWNLOAD_POLICY_VALUES).optional(),
+        metersPerUnit: z.number().positive().finite().nullable().optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await getManageableModel(ctx.session, input.id);
+      const { id, ...data } = input;
+      const updated = await ctx.db.model.update({ where: { id }, data });
+      await ctx.db.auditLog.create({
+        data: {
+          actorId: ctx.session.user.id,
+          event: "MODEL_UPDATED",
+          details: { modelId: id, fields: Object.keys(data) },
+        },
+      });
+      return updated;
+    }),
+  /** Shares the owner should be warned about before moving a model to the trash. */
+  deletionImpact: protectedProcedure
+    .input(z.object({ id: z.string().cuid() }))
+    .query(async ({ ctx, input }) => {
+      await getManageableModel(ctx.session, input.id);
+      return {
+        shares: await getAffectedShares(input.id),
+        retentionDays: env.TRASH_RETENTION_DAYS,
+      };
+    }),
+  /** Moves the model to the trash; `purge` or the retention window deletes it for good. */
   remove: protectedProcedure
     .input(z.object({ id: z.string().cuid() }))
     .mutation(async ({ ctx, input }) => {
-      return ctx.db.model.delete({
-        where: { id: input.id },
+      await getManageableModel(ctx.session, input.id);
+      const { model } = await trashModel(input.id, ctx.session.user.id);
+      return model;
+    }),
+  listTrash: protectedProcedure.query(async ({ ctx }) => {
+    const models = await ctx.db.model.findMany({
+      where: {
+        deletedAt: { not: null },
+        ...(isStaff(ctx.session) ? {} : { ownerId: ctx.session.user.id }),
+      },
+      orderBy: { deletedAt: "desc" },
+      include: { _count: { select: { shares: true } } },
+    });
+    return models.map((m) => ({ ...m, purgeAt: purgeDate(m.deletedAt!) }));
+  }),
+  restore: protectedProcedure
+    .input(z.object({ id: z.string().cuid() }))
+    .mutation(async ({ ctx, input }) => {
+      await getManageableModel(ctx.session, input.id, { trashed: true });
+      return restoreModel(input.id, ctx.session.user.id);
+    }),
+  /** Deletes a trashed model and its files now instead of waiting for the retention window. */
+  purge: protectedProcedure
+    .input(z.object({ id: z.string().cuid() }))
+    .mutation(async ({ ctx, input }) => {
+      await getManageableModel(ctx.session, input.id, { trashed: true });
+      await purgeModel(input.id, ctx.session.user.id);
+      return { ok: true };
+    }),
+  listVersions: protectedProcedure
+    .input(z.object({ modelId: z.string().cuid() }))
+    .query(async ({ ctx, input }) => {
+      const model = await getManageableModel(ctx.session, input.modelId);
+      await ensureInitialVersion(model);
+      const [versions, current] = await Promise.all([
+        ctx.db.modelVersion.findMany({
+          where: { modelId: input.modelId },
+          orderBy: { version: "desc" },
+          include: {
+            createdBy: { select: { id: true, name: true, email: true } },
+            _count: { select: { shares: true } },
+          },
+        }),
+        ctx.db.model.findUniqueOrThrow({
+          where: { id: input.modelId },
+          select: { currentVersionId: true },
+        }),
+      ]);
+      return versions.map((v) => ({
+        ...v,
+        sourceImport: parseSourceImport(v.sourceImport),
+        isCurrent: v.id === current.currentVersionId,
+      }));
+    }),
+  updateVersionNotes: protectedProcedure
+    .input(
+      z.object({
+        versionId: z.string().cuid(),
+        notes: z.string().max(5000),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const version = await ctx.db.modelVersion.findUnique({
+        where: { id: input.versionId },
+      });
+      if (!version) throw new TRPCError({ code: "NOT_FOUND" });
+      await getManageableModel(ctx.session, version.modelId);
+      return ctx.db.modelVersion.update({
+        where: { id: input.versionId },
+        data: { notes: input.notes || null },
+      });
+    }),
+  rollback: protectedProcedure
+    .input(
+      z.object({ modelId: z.string().cuid(), versionId: z.string().cuid() }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const model = await getManageableModel(ctx.session, input.modelId);
+      const version = await ctx.db.modelVersion.findFirst({
+        where: { id: input.versionId, modelId: input.modelId },
+      });
+      if (!version) throw new TRPCError({ code: "NOT_FOUND" });
+      const updated = await setCurrentVersion(input.modelId, input.versionId);
+      await ctx.db.auditLog.create({
+        data: {
+          actorId: ctx.session.user.id,
+          event: "MODEL_VERSION_ROLLBACK",
+          details: {
+            modelId: input.modelId,
+            fromVersionId: model.currentVersionId,
+            toVersionId: input.versionId,
+            version: version.version,
+          },
+        },
+      });
+      return updated;
+    }),
+  removeUsdz: protectedProcedure
+    .input(z.object({ modelId: z.string().cuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const model = await getManageableModel(ctx.session, input.modelId);
+      if (!model.usdzStorageId) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Model has no USDZ companion",
+        });
+      }
+      return removeUsdz(input.modelId, ctx.session.user.id);
+    }),
+  usdzStatus: protectedProcedure
+    .input(z.object({ modelId: z.string().cuid() }))
+    .query(async ({ ctx, input }) => {
+      const model = await getManageableModel(ctx.session, input.modelId);
+      await ensureInitialVersion(model);
+      const { currentVersion } = await ctx.db.model.findUniqueOrThrow({
+        where: { id: input.modelId },
+        select: { currentVersion: true },
+      });
+      return {
+        usdzStorageId: currentVersion?.usdzStorageId ?? null,
+        conversion: parseUsdzConversion(currentVersion?.usdzConversion ?? null),
+      };
+    }),
+  generateUsdz: protectedProcedure
+    .input(z.object({ modelId: z.string().cuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const model = await getManageableModel(ctx.session, input.modelId);
+      await ensureInitialVersion(model);
+      const { currentVersion } = await ctx.db.model.findUniqueOrThrow({
+        where: { id: input.modelId },
+        select: { currentVersion: true },
+      });
+      if (!currentVersion || currentVersion.usdzStorageId) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Remove the current USDZ before generating a new one",
+        });
+      }
+      if (
+        parseUsdzConversion(currentVersion.usdzConversion)?.status === "pending"
+      ) {
+        return { started: false };
+      }
+      // Runs in the background; clients poll `usdzStatus`
+      await scheduleUsdzConversion(currentVersion.id);
+      return { started: true };
+    }),
+  optimizationStatus: protectedProcedure
+    .input(z.object({ modelId: z.string().cuid() }))
+    .query(async ({ ctx, input }) => {
+      const model = await getManageableModel(ctx.session, input.modelId);
+      await ensureInitialVersion(model);
+      const { currentVersion } = await ctx.db.model.findUniqueOrThrow({
+        where: { id: input.modelId },
+        select: { currentVersion: true },
+      });
+      return {
+        optimizedGlbStorageId: currentVersion?.optimizedGlbStorageId ?? null,
+        optimization: parseOptimization(currentVersion?.optimization ?? null),
+      };
+    }),
+  optimize: protectedProcedure
+    .input(
+      z.object({
+        modelId: z.string().cuid(),
+        geometry: z.enum(GEOMETRY_COMPRESSION),
+        textures: z.enum(TEXTURE_FORMATS),
+        maxTextureSize: z.number().int().min(256).max(8192),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const model = await getManageableModel(ctx.session, input.modelId);
+      await ensureInitialVersion(model);
+      const { currentVersion } = await ctx.db.model.findUniqueOrThrow({
+        where: { id: input.modelId },
+        select: { currentVersion: true },
+      });
+      if (!currentVersion) throw new TRPCError({ code: "NOT_FOUND" });
+      if (
+        parseOptimization(currentVersion.optimization)?.status === "pending"
+      ) {
+        return { started: false };
+      }
+      // Runs in the background; clients poll `optimizationStatus`
+      await scheduleOptimization(currentVersion.id, {
+        geometry: input.geometry,
+        textures: input.textures,
+        maxTextureSize: input.maxTextureSize,
+      });
+      return { started: true };
+    }),
+  discardOptimized: protectedProcedure
+    .input(z.object({ modelId: z.string().cuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const model = await getManageableModel(ctx.session, input.modelId);
+      if (!model.currentVersionId) throw new TRPCError({ code: "NOT_FOUND" });
+      await discardOptimized(model.currentVersionId);
+      await ctx.db.auditLog.create({
+        data: {
+          actorId: ctx.session.user.id,
+          event: "MODEL_OPTIMIZATION_DISCARDED",
+          details: {
+            modelId: input.modelId,
+            versionId: model.currentVersionId,
+          },
+        },
       });
+      return { ok: true };
     }),
 });
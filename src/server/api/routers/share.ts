@@ -1,9 +1,63 @@
+import type { Model, ModelVersion } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import type { Session } from "next-auth";
 import { z } from "zod";
+import { animationNames } from "~/lib/animations";
 import {
   createTRPCRouter,
   protectedProcedure,
   publicProcedure,
 } from "~/server/api/trpc";
+import { hasDownloadAccess, requiresSignedUrl } from "~/server/assets/access";
+import { getManageableModel } from "~/server/models/access";
+import { modelAnnotations } from "~/server/models/annotations";
+import {
+  collectionModels,
+  getManageableCollection,
+} from "~/server/models/collections";
+import { resolveShareFiles } from "~/server/models/versions";
+import { modelViewpoints } from "~/server/models/viewpoints";
+import { signedAssetPath } from "~/server/storage/signing";
+
+/** Models that may not be downloaded get expiring links instead of permanent ones. */
+function assetUrl(key: string, signed: boolean) {
+  return signed ? signedAssetPath(key) : `/api/models/${key}`;
+}
+
+/**
+ * What a share's viewer needs to show one model. The page is public, so storage keys only go out
+ * inside the asset URLs and no owner or file columns are included.
+ */
+function viewerModel(
+  session: Session | null,
+  model: Model,
+  version: ModelVersion | null,
+) {
+  const files = resolveShareFiles({ model, modelVersion: version })!;
+  const signed = requiresSignedUrl(session, model);
+  const downloadable = hasDownloadAccess(session, model);
+  return {
+    id: model.id,
+    title: model.title,
+    src: assetUrl(files.glbStorageId, signed),
+    originalSrc: assetUrl(files.originalGlbStorageId, signed),
+    // No companion means no Quick Look link; the viewer says so on iOS.
+    usdz: files.usdzStorageId
+      ? assetUrl(files.usdzStorageId, signed)
+      : undefined,
+    downloadable,
+    // Signed-in viewers may copy models they can download into their own library
+    copyable:
+      !!session?.user && model.ownerId !== session.user.id && downloadable,
+    metersPerUnit: model.metersPerUnit,
+    credit: {
+      license: model.license,
+      credit: model.credit,
+      sourceUrl: model.sourceUrl,
+      acknowledgements: model.acknowledgements,
+    },
+  };
+}
 
 export const shareRouter = createTRPCRouter({
   create: protectedProcedure
@@ -12,17 +66,64 @@ export const shareRouter = createTRPCRouter({
         title: z.string().min(1),
         description: z.string().optional(),
         modelId: z.string().cuid().optional(),
+        // Pin a specific version; omit to follow the model's current version
+        modelVersionId: z.string().cuid().optional(),
         modelUrl: z.string().url().optional(),
+        // Share every model of a collection instead of a single one
+        collectionId: z.string().cuid().optional(),
+        // Clip of the shared model to autoplay, as named by its inspection
+        animationClip: z.string().trim().min(1).max(200).optional(),
       }),
     )
     .mutation(async ({ ctx, input }) => {
+      if (input.collectionId) {
+        if (input.modelId || input.modelUrl) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Share either a collection or a model, not both",
+          });
+        }
+        await getManageableCollection(ctx.session, input.collectionId);
+      }
+      if (input.modelId) {
+        // Sharing makes the model's files public, so only those who manage it may
+        const model = await getManageableModel(ctx.session, input.modelId);
+        if (
+          input.animationClip &&
+          !animationNames(model.animations).includes(input.animationClip)
+        ) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `The model has no animation named "${input.animationClip}"`,
+          });
+        }
+      } else if (input.animationClip) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Only a single model's share can autoplay an animation",
+        });
+      }
+      if (input.modelVersionId) {
+        const version = await ctx.db.modelVersion.findUnique({
+          where: { id: input.modelVersionId },
+        });
+        if (!version || version.modelId !== input.modelId) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Version does not belong to the selected model",
+          });
+        }
+      }
       return ctx.db.share.create({
         data: {
           title: input.title,
           description: input.description,
           ownerId: ctx.session!.user.id,
           modelId: input.modelId,
+          modelVersionId: input.modelVersionId,
           modelUrl: input.modelUrl,
+          collectionId: input.collectionId,
+          animationClip: input.animationClip,
         },
       });
     }),
@@ -30,9 +131,41 @@ export const shareRouter = createTRPCRouter({
   get: publicProcedure
     .input(z.object({ id: z.string().cuid() }))
     .query(async ({ ctx, input }) => {
-      return ctx.db.share.findUnique({
+      const share = await ctx.db.share.findUnique({
         where: { id: input.id },
-        include: { model: true, owner: true },
+        include: { model: true, modelVersion: true },
       });
+      // Shares of a trashed model stop working until it is restored
+      if (!share || share.model?.deletedAt) return null;
+      const models = share.model
+        ? [share.model]
+        : share.collectionId
+          ? await collectionModels(share.collectionId)
+          : [];
+      const modelIds = models.map((m) => m.id);
+      const [annotations, viewpoints] = await Promise.all([
+        modelAnnotations(modelIds),
+        modelViewpoints(modelIds),
+      ]);
+      const shown = models.map((model) => ({
+        ...viewerModel(
+          ctx.session,
+          model,
+          model.id === share.modelId ? share.modelVersion : null,
+        ),
+        annotations: annotations[model.id],
+        viewpoints: viewpoints[model.id]?.viewpoints,
+        tours: viewpoints[model.id]?.tours,
+      }));
+      return {
+        id: share.id,
+        title: share.title,
+        description: share.description,
+        modelUrl: share.modelUrl,
+        collectionId: share.collectionId,
+        animationClip: share.animationClip,
+        model: share.modelId ? (shown[0] ?? null) : null,
+        collectionModels: share.collectionId ? shown : [],
+      };
     }),
 });
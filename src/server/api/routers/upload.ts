@@ -1,5 +1,12 @@
+import { TRPCError } from "@trpc/server";
 import { z } from "zod";
 import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { GlbValidationError } from "~/server/gltf/glb";
+import { ownsStoredFiles } from "~/server/models/quota";
+import { trashModel } from "~/server/models/trash";
+import { createModel } from "~/server/models/versions";
+import { inspectStoredModel } from "~/server/uploads/models";
+import { scheduleUsdzConversion } from "~/server/usdz/generate";
 
 // Placeholder router for UploadThing-related metadata operations
 export const uploadRouter = createTRPCRouter({
@@ -13,15 +20,29 @@ export const uploadRouter = createTRPCRouter({
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      return ctx.db.model.create({
-        data: {
-          title: input.title,
-          description: input.description,
-          ownerId: ctx.session.user.id,
-          glbStorageId: input.fileKeyGlb,
-          usdzStorageId: input.fileKeyUsdz,
-        },
+      // Only files the caller stored; other keys would hand them someone else's files
+      const keys = [input.fileKeyGlb, input.fileKeyUsdz ?? ""].filter(Boolean);
+      if (!(await ownsStoredFiles(ctx.session.user.id, keys))) {
+        throw new TRPCError({ code: "FORBIDDEN" });
+      }
+      const stats = await inspectStoredModel(input.fileKeyGlb).catch((err) => {
+        if (err instanceof GlbValidationError) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: err.message });
+        }
+        throw err;
+      });
+      const model = await createModel({
+        title: input.title,
+        description: input.description,
+        ownerId: ctx.session.user.id,
+        glbStorageId: input.fileKeyGlb,
+        usdzStorageId: input.fileKeyUsdz,
+        stats,
       });
+      if (!input.fileKeyUsdz) {
+        await scheduleUsdzConversion(model.currentVersionId!);
+      }
+      return model;
     }),
   suggestUsdz: protectedProcedure
     .input(z.object({ glbSizeBytes: z.number().int().positive() }))
@@ -34,20 +55,16 @@ export const uploadRouter = createTRPCRouter({
     .input(z.object({ id: z.string().cuid() }))
     .mutation(async ({ ctx, input }) => {
       const role = (ctx.session?.user as { role?: "USER" | "EMPLOYEE" | "ADMIN" } | undefined)?.role;
-      const model = await ctx.db.model.findUnique({ where: { id: input.id } });
+      const model = await ctx.db.model.findFirst({
+        where: { id: input.id, deletedAt: null },
+      });
       if (!model) return { ok: false };
       const owned = model.ownerId === ctx.session.user.id;
       if (!(owned || role === "ADMIN" || role === "EMPLOYEE")) {
         throw new Error("FORBIDDEN");
       }
-      await ctx.db.model.delete({ where: { id: input.id } });
-      await ctx.db.auditLog.create({
-        data: {
-          actorId: ctx.session.user.id,
-          event: "FILE_DELETED",
-          details: { modelId: input.id, ownerId: model.ownerId },
-        },
-      });
+      // Files stay until the trash is purged
+      await trashModel(input.id, ctx.session.user.id);
       return { ok: true };
     }),
 });
@@ -1,10 +1,15 @@
 import { z } from "zod";
 import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { getQuotaStatus } from "~/server/models/quota";
 
 export const userRouter = createTRPCRouter({
   me: protectedProcedure.query(async ({ ctx }) => {
     return ctx.db.user.findUnique({ where: { id: ctx.session!.user.id } });
   }),
+  /** Storage used by the caller's models against their quota. */
+  storageUsage: protectedProcedure.query(async ({ ctx }) =>
+    getQuotaStatus(ctx.session.user.id),
+  ),
   updateProfile: protectedProcedure
     .input(
       z.object({
@@ -0,0 +1,210 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { MAX_SECTION_PLANES } from "~/lib/sections";
+import {
+  MAX_TOUR_STOPS,
+  MAX_TOURS_PER_MODEL,
+  MAX_VIEWPOINTS_PER_MODEL,
+} from "~/lib/viewpoints";
+import { getManageableModel } from "~/server/models/access";
+import {
+  getManageableTour,
+  getManageableViewpoint,
+  nextViewpointPosition,
+  parseTourStops,
+  toViewerViewpoints,
+} from "~/server/models/viewpoints";
+
+const vec3 = z.tuple([
+  z.number().finite(),
+  z.number().finite(),
+  z.number().finite(),
+]);
+
+const camera = z.object({
+  position: vec3,
+  target: vec3,
+  fov: z.number().min(1).max(179),
+});
+
+/** Cuts shown with the view; an empty list shows the whole model. */
+const section = z
+  .array(
+    z.object({
+      point: vec3,
+      normal: vec3.refine((n) => Math.hypot(...n) > 0, {
+        message: "Normal must not be zero",
+      }),
+    }),
+  )
+  .max(MAX_SECTION_PLANES);
+
+const tourStops = z
+  .array(
+    z.object({
+      viewpointId: z.string().cuid(),
+      caption: z.string().trim().max(2000).nullable(),
+      durationMs: z.number().int().min(500).max(600_000),
+    }),
+  )
+  .max(MAX_TOUR_STOPS);
+
+export const viewpointRouter = createTRPCRouter({
+  /** A model's viewpoints in order and its tours with their stops as saved, for editing. */
+  list: protectedProcedure
+    .input(z.object({ modelId: z.string().cuid() }))
+    .query(async ({ ctx, input }) => {
+      await getManageableModel(ctx.session, input.modelId);
+      const [viewpoints, tours] = await Promise.all([
+        ctx.db.viewpoint.findMany({
+          where: { modelId: input.modelId },
+          orderBy: [{ position: "asc" }, { createdAt: "asc" }],
+        }),
+        ctx.db.tour.findMany({
+          where: { modelId: input.modelId },
+          orderBy: { createdAt: "asc" },
+        }),
+      ]);
+      return {
+        viewpoints: toViewerViewpoints(viewpoints),
+        tours: tours.map((t) => ({
+          id: t.id,
+          title: t.title,
+          stops: parseTourStops(t.stops),
+        })),
+      };
+    }),
+  /** Saves the current camera and cuts of the viewer as a named viewpoint. */
+  create: protectedProcedure
+    .input(
+      z.object({
+        modelId: z.string().cuid(),
+        title: z.string().trim().min(1).max(200),
+        camera,
+        section: section.optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await getManageableModel(ctx.session, input.modelId);
+      const count = await ctx.db.viewpoint.count({
+        where: { modelId: input.modelId },
+      });
+      if (count >= MAX_VIEWPOINTS_PER_MODEL) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `A model can have at most ${MAX_VIEWPOINTS_PER_MODEL} viewpoints`,
+        });
+      }
+      return ctx.db.viewpoint.create({
+        data: {
+          ...input,
+          position: await nextViewpointPosition(input.modelId),
+        },
+      });
+    }),
+  update: protectedProcedure
+    .input(
+      z.object({
+        id: z.string().cuid(),
+        title: z.string().trim().min(1).max(200).optional(),
+        camera: camera.optional(),
+        section: section.optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await getManageableViewpoint(ctx.session, input.id);
+      const { id, ...data } = input;
+      return ctx.db.viewpoint.update({ where: { id }, data });
+    }),
+  /** Saves the order of a model's viewpoints; `ids` lists them first to last. */
+  reorder: protectedProcedure
+    .input(
+      z.object({
+        modelId: z.string().cuid(),
+        ids: z.array(z.string().cuid()).max(MAX_VIEWPOINTS_PER_MODEL),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await getManageableModel(ctx.session, input.modelId);
+      const rows = await ctx.db.viewpoint.findMany({
+        where: { id: { in: input.ids }, modelId: input.modelId },
+        select: { id: true },
+      });
+      if (rows.length !== input.ids.length) {
+        throw new TRPCError({ code: "BAD_REQUEST" });
+      }
+      await ctx.db.$transaction(
+        input.ids.map((id, position) =>
+          ctx.db.viewpoint.update({ where: { id }, data: { position } }),
+        ),
+      );
+      return { ok: true };
+    }),
+  /** Deletes a viewpoint; tours skip the stops that showed it. */
+  remove: protectedProcedure
+    .input(z.object({ id: z.string().cuid() }))
+    .mutation(async ({ ctx, input }) => {
+      await getManageableViewpoint(ctx.session, input.id);
+      await ctx.db.viewpoint.delete({ where: { id: input.id } });
+      return { ok: true };
+    }),
+  /** Creates a tour, or replaces the title and stops of the tour with `id`. */
+  saveTour: protectedProcedure
+    .input(
+      z.object({
+        id: z.string().cuid().optional(),
+        modelId: z.string().cuid(),
+        title: z.string().trim().min(1).max(200),
+        stops: tourStops,
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await getManageableModel(ctx.session, input.modelId);
+      const viewpoints = await ctx.db.viewpoint.count({
+        where: {
+          modelId: input.modelId,
+          id: { in: input.stops.map((s) => s.viewpointId) },
+        },
+      });
+      if (viewpoints !== new Set(input.stops.map((s) => s.viewpointId)).size) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Tour stops must be viewpoints of this model",
+        });
+      }
+      if (input.id) {
+        const tour = await getManageableTour(ctx.session, input.id);
+        if (tour.modelId !== input.modelId) {
+          throw new TRPCError({ code: "BAD_REQUEST" });
+        }
+        return ctx.db.tour.update({
+          where: { id: input.id },
+          data: { title: input.title, stops: input.stops },
+        });
+      }
+      const count = await ctx.db.tour.count({
+        where: { modelId: input.modelId },
+      });
+      if (count >= MAX_TOURS_PER_MODEL) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `A model can have at most ${MAX_TOURS_PER_MODEL} tours`,
+        });
+      }
+      return ctx.db.tour.create({
+        data: {
+          modelId: input.modelId,
+          title: input.title,
+          stops: input.stops,
+        },
+      });
+    }),
+  removeTour: protectedProcedure
+    .input(z.object({ id: z.string().cuid() }))
+    .mutation(async ({ ctx, input }) => {
+      await getManageableTour(ctx.session, input.id);
+      await ctx.db.tour.delete({ where: { id: input.id } });
+      return { ok: true };
+    }),
+});
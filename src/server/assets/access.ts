@@ -0,0 +1,131 @@
+import type { Session } from "next-auth";
+import type { Model } from "@prisma/client";
+import { db } from "~/server/db";
+import { modelsSharedViaCollections } from "~/server/models/collections";
+import { parseSourceImport } from "~/server/models/versions";
+
+/** `source` is the file a GLB was converted from on import (OBJ, STL, zip, ...). */
+export type AssetKind = "glb" | "usdz" | "source";
+
+export const ASSET_CONTENT_TYPES: Record<AssetKind, string> = {
+  glb: "model/gltf-binary",
+  usdz: "model/vnd.usdz+zip",
+  source: "application/octet-stream",
+};
+
+export type AssetLookup =
+  | {
+      status: "ok";
+      model: Model;
+      kind: AssetKind;
+      /** File extension to download the asset with. */
+      extension: string;
+      shared: boolean;
+    }
+  | { status: "not_found" }
+  | { status: "forbidden" };
+
+export function isStaff(session: Session | null) {
+  const role = session?.user?.role;
+  return role === "ADMIN" || role === "EMPLOYEE";
+}
+
+/** Whether a model's download policy lets the caller download its files. */
+export function canDownloadModel(
+  session: Session | null,
+  model: Pick<Model, "downloadPolicy">,
+) {
+  if (model.downloadPolicy === "EMPLOYEES_ONLY") return isStaff(session);
+  return model.downloadPolicy === "ALLOWED";
+}
+
+/**
+ * Whether the caller may download a model's files, including print exports. Owners and staff
+ * manage the files and always may; others only when downloads are allowed to them.
+ */
+export function hasDownloadAccess(
+  session: Session | null,
+  model: Pick<Model, "downloadPolicy" | "ownerId">,
+) {
+  const owned = !!session?.user && model.ownerId === session.user.id;
+  return owned || isStaff(session) || canDownloadModel(session, model);
+}
+
+/** Whether the caller needs a signed, expiring URL to fetch a model's files. */
+export function requiresSignedUrl(
+  session: Session | null,
+  model: Pick<Model, "downloadPolicy" | "ownerId">,
+) {
+  return !hasDownloadAccess(session, model);
+}
+
+/**
+ * Resolves a storage key to a `Model` that references it, through its current files or any of
+ * its versions, and decides whether the caller may read it. Shared models, directly or through a
+ * shared collection, are public; everything else is limited to the owner and staff. Files of trashed models are not served.
+ * Deduplicated files can belong to several models; any one the caller may read grants access.
+ */
+export async function findModelAsset(
+  storageId: string,
+  session: Session | null,
+): Promise<AssetLookup> {
+  const byKey = {
+    OR: [
+      { glbStorageId: storageId },
+      { usdzStorageId: storageId },
+      { optimizedGlbStorageId: storageId },
+    ],
+  };
+  const versionFiles = { OR: [...byKey.OR, { sourceStorageId: storageId }] };
+  const models = await db.model.findMany({
+    where: {
+      deletedAt: null,
+      OR: [byKey, { versions: { some: versionFiles } }],
+    },
+    include: { _count: { select: { shares: true } } },
+    orderBy: { createdAt: "asc" },
+  });
+  if (models.length === 0) return { status: "not_found" };
+
+  const viaCollection = await modelsSharedViaCollections(
+    models.filter((m) => m._count.shares === 0).map((m) => m.id),
+  );
+  let readable: { model: Model; shared: boolean } | null = null;
+  for (const model of models) {
+    const shared = model._count.shares > 0 || viaCollection.has(model.id);
+    const owned = !!session?.user && model.ownerId === session.user.id;
+    if (shared) {
+      readable = { model, shared };
+      break;
+    }
+    if (!readable && (owned || isStaff(session))) readable = { model, shared };
+  }
+  if (!readable) return { status: "forbidden" };
+
+  const { model, shared } = readable;
+  const version =
+    model.glbStorageId === storageId ||
+    model.usdzStorageId === storageId ||
+    model.optimizedGlbStorageId === storageId
+      ? model
+      : await db.modelVersion.findFirst({
+          where: { modelId: model.id, ...versionFiles },
+        });
+  if (
+    version &&
+    "sourceStorageId" in version &&
+    version.sourceStorageId === storageId
+  ) {
+    const format = parseSourceImport(version.sourceImport)?.format;
+    return {
+      status: "ok",
+      model,
+      kind: "source",
+      extension: format ?? "bin",
+      shared,
+    };
+  }
+  const kind: AssetKind = version?.usdzStorageId === storageId ? "usdz" : "glb";
+
+  return { status: "ok", model, kind, extension: kind, shared };
+}
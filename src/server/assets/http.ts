@@ -0,0 +1,46 @@
+import { createHash } from "crypto";
+import type { ByteRange } from "~/server/storage";
+
+// Storage keys are never reused for different bytes, so a hash of the key is a strong validator
+// that does not give the key away to holders of a signed link.
+export function etagFor(storageId: string) {
+  return `"${createHash("sha256").update(storageId).digest("base64url")}"`;
+}
+
+export function matchesEtag(header: string | null, etag: string) {
+  if (!header) return false;
+  return header
+    .split(",")
+    .map((v) => v.trim().replace(/^W\//, ""))
+    .some((v) => v === "*" || v === etag);
+}
+
+/**
+ * Parses a single-range `Range: bytes=...` header against an object of `size` bytes. Multi-range
+ * requests are answered with the full body, which RFC 9110 allows.
+ */
+export function parseRange(
+  header: string | null,
+  size: number,
+): ByteRange | "unsatisfiable" | null {
+  if (!header) return null;
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match) return null;
+  const [, startRaw = "", endRaw = ""] = match;
+  if (!startRaw && !endRaw) return null;
+
+  let start: number;
+  let end: number;
+  if (!startRaw) {
+    // Suffix range: the last N bytes.
+    const suffix = Number(endRaw);
+    if (suffix === 0) return "unsatisfiable";
+    start = Math.max(0, size - suffix);
+    end = size - 1;
+  } else {
+    start = Number(startRaw);
+    end = endRaw ? Math.min(Number(endRaw), size - 1) : size - 1;
+  }
+  if (start >= size || start > end) return "unsatisfiable";
+  return { start, end };
+}
@@ -0,0 +1,86 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { LICENSES } from "~/lib/licenses";
+import { auth } from "~/server/auth";
+import {
+  ASSET_CONTENT_TYPES,
+  findModelAsset,
+  requiresSignedUrl,
+} from "~/server/assets/access";
+import { etagFor, matchesEtag, parseRange } from "~/server/assets/http";
+import { storage } from "~/server/storage";
+
+/**
+ * Streams a model's file with range and conditional request support. Only files of live models
+ * the caller may read are served; `signed` requests came through an unexpired signed link, which
+ * stands in for download rights but not for access to the model.
+ */
+export async function serveModelAsset(
+  req: NextRequest,
+  storageId: string,
+  method: "GET" | "HEAD",
+  signed: boolean,
+) {
+  const session = await auth();
+  const lookup = await findModelAsset(storageId, session);
+  if (lookup.status !== "ok") {
+    return new NextResponse("Not found", { status: 404 });
+  }
+  // Models that may not be downloaded have no permanent public link
+  if (!signed && requiresSignedUrl(session, lookup.model)) {
+    return new NextResponse("Forbidden", { status: 403 });
+  }
+
+  const object = await storage.stat(storageId).catch(() => null);
+  if (!object) return new NextResponse("Not found", { status: 404 });
+
+  const etag = etagFor(storageId);
+  const headers = new Headers({
+    "Accept-Ranges": "bytes",
+    ETag: etag,
+    "Content-Type": ASSET_CONTENT_TYPES[lookup.kind],
+    "Content-Disposition": `inline; filename="${encodeURIComponent(lookup.model.title)}.${lookup.extension}"`,
+  });
+  // Downloads carry the model's license so saved copies can be traced back to their terms
+  const licenseUrl = lookup.model.license
+    ? LICENSES[lookup.model.license].url
+    : null;
+  if (licenseUrl) headers.set("Link", `<${licenseUrl}>; rel="license"`);
+  // Shared caches would keep serving a signed response after the link expires
+  headers.set(
+    "Cache-Control",
+    lookup.shared && lookup.model.downloadPolicy === "ALLOWED"
+      ? "public, max-age=3600, s-maxage=3600"
+      : "private, max-age=3600",
+  );
+
+  if (matchesEtag(req.headers.get("if-none-match"), etag)) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  // Ignore the range if the client's copy is stale; they need the whole file.
+  const ifRange = req.headers.get("if-range");
+  const range = parseRange(
+    ifRange && ifRange !== etag ? null : req.headers.get("range"),
+    object.size,
+  );
+  if (range === "unsatisfiable") {
+    headers.set("Content-Range", `bytes */${object.size}`);
+    return new NextResponse(null, { status: 416, headers });
+  }
+
+  if (range) {
+    headers.set(
+      "Content-Range",
+      `bytes ${range.start}-${range.end}/${object.size}`,
+    );
+    headers.set("Content-Length", String(range.end - range.start + 1));
+  } else {
+    headers.set("Content-Length", String(object.size));
+  }
+
+  const body =
+    method === "HEAD"
+      ? null
+      : await storage.stream(storageId, range ?? undefined);
+  return new NextResponse(body, { status: range ? 206 : 200, headers });
+}
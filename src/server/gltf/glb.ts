@@ -0,0 +1,524 @@
+/**
+ * Minimal reader for binary glTF 2.0 (`.glb`) containers. It only looks at the header, the JSON
+ * chunk and the few BIN bytes needed to size embedded images, so even very large files can be
+ * inspected with a handful of ranged reads.
+ *
+ * @see https://registry.khronos.org/glTF/specs/2.0/glTF-2.0.html#binary-gltf-layout
+ */
+
+const GLB_MAGIC = 0x46546c67; // "glTF"
+const CHUNK_JSON = 0x4e4f534a; // "JSON"
+const CHUNK_BIN = 0x004e4942; // "BIN\0"
+const HEADER_BYTES = 12;
+const CHUNK_HEADER_BYTES = 8;
+// Enough to reach the SOF marker of a JPEG with a large EXIF block.
+const IMAGE_SNIFF_BYTES = 64 * 1024;
+
+export class GlbValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GlbValidationError";
+  }
+}
+
+/** Random access to the bytes of a file; `end` is exclusive. */
+export interface ByteSource {
+  size: number;
+  read(start: number, end: number): Promise<Uint8Array>;
+}
+
+export function bytesSource(bytes: Uint8Array): ByteSource {
+  return {
+    size: bytes.byteLength,
+    read: async (start, end) => bytes.subarray(start, end),
+  };
+}
+
+type Vec3 = [number, number, number];
+
+export interface GlbTextureInfo {
+  name?: string;
+  mimeType?: string;
+  width?: number;
+  height?: number;
+}
+
+export interface GlbAnimationInfo {
+  name: string;
+  /** Seconds, from the largest keyframe time across the animation's samplers. */
+  duration: number;
+  channels: number;
+}
+
+export interface GlbInspection {
+  meshCount: number;
+  triangleCount: number;
+  vertexCount: number;
+  materialCount: number;
+  textureCount: number;
+  textures: GlbTextureInfo[];
+  animations: GlbAnimationInfo[];
+  extensionsUsed: string[];
+  boundingBox: { min: Vec3; max: Vec3; size: Vec3 } | null;
+}
+
+interface GltfAccessor {
+  count: number;
+  min?: number[];
+  max?: number[];
+}
+
+interface GltfPrimitive {
+  attributes: Record<string, number>;
+  indices?: number;
+  mode?: number;
+}
+
+interface GltfNode {
+  children?: number[];
+  mesh?: number;
+  matrix?: number[];
+  translation?: number[];
+  rotation?: number[];
+  scale?: number[];
+}
+
+interface GltfImage {
+  name?: string;
+  uri?: string;
+  mimeType?: string;
+  bufferView?: number;
+}
+
+export interface GltfJson {
+  asset?: { version?: string };
+  scene?: number;
+  scenes?: { nodes?: number[] }[];
+  nodes?: GltfNode[];
+  meshes?: { primitives?: GltfPrimitive[] }[];
+  accessors?: GltfAccessor[];
+  bufferViews?: { buffer: number; byteOffset?: number; byteLength: number }[];
+  buffers?: { byteLength: number; uri?: string }[];
+  materials?: unknown[];
+  textures?: { source?: number }[];
+  images?: GltfImage[];
+  animations?: {
+    name?: string;
+    channels?: unknown[];
+    samplers?: { input: number }[];
+  }[];
+  extensionsUsed?: string[];
+}
+
+export interface GlbContainer {
+  json: GltfJson;
+  /** Absolute offset and length of the BIN chunk payload, if present. */
+  bin: { offset: number; length: number } | null;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+const isIndex = (value: unknown) => Number.isInteger(value);
+const isNumber = (value: unknown) => typeof value === "number";
+
+/** True when `value` is absent or a list whose items all pass `item`. */
+function optionalList(value: unknown, item: (value: unknown) => boolean) {
+  return value === undefined || (Array.isArray(value) && value.every(item));
+}
+
+// The top-level lists that are walked, with the lists inside their items that are walked too
+const GLTF_LISTS: Record<
+  string,
+  Record<string, (value: unknown) => boolean>
+> = {
+  scenes: { nodes: isIndex },
+  nodes: {
+    children: isIndex,
+    matrix: isNumber,
+    translation: isNumber,
+    rotation: isNumber,
+    scale: isNumber,
+  },
+  meshes: { primitives: (p) => isObject(p) && isObject(p.attributes) },
+  accessors: {},
+  bufferViews: {},
+  buffers: {},
+  materials: {},
+  textures: {},
+  images: {},
+  animations: { channels: isObject, samplers: isObject },
+};
+
+/** Rejects JSON that the code below would crash on, such as `null` or a `bufferViews` object. */
+function assertGltfShape(json: unknown): asserts json is GltfJson {
+  if (!isObject(json)) {
+    throw new GlbValidationError("JSON chunk is not a glTF object");
+  }
+  for (const [key, fields] of Object.entries(GLTF_LISTS)) {
+    const items = json[key];
+    if (!optionalList(items, isObject)) {
+      throw new GlbValidationError(`"${key}" is not a list of objects`);
+    }
+    for (const [i, item] of (
+      (items ?? []) as Record<string, unknown>[]
+    ).entries()) {
+      for (const [field, check] of Object.entries(fields)) {
+        if (!optionalList(item[field], check)) {
+          throw new GlbValidationError(`${key}[${i}].${field} is malformed`);
+        }
+      }
+    }
+  }
+  if (!optionalList(json.extensionsUsed, (v) => typeof v === "string")) {
+    throw new GlbValidationError('"extensionsUsed" is not a list of names');
+  }
+}
+
+function u32(bytes: Uint8Array, offset: number) {
+  return new DataView(bytes.buffer, bytes.byteOffset).getUint32(offset, true);
+}
+
+/** Validates the container layout and returns the parsed JSON chunk. */
+export async function readGlbContainer(
+  source: ByteSource,
+): Promise<GlbContainer> {
+  if (source.size < HEADER_BYTES + CHUNK_HEADER_BYTES) {
+    throw new GlbValidationError("File is too small to be a GLB");
+  }
+  const head = await source.read(0, HEADER_BYTES + CHUNK_HEADER_BYTES);
+  if (u32(head, 0) !== GLB_MAGIC) {
+    throw new GlbValidationError("Not a binary glTF file (bad magic)");
+  }
+  const version = u32(head, 4);
+  if (version !== 2) {
+    throw new GlbValidationError(`Unsupported glTF version ${version}`);
+  }
+  const declared = u32(head, 8);
+  if (declared > source.size) {
+    throw new GlbValidationError(
+      `File is truncated (${source.size} of ${declared} bytes)`,
+    );
+  }
+
+  const jsonLength = u32(head, 12);
+  if (u32(head, 16) !== CHUNK_JSON) {
+    throw new GlbValidationError("First chunk is not JSON");
+  }
+  const jsonStart = HEADER_BYTES + CHUNK_HEADER_BYTES;
+  if (jsonStart + jsonLength > declared) {
+    throw new GlbValidationError("JSON chunk runs past the end of the file");
+  }
+  let json: unknown;
+  try {
+    const raw = await source.read(jsonStart, jsonStart + jsonLength);
+    json = JSON.parse(new TextDecoder().decode(raw));
+  } catch {
+    throw new GlbValidationError("JSON chunk is not valid JSON");
+  }
+  assertGltfShape(json);
+  const assetVersion: unknown = json.asset?.version;
+  if (typeof assetVersion !== "string" || !assetVersion.startsWith("2.")) {
+    throw new GlbValidationError(
+      `Unsupported asset version ${json.asset?.version ?? "(missing)"}`,
+    );
+  }
+
+  let bin: GlbContainer["bin"] = null;
+  // Chunks are 4-byte aligned; the JSON chunk is padded with spaces.
+  const binHeaderStart = jsonStart + jsonLength;
+  if (binHeaderStart + CHUNK_HEADER_BYTES <= declared) {
+    const binHead = await source.read(
+      binHeaderStart,
+      binHeaderStart + CHUNK_HEADER_BYTES,
+    );
+    if (u32(binHead, 4) === CHUNK_BIN) {
+      const length = u32(binHead, 0);
+      const offset = binHeaderStart + CHUNK_HEADER_BYTES;
+      if (offset + length > declared) {
+        throw new GlbValidationError("BIN chunk runs past the end of the file");
+      }
+      bin = { offset, length };
+    }
+  }
+
+  const glbBuffer = json.buffers?.[0];
+  if (
+    glbBuffer &&
+    !glbBuffer.uri &&
+    (!bin || bin.length < glbBuffer.byteLength)
+  ) {
+    throw new GlbValidationError("BIN chunk is smaller than buffer 0");
+  }
+  for (const [i, view] of (json.bufferViews ?? []).entries()) {
+    const buffer = json.buffers?.[view.buffer];
+    if (!buffer) {
+      throw new GlbValidationError(
+        `bufferView ${i} references a missing buffer`,
+      );
+    }
+    if ((view.byteOffset ?? 0) + view.byteLength > buffer.byteLength) {
+      throw new GlbValidationError(`bufferView ${i} is out of bounds`);
+    }
+  }
+
+  return { json, bin };
+}
+
+/** Reads width/height from PNG, JPEG, WebP or KTX2 headers. */
+export function imageSize(
+  bytes: Uint8Array,
+): { width: number; height: number; mimeType: string } | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const ascii = (start: number, len: number) =>
+    String.fromCharCode(...bytes.subarray(start, start + len));
+
+  if (bytes.length >= 24 && ascii(1, 3) === "PNG") {
+    return {
+      width: view.getUint32(16),
+      height: view.getUint32(20),
+      mimeType: "image/png",
+    };
+  }
+  if (bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+      if (bytes[offset] !== 0xff) return null;
+      const marker = bytes[offset + 1]!;
+      const isSof =
+        marker >= 0xc0 &&
+        marker <= 0xcf &&
+        marker !== 0xc4 &&
+        marker !== 0xc8 &&
+        marker !== 0xcc;
+      if (isSof) {
+        return {
+          height: view.getUint16(offset + 5),
+          width: view.getUint16(offset + 7),
+          mimeType: "image/jpeg",
+        };
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+    return null;
+  }
+  if (bytes.length >= 30 && ascii(0, 4) === "RIFF" && ascii(8, 4) === "WEBP") {
+    const chunk = ascii(12, 4);
+    if (chunk === "VP8X") {
+      return {
+        width: 1 + (view.getUint32(24, true) & 0xffffff),
+        height: 1 + (view.getUint32(27, true) & 0xffffff),
+        mimeType: "image/webp",
+      };
+    }
+    if (chunk === "VP8 ") {
+      return {
+        width: view.getUint16(26, true) & 0x3fff,
+        height: view.getUint16(28, true) & 0x3fff,
+        mimeType: "image/webp",
+      };
+    }
+    if (chunk === "VP8L") {
+      const b0 = bytes[21]!;
+      const b1 = bytes[22]!;
+      const b2 = bytes[23]!;
+      const b3 = bytes[24]!;
+      return {
+        width: 1 + (((b1 & 0x3f) << 8) | b0),
+        height: 1 + (((b3 & 0xf) << 10) | (b2 << 2) | ((b1 & 0xc0) >> 6)),
+        mimeType: "image/webp",
+      };
+    }
+    return null;
+  }
+  if (bytes.length >= 28 && ascii(1, 6) === "KTX 20") {
+    return {
+      width: view.getUint32(20, true),
+      height: view.getUint32(24, true),
+      mimeType: "image/ktx2",
+    };
+  }
+  return null;
+}
+
+function decodeDataUri(uri: string) {
+  const match = /^data:[^;,]*;base64,(.*)$/.exec(uri);
+  if (!match) return null;
+  // Only the head of the payload is needed to size the image.
+  const head = match[1]!.slice(0, Math.ceil(IMAGE_SNIFF_BYTES / 3) * 4);
+  return new Uint8Array(Buffer.from(head, "base64"));
+}
+
+type Mat4 = number[];
+
+const IDENTITY: Mat4 = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+
+function multiply(a: Mat4, b: Mat4): Mat4 {
+  const out = new Array<number>(16).fill(0);
+  for (let col = 0; col < 4; col++) {
+    for (let row = 0; row < 4; row++) {
+      let sum = 0;
+      for (let k = 0; k < 4; k++) sum += a[k * 4 + row]! * b[col * 4 + k]!;
+      out[col * 4 + row] = sum;
+    }
+  }
+  return out;
+}
+
+function localMatrix(node: GltfNode): Mat4 {
+  if (node.matrix?.length === 16) return node.matrix;
+  const [tx, ty, tz] = node.translation ?? [0, 0, 0];
+  const [x, y, z, w] = node.rotation ?? [0, 0, 0, 1];
+  const [sx, sy, sz] = node.scale ?? [1, 1, 1];
+  const [qx, qy, qz, qw] = [x!, y!, z!, w!];
+  return [
+    (1 - 2 * (qy * qy + qz * qz)) * sx!,
+    2 * (qx * qy + qz * qw) * sx!,
+    2 * (qx * qz - qy * qw) * sx!,
+    0,
+    2 * (qx * qy - qz * qw) * sy!,
+    (1 - 2 * (qx * qx + qz * qz)) * sy!,
+    2 * (qy * qz + qx * qw) * sy!,
+    0,
+    2 * (qx * qz + qy * qw) * sz!,
+    2 * (qy * qz - qx * qw) * sz!,
+    (1 - 2 * (qx * qx + qy * qy)) * sz!,
+    0,
+    tx!,
+    ty!,
+    tz!,
+    1,
+  ];
+}
+
+function transformPoint(m: Mat4, p: Vec3): Vec3 {
+  const [x, y, z] = p;
+  return [
+    m[0]! * x + m[4]! * y + m[8]! * z + m[12]!,
+    m[1]! * x + m[5]! * y + m[9]! * z + m[13]!,
+    m[2]! * x + m[6]! * y + m[10]! * z + m[14]!,
+  ];
+}
+
+/** World-space bounds from the accessor min/max that glTF requires on POSITION. */
+function computeBounds(json: GltfJson): GlbInspection["boundingBox"] {
+  const min: Vec3 = [Infinity, Infinity, Infinity];
+  const max: Vec3 = [-Infinity, -Infinity, -Infinity];
+
+  const addMesh = (meshIndex: number, matrix: Mat4) => {
+    for (const prim of json.meshes?.[meshIndex]?.primitives ?? []) {
+      const acc = json.accessors?.[prim.attributes.POSITION ?? -1];
+      if (acc?.min?.length !== 3 || acc.max?.length !== 3) continue;
+      const [lo, hi] = [acc.min, acc.max];
+      for (let i = 0; i < 8; i++) {
+        const corner: Vec3 = [
+          i & 1 ? hi[0]! : lo[0]!,
+          i & 2 ? hi[1]! : lo[1]!,
+          i & 4 ? hi[2]! : lo[2]!,
+        ];
+        const p = transformPoint(matrix, corner);
+        for (let a = 0; a < 3; a++) {
+          min[a] = Math.min(min[a]!, p[a]!);
+          max[a] = Math.max(max[a]!, p[a]!);
+        }
+      }
+    }
+  };
+
+  const scene = json.scenes?.[json.scene ?? 0];
+  if (scene?.nodes) {
+    const visit = (index: number, parent: Mat4, depth: number) => {
+      const node = json.nodes?.[index];
+      if (!node || depth > 256) return;
+      const world = multiply(parent, localMatrix(node));
+      if (node.mesh !== undefined) addMesh(node.mesh, world);
+      for (const child of node.children ?? []) visit(child, world, depth + 1);
+    };
+    for (const root of scene.nodes) visit(root, IDENTITY, 0);
+  } else {
+    (json.meshes ?? []).forEach((_, i) => addMesh(i, IDENTITY));
+  }
+
+  if (!Number.isFinite(min[0])) return null;
+  return {
+    min,
+    max,
+    size: [max[0] - min[0], max[1] - min[1], max[2] - min[2]],
+  };
+}
+
+function countGeometry(json: GltfJson) {
+  let triangleCount = 0;
+  let vertexCount = 0;
+  for (const mesh of json.meshes ?? []) {
+    for (const prim of mesh.primitives ?? []) {
+      const vertices =
+        json.accessors?.[prim.attributes.POSITION ?? -1]?.count ?? 0;
+      const indices =
+        prim.indices !== undefined
+          ? (json.accessors?.[prim.indices]?.count ?? 0)
+          : vertices;
+      vertexCount += vertices;
+      const mode = prim.mode ?? 4;
+      if (mode === 4) triangleCount += Math.floor(indices / 3);
+      else if (mode === 5 || mode === 6)
+        triangleCount += Math.max(0, indices - 2);
+    }
+  }
+  return { triangleCount, vertexCount };
+}
+
+/**
+ * Validates a GLB and summarises its contents. Counts are per mesh definition, so a mesh that is
+ * instanced by several nodes is only counted once.
+ */
+export async function inspectGlb(source: ByteSource): Promise<GlbInspection> {
+  const { json, bin } = await readGlbContainer(source);
+
+  const textures: GlbTextureInfo[] = [];
+  for (const image of json.images ?? []) {
+    let head: Uint8Array | null = null;
+    if (image.bufferView !== undefined) {
+      const view = json.bufferViews?.[image.bufferView];
+      if (view && bin && view.buffer === 0 && !json.buffers?.[0]?.uri) {
+        const start = bin.offset + (view.byteOffset ?? 0);
+        head = await source.read(
+          start,
+          start + Math.min(view.byteLength, IMAGE_SNIFF_BYTES),
+        );
+      }
+    } else if (image.uri) {
+      head = decodeDataUri(image.uri);
+    }
+    const size = head ? imageSize(head) : null;
+    textures.push({
+      name: image.name,
+      mimeType: image.mimeType ?? size?.mimeType,
+      width: size?.width,
+      height: size?.height,
+    });
+  }
+
+  const animations = (json.animations ?? []).map((anim, i) => {
+    let duration = 0;
+    for (const sampler of anim.samplers ?? []) {
+      const max = json.accessors?.[sampler.input]?.max?.[0];
+      if (typeof max === "number") duration = Math.max(duration, max);
+    }
+    return {
+      name: anim.name ?? `Animation ${i + 1}`,
+      duration,
+      channels: anim.channels?.length ?? 0,
+    };
+  });
+
+  return {
+    meshCount: json.meshes?.length ?? 0,
+    ...countGeometry(json),
+    materialCount: json.materials?.length ?? 0,
+    textureCount: json.textures?.length ?? 0,
+    textures,
+    animations,
+    extensionsUsed: json.extensionsUsed ?? [],
+    boundingBox: computeBounds(json),
+  };
+}
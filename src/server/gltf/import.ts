@@ -0,0 +1,484 @@
+import { resolveObjectURL } from "node:buffer";
+import { posix } from "node:path";
+import {
+  Box3,
+  type BufferGeometry,
+  Loader,
+  LoadingManager,
+  type Material,
+  Mesh,
+  type MeshPhongMaterial,
+  MeshStandardMaterial,
+  type MeshStandardMaterialParameters,
+  type Object3D,
+  Points,
+  PointsMaterial,
+  Texture,
+  Vector3,
+} from "three";
+import { GLTFExporter } from "three/examples/jsm/exporters/GLTFExporter.js";
+import { unzipSync } from "three/examples/jsm/libs/fflate.module.js";
+import { FBXLoader } from "three/examples/jsm/loaders/FBXLoader.js";
+import { MTLLoader } from "three/examples/jsm/loaders/MTLLoader.js";
+import { OBJLoader } from "three/examples/jsm/loaders/OBJLoader.js";
+import { PLYLoader } from "three/examples/jsm/loaders/PLYLoader.js";
+import { STLLoader } from "three/examples/jsm/loaders/STLLoader.js";
+import type { GltfJson } from "~/server/gltf/glb";
+import { getIO } from "~/server/gltf/optimize";
+import { stripUndecodedTextures } from "~/server/usdz/convert";
+import { decodeHeadlessImage, runHeadless } from "~/server/usdz/headless";
+
+/** Upload formats converted to GLB, by file extension. Zips hold one model and its resources. */
+export const IMPORT_FORMATS = [
+  "gltf",
+  "obj",
+  "stl",
+  "ply",
+  "fbx",
+  "zip",
+] as const;
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+
+/** The whole upload is unpacked in memory while converting. */
+export const IMPORT_MAX_BYTES = 256 * 1024 * 1024;
+
+// Model files looked for inside a zip, most specific first
+const ZIPPED_MODELS = ["gltf", "glb", "fbx", "obj", "ply", "stl"];
+const IMAGE_PATTERN = /\.(png|jpe?g|webp|gif|bmp|tiff?|tga)$/i;
+// glTF is in metres; anything larger was probably modelled in millimetres or centimetres
+const LARGE_MODEL_UNITS = 100;
+
+export class ModelImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ModelImportError";
+  }
+}
+
+export interface ModelImport {
+  glb: Uint8Array<ArrayBuffer>;
+  /** Everything that did not survive the conversion, phrased for the uploader. */
+  warnings: string[];
+}
+
+type Files = Map<string, Uint8Array>;
+
+function extensionOf(name: string) {
+  return /\.([A-Za-z0-9]+)$/.exec(name)?.[1]?.toLowerCase() ?? "";
+}
+
+/** The import format of an upload, or null for GLB (and anything unrecognised, checked as GLB). */
+export function importFormatOf(name: string): ImportFormat | null {
+  const ext = extensionOf(name);
+  return (IMPORT_FORMATS as readonly string[]).includes(ext)
+    ? (ext as ImportFormat)
+    : null;
+}
+
+function unzip(bytes: Uint8Array): Files {
+  let total = 0;
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(bytes, {
+      filter: (file) => {
+        if (file.name.endsWith("/") || file.name.startsWith("__MACOSX/")) {
+          return false;
+        }
+        total += file.originalSize;
+        if (total > IMPORT_MAX_BYTES) {
+          throw new ModelImportError("Zip is too large to convert");
+        }
+        return true;
+      },
+    });
+  } catch (err) {
+    if (err instanceof ModelImportError) throw err;
+    throw new ModelImportError("File is not a readable zip archive");
+  }
+  return new Map(
+    Object.entries(entries).map(([name, data]) => [
+      posix.normalize(name),
+      data,
+    ]),
+  );
+}
+
+/** Picks the one model in a zip; several models of the same kind are ambiguous. */
+function mainFileOf(files: Files) {
+  for (const ext of ZIPPED_MODELS) {
+    const matches = [...files.keys()].filter(
+      (name) => extensionOf(name) === ext,
+    );
+    if (matches.length === 1) return matches[0]!;
+    if (matches.length > 1) {
+      throw new ModelImportError(
+        `Zip contains several .${ext} models (${matches.join(", ")}); upload one model per zip`,
+      );
+    }
+  }
+  throw new ModelImportError(
+    `Zip contains no supported model (${ZIPPED_MODELS.map((e) => `.${e}`).join(", ")})`,
+  );
+}
+
+/**
+ * Finds a file referenced from `base` (the referencing file's folder). Exporters often write
+ * absolute paths from the author's machine, so the bare file name is tried as well.
+ */
+function findFile(files: Files, base: string, uri: string) {
+  let path = uri;
+  try {
+    path = decodeURIComponent(uri);
+  } catch {
+    // Not percent-encoded
+  }
+  path = path.replace(/\\/g, "/");
+  const exact = files.get(posix.normalize(posix.join(base, path)));
+  if (exact) return exact;
+  const name = posix.basename(path).toLowerCase();
+  for (const [key, data] of files) {
+    if (posix.basename(key).toLowerCase() === name) return data;
+  }
+  return null;
+}
+
+function toArrayBuffer(bytes: Uint8Array) {
+  return bytes.buffer.slice(
+    bytes.byteOffset,
+    bytes.byteOffset + bytes.byteLength,
+  ) as ArrayBuffer;
+}
+
+function decodeText(bytes: Uint8Array) {
+  return new TextDecoder().decode(bytes);
+}
+
+/** Packs a `.gltf` and the buffers and images it references into a GLB, losslessly. */
+async function packGltf(files: Files, main: string) {
+  let json: GltfJson;
+  try {
+    json = JSON.parse(decodeText(files.get(main)!)) as GltfJson;
+  } catch {
+    throw new ModelImportError(`${main} is not valid JSON`);
+  }
+  const base = posix.dirname(main);
+  const resources: Record<string, Uint8Array<ArrayBuffer>> = {};
+  const missing: string[] = [];
+  for (const { uri } of [...(json.buffers ?? []), ...(json.images ?? [])]) {
+    if (!uri || uri.startsWith("data:") || uri in resources) continue;
+    const data = findFile(files, base, uri);
+    // Uploads are never backed by shared memory
+    if (data) resources[uri] = data as Uint8Array<ArrayBuffer>;
+    else missing.push(uri);
+  }
+  if (missing.length > 0) {
+    throw new ModelImportError(
+      `Files referenced by ${posix.basename(main)} are missing: ${missing.join(", ")}. Zip them together with the .gltf.`,
+    );
+  }
+  const io = await getIO();
+  try {
+    const document = await io.readJSON({
+      json: json as Parameters<typeof io.readJSON>[0]["json"],
+      resources,
+    });
+    return await io.writeBinary(document);
+  } catch (err) {
+    throw new ModelImportError(
+      err instanceof Error ? err.message : String(err),
+    );
+  }
+}
+
+/**
+ * Stands in for `TextureLoader`, which needs a DOM: textures are read from the upload (or from the
+ * blob and data URLs FBX embeds) and decoded with sharp. Loads finish asynchronously; await
+ * `pending` before exporting.
+ */
+class HeadlessTextureLoader extends Loader<Texture> {
+  readonly pending: Promise<void>[] = [];
+  readonly dropped: string[] = [];
+  /** Folder that relative texture paths are resolved against. */
+  base = ".";
+
+  constructor(
+    private readonly files: Files,
+    manager: LoadingManager,
+  ) {
+    super(manager);
+  }
+
+  private async read(url: string) {
+    if (url.startsWith("blob:")) {
+      const blob = resolveObjectURL(url);
+      return blob ? new Uint8Array(await blob.arrayBuffer()) : null;
+    }
+    if (url.startsWith("data:")) {
+      return new Uint8Array(await (await fetch(url)).arrayBuffer());
+    }
+    return findFile(this.files, this.base, url);
+  }
+
+  override load(url: string, onLoad?: (texture: Texture) => void) {
+    const texture = new Texture();
+    this.pending.push(
+      (async () => {
+        const bytes = await this.read(url);
+        const image = bytes ? await decodeHeadlessImage(bytes) : null;
+        if (!image) {
+          this.dropped.push(
+            url.startsWith("blob:") || url.startsWith("data:")
+              ? "embedded image"
+              : posix.basename(url.replace(/\\/g, "/")),
+          );
+          return;
+        }
+        texture.image = image;
+        texture.needsUpdate = true;
+        onLoad?.(texture);
+      })(),
+    );
+    return texture;
+  }
+}
+
+function loadObj(
+  files: Files,
+  main: string,
+  manager: LoadingManager,
+  textures: HeadlessTextureLoader,
+  warnings: string[],
+) {
+  const text = decodeText(files.get(main)!);
+  const loader = new OBJLoader(manager);
+  const mtllib = /^mtllib\s+(.+)$/m.exec(text)?.[1]?.trim();
+  if (mtllib) {
+    const base = posix.dirname(main);
+    const mtl = findFile(files, base, mtllib);
+    if (mtl) {
+      textures.base = posix.dirname(
+        posix.join(base, mtllib.replace(/\\/g, "/")),
+      );
+      const materials = new MTLLoader(manager).parse(decodeText(mtl), "");
+      materials.preload();
+      loader.setMaterials(materials);
+    } else {
+      warnings.push(
+        `The material library ${mtllib} was not uploaded, so the model has no materials or textures. Zip it together with the .obj.`,
+      );
+    }
+  }
+  return loader.parse(text);
+}
+
+function loadFbx(files: Files, main: string, manager: LoadingManager) {
+  return new FBXLoader(manager).parse(toArrayBuffer(files.get(main)!), "");
+}
+
+function meshOf(geometry: BufferGeometry) {
+  const vertexColors = geometry.hasAttribute("color");
+  return new Mesh(
+    geometry,
+    new MeshStandardMaterial({
+      color: vertexColors ? 0xffffff : 0xcccccc,
+      vertexColors,
+      roughness: 0.8,
+      metalness: 0,
+    }),
+  );
+}
+
+function loadPly(files: Files, main: string, warnings: string[]) {
+  const geometry = new PLYLoader().parse(toArrayBuffer(files.get(main)!));
+  // PLYLoader only indexes geometry that has faces
+  if (!geometry.index) {
+    warnings.push(
+      "The PLY file has no faces and was imported as a point cloud.",
+    );
+    return new Points(
+      geometry,
+      new PointsMaterial({
+        size: 0.01,
+        vertexColors: geometry.hasAttribute("color"),
+      }),
+    );
+  }
+  if (!geometry.hasAttribute("normal")) geometry.computeVertexNormals();
+  return meshOf(geometry);
+}
+
+function loadStl(files: Files, main: string) {
+  return meshOf(new STLLoader().parse(toArrayBuffer(files.get(main)!)));
+}
+
+/**
+ * Replaces Phong and Lambert materials (what OBJ/MTL and FBX produce) with PBR ones, the only
+ * kind glTF has. Returns the material types that were converted.
+ */
+function convertMaterials(scene: Object3D) {
+  const converted = new Set<string>();
+  const replacements = new Map<Material, Material>();
+  const toStandard = (material: Material) => {
+    const m = material as MeshPhongMaterial;
+    if (
+      (m as unknown as { isMeshStandardMaterial?: boolean })
+        .isMeshStandardMaterial ||
+      m.type === "MeshBasicMaterial" ||
+      m.type === "PointsMaterial"
+    ) {
+      return material;
+    }
+    let standard = replacements.get(material);
+    if (!standard) {
+      converted.add(m.type.replace(/^Mesh|Material$/g, ""));
+      const params: MeshStandardMaterialParameters = {
+        name: m.name,
+        color: m.color,
+        map: m.map,
+        normalMap: m.normalMap,
+        emissive: m.emissive,
+        emissiveMap: m.emissiveMap,
+        alphaMap: m.alphaMap,
+        opacity: m.opacity,
+        transparent: m.transparent,
+        side: m.side,
+        vertexColors: m.vertexColors,
+        // Blinn-Phong exponent to an approximately equivalent roughness
+        roughness:
+          m.shininess === undefined ? 1 : Math.sqrt(2 / (m.shininess + 2)),
+        metalness: 0,
+      };
+      for (const key of Object.keys(params) as (keyof typeof params)[]) {
+        if (params[key] === undefined) delete params[key];
+      }
+      standard = new MeshStandardMaterial(params);
+      replacements.set(material, standard);
+    }
+    return standard;
+  };
+  scene.traverse((object) => {
+    const mesh = object as Mesh;
+    if (!mesh.isMesh) return;
+    mesh.material = Array.isArray(mesh.material)
+      ? mesh.material.map(toStandard)
+      : toStandard(mesh.material);
+  });
+  return [...converted];
+}
+
+/** Drops texture slots whose image failed to load, and reports what else needs the uploader's eye. */
+function checkScene(scene: Object3D, warnings: string[]) {
+  let objects = 0;
+  scene.traverse((object) => {
+    const mesh = object as Mesh;
+    if (!mesh.isMesh && !(object as Points).isPoints) return;
+    objects++;
+    const materials = Array.isArray(mesh.material)
+      ? mesh.material
+      : [mesh.material];
+    for (const material of materials) stripUndecodedTextures(material);
+  });
+  if (objects === 0) {
+    throw new ModelImportError("The file contains no geometry");
+  }
+  const size = new Box3().setFromObject(scene).getSize(new Vector3());
+  const largest = Math.max(size.x, size.y, size.z);
+  if (largest > LARGE_MODEL_UNITS) {
+    warnings.push(
+      `The model is ${Math.round(largest)} units across and glTF uses metres, so it may appear very large; it was probably modelled in millimetres or centimetres.`,
+    );
+  }
+}
+
+/**
+ * Loads a three.js-readable model (OBJ, FBX, PLY, STL) and exports it as GLB. Runs in the process
+ * `runHeadless` starts, where the shims exist.
+ */
+export async function sceneToGlb({
+  files,
+  main,
+}: {
+  files: Files;
+  main: string;
+}): Promise<ModelImport> {
+  const warnings: string[] = [];
+  const manager = new LoadingManager();
+  const textures = new HeadlessTextureLoader(files, manager);
+  textures.base = posix.dirname(main);
+  manager.addHandler(IMAGE_PATTERN, textures);
+
+  const ext = extensionOf(main);
+  let scene: Object3D;
+  try {
+    if (ext === "obj") {
+      scene = loadObj(files, main, manager, textures, warnings);
+    } else if (ext === "fbx") {
+      scene = loadFbx(files, main, manager);
+    } else if (ext === "ply") {
+      scene = loadPly(files, main, warnings);
+    } else {
+      scene = loadStl(files, main);
+    }
+    await Promise.all(textures.pending);
+  } catch (err) {
+    throw new ModelImportError(
+      `Could not read ${posix.basename(main)}: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+
+  if (textures.dropped.length > 0) {
+    warnings.push(
+      `${textures.dropped.length} texture(s) were missing or unreadable and were dropped: ${textures.dropped.join(", ")}.`,
+    );
+  }
+  const converted = convertMaterials(scene);
+  if (converted.length > 0) {
+    warnings.push(
+      `${converted.join(", ")} materials were converted to PBR; colours and textures are kept, shininess is approximated.`,
+    );
+  }
+  checkScene(scene, warnings);
+
+  try {
+    const glb = (await new GLTFExporter().parseAsync(scene, {
+      binary: true,
+      animations: scene.animations,
+    })) as ArrayBuffer;
+    return { glb: new Uint8Array(glb), warnings };
+  } catch (err) {
+    throw new ModelImportError(
+      err instanceof Error ? err.message : String(err),
+    );
+  }
+}
+
+/**
+ * Converts an uploaded OBJ, STL, PLY, FBX or glTF (loose with embedded data, or zipped with its
+ * `.bin` and textures) into a GLB. glTF is repacked losslessly with glTF Transform; the other
+ * formats go through three.js' loaders and `GLTFExporter`, headless in a child process. Throws
+ * `ModelImportError` when the upload cannot be converted.
+ */
+export async function convertToGlb(
+  bytes: Uint8Array,
+  name: string,
+): Promise<ModelImport> {
+  const format = importFormatOf(name);
+  if (!format)
+    throw new ModelImportError(`${name} is not an importable format`);
+  const files: Files =
+    format === "zip" ? unzip(bytes) : new Map([[posix.basename(name), bytes]]);
+  const main = format === "zip" ? mainFileOf(files) : posix.basename(name);
+
+  const ext = extensionOf(main);
+  if (ext === "glb") {
+    return {
+      glb: new Uint8Array(toArrayBuffer(files.get(main)!)),
+      warnings: [],
+    };
+  }
+  if (ext === "gltf") {
+    const glb = await packGltf(files, main);
+    return { glb: new Uint8Array(toArrayBuffer(glb)), warnings: [] };
+  }
+  return runHeadless("model.import", { files, main }, ModelImportError);
+}
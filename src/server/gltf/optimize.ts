@@ -0,0 +1,163 @@
+import { execFile } from "node:child_process";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { promisify } from "node:util";
+import {
+  type Document,
+  Logger,
+  NodeIO,
+  type Transform,
+} from "@gltf-transform/core";
+import { ALL_EXTENSIONS, KHRTextureBasisu } from "@gltf-transform/extensions";
+import {
+  dedup,
+  draco,
+  getTextureColorSpace,
+  meshopt,
+  prune,
+  textureCompress,
+  weld,
+} from "@gltf-transform/functions";
+import draco3d from "draco3dgltf";
+import { MeshoptDecoder, MeshoptEncoder } from "meshoptimizer";
+import sharp from "sharp";
+import { env } from "~/env";
+
+export const GEOMETRY_COMPRESSION = ["meshopt", "draco", "none"] as const;
+export const TEXTURE_FORMATS = ["webp", "ktx2", "keep"] as const;
+
+export interface OptimizeSettings {
+  geometry: (typeof GEOMETRY_COMPRESSION)[number];
+  textures: (typeof TEXTURE_FORMATS)[number];
+  /** Longest texture edge in pixels; larger textures are downscaled. */
+  maxTextureSize: number;
+}
+
+export const DEFAULT_OPTIMIZE_SETTINGS: OptimizeSettings = {
+  geometry: "meshopt",
+  textures: "webp",
+  maxTextureSize: 2048,
+};
+
+export interface OptimizedGlb {
+  glb: Uint8Array<ArrayBuffer>;
+  warnings: string[];
+}
+
+const run = promisify(execFile);
+
+let io: Promise<NodeIO> | undefined;
+
+/** A shared reader/writer that understands every extension, including compressed input. */
+export function getIO() {
+  io ??= (async () => {
+    await MeshoptEncoder.ready;
+    await MeshoptDecoder.ready;
+    return new NodeIO()
+      .setLogger(new Logger(Logger.Verbosity.WARN))
+      .registerExtensions(ALL_EXTENSIONS)
+      .registerDependencies({
+        "draco3d.decoder": await draco3d.createDecoderModule(),
+        "draco3d.encoder": await draco3d.createEncoderModule(),
+        "meshopt.decoder": MeshoptDecoder,
+        "meshopt.encoder": MeshoptEncoder,
+      });
+  })();
+  return io;
+}
+
+/**
+ * Encodes every texture as UASTC KTX2 with the KTX-Software `ktx` CLI. Color textures keep their
+ * sRGB transfer function; data textures (normals, roughness, ...) are stored linear.
+ */
+async function encodeKtx2Textures(document: Document) {
+  const dir = await mkdtemp(join(tmpdir(), "barnlabs-ktx-"));
+  try {
+    for (const [i, texture] of document.getRoot().listTextures().entries()) {
+      const image = texture.getImage();
+      if (!image || texture.getMimeType() === "image/ktx2") continue;
+      const srgb = getTextureColorSpace(texture) === "srgb";
+      const input = join(dir, `${i}.png`);
+      const output = join(dir, `${i}.ktx2`);
+      await writeFile(input, await sharp(image).png().toBuffer());
+      await run(env.KTX_PATH, [
+        "create",
+        "--format",
+        srgb ? "R8G8B8A8_SRGB" : "R8G8B8A8_UNORM",
+        "--assign-oetf",
+        srgb ? "srgb" : "linear",
+        "--encode",
+        "uastc",
+        "--zstd",
+        "18",
+        "--generate-mipmap",
+        input,
+        output,
+      ]);
+      texture
+        .setImage(new Uint8Array(await readFile(output)))
+        .setMimeType("image/ktx2")
+        .setURI(texture.getURI().replace(/\.\w+$/, ".ktx2"));
+    }
+    document.createExtension(KHRTextureBasisu).setRequired(true);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+async function hasKtxCli() {
+  try {
+    await run(env.KTX_PATH, ["--version"]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Produces a lighter copy of a GLB for the viewer: duplicate and unused data is removed, vertices
+ * are welded, geometry is compressed and textures are downscaled and re-encoded. The input is
+ * never modified.
+ */
+export async function optimizeGlb(
+  input: Uint8Array,
+  settings: OptimizeSettings = DEFAULT_OPTIMIZE_SETTINGS,
+): Promise<OptimizedGlb> {
+  const io = await getIO();
+  const document = await io.readBinary(input);
+  const warnings: string[] = [];
+
+  const transforms: Transform[] = [dedup(), prune(), weld()];
+
+  const resize: [number, number] = [
+    settings.maxTextureSize,
+    settings.maxTextureSize,
+  ];
+  let textures = settings.textures;
+  if (textures === "ktx2" && !(await hasKtxCli())) {
+    warnings.push(
+      "KTX2 encoding is not available on this server (the `ktx` tool is missing); textures were converted to WebP instead.",
+    );
+    textures = "webp";
+  }
+  if (textures === "webp") {
+    transforms.push(
+      textureCompress({ encoder: sharp, targetFormat: "webp", resize }),
+    );
+  } else {
+    // KTX2 is encoded from the resized originals after the transforms
+    transforms.push(textureCompress({ encoder: sharp, resize }));
+  }
+
+  if (settings.geometry === "draco") {
+    transforms.push(draco());
+  } else if (settings.geometry === "meshopt") {
+    transforms.push(meshopt({ encoder: MeshoptEncoder, level: "medium" }));
+  }
+
+  await document.transform(...transforms);
+  if (textures === "ktx2") await encodeKtx2Textures(document);
+  const glb = await io.writeBinary(document);
+  return { glb: new Uint8Array(glb), warnings };
+}
@@ -0,0 +1,506 @@
+/**
+ * Exports a GLB for 3D printing: every triangle of the scene, or of one mesh, merged into a single
+ * solid in millimetres with Z up, scaled to a target size and resting on the build plate. The
+ * merged surface is welded and checked for holes and non-manifold edges, which most slicers
+ * refuse or repair badly.
+ */
+import type {
+  Document,
+  Node as GltfNode,
+  Primitive,
+} from "@gltf-transform/core";
+import { zipSync } from "three/examples/jsm/libs/fflate.module.js";
+import { getIO } from "~/server/gltf/optimize";
+import { runHeadless } from "~/server/usdz/headless";
+
+export const PRINT_FORMATS = ["stl", "3mf"] as const;
+export type PrintFormat = (typeof PRINT_FORMATS)[number];
+
+/** GLBs over this size are not exported; the whole file and its triangles are held in memory. */
+export const PRINT_MAX_BYTES = 256 * 1024 * 1024;
+export const MAX_PRINT_SIZE_MM = 2000;
+/** Prepared solids kept for the requests that follow, such as the download after the report. */
+const PRINT_CACHE_BYTES = 512 * 1024 * 1024;
+
+const MM_PER_METER = 1000;
+const MODE_TRIANGLES = 4;
+const MODE_TRIANGLE_STRIP = 5;
+const MODE_TRIANGLE_FAN = 6;
+
+export class PrintExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PrintExportError";
+  }
+}
+
+export interface PrintMesh {
+  /** Index of the mesh in the glTF, used to pick it for export. */
+  index: number;
+  name: string;
+  /** Triangles across every node that places this mesh. */
+  triangles: number;
+}
+
+export interface PrintCheck {
+  triangles: number;
+  /** Edges used by a single triangle: holes or gaps in the surface. */
+  openEdges: number;
+  /** Edges shared by more than two triangles, such as touching or intersecting parts. */
+  nonManifoldEdges: number;
+  /** Triangles that collapsed to a line or point once welded; left out of the export. */
+  degenerateTriangles: number;
+  watertight: boolean;
+}
+
+export interface PrintReport {
+  meshes: PrintMesh[];
+  /** Bounding box of the export in millimetres: width, depth and height. */
+  sizeMm: [number, number, number];
+  check: PrintCheck;
+  warnings: string[];
+}
+
+/** A welded triangle mesh in millimetres, Z up. */
+export interface PrintSolid {
+  positions: Float32Array;
+  indices: Uint32Array;
+}
+
+interface MeshTriangles {
+  mesh: number;
+  /** Triangle soup in world space: nine floats per triangle. */
+  positions: Float32Array;
+}
+
+function triangleIndices(primitive: Primitive, vertexCount: number) {
+  const accessor = primitive.getIndices();
+  const indices = Uint32Array.from(
+    { length: accessor ? accessor.getCount() : vertexCount },
+    (_, i) => (accessor ? accessor.getScalar(i) : i),
+  );
+  const mode = primitive.getMode();
+  if (mode === MODE_TRIANGLES) return indices;
+  const out: number[] = [];
+  for (let i = 2; i < indices.length; i++) {
+    if (mode === MODE_TRIANGLE_FAN) {
+      out.push(indices[0]!, indices[i - 1]!, indices[i]!);
+    } else if (i % 2 === 0) {
+      out.push(indices[i - 2]!, indices[i - 1]!, indices[i]!);
+    } else {
+      // Every other strip triangle is reversed to keep the winding
+      out.push(indices[i - 1]!, indices[i - 2]!, indices[i]!);
+    }
+  }
+  return out;
+}
+
+/** Determinant of a column-major matrix's linear part; negative when it mirrors. */
+function determinant(m: readonly number[]) {
+  return (
+    m[0]! * (m[5]! * m[10]! - m[6]! * m[9]!) -
+    m[4]! * (m[1]! * m[10]! - m[2]! * m[9]!) +
+    m[8]! * (m[1]! * m[6]! - m[2]! * m[5]!)
+  );
+}
+
+function collectTriangles(
+  document: Document,
+  mmPerUnit: number,
+  warnings: string[],
+) {
+  const root = document.getRoot();
+  const scene = root.getDefaultScene() ?? root.listScenes()[0];
+  if (!scene) throw new PrintExportError("The model has no scene");
+  const meshes = root.listMeshes();
+  const collected: MeshTriangles[] = [];
+  let skippedPrimitives = 0;
+  let skinned = false;
+
+  scene.traverse((node: GltfNode) => {
+    const mesh = node.getMesh();
+    if (!mesh) return;
+    if (node.getSkin()) skinned = true;
+    const m = node.getWorldMatrix();
+    // Mirroring turns triangles inside out unless their winding is reversed
+    const mirrored = determinant(m) < 0;
+    for (const primitive of mesh.listPrimitives()) {
+      const mode = primitive.getMode();
+      const position = primitive.getAttribute("POSITION");
+      if (
+        !position ||
+        (mode !== MODE_TRIANGLES &&
+          mode !== MODE_TRIANGLE_STRIP &&
+          mode !== MODE_TRIANGLE_FAN)
+      ) {
+        skippedPrimitives++;
+        continue;
+      }
+      const indices = triangleIndices(primitive, position.getCount());
+      const count = Math.floor(indices.length / 3) * 3;
+      const positions = new Float32Array(count * 3);
+      const p = [0, 0, 0];
+      for (let i = 0; i < count; i++) {
+        const corner = i % 3;
+        const source = mirrored && corner ? i + (corner === 1 ? 1 : -1) : i;
+        position.getElement(indices[source]!, p);
+        const [x, y, z] = p as [number, number, number];
+        // Column-major world matrix; glTF is Y up, printers are Z up
+        const wx = m[0] * x + m[4] * y + m[8] * z + m[12];
+        const wy = m[1] * x + m[5] * y + m[9] * z + m[13];
+        const wz = m[2] * x + m[6] * y + m[10] * z + m[14];
+        positions[i * 3] = wx * mmPerUnit;
+        positions[i * 3 + 1] = -wz * mmPerUnit;
+        positions[i * 3 + 2] = wy * mmPerUnit;
+      }
+      collected.push({ mesh: meshes.indexOf(mesh), positions });
+    }
+  });
+
+  if (skippedPrimitives > 0) {
+    warnings.push(
+      `${skippedPrimitives} point or line primitives have no surface and were left out`,
+    );
+  }
+  if (skinned) {
+    warnings.push("Animated characters are exported in their rest pose");
+  }
+  const list = meshes.map((mesh, index) => ({
+    index,
+    name: mesh.getName() || `Mesh ${index + 1}`,
+    triangles: collected
+      .filter((c) => c.mesh === index)
+      .reduce((sum, c) => sum + c.positions.length / 9, 0),
+  }));
+  return { collected, meshes: list.filter((m) => m.triangles > 0) };
+}
+
+function boundsOf(parts: MeshTriangles[]) {
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (const { positions } of parts) {
+    for (let i = 0; i < positions.length; i++) {
+      const axis = i % 3;
+      min[axis] = Math.min(min[axis]!, positions[i]!);
+      max[axis] = Math.max(max[axis]!, positions[i]!);
+    }
+  }
+  return { min, max };
+}
+
+/**
+ * Merges the triangles into one indexed mesh, joining vertices closer than `tolerance`, and drops
+ * triangles that collapse. `transform` maps each coordinate into the final placement first.
+ */
+function weld(
+  parts: MeshTriangles[],
+  transform: (value: number, axis: number) => number,
+  tolerance: number,
+) {
+  const lookup = new Map<string, number>();
+  const positions: number[] = [];
+  const indices: number[] = [];
+  let degenerate = 0;
+  const corner = [0, 0, 0];
+  for (const part of parts) {
+    for (let t = 0; t < part.positions.length; t += 9) {
+      for (let c = 0; c < 3; c++) {
+        const coords = [0, 1, 2].map((axis) =>
+          transform(part.positions[t + c * 3 + axis]!, axis),
+        );
+        const key = coords.map((v) => Math.round(v / tolerance)).join(",");
+        let index = lookup.get(key);
+        if (index === undefined) {
+          index = positions.length / 3;
+          lookup.set(key, index);
+          positions.push(...coords);
+        }
+        corner[c] = index;
+      }
+      const [a, b, c] = corner as [number, number, number];
+      if (a === b || b === c || a === c) {
+        degenerate++;
+        continue;
+      }
+      indices.push(a, b, c);
+    }
+  }
+  return {
+    solid: {
+      positions: Float32Array.from(positions),
+      indices: Uint32Array.from(indices),
+    },
+    degenerate,
+  };
+}
+
+/** Counts edges by how many triangles share them; a closed manifold surface has exactly two. */
+function checkSolid(solid: PrintSolid, degenerate: number): PrintCheck {
+  const vertexCount = solid.positions.length / 3;
+  const edges = new Map<number, number>();
+  const { indices } = solid;
+  for (let t = 0; t < indices.length; t += 3) {
+    for (let e = 0; e < 3; e++) {
+      const a = indices[t + e]!;
+      const b = indices[t + ((e + 1) % 3)]!;
+      const key = Math.min(a, b) * vertexCount + Math.max(a, b);
+      edges.set(key, (edges.get(key) ?? 0) + 1);
+    }
+  }
+  let openEdges = 0;
+  let nonManifoldEdges = 0;
+  for (const count of edges.values()) {
+    if (count === 1) openEdges++;
+    else if (count > 2) nonManifoldEdges++;
+  }
+  return {
+    triangles: indices.length / 3,
+    openEdges,
+    nonManifoldEdges,
+    degenerateTriangles: degenerate,
+    watertight: openEdges === 0 && nonManifoldEdges === 0,
+  };
+}
+
+export interface PreparedPrint {
+  solid: PrintSolid;
+  report: PrintReport;
+}
+
+/**
+ * Reads a GLB and builds the printable solid at the model's real size. `mesh` limits the export
+ * to one mesh by its glTF index; `metersPerUnit` is the model's scale, glTF's metres by default.
+ * Welding a large model takes seconds, so requests use `preparePrintOnce`, which runs this in the
+ * conversion process.
+ */
+export async function preparePrint(
+  glb: Uint8Array,
+  options: { mesh?: number; metersPerUnit?: number | null } = {},
+): Promise<PreparedPrint> {
+  const document = await (await getIO()).readBinary(glb);
+  const warnings: string[] = [];
+  const { collected, meshes } = collectTriangles(
+    document,
+    (options.metersPerUnit ?? 1) * MM_PER_METER,
+    warnings,
+  );
+  const parts =
+    options.mesh === undefined
+      ? collected
+      : collected.filter((c) => c.mesh === options.mesh);
+  if (parts.length === 0) {
+    throw new PrintExportError(
+      options.mesh === undefined
+        ? "The model has no triangles to print"
+        : `There is no mesh ${options.mesh} with triangles to print`,
+    );
+  }
+
+  const { min, max } = boundsOf(parts);
+  const sizeMm = [0, 1, 2].map((axis) => max[axis]! - min[axis]!) as [
+    number,
+    number,
+    number,
+  ];
+  const longest = Math.max(...sizeMm);
+  if (!(longest > 0)) throw new PrintExportError("The model has no volume");
+  // Centred on the plate with the lowest point at zero
+  const offset = [-(min[0]! + max[0]!) / 2, -(min[1]! + max[1]!) / 2, -min[2]!];
+  const { solid, degenerate } = weld(
+    parts,
+    (value, axis) => value + offset[axis]!,
+    longest * 1e-6,
+  );
+  const check = checkSolid(solid, degenerate);
+  return { solid, report: { meshes, sizeMm, check, warnings } };
+}
+
+/** Scales a prepared print so its longest side is `sizeMm` long, or keeps its real size. */
+export function scalePrint(
+  { solid, report }: PreparedPrint,
+  sizeMm?: number,
+): PreparedPrint {
+  const scale = sizeMm ? sizeMm / Math.max(...report.sizeMm) : 1;
+  const scaled = report.sizeMm.map((n) => n * scale) as [
+    number,
+    number,
+    number,
+  ];
+  const warnings = [...report.warnings];
+  if (Math.max(...scaled) < 5) {
+    warnings.push(
+      "The print would be under 5 mm; choose a larger size to keep details",
+    );
+  }
+  return {
+    solid:
+      scale === 1
+        ? solid
+        : { ...solid, positions: solid.positions.map((v) => v * scale) },
+    report: { ...report, sizeMm: scaled, warnings },
+  };
+}
+
+const preparedPrints = new Map<string, Promise<PreparedPrint>>();
+const preparedBytes = new Map<string, number>();
+
+/** Drops the least recently used prints until the cache fits its budget again. */
+function trimPreparedPrints() {
+  let total = [...preparedBytes.values()].reduce((sum, n) => sum + n, 0);
+  for (const key of preparedPrints.keys()) {
+    if (total <= PRINT_CACHE_BYTES) return;
+    const bytes = preparedBytes.get(key);
+    // Still being prepared; someone is waiting for it
+    if (bytes === undefined) continue;
+    preparedPrints.delete(key);
+    preparedBytes.delete(key);
+    total -= bytes;
+  }
+}
+
+/**
+ * `preparePrint` for a stored file, remembered across requests. Stored files never change, so
+ * the key, mesh and scale identify the result; `read` is only called when it is not cached.
+ */
+export function preparePrintOnce(
+  key: string,
+  read: () => Promise<Uint8Array>,
+  options: { mesh?: number; metersPerUnit?: number | null } = {},
+) {
+  const cacheKey = [key, options.mesh ?? "", options.metersPerUnit ?? 1].join(
+    ":",
+  );
+  const cached = preparedPrints.get(cacheKey);
+  if (cached) {
+    // Most recently used last
+    preparedPrints.delete(cacheKey);
+    preparedPrints.set(cacheKey, cached);
+    return cached;
+  }
+  const pending = read().then((glb) =>
+    runHeadless("print.prepare", { glb, ...options }, PrintExportError),
+  );
+  preparedPrints.set(cacheKey, pending);
+  pending.then(
+    ({ solid }) => {
+      if (preparedPrints.get(cacheKey) !== pending) return;
+      preparedBytes.set(
+        cacheKey,
+        solid.positions.byteLength + solid.indices.byteLength,
+      );
+      trimPreparedPrints();
+    },
+    () => {
+      if (preparedPrints.get(cacheKey) === pending) {
+        preparedPrints.delete(cacheKey);
+      }
+    },
+  );
+  return pending;
+}
+
+/** Binary STL. Units are not part of the format; slicers assume millimetres. */
+export function toStl(solid: PrintSolid) {
+  const { positions, indices } = solid;
+  const count = indices.length / 3;
+  const bytes = new Uint8Array(84 + count * 50);
+  const view = new DataView(bytes.buffer);
+  bytes.set(new TextEncoder().encode("BarnLabs print export"));
+  view.setUint32(80, count, true);
+  const p = positions;
+  for (let t = 0; t < count; t++) {
+    const offset = 84 + t * 50;
+    const a = indices[t * 3]! * 3;
+    const b = indices[t * 3 + 1]! * 3;
+    const c = indices[t * 3 + 2]! * 3;
+    const ux = p[b]! - p[a]!;
+    const uy = p[b + 1]! - p[a + 1]!;
+    const uz = p[b + 2]! - p[a + 2]!;
+    const wx = p[c]! - p[a]!;
+    const wy = p[c + 1]! - p[a + 1]!;
+    const wz = p[c + 2]! - p[a + 2]!;
+    const nx = uy * wz - uz * wy;
+    const ny = uz * wx - ux * wz;
+    const nz = ux * wy - uy * wx;
+    const length = Math.hypot(nx, ny, nz) || 1;
+    view.setFloat32(offset, nx / length, true);
+    view.setFloat32(offset + 4, ny / length, true);
+    view.setFloat32(offset + 8, nz / length, true);
+    [a, b, c].forEach((vertex, corner) => {
+      for (let axis = 0; axis < 3; axis++) {
+        view.setFloat32(
+          offset + 12 + corner * 12 + axis * 4,
+          p[vertex + axis]!,
+          true,
+        );
+      }
+    });
+  }
+  return bytes;
+}
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const CONTENT_TYPES_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>
+</Types>`;
+
+const RELS_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>
+</Relationships>`;
+
+/**
+ * A 3MF package (core specification) with the solid as one object in millimetres.
+ *
+ * @see https://3mf.io/specification/
+ */
+export function to3mf(solid: PrintSolid, title: string) {
+  const { positions, indices } = solid;
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<model unit="millimeter" xml:lang="en-US" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">',
+    `  <metadata name="Title">${escapeXml(title)}</metadata>`,
+    '  <metadata name="Application">BarnLabs</metadata>',
+    "  <resources>",
+    '    <object id="1" type="model">',
+    "      <mesh>",
+    "        <vertices>",
+  ];
+  const n = (value: number) => String(Math.round(value * 1e4) / 1e4);
+  for (let i = 0; i < positions.length; i += 3) {
+    lines.push(
+      `          <vertex x="${n(positions[i]!)}" y="${n(positions[i + 1]!)}" z="${n(positions[i + 2]!)}"/>`,
+    );
+  }
+  lines.push("        </vertices>", "        <triangles>");
+  for (let i = 0; i < indices.length; i += 3) {
+    lines.push(
+      `          <triangle v1="${indices[i]}" v2="${indices[i + 1]}" v3="${indices[i + 2]}"/>`,
+    );
+  }
+  lines.push(
+    "        </triangles>",
+    "      </mesh>",
+    "    </object>",
+    "  </resources>",
+    "  <build>",
+    '    <item objectid="1"/>',
+    "  </build>",
+    "</model>",
+  );
+  const encoder = new TextEncoder();
+  return zipSync({
+    "[Content_Types].xml": encoder.encode(CONTENT_TYPES_XML),
+    "_rels/.rels": encoder.encode(RELS_XML),
+    "3D/3dmodel.model": encoder.encode(lines.join("\n")),
+  });
+}
@@ -0,0 +1,40 @@
+import type { Job } from "@prisma/client";
+import { isFileReferenced } from "~/server/models/files";
+import { optimizeVersion } from "~/server/models/optimization";
+import { purgeIfExpired } from "~/server/models/trash";
+import { storage } from "~/server/storage";
+import type { JobPayloads, JobType, QueuedJob } from "~/server/jobs/types";
+import { runBulkImport, validateBulkImport } from "~/server/uploads/bulk";
+import { expireUploadSession } from "~/server/uploads/resumable";
+import { generateUsdzForVersion } from "~/server/usdz/generate";
+
+/** A handler throws to have its job retried; returning marks the job completed. */
+export type JobHandler<T extends JobType> = (
+  payload: JobPayloads[T],
+  job: QueuedJob<T>,
+) => Promise<void>;
+
+export const jobHandlers: { [T in JobType]: JobHandler<T> } = {
+  "usdz.generate": ({ versionId }) => generateUsdzForVersion(versionId),
+  "model.optimize": ({ versionId, settings }) =>
+    optimizeVersion(versionId, settings),
+  "model.purge": ({ modelId }) => purgeIfExpired(modelId),
+  "storage.delete": async ({ key }) => {
+    // The file may have been re-used by a new upload since the delete was queued
+    if (await isFileReferenced(key)) return;
+    await storage.delete(key);
+  },
+  "upload.expire": ({ sessionId }) => expireUploadSession(sessionId),
+  "import.validate": ({ importId }) => validateBulkImport(importId),
+  "import.run": ({ importId }) => runBulkImport(importId),
+};
+
+/** Payloads are trusted as enqueued: `enqueueJob` only accepts the payload of the job's type. */
+export function isQueuedJob(job: Job): job is Job & QueuedJob {
+  return Object.hasOwn(jobHandlers, job.type);
+}
+
+export function runJobHandler<T extends JobType>(job: QueuedJob<T>) {
+  const handler: JobHandler<T> = jobHandlers[job.type];
+  return handler(job.payload, job);
+}
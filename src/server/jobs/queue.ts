@@ -0,0 +1,102 @@
+import type { Job, Prisma } from "@prisma/client";
+import { db } from "~/server/db";
+import type { EnqueueOptions, JobPayloads, JobType } from "~/server/jobs/types";
+
+/** A running job whose worker has not reported back for this long is assumed dead and re-run. */
+export const JOB_LOCK_TIMEOUT_MS = 5 * 60 * 1000;
+/** How often a worker renews the locks of the jobs it is running, well within the timeout. */
+export const JOB_HEARTBEAT_MS = 60 * 1000;
+const MAX_BACKOFF_SECONDS = 60 * 60;
+
+export async function enqueueJob<T extends JobType>(
+  type: T,
+  payload: JobPayloads[T],
+  options: EnqueueOptions = {},
+) {
+  return db.job.create({
+    data: {
+      type,
+      payload: payload as Prisma.InputJsonValue,
+      runAt: options.runAt,
+      maxAttempts: options.maxAttempts,
+      backoffSeconds: options.backoffSeconds,
+    },
+  });
+}
+
+/**
+ * Locks up to `limit` due jobs for `workerId` and counts the attempt. `SKIP LOCKED` lets several
+ * workers poll the same table without handing out a job twice; jobs left running by a crashed
+ * worker are picked up again once their lock expires.
+ */
+export async function claimJobs(workerId: string, limit: number) {
+  const staleBefore = new Date(Date.now() - JOB_LOCK_TIMEOUT_MS);
+  return db.$queryRaw<Job[]>`
+    UPDATE "Job"
+    SET "status" = 'RUNNING',
+        "lockedAt" = now(),
+        "lockedBy" = ${workerId},
+        "attempts" = "attempts" + 1,
+        "updatedAt" = now()
+    WHERE "id" IN (
+      SELECT "id" FROM "Job"
+      WHERE ("status" = 'PENDING' AND "runAt" <= now())
+         OR ("status" = 'RUNNING' AND "lockedAt" < ${staleBefore})
+      ORDER BY "runAt"
+      LIMIT ${limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *`;
+}
+
+/**
+ * Keeps a long-running job's lock from expiring. Returns false once the lock has been lost, e.g.
+ * after the job was taken over by another worker.
+ */
+export async function renewJobLock(job: Job) {
+  const { count } = await db.job.updateMany({
+    where: { id: job.id, status: "RUNNING", lockedBy: job.lockedBy },
+    data: { lockedAt: new Date() },
+  });
+  return count > 0;
+}
+
+export async function completeJob(job: Job) {
+  await db.job.update({
+    where: { id: job.id },
+    data: {
+      status: "COMPLETED",
+      completedAt: new Date(),
+      lockedAt: null,
+      lockedBy: null,
+    },
+  });
+}
+
+/** Schedules the next attempt with exponential backoff, or gives up once attempts run out. */
+export async function failJob(job: Job, error: string) {
+  const exhausted = job.attempts >= job.maxAttempts;
+  const delaySeconds = Math.min(
+    job.backoffSeconds * 2 ** Math.max(0, job.attempts - 1),
+    MAX_BACKOFF_SECONDS,
+  );
+  await db.job.update({
+    where: { id: job.id },
+    data: {
+      status: exhausted ? "FAILED" : "PENDING",
+      runAt: exhausted ? undefined : new Date(Date.now() + delaySeconds * 1000),
+      lastError: error,
+      lockedAt: null,
+      lockedBy: null,
+    },
+  });
+}
+
+/** Puts a failed job back in the queue with a fresh set of attempts. */
+export async function retryJob(id: string) {
+  const { count } = await db.job.updateMany({
+    where: { id, status: "FAILED" },
+    data: { status: "PENDING", attempts: 0, runAt: new Date() },
+  });
+  return count > 0;
+}
@@ -0,0 +1,36 @@
+import type { Job } from "@prisma/client";
+import type { OptimizeSettings } from "~/server/gltf/optimize";
+
+/** Every job type the worker understands, with the payload it is enqueued with. */
+export interface JobPayloads {
+  "usdz.generate": { versionId: string };
+  "model.optimize": { versionId: string; settings?: OptimizeSettings };
+  /** Permanently deletes a trashed model once its retention window has passed. */
+  "model.purge": { modelId: string };
+  /** Retries a storage delete that failed while a model or file was being removed. */
+  "storage.delete": { key: string };
+  /** Discards a resumable upload nobody has touched since it expired. */
+  "upload.expire": { sessionId: string };
+  /** Dry run of a bulk import: checks the zip and its manifest without creating anything. */
+  "import.validate": { importId: string };
+  /** Creates the models of a validated bulk import. */
+  "import.run": { importId: string };
+}
+
+export type JobType = keyof JobPayloads;
+
+/** A claimed job of a known type, its payload typed by that type. */
+export type QueuedJob<T extends JobType = JobType> = {
+  [K in T]: Omit<Job, "type" | "payload"> & {
+    type: K;
+    payload: JobPayloads[K];
+  };
+}[T];
+
+export interface EnqueueOptions {
+  /** Do not run before this time. Defaults to now. */
+  runAt?: Date;
+  maxAttempts?: number;
+  /** Delay before the first retry; doubled for each later one. */
+  backoffSeconds?: number;
+}
@@ -0,0 +1,119 @@
+import { randomUUID } from "node:crypto";
+import { hostname } from "node:os";
+import type { Job } from "@prisma/client";
+import { logger } from "~/lib/logger";
+import { isQueuedJob, runJobHandler } from "~/server/jobs/handlers";
+import {
+  claimJobs,
+  completeJob,
+  failJob,
+  JOB_HEARTBEAT_MS,
+  renewJobLock,
+} from "~/server/jobs/queue";
+
+export interface WorkerOptions {
+  /** Jobs run at the same time. Conversions are memory hungry, so keep this small. */
+  concurrency?: number;
+  /** How long to wait before polling again when the queue is empty. */
+  pollIntervalMs?: number;
+  /** Stops claiming new jobs; `runWorker` resolves once running jobs have finished. */
+  signal?: AbortSignal;
+}
+
+function errorMessage(err: unknown) {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+  });
+}
+
+async function runJob(job: Job) {
+  const context = { jobId: job.id, type: job.type, attempt: job.attempts };
+  if (job.attempts > job.maxAttempts) {
+    // Claimed again after its worker died on the last attempt
+    await failJob(job, job.lastError ?? "Worker stopped while running the job");
+    return;
+  }
+  if (!isQueuedJob(job)) {
+    await failJob(
+      { ...job, attempts: job.maxAttempts },
+      `Unknown job type "${job.type}"`,
+    );
+    return;
+  }
+  const started = Date.now();
+  const heartbeat = setInterval(() => {
+    renewJobLock(job).then(
+      (held) => {
+        if (!held) logger.warn("Lost the lock of a running job", context);
+      },
+      (err) =>
+        logger.warn("Failed to renew job lock", {
+          ...context,
+          error: errorMessage(err),
+        }),
+    );
+  }, JOB_HEARTBEAT_MS);
+  try {
+    await runJobHandler(job);
+    await completeJob(job);
+    logger.info("Job completed", { ...context, ms: Date.now() - started });
+  } catch (err) {
+    const message = errorMessage(err);
+    logger.warn("Job failed", { ...context, error: message });
+    await failJob(job, message);
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Polls the `Job` table and runs due jobs until `signal` is aborted. Several workers (or
+ * processes) can run side by side; each job is handed to one of them at a time.
+ */
+export async function runWorker({
+  concurrency = 2,
+  pollIntervalMs = 2000,
+  signal,
+}: WorkerOptions = {}) {
+  const workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  const running = new Set<Promise<void>>();
+  logger.info("Job worker started", { workerId, concurrency });
+
+  while (!signal?.aborted) {
+    if (running.size >= concurrency) {
+      await Promise.race(running);
+      continue;
+    }
+    let jobs: Job[] = [];
+    try {
+      jobs = await claimJobs(workerId, concurrency - running.size);
+    } catch (err) {
+      logger.error("Failed to claim jobs", { error: errorMessage(err) });
+    }
+    for (const job of jobs) {
+      const task = runJob(job)
+        .catch((err) => {
+          logger.error("Job bookkeeping failed", {
+            jobId: job.id,
+            error: errorMessage(err),
+          });
+        })
+        .finally(() => running.delete(task));
+      running.add(task);
+    }
+    if (jobs.length === 0) await sleep(pollIntervalMs, signal);
+  }
+
+  await Promise.all(running);
+  logger.info("Job worker stopped", { workerId });
+}
@@ -0,0 +1,31 @@
+import { TRPCError } from "@trpc/server";
+import type { Session } from "next-auth";
+import { isStaff } from "~/server/assets/access";
+import { db } from "~/server/db";
+
+/** Owners and any EMPLOYEE/ADMIN may change a model. */
+export function canManageModel(
+  session: Session | null,
+  model: { ownerId: string },
+) {
+  return model.ownerId === session?.user?.id || isStaff(session);
+}
+
+/**
+ * Loads a model the caller may change, or throws the matching tRPC error. Trashed models are only
+ * found with `trashed: true`, which in turn only finds trashed models.
+ */
+export async function getManageableModel(
+  session: Session,
+  modelId: string,
+  { trashed = false }: { trashed?: boolean } = {},
+) {
+  const model = await db.model.findFirst({
+    where: { id: modelId, deletedAt: trashed ? { not: null } : null },
+  });
+  if (!model) throw new TRPCError({ code: "NOT_FOUND" });
+  if (!canManageModel(session, model)) {
+    throw new TRPCError({ code: "FORBIDDEN" });
+  }
+  return model;
+}
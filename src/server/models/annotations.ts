@@ -0,0 +1,55 @@
+import type { Annotation, Prisma } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import type { Session } from "next-auth";
+import type { Vec3, ViewerAnnotation } from "~/lib/annotations";
+import { db } from "~/server/db";
+import { getManageableModel } from "~/server/models/access";
+
+function parseVec3(value: Prisma.JsonValue, fallback: Vec3): Vec3 {
+  return Array.isArray(value) &&
+    value.length === 3 &&
+    value.every((v) => typeof v === "number")
+    ? (value as Vec3)
+    : fallback;
+}
+
+export function toViewerAnnotation(annotation: Annotation): ViewerAnnotation {
+  return {
+    id: annotation.id,
+    title: annotation.title,
+    body: annotation.body,
+    mediaUrl: annotation.mediaUrl,
+    anchor: parseVec3(annotation.anchor, [0, 0, 0]),
+    normal: parseVec3(annotation.normal, [0, 1, 0]),
+  };
+}
+
+/** Annotations of each model, in marker order; models without any are left out. */
+export async function modelAnnotations(modelIds: string[]) {
+  const rows = await db.annotation.findMany({
+    where: { modelId: { in: modelIds } },
+    orderBy: [{ position: "asc" }, { createdAt: "asc" }],
+  });
+  const byModel: Record<string, ViewerAnnotation[]> = {};
+  for (const row of rows) {
+    (byModel[row.modelId] ??= []).push(toViewerAnnotation(row));
+  }
+  return byModel;
+}
+
+/** Position after the model's last annotation, so new markers get the next number. */
+export async function nextAnnotationPosition(modelId: string) {
+  const last = await db.annotation.aggregate({
+    where: { modelId },
+    _max: { position: true },
+  });
+  return (last._max.position ?? -1) + 1;
+}
+
+/** Loads an annotation on a model the caller may change, or throws the matching tRPC error. */
+export async function getManageableAnnotation(session: Session, id: string) {
+  const annotation = await db.annotation.findUnique({ where: { id } });
+  if (!annotation) throw new TRPCError({ code: "NOT_FOUND" });
+  await getManageableModel(session, annotation.modelId);
+  return annotation;
+}
@@ -0,0 +1,164 @@
+import type { Prisma } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import type { Session } from "next-auth";
+import { isStaff } from "~/server/assets/access";
+import { db } from "~/server/db";
+
+/** Deeper trees are refused; they are hard to browse and make the ancestor walks unbounded. */
+export const MAX_COLLECTION_DEPTH = 8;
+
+/** Collections the caller can see and change: everything for staff, their own otherwise. */
+export function visibleCollections(
+  session: Session,
+): Prisma.CollectionWhereInput {
+  return isStaff(session) ? {} : { ownerId: session.user.id };
+}
+
+/** Loads a collection the caller may change, or throws the matching tRPC error. */
+export async function getManageableCollection(session: Session, id: string) {
+  const collection = await db.collection.findUnique({ where: { id } });
+  if (!collection) throw new TRPCError({ code: "NOT_FOUND" });
+  if (collection.ownerId !== session.user.id && !isStaff(session)) {
+    throw new TRPCError({ code: "FORBIDDEN" });
+  }
+  return collection;
+}
+
+/** The collection and its ancestors, root first. */
+export async function collectionPath(id: string) {
+  const path: { id: string; title: string; parentId: string | null }[] = [];
+  let next: string | null = id;
+  while (next && path.length <= MAX_COLLECTION_DEPTH) {
+    const current: (typeof path)[number] | null =
+      await db.collection.findUnique({
+        where: { id: next },
+        select: { id: true, title: true, parentId: true },
+      });
+    if (!current) break;
+    path.unshift(current);
+    next = current.parentId;
+  }
+  return path;
+}
+
+/** Throws unless `id` can be placed under `parentId` without a cycle or too deep a tree. */
+export async function assertCanNest(id: string | null, parentId: string) {
+  const ancestors = await collectionPath(parentId);
+  if (id && ancestors.some((c) => c.id === id)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "A collection cannot be moved inside itself",
+    });
+  }
+  if (ancestors.length >= MAX_COLLECTION_DEPTH) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Collections can be nested at most ${MAX_COLLECTION_DEPTH} deep`,
+    });
+  }
+}
+
+/** Position after the owner's last collection under `parentId`, so new entries land at the end. */
+export async function nextCollectionPosition(
+  ownerId: string,
+  parentId: string | null,
+) {
+  const last = await db.collection.aggregate({
+    where: { ownerId, parentId },
+    _max: { position: true },
+  });
+  return (last._max.position ?? -1) + 1;
+}
+
+/** IDs of a collection and every collection nested under it, parents before children. */
+export async function collectionTreeIds(id: string) {
+  const ids = [id];
+  let frontier = [id];
+  for (
+    let depth = 0;
+    depth < MAX_COLLECTION_DEPTH && frontier.length;
+    depth++
+  ) {
+    const children = await db.collection.findMany({
+      where: { parentId: { in: frontier } },
+      orderBy: { position: "asc" },
+      select: { id: true },
+    });
+    frontier = children.map((c) => c.id);
+    ids.push(...frontier);
+  }
+  return ids;
+}
+
+/**
+ * Live models of a collection in display order: its own models first, then those of nested
+ * collections. A model filed in several of them is listed once.
+ */
+export async function collectionModels(id: string) {
+  const ids = await collectionTreeIds(id);
+  const entries = await db.collectionModel.findMany({
+    where: { collectionId: { in: ids }, model: { deletedAt: null } },
+    orderBy: { position: "asc" },
+    include: { model: true },
+  });
+  const rank = new Map(ids.map((cid, i) => [cid, i]));
+  entries.sort((a, b) => rank.get(a.collectionId)! - rank.get(b.collectionId)!);
+  const seen = new Set<string>();
+  return entries.flatMap(({ model }) => {
+    if (seen.has(model.id)) return [];
+    seen.add(model.id);
+    return [model];
+  });
+}
+
+/**
+ * Which of the models are in a shared collection, directly or through nesting. Walks up the
+ * collection tree a level at a time for all of them at once.
+ */
+export async function modelsSharedViaCollections(modelIds: string[]) {
+  const shared = new Set<string>();
+  if (modelIds.length === 0) return shared;
+  const entries = await db.collectionModel.findMany({
+    where: { modelId: { in: modelIds } },
+    select: { modelId: true, collectionId: true },
+  });
+  const parents = new Map<string, string | null>();
+  let frontier = [...new Set(entries.map((e) => e.collectionId))];
+  for (
+    let depth = 0;
+    depth <= MAX_COLLECTION_DEPTH && frontier.length;
+    depth++
+  ) {
+    const level = await db.collection.findMany({
+      where: { id: { in: frontier } },
+      select: { id: true, parentId: true },
+    });
+    for (const c of level) parents.set(c.id, c.parentId);
+    frontier = level.flatMap((c) =>
+      c.parentId && !parents.has(c.parentId) ? [c.parentId] : [],
+    );
+  }
+  if (parents.size === 0) return shared;
+  const shares = await db.share.findMany({
+    where: { collectionId: { in: [...parents.keys()] } },
+    select: { collectionId: true },
+    distinct: ["collectionId"],
+  });
+  const sharedCollections = new Set(shares.map((s) => s.collectionId));
+  for (const { modelId, collectionId } of entries) {
+    let id: string | null | undefined = collectionId;
+    for (let depth = 0; id && depth <= MAX_COLLECTION_DEPTH; depth++) {
+      if (sharedCollections.has(id)) {
+        shared.add(modelId);
+        break;
+      }
+      id = parents.get(id);
+    }
+  }
+  return shared;
+}
+
+/** Whether a share of some collection holding the model (directly or through nesting) exists. */
+export async function isSharedViaCollection(modelId: string) {
+  return (await modelsSharedViaCollections([modelId])).has(modelId);
+}
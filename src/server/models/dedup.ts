@@ -0,0 +1,92 @@
+import { createHash } from "crypto";
+import type { Session } from "next-auth";
+import { isStaff } from "~/server/assets/access";
+import { db } from "~/server/db";
+import { storage } from "~/server/storage";
+
+/** Hex SHA-256 of a stored file, read as a stream. */
+export async function hashStoredFile(key: string) {
+  const hash = createHash("sha256");
+  const reader = (await storage.stream(key)).getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    hash.update(value);
+  }
+  return hash.digest("hex");
+}
+
+/**
+ * Hashes a freshly uploaded file and keeps one copy of identical bytes: when the same content is
+ * already stored, the new copy is deleted and the existing key returned. Otherwise the file is
+ * entered in the ledger with its hash, charged to `ownerId`. Files stored before hashing was
+ * added have no hash and are never matched.
+ */
+export async function storeOnce(
+  key: string,
+  ownerId: string,
+  sizeBytes: number,
+) {
+  const sha256 = await hashStoredFile(key);
+  const existing = await db.storedFile.findFirst({
+    where: { sha256, sizeBytes, key: { not: key } },
+    orderBy: { createdAt: "asc" },
+  });
+  if (existing && (await storage.stat(existing.key))) {
+    await storage.delete(key).catch(() => undefined);
+    return { key: existing.key, sha256, deduplicated: true };
+  }
+  await db.storedFile.upsert({
+    where: { key },
+    create: { key, ownerId, sizeBytes, sha256 },
+    update: { sha256 },
+  });
+  return { key, sha256, deduplicated: false };
+}
+
+/**
+ * Live models the caller can see with a version whose GLB has this hash, for offering the
+ * existing file instead of a new upload.
+ */
+export async function findDuplicateModels(
+  session: Session,
+  sha256: string,
+  excludeModelId?: string,
+) {
+  const files = await db.storedFile.findMany({
+    where: { sha256 },
+    select: { key: true },
+  });
+  if (files.length === 0) return [];
+  const keys = files.map((f) => f.key);
+  return db.model.findMany({
+    where: {
+      deletedAt: null,
+      ...(isStaff(session) ? {} : { ownerId: session.user.id }),
+      ...(excludeModelId ? { id: { not: excludeModelId } } : {}),
+      versions: { some: { glbStorageId: { in: keys } } },
+    },
+    select: { id: true, title: true },
+    orderBy: { createdAt: "asc" },
+    take: 10,
+  });
+}
+
+/** A version of a model the caller can see whose GLB has this hash, to build a new model from. */
+export async function findReusableVersion(session: Session, sha256: string) {
+  const files = await db.storedFile.findMany({
+    where: { sha256 },
+    select: { key: true },
+  });
+  if (files.length === 0) return null;
+  return db.modelVersion.findFirst({
+    where: {
+      glbStorageId: { in: files.map((f) => f.key) },
+      model: {
+        deletedAt: null,
+        ...(isStaff(session) ? {} : { ownerId: session.user.id }),
+      },
+    },
+    orderBy: { createdAt: "asc" },
+  });
+}
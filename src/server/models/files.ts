@@ -0,0 +1,63 @@
+import { logger } from "~/lib/logger";
+import { db } from "~/server/db";
+import { enqueueJob } from "~/server/jobs/queue";
+import { forgetStoredFile } from "~/server/models/quota";
+import { storage } from "~/server/storage";
+
+function byKey(key: string) {
+  return {
+    OR: [
+      { glbStorageId: key },
+      { usdzStorageId: key },
+      { optimizedGlbStorageId: key },
+    ],
+  };
+}
+
+/** Owners of the models whose current files or versions point at a stored file. */
+async function referencingOwners(key: string) {
+  const versionFiles = { OR: [...byKey(key).OR, { sourceStorageId: key }] };
+  const models = await db.model.findMany({
+    where: { OR: [byKey(key), { versions: { some: versionFiles } }] },
+    select: { ownerId: true },
+    distinct: ["ownerId"],
+  });
+  return models.map((m) => m.ownerId);
+}
+
+/** Whether any model or version still points at a stored file. */
+export async function isFileReferenced(key: string) {
+  return (await referencingOwners(key)).length > 0;
+}
+
+/**
+ * Deletes a stored file, queueing a retry when the storage backend fails. It stops counting
+ * against its owner's quota either way.
+ */
+export async function deleteStoredFile(key: string, modelId: string) {
+  await forgetStoredFile(key);
+  try {
+    await storage.delete(key);
+  } catch (err) {
+    logger.warn("Failed to delete stored model file", {
+      modelId,
+      key,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    await enqueueJob("storage.delete", { key });
+  }
+}
+
+/**
+ * Releases a reference to a stored file. Identical uploads share one file, so it is only deleted
+ * once no model or version points at it; until then its quota charge moves to a remaining owner
+ * if the one charged no longer uses it.
+ */
+export async function deleteIfUnreferenced(key: string, modelId: string) {
+  const owners = await referencingOwners(key);
+  if (owners.length === 0) return deleteStoredFile(key, modelId);
+  await db.storedFile.updateMany({
+    where: { key, ownerId: { notIn: owners } },
+    data: { ownerId: owners[0] },
+  });
+}
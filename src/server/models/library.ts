@@ -0,0 +1,217 @@
+import { Prisma } from "@prisma/client";
+import type { Session } from "next-auth";
+import { isStaff } from "~/server/assets/access";
+import { db } from "~/server/db";
+
+export const LIBRARY_SORTS = [
+  "relevance",
+  "newest",
+  "oldest",
+  "title",
+  "largest",
+  "manual",
+] as const;
+export type LibrarySort = (typeof LIBRARY_SORTS)[number];
+
+export const MAX_TAGS_PER_MODEL = 20;
+export const MAX_TAG_LENGTH = 40;
+
+/** Relevance ranking is done in Postgres, so only this many matches are paged through. */
+const SEARCH_LIMIT = 1000;
+
+const ORDER_BY: Record<
+  Exclude<LibrarySort, "relevance" | "manual">,
+  Prisma.ModelOrderByWithRelationInput
+> = {
+  newest: { createdAt: "desc" },
+  oldest: { createdAt: "asc" },
+  title: { title: "asc" },
+  largest: { sizeBytes: { sort: "desc", nulls: "last" } },
+};
+
+// The text searched: title, description and credits. Computed per query; at the library's size a
+// scan is cheaper to keep correct than a stored vector.
+const SEARCH_DOCUMENT = Prisma.sql`to_tsvector('english',
+  coalesce("title", '') || ' ' || coalesce("description", '') || ' ' ||
+  coalesce("credit", '') || ' ' || coalesce("acknowledgements", ''))`;
+
+/** Lowercases, trims and de-duplicates tag names typed by users. */
+export function normalizeTags(names: string[]) {
+  const tags = names
+    .map((n) => n.trim().toLowerCase().replace(/\s+/g, " "))
+    .filter((n) => n.length > 0 && n.length <= MAX_TAG_LENGTH);
+  return [...new Set(tags)].slice(0, MAX_TAGS_PER_MODEL);
+}
+
+/** Prefix query so the picker matches while typing: `dean rich` → `dean:* & rich:*`. */
+function toPrefixQuery(q: string) {
+  const terms = q.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return terms
+    .slice(0, 8)
+    .map((t) => `${t}:*`)
+    .join(" & ");
+}
+
+/**
+ * Models the caller can see matching `q`, best match first. Visibility is checked before the
+ * limit, so other owners' matches cannot crowd out the caller's.
+ */
+async function searchModelIds(session: Session, q: string) {
+  const query = toPrefixQuery(q);
+  if (!query) return [];
+  const owned = isStaff(session)
+    ? Prisma.empty
+    : Prisma.sql`AND "ownerId" = ${session.user.id}`;
+  const rows = await db.$queryRaw<{ id: string }[]>`
+    SELECT "id" FROM "Model"
+    WHERE "deletedAt" IS NULL ${owned}
+      AND ${SEARCH_DOCUMENT} @@ to_tsquery('english', ${query})
+    ORDER BY ts_rank(${SEARCH_DOCUMENT}, to_tsquery('english', ${query})) DESC,
+      "createdAt" DESC
+    LIMIT ${SEARCH_LIMIT}`;
+  return rows.map((r) => r.id);
+}
+
+/** Models the caller can see: everything for staff, their own otherwise. */
+function visibleModels(session: Session): Prisma.ModelWhereInput {
+  return {
+    deletedAt: null,
+    ...(isStaff(session) ? {} : { ownerId: session.user.id }),
+  };
+}
+
+const withTags = {
+  tags: { select: { tag: { select: { name: true } } } },
+} satisfies Prisma.ModelInclude;
+
+type ModelWithTags = Prisma.ModelGetPayload<{ include: typeof withTags }>;
+
+function flattenTags({ tags, ...model }: ModelWithTags) {
+  return { ...model, tags: tags.map((t) => t.tag.name).sort() };
+}
+
+/** Pages through an already ordered list of IDs, keeping that order. */
+async function pageByIds(
+  ordered: string[],
+  where: Prisma.ModelWhereInput,
+  { limit, cursor }: { limit: number; cursor?: string | null },
+) {
+  const allowed = new Set(
+    (
+      await db.model.findMany({
+        where: { AND: [where, { id: { in: ordered } }] },
+        select: { id: true },
+      })
+    ).map((m) => m.id),
+  );
+  const ids = ordered.filter((id) => allowed.has(id));
+  const start = cursor ? ids.indexOf(cursor) + 1 : 0;
+  const pageIds = ids.slice(start, start + limit);
+  const rows = await db.model.findMany({
+    where: { id: { in: pageIds } },
+    include: withTags,
+  });
+  const byId = new Map(rows.map((r) => [r.id, r]));
+  return {
+    items: pageIds.flatMap((id) => {
+      const row = byId.get(id);
+      return row ? [flattenTags(row)] : [];
+    }),
+    nextCursor: start + limit < ids.length ? (pageIds.at(-1) ?? null) : null,
+  };
+}
+
+export interface LibraryQuery {
+  q?: string;
+  /** Models must carry every one of these tags. */
+  tags?: string[];
+  /** Only models filed directly in this collection. */
+  collectionId?: string | null;
+  sort: LibrarySort;
+  limit: number;
+  /** ID of the last model of the previous page. */
+  cursor?: string | null;
+}
+
+/**
+ * One page of the caller's model library. Searching sorts by relevance unless another order is
+ * asked for; without a search, relevance falls back to newest first. The manual sort is the
+ * order saved for a collection and only applies when browsing one.
+ */
+export async function listLibrary(session: Session, input: LibraryQuery) {
+  const where: Prisma.ModelWhereInput = {
+    ...visibleModels(session),
+    AND: normalizeTags(input.tags ?? []).map((name) => ({
+      tags: { some: { tag: { name } } },
+    })),
+  };
+  if (input.collectionId) {
+    where.collections = { some: { collectionId: input.collectionId } };
+  }
+  const q = input.q?.trim();
+  const ranked = q ? await searchModelIds(session, q) : null;
+  if (ranked) where.id = { in: ranked };
+
+  if (ranked && input.sort === "relevance") {
+    // Keep Postgres' ranking and page through it by position
+    return pageByIds(ranked, where, input);
+  }
+  if (input.collectionId && input.sort === "manual") {
+    const entries = await db.collectionModel.findMany({
+      where: { collectionId: input.collectionId },
+      orderBy: [{ position: "asc" }, { addedAt: "asc" }],
+      select: { modelId: true },
+    });
+    return pageByIds(
+      entries.map((e) => e.modelId),
+      where,
+      input,
+    );
+  }
+
+  const sort =
+    input.sort === "relevance" || input.sort === "manual"
+      ? "newest"
+      : input.sort;
+  const rows = await db.model.findMany({
+    where,
+    include: withTags,
+    orderBy: [ORDER_BY[sort], { id: "asc" }],
+    take: input.limit + 1,
+    ...(input.cursor ? { cursor: { id: input.cursor }, skip: 1 } : {}),
+  });
+  const hasMore = rows.length > input.limit;
+  const items = (hasMore ? rows.slice(0, input.limit) : rows).map(flattenTags);
+  return { items, nextCursor: hasMore ? (items.at(-1)?.id ?? null) : null };
+}
+
+/** Tags in use on models the caller can see, with how many of those models carry each. */
+export async function listTags(session: Session) {
+  const model = visibleModels(session);
+  const tags = await db.tag.findMany({
+    where: { models: { some: { model } } },
+    orderBy: { name: "asc" },
+    select: {
+      name: true,
+      _count: { select: { models: { where: { model } } } },
+    },
+  });
+  return tags.map((t) => ({ name: t.name, count: t._count.models }));
+}
+
+/** Replaces a model's tags, creating any that do not exist yet. */
+export async function setModelTags(modelId: string, names: string[]) {
+  const tags = normalizeTags(names);
+  return db.$transaction(async (tx) => {
+    await tx.tag.createMany({
+      data: tags.map((name) => ({ name })),
+      skipDuplicates: true,
+    });
+    const rows = await tx.tag.findMany({ where: { name: { in: tags } } });
+    await tx.modelTag.deleteMany({ where: { modelId } });
+    await tx.modelTag.createMany({
+      data: rows.map((t) => ({ modelId, tagId: t.id })),
+    });
+    return tags.sort();
+  });
+}
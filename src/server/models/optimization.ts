@@ -0,0 +1,148 @@
+import { Prisma } from "@prisma/client";
+import { logger } from "~/lib/logger";
+import { db } from "~/server/db";
+import {
+  DEFAULT_OPTIMIZE_SETTINGS,
+  optimizeGlb,
+  type OptimizeSettings,
+} from "~/server/gltf/optimize";
+import { enqueueJob } from "~/server/jobs/queue";
+import { deleteIfUnreferenced } from "~/server/models/files";
+import { recordStoredFile } from "~/server/models/quota";
+import { setOptimizedGlb } from "~/server/models/versions";
+import { storage } from "~/server/storage";
+import { readAll } from "~/server/storage/utils";
+
+/** Stored on `ModelVersion.optimization` so the owner can compare sizes and see what happened. */
+export interface OptimizationState {
+  /** `skipped` means the optimized file was not smaller, so the original is served as is. */
+  status: "pending" | "done" | "skipped" | "failed";
+  settings: OptimizeSettings;
+  originalBytes?: number;
+  optimizedBytes?: number;
+  warnings: string[];
+  error?: string;
+  updatedAt: string;
+}
+
+export function parseOptimization(
+  value: Prisma.JsonValue | null,
+): OptimizationState | null {
+  const v = value as Partial<OptimizationState> | null;
+  return v?.status ? (v as OptimizationState) : null;
+}
+
+async function saveState(
+  versionId: string,
+  state: Omit<OptimizationState, "updatedAt">,
+) {
+  await db.modelVersion.update({
+    where: { id: versionId },
+    data: {
+      optimization: {
+        ...state,
+        updatedAt: new Date().toISOString(),
+      } as unknown as Prisma.InputJsonValue,
+    },
+  });
+}
+
+/**
+ * Builds the optimized derivative of a version's GLB and makes the viewer serve it. A previous
+ * derivative is replaced. Progress is recorded on the version; failures are recorded and rethrown
+ * so the job is retried.
+ */
+export async function optimizeVersion(
+  versionId: string,
+  settings: OptimizeSettings = DEFAULT_OPTIMIZE_SETTINGS,
+) {
+  const version = await db.modelVersion.findUnique({
+    where: { id: versionId },
+    include: { model: { select: { title: true, ownerId: true } } },
+  });
+  if (!version) return;
+  await saveState(versionId, { status: "pending", settings, warnings: [] });
+
+  try {
+    const original = await readAll(await storage.stream(version.glbStorageId));
+    const { glb, warnings } = await optimizeGlb(original, settings);
+    const sizes = {
+      originalBytes: original.byteLength,
+      optimizedBytes: glb.byteLength,
+    };
+
+    let key: string | null = null;
+    if (glb.byteLength < original.byteLength) {
+      const stored = await storage.put(glb, {
+        name: `${version.model.title}.optimized.glb`,
+        contentType: "model/gltf-binary",
+        size: glb.byteLength,
+      });
+      key = stored.key;
+      await recordStoredFile(key, version.model.ownerId, glb.byteLength);
+    }
+    const previous = await setOptimizedGlb(versionId, key);
+    if (previous && previous !== key) {
+      await deleteIfUnreferenced(previous, version.modelId);
+    }
+    await saveState(versionId, {
+      status: key ? "done" : "skipped",
+      settings,
+      ...sizes,
+      warnings,
+    });
+    await db.auditLog.create({
+      data: {
+        actorId: version.model.ownerId,
+        event: "MODEL_OPTIMIZED",
+        details: {
+          modelId: version.modelId,
+          versionId,
+          key,
+          settings: { ...settings },
+          ...sizes,
+        },
+      },
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    logger.warn("Model optimization failed", {
+      modelId: version.modelId,
+      versionId,
+      error: message,
+    });
+    await saveState(versionId, {
+      status: "failed",
+      settings,
+      warnings: [],
+      error: message,
+    });
+    throw err;
+  }
+}
+
+/** Queues an optimization for the job worker; upload requests do not wait for it. */
+export async function scheduleOptimization(
+  versionId: string,
+  settings: OptimizeSettings = DEFAULT_OPTIMIZE_SETTINGS,
+) {
+  await saveState(versionId, { status: "pending", settings, warnings: [] });
+  return enqueueJob(
+    "model.optimize",
+    { versionId, settings },
+    { maxAttempts: 3 },
+  );
+}
+
+/** Drops a version's optimized derivative so the viewer serves the original again. */
+export async function discardOptimized(versionId: string) {
+  const version = await db.modelVersion.findUniqueOrThrow({
+    where: { id: versionId },
+  });
+  const previous = await setOptimizedGlb(versionId, null);
+  if (previous) await deleteIfUnreferenced(previous, version.modelId);
+  await db.modelVersion.update({
+    where: { id: versionId },
+    data: { optimization: Prisma.DbNull },
+  });
+}
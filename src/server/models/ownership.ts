@@ -0,0 +1,296 @@
+import type { Prisma } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import type { Session } from "next-auth";
+import { canDownloadModel } from "~/server/assets/access";
+import { db } from "~/server/db";
+import { canManageModel } from "~/server/models/access";
+import { isSharedViaCollection } from "~/server/models/collections";
+import { parseOptimization } from "~/server/models/optimization";
+import { assertWithinQuota } from "~/server/models/quota";
+import {
+  createModel,
+  ensureInitialVersion,
+  parseSourceImport,
+  parseStats,
+} from "~/server/models/versions";
+import { copyViewpoints } from "~/server/models/viewpoints";
+import { inspectStoredModel } from "~/server/uploads/models";
+import {
+  parseUsdzConversion,
+  scheduleUsdzConversion,
+} from "~/server/usdz/generate";
+
+/** What moved in an ownership transfer, also recorded in the audit log. */
+export interface TransferCounts {
+  models: number;
+  modelVersions: number;
+  shares: number;
+  collections: number;
+  dashboards: number;
+  dashboardAssets: number;
+  storedFiles: number;
+}
+
+interface DashboardCard {
+  id: string;
+  y: number;
+  h: number;
+}
+
+function dashboardCards(content: Prisma.JsonValue): DashboardCard[] {
+  const cards = (content as { cards?: unknown } | null)?.cards;
+  return Array.isArray(cards) ? (cards as DashboardCard[]) : [];
+}
+
+/**
+ * Hands everything a user owns to another user, e.g. when a staff member leaves: models (trashed
+ * ones included), shares, collections, dashboard assets and the stored files they are charged
+ * for, plus authorship of the versions they uploaded, none of which let their account be deleted.
+ * Everyone has a single dashboard, so when the recipient already has one the departing user's
+ * cards are appended below theirs. Quotas are not checked; the recipient may end up over theirs.
+ */
+export async function transferOwnership(
+  fromUserId: string,
+  toUserId: string,
+  actorId: string,
+) {
+  if (fromUserId === toUserId) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Pick a different user to transfer to",
+    });
+  }
+  const users = await db.user.count({
+    where: { id: { in: [fromUserId, toUserId] } },
+  });
+  if (users !== 2) throw new TRPCError({ code: "NOT_FOUND" });
+
+  const counts = await db.$transaction(async (tx) => {
+    const from = {
+      where: { ownerId: fromUserId },
+      data: { ownerId: toUserId },
+    };
+    const models = await tx.model.updateMany(from);
+    const modelVersions = await tx.modelVersion.updateMany({
+      where: { createdById: fromUserId },
+      data: { createdById: toUserId },
+    });
+    const shares = await tx.share.updateMany(from);
+    const collections = await tx.collection.updateMany(from);
+    const dashboardAssets = await tx.dashboardAsset.updateMany(from);
+    const storedFiles = await tx.storedFile.updateMany(from);
+
+    const dashboards = await tx.dashboard.findMany({
+      where: { ownerId: fromUserId },
+      orderBy: { createdAt: "asc" },
+    });
+    const target = await tx.dashboard.findFirst({
+      where: { ownerId: toUserId },
+    });
+    if (!target) {
+      await tx.dashboard.updateMany(from);
+    } else if (dashboards.length > 0) {
+      const cards = dashboardCards(target.content);
+      let top = Math.max(0, ...cards.map((c) => c.y + c.h));
+      for (const dashboard of dashboards) {
+        const moved = dashboardCards(dashboard.content);
+        const offset = top - Math.min(...moved.map((c) => c.y));
+        for (const card of moved) {
+          // Card ids only need to be unique within a dashboard
+          cards.push({
+            ...card,
+            id: `${dashboard.id}-${card.id}`,
+            y: card.y + offset,
+          });
+          top = Math.max(top, card.y + offset + card.h);
+        }
+      }
+      await tx.dashboard.update({
+        where: { id: target.id },
+        data: {
+          content: {
+            ...(target.content as Prisma.JsonObject),
+            cards: cards as unknown as Prisma.InputJsonValue,
+          },
+        },
+      });
+      await tx.dashboard.deleteMany({ where: { ownerId: fromUserId } });
+    }
+
+    return {
+      models: models.count,
+      modelVersions: modelVersions.count,
+      shares: shares.count,
+      collections: collections.count,
+      dashboards: dashboards.length,
+      dashboardAssets: dashboardAssets.count,
+      storedFiles: storedFiles.count,
+    } satisfies TransferCounts;
+  });
+
+  await db.auditLog.create({
+    data: {
+      actorId,
+      event: "OWNERSHIP_TRANSFERRED",
+      details: { fromUserId, toUserId, ...counts },
+    },
+  });
+  return counts;
+}
+
+/**
+ * Deletes a user's account, with their collections, shares and dashboard. Their models (trashed
+ * ones included), the versions they uploaded and the files charged to them are never deleted with
+ * it: until they have been transferred to someone else, or the models purged, the delete is
+ * refused.
+ */
+export async function deleteUser(userId: string, actorId: string) {
+  if (userId === actorId) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "You cannot delete your own account",
+    });
+  }
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: {
+      email: true,
+      _count: {
+        select: { models: true, modelVersions: true, storedFiles: true },
+      },
+    },
+  });
+  if (!user) throw new TRPCError({ code: "NOT_FOUND" });
+  const { models, modelVersions, storedFiles } = user._count;
+  if (models + modelVersions + storedFiles > 0) {
+    throw new TRPCError({
+      code: "PRECONDITION_FAILED",
+      message: `Transfer their ownership first: they still own ${models} models (the trash included), uploaded ${modelVersions} versions and are charged for ${storedFiles} stored files`,
+    });
+  }
+  await db.user.delete({ where: { id: userId } });
+  await db.auditLog.create({
+    data: {
+      actorId,
+      event: "USER_DELETED",
+      details: { userId, email: user.email },
+    },
+  });
+}
+
+/**
+ * Copies the current version of a model into the caller's library as a new model with its own
+ * history, along with its tags, annotations, viewpoints and tours. The files are shared with the
+ * original, not copied, and stay charged to whoever stored them, so only the model count is
+ * checked against the quota. Anyone who manages the model may copy it; others only when it is
+ * shared and they may download it.
+ */
+export async function duplicateModel(session: Session, modelId: string) {
+  const source = await db.model.findFirst({
+    where: { id: modelId, deletedAt: null },
+    include: {
+      _count: { select: { shares: true } },
+      tags: { select: { tagId: true } },
+      annotations: true,
+    },
+  });
+  if (!source) throw new TRPCError({ code: "NOT_FOUND" });
+  if (!canManageModel(session, source)) {
+    const shared =
+      source._count.shares > 0 || (await isSharedViaCollection(source.id));
+    if (!shared) throw new TRPCError({ code: "NOT_FOUND" });
+    if (!canDownloadModel(session, source)) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: "The owner does not allow copies of this model",
+      });
+    }
+  }
+  await assertWithinQuota(session.user.id, { bytes: 0, newModel: true });
+
+  await ensureInitialVersion(source);
+  const { currentVersion: version } = await db.model.findUniqueOrThrow({
+    where: { id: source.id },
+    include: { currentVersion: true },
+  });
+  if (!version) throw new TRPCError({ code: "NOT_FOUND" });
+  const sourceImport = parseSourceImport(version.sourceImport);
+  const model = await createModel({
+    title: `${source.title} (copy)`,
+    description: source.description ?? undefined,
+    ownerId: session.user.id,
+    glbStorageId: version.glbStorageId,
+    usdzStorageId: version.usdzStorageId,
+    stats:
+      parseStats(version.stats) ??
+      (await inspectStoredModel(version.glbStorageId)),
+    source:
+      version.sourceStorageId && sourceImport
+        ? { storageId: version.sourceStorageId, ...sourceImport }
+        : undefined,
+  });
+  const versionId = model.currentVersionId!;
+
+  // Finished derivatives come along; one still being built belongs to the original's job
+  const optimization = parseOptimization(version.optimization);
+  const usdzConversion = parseUsdzConversion(version.usdzConversion);
+  await db.$transaction([
+    db.modelVersion.update({
+      where: { id: versionId },
+      data: {
+        notes: `Copied from "${source.title}" version ${version.version}`,
+        optimizedGlbStorageId: version.optimizedGlbStorageId,
+        ...(optimization && optimization.status !== "pending"
+          ? { optimization: version.optimization! }
+          : {}),
+        ...(usdzConversion && usdzConversion.status !== "pending"
+          ? { usdzConversion: version.usdzConversion! }
+          : {}),
+      },
+    }),
+    db.model.update({
+      where: { id: model.id },
+      data: {
+        optimizedGlbStorageId: version.optimizedGlbStorageId,
+        license: source.license,
+        credit: source.credit,
+        sourceUrl: source.sourceUrl,
+        acknowledgements: source.acknowledgements,
+        downloadPolicy: source.downloadPolicy,
+        metersPerUnit: source.metersPerUnit,
+      },
+    }),
+    db.modelTag.createMany({
+      data: source.tags.map((t) => ({ modelId: model.id, tagId: t.tagId })),
+    }),
+    db.annotation.createMany({
+      data: source.annotations.map((a) => ({
+        modelId: model.id,
+        position: a.position,
+        anchor: a.anchor as Prisma.InputJsonValue,
+        normal: a.normal as Prisma.InputJsonValue,
+        title: a.title,
+        body: a.body,
+        mediaUrl: a.mediaUrl,
+      })),
+    }),
+  ]);
+  await copyViewpoints(source.id, model.id);
+  if (!version.usdzStorageId && usdzConversion?.status !== "failed") {
+    await scheduleUsdzConversion(versionId);
+  }
+
+  await db.auditLog.create({
+    data: {
+      actorId: session.user.id,
+      event: "MODEL_DUPLICATED",
+      details: {
+        modelId: model.id,
+        sourceModelId: source.id,
+        sourceOwnerId: source.ownerId,
+        sourceVersionId: version.id,
+      },
+    },
+  });
+  return model;
+}
@@ -0,0 +1,226 @@
+import type { Role } from "@prisma/client";
+import { env } from "~/env";
+import { db } from "~/server/db";
+import { storage } from "~/server/storage";
+
+const MB = 1024 * 1024;
+
+/** Thrown when an upload would take a user past their storage or model quota. */
+export class QuotaExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QuotaExceededError";
+  }
+}
+
+/** Limits that apply to a user; `null` means unlimited. */
+export interface Quota {
+  maxBytes: number | null;
+  maxModels: number | null;
+}
+
+const ROLE_DEFAULTS: Record<Role, { mb: number; models: number }> = {
+  USER: { mb: env.QUOTA_USER_MB, models: env.QUOTA_USER_MODELS },
+  EMPLOYEE: { mb: env.QUOTA_EMPLOYEE_MB, models: env.QUOTA_EMPLOYEE_MODELS },
+  ADMIN: { mb: env.QUOTA_ADMIN_MB, models: env.QUOTA_ADMIN_MODELS },
+};
+
+/** The user's own overrides where set, their role's defaults otherwise. Zero is unlimited. */
+export function quotaFor(user: {
+  role: Role;
+  storageQuotaMb: number | null;
+  modelQuota: number | null;
+}): Quota {
+  const defaults = ROLE_DEFAULTS[user.role];
+  const mb = user.storageQuotaMb ?? defaults.mb;
+  const models = user.modelQuota ?? defaults.models;
+  return {
+    maxBytes: mb > 0 ? mb * MB : null,
+    maxModels: models > 0 ? models : null,
+  };
+}
+
+/** Bytes stored for a user's models and how many models they own. Trashed models count until purged. */
+export async function getUsage(userId: string) {
+  const [files, models] = await Promise.all([
+    db.storedFile.aggregate({
+      where: { ownerId: userId },
+      _sum: { sizeBytes: true },
+    }),
+    db.model.count({ where: { ownerId: userId } }),
+  ]);
+  return { bytes: files._sum.sizeBytes ?? 0, models };
+}
+
+export async function getQuotaStatus(userId: string) {
+  const user = await db.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { role: true, storageQuotaMb: true, modelQuota: true },
+  });
+  return { usage: await getUsage(userId), quota: quotaFor(user) };
+}
+
+function formatMb(bytes: number) {
+  return `${Math.ceil(bytes / MB).toLocaleString()} MB`;
+}
+
+/**
+ * Throws `QuotaExceededError` unless the user has room for `bytes` more, and for one more model
+ * when `newModel` is set (or `newModels` more). Checked before an upload is accepted; uploads
+ * running side by side can each pass and together overshoot by up to one file.
+ */
+export async function assertWithinQuota(
+  userId: string,
+  {
+    bytes,
+    newModel,
+    newModels = newModel ? 1 : 0,
+  }: { bytes: number; newModel: boolean; newModels?: number },
+) {
+  const { usage, quota } = await getQuotaStatus(userId);
+  if (
+    newModels > 0 &&
+    quota.maxModels !== null &&
+    usage.models + newModels > quota.maxModels
+  ) {
+    throw new QuotaExceededError(
+      usage.models >= quota.maxModels
+        ? `Model limit reached (${quota.maxModels}); delete models and empty the trash to upload more`
+        : `Model limit (${quota.maxModels}) leaves room for ${quota.maxModels - usage.models} more models, not ${newModels}`,
+    );
+  }
+  if (quota.maxBytes !== null && usage.bytes + bytes > quota.maxBytes) {
+    throw new QuotaExceededError(
+      `Storage quota exceeded: ${formatMb(usage.bytes)} of ${formatMb(quota.maxBytes)} used`,
+    );
+  }
+}
+
+/**
+ * Counts a stored file against its owner. Without `sizeBytes` the file's size is looked up. A
+ * file already counted stays charged to whoever stored it first.
+ */
+export async function recordStoredFile(
+  key: string,
+  ownerId: string,
+  sizeBytes?: number,
+) {
+  const size = sizeBytes ?? (await storage.stat(key))?.size;
+  if (size === undefined) return;
+  await db.storedFile.upsert({
+    where: { key },
+    create: { key, ownerId, sizeBytes: size },
+    update: { sizeBytes: size },
+  });
+}
+
+/** Whether every one of `keys` is a file charged to `ownerId`, i.e. one they stored. */
+export async function ownsStoredFiles(ownerId: string, keys: string[]) {
+  const unique = [...new Set(keys)];
+  const owned = await db.storedFile.count({
+    where: { ownerId, key: { in: unique } },
+  });
+  return owned === unique.length;
+}
+
+/** Stops counting a file, once it is deleted or queued for deletion. */
+export async function forgetStoredFile(key: string) {
+  await db.storedFile.deleteMany({ where: { key } });
+}
+
+/** Users storing the most, heaviest first, with their quotas. */
+export async function heaviestUsers(limit: number) {
+  const groups = await db.storedFile.groupBy({
+    by: ["ownerId"],
+    _sum: { sizeBytes: true },
+    _count: { _all: true },
+    orderBy: { _sum: { sizeBytes: "desc" } },
+    take: limit,
+  });
+  const users = await db.user.findMany({
+    where: { id: { in: groups.map((g) => g.ownerId) } },
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      role: true,
+      storageQuotaMb: true,
+      modelQuota: true,
+      _count: { select: { models: true } },
+    },
+  });
+  const byId = new Map(users.map((u) => [u.id, u]));
+  return groups.flatMap((g) => {
+    const user = byId.get(g.ownerId);
+    if (!user) return [];
+    return [
+      {
+        ...user,
+        bytes: g._sum.sizeBytes ?? 0,
+        files: g._count._all,
+        models: user._count.models,
+        quota: quotaFor(user),
+      },
+    ];
+  });
+}
+
+/**
+ * Rebuilds the usage ledger from the files models and versions point at. Covers files stored
+ * before usage was tracked and repairs drift after storage failures.
+ */
+export async function recountStoredFiles() {
+  const models = await db.model.findMany({
+    select: {
+      ownerId: true,
+      glbStorageId: true,
+      usdzStorageId: true,
+      optimizedGlbStorageId: true,
+      versions: {
+        select: {
+          glbStorageId: true,
+          usdzStorageId: true,
+          optimizedGlbStorageId: true,
+          sourceStorageId: true,
+        },
+      },
+    },
+  });
+  const owners = new Map<string, Set<string>>();
+  for (const model of models) {
+    for (const files of [model, ...model.versions]) {
+      for (const key of [
+        files.glbStorageId,
+        files.usdzStorageId,
+        files.optimizedGlbStorageId,
+        "sourceStorageId" in files ? files.sourceStorageId : null,
+      ]) {
+        if (!key) continue;
+        const set = owners.get(key) ?? new Set<string>();
+        owners.set(key, set.add(model.ownerId));
+      }
+    }
+  }
+
+  const known = new Map(
+    (
+      await db.storedFile.findMany({ select: { key: true, ownerId: true } })
+    ).map((f) => [f.key, f.ownerId]),
+  );
+  let added = 0;
+  for (const [key, keyOwners] of owners) {
+    // A deduplicated file stays with its current owner while they still use it
+    const current = known.get(key);
+    if (current && keyOwners.has(current)) continue;
+    const owner = [...keyOwners][0]!;
+    if (current) {
+      await db.storedFile.update({ where: { key }, data: { ownerId: owner } });
+    } else {
+      await recordStoredFile(key, owner);
+    }
+    added++;
+  }
+  const stale = [...known.keys()].filter((key) => !owners.has(key));
+  await db.storedFile.deleteMany({ where: { key: { in: stale } } });
+  return { files: owners.size, added, removed: stale.length };
+}
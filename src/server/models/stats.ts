@@ -0,0 +1,18 @@
+import type { Prisma } from "@prisma/client";
+import type { GlbInspection } from "~/server/gltf/glb";
+
+/** Maps an inspection onto the `Model` columns that mirror it. */
+export function modelStatsData(inspection: GlbInspection, sizeBytes: number) {
+  return {
+    sizeBytes,
+    meshCount: inspection.meshCount,
+    triangleCount: inspection.triangleCount,
+    vertexCount: inspection.vertexCount,
+    materialCount: inspection.materialCount,
+    textureCount: inspection.textureCount,
+    textureResolutions: inspection.textures as unknown as Prisma.InputJsonValue,
+    animations: inspection.animations as unknown as Prisma.InputJsonValue,
+    extensionsUsed: inspection.extensionsUsed,
+    boundingBox: inspection.boundingBox ?? undefined,
+  };
+}
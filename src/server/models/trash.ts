@@ -0,0 +1,96 @@
+import { env } from "~/env";
+import { db } from "~/server/db";
+import { enqueueJob } from "~/server/jobs/queue";
+import { deleteModelFiles } from "~/server/uploads/models";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** When a model trashed at `deletedAt` is purged for good. */
+export function purgeDate(deletedAt: Date) {
+  return new Date(deletedAt.getTime() + env.TRASH_RETENTION_DAYS * DAY_MS);
+}
+
+/** Shares that stop working while the model is in the trash and are deleted when it is purged. */
+export async function getAffectedShares(modelId: string) {
+  return db.share.findMany({
+    where: { modelId },
+    select: { id: true, title: true, ownerId: true },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+/**
+ * Moves a model to the trash. Its shares and files stop being served straight away, but nothing
+ * is deleted until the retention window has passed.
+ */
+export async function trashModel(modelId: string, actorId: string) {
+  const deletedAt = new Date();
+  const model = await db.model.update({
+    where: { id: modelId },
+    data: { deletedAt, deletedById: actorId },
+  });
+  const purgeAt = purgeDate(deletedAt);
+  await enqueueJob("model.purge", { modelId }, { runAt: purgeAt });
+  const shares = await db.share.count({ where: { modelId } });
+  await db.auditLog.create({
+    data: {
+      actorId,
+      event: "MODEL_TRASHED",
+      details: {
+        modelId,
+        ownerId: model.ownerId,
+        purgeAt: purgeAt.toISOString(),
+        shares,
+      },
+    },
+  });
+  return { model, purgeAt };
+}
+
+export async function restoreModel(modelId: string, actorId: string) {
+  const model = await db.model.update({
+    where: { id: modelId },
+    data: { deletedAt: null, deletedById: null },
+  });
+  await db.auditLog.create({
+    data: {
+      actorId,
+      event: "MODEL_RESTORED",
+      details: { modelId, ownerId: model.ownerId },
+    },
+  });
+  return model;
+}
+
+/** Deletes a trashed model, its versions and shares, then removes its stored files. */
+export async function purgeModel(modelId: string, actorId?: string) {
+  const deleted = await db.model.delete({
+    where: { id: modelId },
+    include: { versions: true },
+  });
+  await deleteModelFiles(deleted);
+  await db.auditLog.create({
+    data: {
+      // Automatic purges are recorded against the owner
+      actorId: actorId ?? deleted.ownerId,
+      event: "MODEL_PURGED",
+      details: {
+        modelId,
+        ownerId: deleted.ownerId,
+        deletedById: deleted.deletedById,
+        automatic: !actorId,
+      },
+    },
+  });
+  return deleted;
+}
+
+/**
+ * Runs from the `model.purge` job queued when the model was trashed. Restored models are left
+ * alone, and a model trashed again later is handled by the job queued that time.
+ */
+export async function purgeIfExpired(modelId: string) {
+  const model = await db.model.findUnique({ where: { id: modelId } });
+  if (!model?.deletedAt || purgeDate(model.deletedAt) > new Date()) return;
+  await purgeModel(modelId);
+}
@@ -0,0 +1,316 @@
+import { Prisma, type Model, type ModelVersion } from "@prisma/client";
+import { db } from "~/server/db";
+import type { GlbInspection } from "~/server/gltf/glb";
+import { modelStatsData } from "~/server/models/stats";
+
+/** What a version remembers about its GLB, so rolling back restores the model's stats too. */
+export interface VersionStats {
+  sizeBytes: number;
+  inspection: GlbInspection;
+}
+
+export function parseStats(
+  value: Prisma.JsonValue | null,
+): VersionStats | null {
+  const v = value as Partial<VersionStats> | null;
+  return v?.inspection && typeof v.sizeBytes === "number"
+    ? (v as VersionStats)
+    : null;
+}
+
+/** Stored on `ModelVersion.sourceImport` when the GLB was converted from another format. */
+export interface SourceImport {
+  /** Extension of the uploaded file, e.g. "obj" or "zip". */
+  format: string;
+  warnings: string[];
+}
+
+export function parseSourceImport(
+  value: Prisma.JsonValue | null,
+): SourceImport | null {
+  const v = value as Partial<SourceImport> | null;
+  return v?.format ? (v as SourceImport) : null;
+}
+
+/** The uploaded file a version's GLB was converted from. */
+export interface VersionSource extends SourceImport {
+  storageId: string;
+}
+
+function sourceData(source?: VersionSource) {
+  if (!source) return {};
+  return {
+    sourceStorageId: source.storageId,
+    sourceImport: {
+      format: source.format,
+      warnings: source.warnings,
+    } satisfies SourceImport,
+  };
+}
+
+/** The `Model` columns that mirror its current version. */
+function mirrorData(version: ModelVersion) {
+  const stats = parseStats(version.stats);
+  return {
+    currentVersionId: version.id,
+    glbStorageId: version.glbStorageId,
+    usdzStorageId: version.usdzStorageId,
+    optimizedGlbStorageId: version.optimizedGlbStorageId,
+    ...(stats ? modelStatsData(stats.inspection, stats.sizeBytes) : {}),
+  };
+}
+
+/**
+ * Locks a model's row until the transaction ends, so concurrent uploads hand out version numbers
+ * one after another instead of both picking the same next number.
+ */
+async function lockModel(tx: Prisma.TransactionClient, modelId: string) {
+  await tx.$queryRaw`SELECT "id" FROM "Model" WHERE "id" = ${modelId} FOR UPDATE`;
+}
+
+async function recordInitialVersion(
+  tx: Prisma.TransactionClient,
+  model: Model,
+) {
+  if (model.currentVersionId) return;
+  const existing = await tx.modelVersion.findFirst({
+    where: { modelId: model.id },
+    orderBy: { version: "desc" },
+  });
+  if (existing) {
+    await tx.model.update({
+      where: { id: model.id },
+      data: { currentVersionId: existing.id },
+    });
+    return;
+  }
+  const version = await tx.modelVersion.create({
+    data: {
+      modelId: model.id,
+      version: 1,
+      glbStorageId: model.glbStorageId,
+      usdzStorageId: model.usdzStorageId,
+      optimizedGlbStorageId: model.optimizedGlbStorageId,
+      createdById: model.ownerId,
+    },
+  });
+  await tx.model.update({
+    where: { id: model.id },
+    data: { currentVersionId: version.id },
+  });
+}
+
+/**
+ * Models created before versioning have no history. Records their current files as version 1 so
+ * every model has at least one version to pin or roll back to.
+ */
+export async function ensureInitialVersion(model: Model) {
+  if (model.currentVersionId) return;
+  await db.$transaction(async (tx) => {
+    await lockModel(tx, model.id);
+    await recordInitialVersion(
+      tx,
+      await tx.model.findUniqueOrThrow({ where: { id: model.id } }),
+    );
+  });
+}
+
+/** Counts an uploaded GLB against the model owner's storage quota, unless it is already counted. */
+async function recordGlb(
+  tx: Prisma.TransactionClient,
+  key: string,
+  ownerId: string,
+  stats?: VersionStats,
+) {
+  if (!stats) return;
+  await tx.storedFile.upsert({
+    where: { key },
+    create: { key, ownerId, sizeBytes: stats.sizeBytes },
+    // A shared file stays charged to whoever stored it first
+    update: {},
+  });
+}
+
+/** Creates a model together with its first version. */
+export async function createModel(input: {
+  title: string;
+  description?: string;
+  ownerId: string;
+  glbStorageId: string;
+  usdzStorageId?: string | null;
+  stats?: VersionStats;
+  source?: VersionSource;
+}) {
+  return db.$transaction(async (tx) => {
+    const model = await tx.model.create({
+      data: {
+        title: input.title,
+        description: input.description,
+        ownerId: input.ownerId,
+        glbStorageId: input.glbStorageId,
+        usdzStorageId: input.usdzStorageId ?? null,
+        ...(input.stats
+          ? modelStatsData(input.stats.inspection, input.stats.sizeBytes)
+          : {}),
+      },
+    });
+    const version = await tx.modelVersion.create({
+      data: {
+        modelId: model.id,
+        version: 1,
+        glbStorageId: input.glbStorageId,
+        usdzStorageId: input.usdzStorageId ?? null,
+        stats: input.stats as unknown as Prisma.InputJsonValue,
+        ...sourceData(input.source),
+        createdById: input.ownerId,
+      },
+    });
+    await recordGlb(tx, input.glbStorageId, input.ownerId, input.stats);
+    return tx.model.update({
+      where: { id: model.id },
+      data: { currentVersionId: version.id },
+    });
+  });
+}
+
+/** Appends a version and makes it current. */
+export async function addModelVersion(input: {
+  modelId: string;
+  userId: string;
+  glbStorageId: string;
+  usdzStorageId?: string | null;
+  notes?: string;
+  stats?: VersionStats;
+  source?: VersionSource;
+}) {
+  return db.$transaction(async (tx) => {
+    await lockModel(tx, input.modelId);
+    const model = await tx.model.findUniqueOrThrow({
+      where: { id: input.modelId },
+    });
+    await recordInitialVersion(tx, model);
+    const latest = await tx.modelVersion.findFirst({
+      where: { modelId: input.modelId },
+      orderBy: { version: "desc" },
+      select: { version: true },
+    });
+    const version = await tx.modelVersion.create({
+      data: {
+        modelId: input.modelId,
+        version: (latest?.version ?? 0) + 1,
+        glbStorageId: input.glbStorageId,
+        usdzStorageId: input.usdzStorageId ?? null,
+        notes: input.notes,
+        stats: input.stats as unknown as Prisma.InputJsonValue,
+        ...sourceData(input.source),
+        createdById: input.userId,
+      },
+    });
+    await tx.model.update({
+      where: { id: input.modelId },
+      data: mirrorData(version),
+    });
+    await recordGlb(tx, input.glbStorageId, model.ownerId, input.stats);
+    return version;
+  });
+}
+
+/** Points the model (and every follow-latest share) at an existing version. */
+export async function setCurrentVersion(modelId: string, versionId: string) {
+  const version = await db.modelVersion.findFirstOrThrow({
+    where: { id: versionId, modelId },
+  });
+  return db.model.update({
+    where: { id: modelId },
+    data: mirrorData(version),
+  });
+}
+
+type FileKeys = "glbStorageId" | "usdzStorageId" | "optimizedGlbStorageId";
+
+/**
+ * The files a share should show: its pinned version, or the model's current files. The viewer gets
+ * the optimized GLB when there is one; `originalGlbStorageId` is the file as uploaded.
+ */
+export function resolveShareFiles(share: {
+  model: Pick<Model, FileKeys> | null;
+  modelVersion: Pick<ModelVersion, FileKeys> | null;
+}) {
+  const source = share.modelVersion ?? share.model;
+  if (!source) return null;
+  return {
+    glbStorageId: source.optimizedGlbStorageId ?? source.glbStorageId,
+    originalGlbStorageId: source.glbStorageId,
+    usdzStorageId: source.usdzStorageId,
+  };
+}
+
+/**
+ * Pairs a USDZ with the model's current version, or clears it with `null`. Returns the key that
+ * was replaced so the caller can delete the old file.
+ */
+export async function setCurrentUsdz(
+  modelId: string,
+  usdzStorageId: string | null,
+) {
+  const model = await db.model.findUniqueOrThrow({ where: { id: modelId } });
+  await ensureInitialVersion(model);
+  return db.$transaction(async (tx) => {
+    const { currentVersionId } = await tx.model.findUniqueOrThrow({
+      where: { id: modelId },
+      select: { currentVersionId: true },
+    });
+    const previous = await tx.modelVersion.findUniqueOrThrow({
+      where: { id: currentVersionId! },
+      select: { usdzStorageId: true },
+    });
+    // A hand-picked (or removed) companion makes earlier conversion warnings moot
+    await tx.modelVersion.update({
+      where: { id: currentVersionId! },
+      data: { usdzStorageId, usdzConversion: Prisma.DbNull },
+    });
+    await tx.model.update({ where: { id: modelId }, data: { usdzStorageId } });
+    return previous.usdzStorageId;
+  });
+}
+
+/**
+ * Pairs a generated USDZ with a version that still has no companion, mirroring it onto the model
+ * when that version is current. Returns false when someone attached a USDZ in the meantime.
+ */
+export async function attachGeneratedUsdz(versionId: string, key: string) {
+  return db.$transaction(async (tx) => {
+    const { count } = await tx.modelVersion.updateMany({
+      where: { id: versionId, usdzStorageId: null },
+      data: { usdzStorageId: key },
+    });
+    if (count === 0) return false;
+    await tx.model.updateMany({
+      where: { currentVersionId: versionId },
+      data: { usdzStorageId: key },
+    });
+    return true;
+  });
+}
+
+/**
+ * Sets (or with `null` clears) a version's optimized GLB, mirroring it onto the model when that
+ * version is current. Returns the replaced key so the caller can delete the old file.
+ */
+export async function setOptimizedGlb(versionId: string, key: string | null) {
+  return db.$transaction(async (tx) => {
+    const previous = await tx.modelVersion.findUniqueOrThrow({
+      where: { id: versionId },
+      select: { optimizedGlbStorageId: true },
+    });
+    await tx.modelVersion.update({
+      where: { id: versionId },
+      data: { optimizedGlbStorageId: key },
+    });
+    await tx.model.updateMany({
+      where: { currentVersionId: versionId },
+      data: { optimizedGlbStorageId: key },
+    });
+    return previous.optimizedGlbStorageId;
+  });
+}
@@ -0,0 +1,158 @@
+import type { Prisma, Viewpoint } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import type { Session } from "next-auth";
+import {
+  resolveTour,
+  type TourStop,
+  type ViewerTour,
+  type ViewerViewpoint,
+  type ViewpointCamera,
+} from "~/lib/viewpoints";
+import { MAX_SECTION_PLANES, type SectionPlane } from "~/lib/sections";
+import { db } from "~/server/db";
+import { getManageableModel } from "~/server/models/access";
+
+function isVec3(value: unknown) {
+  return (
+    Array.isArray(value) &&
+    value.length === 3 &&
+    value.every((v) => typeof v === "number")
+  );
+}
+
+export function parseCamera(value: Prisma.JsonValue): ViewpointCamera | null {
+  const v = value as Partial<ViewpointCamera> | null;
+  return v &&
+    isVec3(v.position) &&
+    isVec3(v.target) &&
+    typeof v.fov === "number"
+    ? (v as ViewpointCamera)
+    : null;
+}
+
+/** Unreadable planes are dropped; no planes means the view shows the whole model. */
+export function parseSection(value: Prisma.JsonValue): SectionPlane[] {
+  return Array.isArray(value)
+    ? (value as Partial<SectionPlane>[])
+        .filter((p): p is SectionPlane => isVec3(p?.point) && isVec3(p?.normal))
+        .slice(0, MAX_SECTION_PLANES)
+    : [];
+}
+
+export function parseTourStops(value: Prisma.JsonValue): TourStop[] {
+  return Array.isArray(value)
+    ? (value as Partial<TourStop>[]).filter(
+        (s): s is TourStop =>
+          typeof s?.viewpointId === "string" &&
+          typeof s.durationMs === "number",
+      )
+    : [];
+}
+
+/** Viewpoints with an unreadable camera are left out. */
+export function toViewerViewpoints(rows: Viewpoint[]): ViewerViewpoint[] {
+  return rows.flatMap((row) => {
+    const camera = parseCamera(row.camera);
+    if (!camera) return [];
+    const section = parseSection(row.section);
+    return [
+      {
+        id: row.id,
+        title: row.title,
+        camera,
+        ...(section.length ? { section } : {}),
+      },
+    ];
+  });
+}
+
+/** Viewpoints and tours of each model, ready for the viewer; models without any are left out. */
+export async function modelViewpoints(modelIds: string[]) {
+  const [viewpoints, tours] = await Promise.all([
+    db.viewpoint.findMany({
+      where: { modelId: { in: modelIds } },
+      orderBy: [{ position: "asc" }, { createdAt: "asc" }],
+    }),
+    db.tour.findMany({
+      where: { modelId: { in: modelIds } },
+      orderBy: { createdAt: "asc" },
+    }),
+  ]);
+  const byModel: Record<
+    string,
+    { viewpoints: ViewerViewpoint[]; tours: ViewerTour[] }
+  > = {};
+  for (const modelId of new Set(viewpoints.map((v) => v.modelId))) {
+    const views = toViewerViewpoints(
+      viewpoints.filter((v) => v.modelId === modelId),
+    );
+    byModel[modelId] = {
+      viewpoints: views,
+      tours: tours
+        .filter((t) => t.modelId === modelId)
+        .map((t) =>
+          resolveTour({ ...t, stops: parseTourStops(t.stops) }, views),
+        )
+        .filter((t) => t.stops.length > 0),
+    };
+  }
+  return byModel;
+}
+
+/** Position after the model's last viewpoint, so new ones land at the end. */
+export async function nextViewpointPosition(modelId: string) {
+  const last = await db.viewpoint.aggregate({
+    where: { modelId },
+    _max: { position: true },
+  });
+  return (last._max.position ?? -1) + 1;
+}
+
+/** Loads a viewpoint on a model the caller may change, or throws the matching tRPC error. */
+export async function getManageableViewpoint(session: Session, id: string) {
+  const viewpoint = await db.viewpoint.findUnique({ where: { id } });
+  if (!viewpoint) throw new TRPCError({ code: "NOT_FOUND" });
+  await getManageableModel(session, viewpoint.modelId);
+  return viewpoint;
+}
+
+/** Loads a tour on a model the caller may change, or throws the matching tRPC error. */
+export async function getManageableTour(session: Session, id: string) {
+  const tour = await db.tour.findUnique({ where: { id } });
+  if (!tour) throw new TRPCError({ code: "NOT_FOUND" });
+  await getManageableModel(session, tour.modelId);
+  return tour;
+}
+
+/** Copies a model's viewpoints and tours onto another model, pointing the tours at the copies. */
+export async function copyViewpoints(fromModelId: string, toModelId: string) {
+  const [viewpoints, tours] = await Promise.all([
+    db.viewpoint.findMany({ where: { modelId: fromModelId } }),
+    db.tour.findMany({ where: { modelId: fromModelId } }),
+  ]);
+  await db.$transaction(async (tx) => {
+    const ids = new Map<string, string>();
+    for (const v of viewpoints) {
+      const copy = await tx.viewpoint.create({
+        data: {
+          modelId: toModelId,
+          position: v.position,
+          title: v.title,
+          camera: v.camera as Prisma.InputJsonValue,
+          section: v.section ?? undefined,
+        },
+      });
+      ids.set(v.id, copy.id);
+    }
+    await tx.tour.createMany({
+      data: tours.map((t) => ({
+        modelId: toModelId,
+        title: t.title,
+        stops: parseTourStops(t.stops).flatMap((s) => {
+          const viewpointId = ids.get(s.viewpointId);
+          return viewpointId ? [{ ...s, viewpointId }] : [];
+        }),
+      })),
+    });
+  });
+}
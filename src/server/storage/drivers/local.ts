@@ -0,0 +1,90 @@
+import { createReadStream, createWriteStream } from "fs";
+import { mkdir, readFile, rename, rm, stat, writeFile } from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { ReadableStream as NodeReadableStream } from "stream/web";
+import { signedAssetPath } from "../signing";
+import type { StorageDriver, StoredObject } from "../types";
+import {
+  contentTypeForKey,
+  createStorageKey,
+  isValidStorageKey,
+} from "../utils";
+
+/**
+ * Stores objects as plain files under one directory. Meant for dev laptops and self-hosted
+ * deployments; objects are served through `/api/models/[storageId]`.
+ */
+export function createLocalDriver(rootDir: string): StorageDriver {
+  const root = path.resolve(rootDir);
+
+  function pathFor(key: string) {
+    if (!isValidStorageKey(key)) throw new Error(`Invalid storage key: ${key}`);
+    return path.join(root, key);
+  }
+
+  async function statKey(key: string): Promise<StoredObject | null> {
+    try {
+      const info = await stat(pathFor(key));
+      return {
+        key,
+        size: info.size,
+        contentType: contentTypeForKey(key),
+        lastModified: info.mtime,
+      };
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw err;
+    }
+  }
+
+  return {
+    name: "local",
+
+    async put(body, opts) {
+      await mkdir(root, { recursive: true });
+      const key = createStorageKey(opts.name);
+      const target = pathFor(key);
+      // Write to a temp file first so a half-written upload is never visible under its key.
+      const temp = `${target}.part`;
+      if (body instanceof Uint8Array) {
+        await writeFile(temp, body);
+      } else {
+        await pipeline(
+          Readable.fromWeb(body as NodeReadableStream<Uint8Array>),
+          createWriteStream(temp),
+        );
+      }
+      await rename(temp, target);
+      const info = await statKey(key);
+      return { ...info!, contentType: opts.contentType ?? info!.contentType };
+    },
+
+    async get(key) {
+      return new Uint8Array(await readFile(pathFor(key)));
+    },
+
+    async stream(key, range) {
+      const nodeStream = createReadStream(
+        pathFor(key),
+        range ? { start: range.start, end: range.end } : undefined,
+      );
+      return Readable.toWeb(nodeStream) as ReadableStream<Uint8Array>;
+    },
+
+    async delete(key) {
+      await rm(pathFor(key), { force: true });
+    },
+
+    stat: statKey,
+
+    async signedUrl(key, opts) {
+      return signedAssetPath(key, opts?.expiresIn);
+    },
+
+    keyFromUrl() {
+      return null;
+    },
+  };
+}
@@ -0,0 +1,137 @@
+import { AwsClient, AwsV4Signer } from "aws4fetch";
+import type { StorageDriver, StoredObject } from "../types";
+import { createStorageKey } from "../utils";
+
+export interface S3DriverConfig {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** Optional public/CDN base URL that maps onto the bucket root. */
+  publicUrl?: string;
+}
+
+const DEFAULT_EXPIRES_IN = 60 * 60; // seconds
+
+/**
+ * Talks to any S3-compatible API (AWS, R2, MinIO, ...) using path-style URLs, so one config shape
+ * works for all of them.
+ */
+export function createS3Driver(config: S3DriverConfig): StorageDriver {
+  const client = new AwsClient({
+    accessKeyId: config.accessKeyId,
+    secretAccessKey: config.secretAccessKey,
+    region: config.region,
+    service: "s3",
+  });
+  const base = `${config.endpoint.replace(/\/$/, "")}/${config.bucket}`;
+
+  function objectUrl(key: string) {
+    return `${base}/${encodeURIComponent(key)}`;
+  }
+
+  async function send(key: string, init: RequestInit = {}) {
+    return client.fetch(objectUrl(key), init);
+  }
+
+  return {
+    name: "s3",
+
+    async put(body, opts) {
+      const key = createStorageKey(opts.name);
+      const headers: Record<string, string> = {
+        "Content-Type": opts.contentType ?? "application/octet-stream",
+      };
+      let res: Response;
+      if (body instanceof Uint8Array) {
+        res = await send(key, { method: "PUT", body, headers });
+      } else {
+        // Streams can't be hashed up front, so sign the headers only and stream the body.
+        if (opts.size === undefined) {
+          throw new Error("S3 streaming uploads need a known size");
+        }
+        const signer = new AwsV4Signer({
+          method: "PUT",
+          url: objectUrl(key),
+          headers: {
+            ...headers,
+            "Content-Length": String(opts.size),
+            "X-Amz-Content-Sha256": "UNSIGNED-PAYLOAD",
+          },
+          accessKeyId: config.accessKeyId,
+          secretAccessKey: config.secretAccessKey,
+          region: config.region,
+          service: "s3",
+        });
+        const signed = await signer.sign();
+        res = await fetch(signed.url, {
+          method: "PUT",
+          headers: signed.headers,
+          body,
+          duplex: "half",
+        } as RequestInit);
+      }
+      if (!res.ok) throw new Error(`S3 PUT ${key}: ${res.status}`);
+      return {
+        key,
+        size: opts.size ?? (body as Uint8Array<ArrayBuffer>).byteLength,
+        contentType: headers["Content-Type"],
+      };
+    },
+
+    async get(key) {
+      const res = await send(key);
+      if (!res.ok) throw new Error(`S3 GET ${key}: ${res.status}`);
+      return new Uint8Array(await res.arrayBuffer());
+    },
+
+    async stream(key, range) {
+      const headers = new Headers();
+      if (range) headers.set("Range", `bytes=${range.start}-${range.end}`);
+      const res = await send(key, { headers });
+      if (!res.ok || !res.body) throw new Error(`S3 GET ${key}: ${res.status}`);
+      return res.body;
+    },
+
+    async delete(key) {
+      const res = await send(key, { method: "DELETE" });
+      if (!res.ok && res.status !== 404) {
+        throw new Error(`S3 DELETE ${key}: ${res.status}`);
+      }
+    },
+
+    async stat(key): Promise<StoredObject | null> {
+      const res = await send(key, { method: "HEAD" });
+      if (res.status === 404) return null;
+      if (!res.ok) throw new Error(`S3 HEAD ${key}: ${res.status}`);
+      const modified = res.headers.get("last-modified");
+      return {
+        key,
+        size: Number(res.headers.get("content-length") ?? 0),
+        contentType: res.headers.get("content-type") ?? undefined,
+        lastModified: modified ? new Date(modified) : undefined,
+      };
+    },
+
+    async signedUrl(key, opts) {
+      const url = new URL(objectUrl(key));
+      url.searchParams.set(
+        "X-Amz-Expires",
+        String(opts?.expiresIn ?? DEFAULT_EXPIRES_IN),
+      );
+      const signed = await client.sign(url.toString(), {
+        method: "GET",
+        aws: { signQuery: true },
+      });
+      return signed.url;
+    },
+
+    keyFromUrl(url) {
+      const prefix = config.publicUrl?.replace(/\/$/, "");
+      const href = url.toString();
+      if (!prefix || !href.startsWith(`${prefix}/`)) return null;
+      return decodeURIComponent(href.slice(prefix.length + 1));
+    },
+  };
+}
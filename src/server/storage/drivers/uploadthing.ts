@@ -0,0 +1,90 @@
+import { UTApi, UTFile } from "uploadthing/server";
+import { signedAssetPath } from "../signing";
+import type { StorageDriver, StoredObject } from "../types";
+import { readAll, sliceStream } from "../utils";
+
+// UploadThing serves every file from the app's CDN host under `/f/<key>`.
+export const UPLOADTHING_FILE_HOST = "t3rgh6yjwx.ufs.sh";
+
+export function uploadThingFileUrl(key: string) {
+  return `https://${UPLOADTHING_FILE_HOST}/f/${encodeURIComponent(key)}`;
+}
+
+/** Recognises public UploadThing CDN URLs; reading them needs no account. */
+export function uploadThingKeyFromUrl(url: URL) {
+  if (url.host !== UPLOADTHING_FILE_HOST) return null;
+  const match = /^\/f\/([^/]+)$/.exec(url.pathname);
+  return match ? decodeURIComponent(match[1]!) : null;
+}
+
+async function fetchFile(key: string, init: RequestInit = {}) {
+  return fetch(uploadThingFileUrl(key), { ...init, cache: "no-store" });
+}
+
+export function createUploadThingDriver(token?: string): StorageDriver {
+  let utapi: UTApi | null = null;
+  function api() {
+    if (!token) throw new Error("UPLOADTHING_TOKEN is not configured");
+    utapi ??= new UTApi({ token });
+    return utapi;
+  }
+
+  return {
+    name: "uploadthing",
+
+    async put(body, opts) {
+      const bytes = await readAll(body);
+      const file = new UTFile([bytes], opts.name, { type: opts.contentType });
+      const res = await api().uploadFiles(file);
+      if (res.error) throw new Error(res.error.message);
+      return {
+        key: res.data.key,
+        size: res.data.size,
+        contentType: opts.contentType,
+      };
+    },
+
+    async get(key) {
+      const res = await fetchFile(key);
+      if (!res.ok) throw new Error(`UploadThing GET ${key}: ${res.status}`);
+      return new Uint8Array(await res.arrayBuffer());
+    },
+
+    async stream(key, range) {
+      const headers = new Headers();
+      if (range) headers.set("Range", `bytes=${range.start}-${range.end}`);
+      const res = await fetchFile(key, { headers });
+      if (!res.ok || !res.body) {
+        throw new Error(`UploadThing GET ${key}: ${res.status}`);
+      }
+      // The CDN may answer a range request with the whole file
+      return range && res.status !== 206
+        ? sliceStream(res.body, range)
+        : res.body;
+    },
+
+    async delete(key) {
+      await api().deleteFiles(key);
+    },
+
+    async stat(key): Promise<StoredObject | null> {
+      const res = await fetchFile(key, { method: "HEAD" });
+      if (res.status === 404) return null;
+      if (!res.ok) throw new Error(`UploadThing HEAD ${key}: ${res.status}`);
+      const modified = res.headers.get("last-modified");
+      return {
+        key,
+        size: Number(res.headers.get("content-length") ?? 0),
+        contentType: res.headers.get("content-type") ?? undefined,
+        lastModified: modified ? new Date(modified) : undefined,
+      };
+    },
+
+    // A CDN link names the key, which also opens the file's permanent public URL
+    async signedUrl(key, opts) {
+      return signedAssetPath(key, opts?.expiresIn);
+    },
+
+    keyFromUrl: uploadThingKeyFromUrl,
+  };
+}
@@ -0,0 +1,78 @@
+import { env } from "~/env";
+import { createLocalDriver } from "./drivers/local";
+import { createS3Driver } from "./drivers/s3";
+import {
+  createUploadThingDriver,
+  uploadThingKeyFromUrl,
+} from "./drivers/uploadthing";
+import type { StorageDriver } from "./types";
+
+export type {
+  ByteRange,
+  StorageBody,
+  StorageDriver,
+  StorageDriverName,
+  StoredObject,
+} from "./types";
+
+const createStorage = (): StorageDriver => {
+  switch (env.STORAGE_DRIVER) {
+    case "local":
+      return createLocalDriver(env.STORAGE_LOCAL_DIR);
+    case "s3": {
+      const { S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } =
+        env;
+      if (
+        !S3_ENDPOINT ||
+        !S3_BUCKET ||
+        !S3_ACCESS_KEY_ID ||
+        !S3_SECRET_ACCESS_KEY
+      ) {
+        throw new Error(
+          "STORAGE_DRIVER=s3 requires S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY",
+        );
+      }
+      return createS3Driver({
+        endpoint: S3_ENDPOINT,
+        region: env.S3_REGION,
+        bucket: S3_BUCKET,
+        accessKeyId: S3_ACCESS_KEY_ID,
+        secretAccessKey: S3_SECRET_ACCESS_KEY,
+        publicUrl: env.S3_PUBLIC_URL,
+      });
+    }
+    default:
+      return createUploadThingDriver(env.UPLOADTHING_TOKEN);
+  }
+};
+
+const globalForStorage = globalThis as unknown as {
+  storage: StorageDriver | undefined;
+};
+
+export const storage = globalForStorage.storage ?? createStorage();
+
+if (env.NODE_ENV !== "production") globalForStorage.storage = storage;
+
+/**
+ * Maps a public asset URL to a storage key. URLs from the active backend come first; public
+ * UploadThing CDN links stay readable whichever driver is configured, since older pages embed them.
+ */
+export function resolveStorageUrl(
+  raw: string,
+): { key: string; driver: StorageDriver } | null {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return null;
+  }
+  const key = storage.keyFromUrl(url);
+  if (key) return { key, driver: storage };
+  const legacyKey = uploadThingKeyFromUrl(url);
+  if (!legacyKey) return null;
+  return {
+    key: legacyKey,
+    driver: createUploadThingDriver(env.UPLOADTHING_TOKEN),
+  };
+}
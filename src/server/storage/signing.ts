@@ -0,0 +1,63 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from "crypto";
+import { env } from "~/env";
+
+const DEFAULT_EXPIRES_IN = 60 * 60; // seconds
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+/** A fixed secret is only acceptable on a developer's machine, where nothing is worth forging. */
+function secret() {
+  if (env.AUTH_SECRET) return env.AUTH_SECRET;
+  if (env.NODE_ENV === "development") return "barnlabs-dev-signing-secret";
+  throw new Error("AUTH_SECRET must be set to sign and verify model URLs");
+}
+
+function sealingKey() {
+  return createHash("sha256").update(`asset-links:${secret()}`).digest();
+}
+
+/**
+ * Builds a time-limited path to the asset delivery route for `key`. The key and expiry travel
+ * encrypted, so the link reveals no storage key to build a permanent URL from.
+ */
+export function signedAssetPath(key: string, expiresIn = DEFAULT_EXPIRES_IN) {
+  const expires = Math.floor(Date.now() / 1000) + expiresIn;
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv("aes-256-gcm", sealingKey(), iv);
+  const sealed = Buffer.concat([
+    cipher.update(`${expires}:${key}`, "utf8"),
+    cipher.final(),
+  ]);
+  const token = Buffer.concat([iv, cipher.getAuthTag(), sealed]);
+  return `/api/models/signed/${token.toString("base64url")}`;
+}
+
+/** The storage key a signed asset path was made for; null once expired or if tampered with. */
+export function openAssetToken(token: string) {
+  const bytes = Buffer.from(token, "base64url");
+  if (bytes.length <= IV_BYTES + TAG_BYTES) return null;
+  let payload: string;
+  try {
+    const decipher = createDecipheriv(
+      "aes-256-gcm",
+      sealingKey(),
+      bytes.subarray(0, IV_BYTES),
+    );
+    decipher.setAuthTag(bytes.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+    payload = Buffer.concat([
+      decipher.update(bytes.subarray(IV_BYTES + TAG_BYTES)),
+      decipher.final(),
+    ]).toString("utf8");
+  } catch {
+    return null;
+  }
+  const split = payload.indexOf(":");
+  const expires = Number(payload.slice(0, split));
+  if (!(expires >= Date.now() / 1000)) return null;
+  return payload.slice(split + 1);
+}
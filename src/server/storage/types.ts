@@ -0,0 +1,40 @@
+export type StorageDriverName = "uploadthing" | "local" | "s3";
+
+export type StorageBody = Uint8Array<ArrayBuffer> | ReadableStream<Uint8Array>;
+
+export interface StoredObject {
+  key: string;
+  size: number;
+  contentType?: string;
+  lastModified?: Date;
+}
+
+/** Inclusive byte range, as in an HTTP `Range: bytes=start-end` header. */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface PutOptions {
+  /** Original file name; drivers derive the extension of the generated key from it. */
+  name: string;
+  contentType?: string;
+  /** Known byte length, required by some backends when `body` is a stream. */
+  size?: number;
+}
+
+/**
+ * Everything the app needs from a blob store. Drivers pick their own keys on `put`, and keys are
+ * never reused for different bytes.
+ */
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+  put(body: StorageBody, opts: PutOptions): Promise<StoredObject>;
+  get(key: string): Promise<Uint8Array<ArrayBuffer>>;
+  stream(key: string, range?: ByteRange): Promise<ReadableStream<Uint8Array>>;
+  delete(key: string): Promise<void>;
+  stat(key: string): Promise<StoredObject | null>;
+  signedUrl(key: string, opts?: { expiresIn?: number }): Promise<string>;
+  /** Maps a public URL produced by this backend back to its storage key. */
+  keyFromUrl(url: URL): string | null;
+}
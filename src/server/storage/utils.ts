@@ -0,0 +1,55 @@
+import { randomUUID } from "crypto";
+import type { ByteRange, StorageBody } from "./types";
+
+const KEY_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".glb": "model/gltf-binary",
+  ".usdz": "model/vnd.usdz+zip",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".webp": "image/webp",
+};
+
+function extensionOf(name: string) {
+  const match = /\.[A-Za-z0-9]{1,8}$/.exec(name);
+  return match ? match[0].toLowerCase() : "";
+}
+
+/** Generates an opaque, URL-safe key that keeps the original extension. */
+export function createStorageKey(name: string) {
+  return `${randomUUID()}${extensionOf(name)}`;
+}
+
+export function isValidStorageKey(key: string) {
+  return KEY_PATTERN.test(key) && !key.includes("..");
+}
+
+export function contentTypeForKey(key: string) {
+  return CONTENT_TYPES[extensionOf(key)] ?? "application/octet-stream";
+}
+
+export async function readAll(body: StorageBody) {
+  if (body instanceof Uint8Array) return body;
+  return new Uint8Array(await new Response(body).arrayBuffer());
+}
+
+/** Cuts the inclusive `range` out of a stream of the whole object. */
+export function sliceStream(
+  body: ReadableStream<Uint8Array>,
+  range: ByteRange,
+) {
+  let offset = 0;
+  return body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        const from = Math.max(range.start - offset, 0);
+        const to = Math.min(range.end + 1 - offset, chunk.byteLength);
+        offset += chunk.byteLength;
+        if (from < to) controller.enqueue(chunk.subarray(from, to));
+        if (offset > range.end) controller.terminate();
+      },
+    }),
+  );
+}
@@ -0,0 +1,531 @@
+import { posix } from "node:path";
+import type { Prisma } from "@prisma/client";
+import { logger } from "~/lib/logger";
+import { db } from "~/server/db";
+import { bytesSource, GlbValidationError, inspectGlb } from "~/server/gltf/glb";
+import {
+  IMPORT_MAX_BYTES,
+  importFormatOf,
+  ModelImportError,
+} from "~/server/gltf/import";
+import { enqueueJob } from "~/server/jobs/queue";
+import { nextCollectionPosition } from "~/server/models/collections";
+import {
+  MAX_TAG_LENGTH,
+  MAX_TAGS_PER_MODEL,
+  normalizeTags,
+  setModelTags,
+} from "~/server/models/library";
+import { assertWithinQuota, QuotaExceededError } from "~/server/models/quota";
+import { storage } from "~/server/storage";
+import {
+  MANIFEST_NAMES,
+  ManifestError,
+  parseManifest,
+  type ManifestRow,
+} from "~/server/uploads/manifest";
+import {
+  MAX_MODEL_BYTES,
+  recordModelUpload,
+  storageSource,
+} from "~/server/uploads/models";
+import {
+  listZipEntries,
+  readZipEntry,
+  ZipError,
+  type ZipEntry,
+} from "~/server/uploads/zip";
+
+export const BULK_IMPORT_MAX_BYTES = 2000 * 1024 * 1024;
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 5000;
+const MAX_CREDIT_LENGTH = 300;
+/** GLBs up to this size are inspected during the dry run; larger ones only when imported. */
+const DRY_RUN_INSPECT_BYTES = 64 * 1024 * 1024;
+
+/** One manifest row as the dry run found it. Rows with `errors` are skipped by the import. */
+export interface BulkImportItem {
+  row: number;
+  file: string;
+  /** The matching file in the zip, or null when it is missing. */
+  path: string | null;
+  title: string;
+  description: string | null;
+  credit: string | null;
+  tags: string[];
+  collection: string | null;
+  /** The collection does not exist yet and will be created. */
+  newCollection: boolean;
+  sizeBytes: number;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface BulkImportReport {
+  items: BulkImportItem[];
+  /** Problems with the import as a whole; any of these blocks it. */
+  errors: string[];
+  warnings: string[];
+  /** Size of the files that will be imported. */
+  totalBytes: number;
+}
+
+export interface BulkImportResult {
+  row: number;
+  file: string;
+  modelId?: string;
+  /** The model was created but its title, tags or collection may not be set yet. */
+  pending?: boolean;
+  error?: string;
+}
+
+export function parseBulkImportReport(
+  value: Prisma.JsonValue | null,
+): BulkImportReport | null {
+  const v = value as Partial<BulkImportReport> | null;
+  return Array.isArray(v?.items) ? (v as BulkImportReport) : null;
+}
+
+export function parseBulkImportResults(
+  value: Prisma.JsonValue | null,
+): BulkImportResult[] {
+  return Array.isArray(value) ? (value as unknown as BulkImportResult[]) : [];
+}
+
+/** Deletes the uploaded zip, leaving it to the job queue when storage fails. */
+async function discardZip(key: string) {
+  try {
+    await storage.delete(key);
+  } catch (err) {
+    logger.warn("Failed to delete bulk import zip", {
+      key,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    await enqueueJob("storage.delete", { key });
+  }
+}
+
+async function openZip(key: string) {
+  const object = await storage.stat(key);
+  if (!object) throw new ZipError("The uploaded zip was not found");
+  const source = storageSource(key, object.size);
+  return { source, entries: await listZipEntries(source) };
+}
+
+function findManifest(entries: ZipEntry[]) {
+  const manifests = entries.filter((e) =>
+    MANIFEST_NAMES.includes(posix.basename(e.name).toLowerCase()),
+  );
+  if (manifests.length === 0) {
+    throw new ManifestError(
+      `The zip has no ${MANIFEST_NAMES.join(" or ")} listing its models`,
+    );
+  }
+  if (manifests.length > 1) {
+    throw new ManifestError(
+      `The zip has ${manifests.length} manifests: ${manifests.map((m) => m.name).join(", ")}`,
+    );
+  }
+  return manifests[0]!;
+}
+
+/**
+ * The zip entry a manifest row points at. Paths are relative to the manifest's folder; case is
+ * ignored when there is no exact match, as manifests are often typed on Windows or macOS.
+ */
+function resolveEntry(entries: ZipEntry[], base: string, file: string) {
+  const path = posix.normalize(posix.join(base, file.replace(/\\/g, "/")));
+  return (
+    entries.find((e) => e.name === path) ??
+    entries.find((e) => e.name.toLowerCase() === path.toLowerCase())
+  );
+}
+
+function isModelFile(name: string) {
+  return /\.glb$/i.test(name) || importFormatOf(name) !== null;
+}
+
+async function checkRow(
+  row: ManifestRow,
+  entry: ZipEntry | undefined,
+  source: Parameters<typeof readZipEntry>[0],
+  item: BulkImportItem,
+) {
+  const { errors, warnings } = item;
+  if (!row.file) errors.push("No file given");
+  if (!row.title) errors.push("No title given");
+  if (row.title.length > MAX_TITLE_LENGTH) {
+    errors.push(`Title is longer than ${MAX_TITLE_LENGTH} characters`);
+  }
+  if ((row.description?.length ?? 0) > MAX_DESCRIPTION_LENGTH) {
+    errors.push(
+      `Description is longer than ${MAX_DESCRIPTION_LENGTH} characters`,
+    );
+  }
+  if ((row.credit?.length ?? 0) > MAX_CREDIT_LENGTH) {
+    errors.push(`Credit is longer than ${MAX_CREDIT_LENGTH} characters`);
+  }
+  if (item.tags.length < new Set(row.tags.map((t) => t.toLowerCase())).size) {
+    warnings.push(
+      `Some tags were dropped; models take ${MAX_TAGS_PER_MODEL} tags of at most ${MAX_TAG_LENGTH} characters`,
+    );
+  }
+  if (!row.file) return;
+  if (!entry) {
+    errors.push(`${row.file} is not in the zip`);
+    return;
+  }
+
+  const format = importFormatOf(entry.name);
+  if (!format && !/\.glb$/i.test(entry.name)) {
+    errors.push(`${posix.basename(entry.name)} is not a supported model file`);
+    return;
+  }
+  if (entry.size > MAX_MODEL_BYTES) {
+    errors.push(`File is larger than ${MAX_MODEL_BYTES / 1024 / 1024} MB`);
+    return;
+  }
+  if (format && entry.size > IMPORT_MAX_BYTES) {
+    errors.push(
+      `Files over ${IMPORT_MAX_BYTES / 1024 / 1024} MB cannot be converted; convert to GLB first`,
+    );
+    return;
+  }
+  if (format) {
+    warnings.push(`Will be converted from ${format.toUpperCase()} to GLB`);
+  } else if (entry.size <= DRY_RUN_INSPECT_BYTES) {
+    try {
+      await inspectGlb(bytesSource(await readZipEntry(source, entry)));
+    } catch (err) {
+      if (err instanceof GlbValidationError) {
+        errors.push(`Invalid GLB: ${err.message}`);
+      } else if (err instanceof ZipError) {
+        errors.push(err.message);
+      } else {
+        throw err;
+      }
+    }
+  }
+}
+
+/** The dry run: reads the manifest and checks every row against the zip, the library and quota. */
+async function buildReport(ownerId: string, key: string) {
+  const report: BulkImportReport = {
+    items: [],
+    errors: [],
+    warnings: [],
+    totalBytes: 0,
+  };
+  let zip: Awaited<ReturnType<typeof openZip>>;
+  let manifest: ZipEntry;
+  let rows: ManifestRow[];
+  try {
+    zip = await openZip(key);
+    manifest = findManifest(zip.entries);
+    rows = parseManifest(
+      manifest.name,
+      new TextDecoder().decode(await readZipEntry(zip.source, manifest)),
+    );
+  } catch (err) {
+    if (err instanceof ZipError || err instanceof ManifestError) {
+      report.errors.push(err.message);
+      return report;
+    }
+    throw err;
+  }
+
+  const base = posix.dirname(manifest.name);
+  const collections = await db.collection.findMany({
+    where: { ownerId },
+    select: { title: true },
+  });
+  const collectionCounts = new Map<string, number>();
+  for (const { title } of collections) {
+    const name = title.toLowerCase();
+    collectionCounts.set(name, (collectionCounts.get(name) ?? 0) + 1);
+  }
+
+  const listed = new Set<string>();
+  for (const row of rows) {
+    const entry = row.file
+      ? resolveEntry(zip.entries, base, row.file)
+      : undefined;
+    const item: BulkImportItem = {
+      row: row.row,
+      file: row.file,
+      path: entry?.name ?? null,
+      title: row.title,
+      description: row.description,
+      credit: row.credit,
+      tags: normalizeTags(row.tags),
+      collection: row.collection,
+      newCollection: false,
+      sizeBytes: entry?.size ?? 0,
+      errors: [],
+      warnings: [],
+    };
+    if (entry && listed.has(entry.name)) {
+      item.errors.push(`${entry.name} is listed more than once`);
+    } else {
+      await checkRow(row, entry, zip.source, item);
+    }
+    if (entry) listed.add(entry.name);
+    if (row.collection) {
+      const matches = collectionCounts.get(row.collection.toLowerCase()) ?? 0;
+      if (matches > 1) {
+        item.errors.push(
+          `${matches} of your collections are called "${row.collection}"; rename all but one`,
+        );
+      }
+      item.newCollection = matches === 0;
+    }
+    if (item.errors.length === 0) report.totalBytes += item.sizeBytes;
+    report.items.push(item);
+  }
+
+  const unlisted = zip.entries.filter(
+    (e) => isModelFile(e.name) && !listed.has(e.name),
+  );
+  if (unlisted.length > 0) {
+    const names = unlisted.slice(0, 5).map((e) => e.name);
+    report.warnings.push(
+      `${unlisted.length} model files in the zip are not in the manifest and will be skipped: ${names.join(", ")}${unlisted.length > names.length ? ", …" : ""}`,
+    );
+  }
+  const importable = report.items.filter((i) => i.errors.length === 0);
+  if (importable.length === 0) {
+    report.errors.push("No row can be imported");
+  } else {
+    try {
+      await assertWithinQuota(ownerId, {
+        bytes: report.totalBytes,
+        newModel: true,
+        newModels: importable.length,
+      });
+    } catch (err) {
+      if (!(err instanceof QuotaExceededError)) throw err;
+      report.errors.push(err.message);
+    }
+  }
+  return report;
+}
+
+/** Records an uploaded zip and queues its dry run. */
+export async function createBulkImport(input: {
+  ownerId: string;
+  name: string;
+  storageId: string;
+  optimize: boolean;
+}) {
+  const bulk = await db.bulkImport.create({ data: input });
+  await enqueueJob("import.validate", { importId: bulk.id });
+  return bulk;
+}
+
+/** Job handler: builds the dry-run report. Nothing is created until the import is started. */
+export async function validateBulkImport(importId: string) {
+  const bulk = await db.bulkImport.findUnique({ where: { id: importId } });
+  if (bulk?.status !== "VALIDATING" || !bulk.storageId) return;
+  const report = await buildReport(bulk.ownerId, bulk.storageId);
+  await db.bulkImport.update({
+    where: { id: importId },
+    data: {
+      status: report.errors.length === 0 ? "READY" : "INVALID",
+      report: report as unknown as Prisma.InputJsonValue,
+    },
+  });
+}
+
+/** Queues the import of a validated zip. Returns false unless it was ready. */
+export async function startBulkImport(importId: string, actorId: string) {
+  const started = await db.bulkImport.updateMany({
+    where: { id: importId, status: "READY" },
+    data: { status: "IMPORTING" },
+  });
+  if (started.count === 0) return false;
+  await enqueueJob("import.run", { importId });
+  await db.auditLog.create({
+    data: {
+      actorId,
+      event: "BULK_IMPORT_STARTED",
+      details: { importId },
+    },
+  });
+  return true;
+}
+
+/** Finds the owner's collection with this title, or creates it at the top level. */
+async function collectionFor(ownerId: string, title: string) {
+  const existing = await db.collection.findFirst({
+    where: { ownerId, title: { equals: title, mode: "insensitive" } },
+    select: { id: true },
+  });
+  if (existing) return existing.id;
+  const created = await db.collection.create({
+    data: {
+      title,
+      ownerId,
+      position: await nextCollectionPosition(ownerId, null),
+    },
+  });
+  return created.id;
+}
+
+/** Stores a row's file and creates its model, as uploaded. */
+async function importItem(
+  bulk: { id: string; ownerId: string; optimize: boolean },
+  source: Parameters<typeof readZipEntry>[0],
+  entry: ZipEntry,
+  item: BulkImportItem,
+) {
+  await assertWithinQuota(bulk.ownerId, {
+    bytes: entry.size,
+    newModel: true,
+  });
+  // Entries are read from storage or inflated, never from a shared buffer
+  const bytes = (await readZipEntry(source, entry)) as Uint8Array<ArrayBuffer>;
+  const name = posix.basename(entry.name);
+  const stored = await storage.put(bytes, {
+    name,
+    contentType: "application/octet-stream",
+    size: bytes.byteLength,
+  });
+  const model = await recordModelUpload({
+    userId: bulk.ownerId,
+    key: stored.key,
+    name,
+    type: "application/octet-stream",
+    optimize: bulk.optimize,
+  });
+  await db.auditLog.create({
+    data: {
+      actorId: bulk.ownerId,
+      event: "MODEL_IMPORTED",
+      details: {
+        importId: bulk.id,
+        row: item.row,
+        file: item.file,
+        modelId: model.id,
+        title: item.title,
+        collection: item.collection,
+        key: model.key,
+        sourceFormat: model.sourceFormat,
+      },
+    },
+  });
+  return model.id;
+}
+
+/** Gives an imported model its row's details. Safe to repeat when a retry gets here again. */
+async function describeItem(
+  bulk: { ownerId: string },
+  modelId: string,
+  item: BulkImportItem,
+) {
+  await db.model.update({
+    where: { id: modelId },
+    data: {
+      title: item.title,
+      description: item.description,
+      credit: item.credit,
+    },
+  });
+  if (item.tags.length > 0) await setModelTags(modelId, item.tags);
+  if (item.collection) {
+    const collectionId = await collectionFor(bulk.ownerId, item.collection);
+    const filed = await db.collectionModel.findUnique({
+      where: { collectionId_modelId: { collectionId, modelId } },
+    });
+    if (!filed) {
+      const last = await db.collectionModel.aggregate({
+        where: { collectionId },
+        _max: { position: true },
+      });
+      await db.collectionModel.create({
+        data: {
+          collectionId,
+          modelId,
+          position: (last._max.position ?? -1) + 1,
+        },
+      });
+    }
+  }
+}
+
+/**
+ * Job handler: imports every row that passed the dry run, recording each outcome as it goes so a
+ * retried job carries on where the last attempt stopped. A row that cannot be imported is noted
+ * and skipped; storage and database failures fail the job for the queue to retry.
+ */
+export async function runBulkImport(importId: string) {
+  const bulk = await db.bulkImport.findUnique({ where: { id: importId } });
+  if (bulk?.status !== "IMPORTING" || !bulk.storageId) return;
+  const report = parseBulkImportReport(bulk.report);
+  const results = parseBulkImportResults(bulk.results);
+  const { source, entries } = await openZip(bulk.storageId);
+  const save = (result: BulkImportResult) => {
+    const i = results.findIndex((r) => r.row === result.row);
+    if (i === -1) results.push(result);
+    else results[i] = result;
+    return db.bulkImport.update({
+      where: { id: importId },
+      data: { results: results as unknown as Prisma.InputJsonValue },
+    });
+  };
+
+  for (const item of report?.items ?? []) {
+    const previous = results.find((r) => r.row === item.row);
+    if (item.errors.length > 0 || (previous && !previous.pending)) continue;
+    const entry = entries.find((e) => e.name === item.path);
+    // A model created by an earlier attempt is finished rather than imported again
+    let modelId = previous?.modelId;
+    try {
+      if (!modelId) {
+        if (!entry) throw new ZipError(`${item.file} is not in the zip`);
+        modelId = await importItem(bulk, source, entry, item);
+        await save({ row: item.row, file: item.file, modelId, pending: true });
+      }
+    } catch (err) {
+      if (
+        !(err instanceof GlbValidationError) &&
+        !(err instanceof ModelImportError) &&
+        !(err instanceof QuotaExceededError) &&
+        !(err instanceof ZipError)
+      ) {
+        throw err;
+      }
+      await save({ row: item.row, file: item.file, error: err.message });
+      continue;
+    }
+    await describeItem(bulk, modelId, item);
+    await save({ row: item.row, file: item.file, modelId });
+  }
+
+  await db.bulkImport.update({
+    where: { id: importId },
+    data: { status: "DONE", storageId: null },
+  });
+  await db.auditLog.create({
+    data: {
+      actorId: bulk.ownerId,
+      event: "BULK_IMPORT_COMPLETED",
+      details: {
+        importId,
+        name: bulk.name,
+        modelIds: results.flatMap((r) => (r.modelId ? [r.modelId] : [])),
+        failed: results.filter((r) => r.error).length,
+      },
+    },
+  });
+  await discardZip(bulk.storageId);
+}
+
+/** Drops an import that has not started, with its zip. Returns false while one is running. */
+export async function discardBulkImport(importId: string) {
+  const bulk = await db.bulkImport.findUnique({ where: { id: importId } });
+  if (!bulk) return true;
+  if (bulk.status === "IMPORTING") return false;
+  await db.bulkImport.delete({ where: { id: importId } });
+  if (bulk.storageId) await discardZip(bulk.storageId);
+  return true;
+}
@@ -0,0 +1,153 @@
+/**
+ * Bulk import manifests: a `manifest.csv` or `manifest.json` in the zip, one row per model. CSV
+ * needs a header row; columns are `file` and `title` (required), `description`, `credit` (or
+ * `credits`), `tags` (separated by `;`, `|` or `,`) and `collection` (a collection title).
+ * JSON is an array of objects with the same keys, or `{ "models": [...] }`; `tags` may be an array.
+ */
+
+export const MANIFEST_NAMES = ["manifest.csv", "manifest.json"];
+export const MAX_MANIFEST_ROWS = 500;
+
+export class ManifestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ManifestError";
+  }
+}
+
+export interface ManifestRow {
+  /** Row number as the author sees it: the CSV line after the header, or the JSON array index + 1. */
+  row: number;
+  file: string;
+  title: string;
+  description: string | null;
+  credit: string | null;
+  tags: string[];
+  collection: string | null;
+}
+
+/** RFC 4180 records: quoted fields may hold commas, quotes (doubled) and line breaks. */
+function parseCsv(text: string) {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"' && field === "") {
+      quoted = true;
+    } else if (c === ",") {
+      record.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  if (quoted) throw new ManifestError("Unterminated quoted field in CSV");
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  // Blank lines, including the usual trailing one
+  return records.filter((r) => r.some((f) => f.trim() !== ""));
+}
+
+function text(value: unknown) {
+  if (typeof value === "number") return String(value);
+  if (typeof value !== "string") return null;
+  return value.trim() || null;
+}
+
+function splitTags(value: unknown) {
+  if (Array.isArray(value)) {
+    return value.map(text).filter((t): t is string => t !== null);
+  }
+  return (text(value) ?? "")
+    .split(/[;|,]/)
+    .map((t) => t.trim())
+    .filter(Boolean);
+}
+
+function toRow(fields: Record<string, unknown>, row: number): ManifestRow {
+  return {
+    row,
+    file: text(fields.file) ?? "",
+    title: text(fields.title) ?? "",
+    description: text(fields.description),
+    credit: text(fields.credit ?? fields.credits),
+    tags: splitTags(fields.tags),
+    collection: text(fields.collection),
+  };
+}
+
+function parseCsvManifest(source: string): ManifestRow[] {
+  const [header, ...records] = parseCsv(source);
+  if (!header) throw new ManifestError("Manifest is empty");
+  const columns = header.map((h) => h.trim().toLowerCase());
+  for (const required of ["file", "title"]) {
+    if (!columns.includes(required)) {
+      throw new ManifestError(`Manifest has no "${required}" column`);
+    }
+  }
+  return records.map((record, i) =>
+    toRow(Object.fromEntries(columns.map((c, j) => [c, record[j]])), i + 1),
+  );
+}
+
+function parseJsonManifest(source: string): ManifestRow[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(source);
+  } catch {
+    throw new ManifestError("Manifest is not valid JSON");
+  }
+  const rows =
+    json && typeof json === "object" && "models" in json ? json.models : json;
+  if (!Array.isArray(rows)) {
+    throw new ManifestError(
+      'Manifest must be an array of models or { "models": [...] }',
+    );
+  }
+  return rows.map((value, i) => {
+    if (!value || typeof value !== "object") {
+      throw new ManifestError(`Entry ${i + 1} is not an object`);
+    }
+    const fields = Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([k, v]) => [
+        k.toLowerCase(),
+        v,
+      ]),
+    );
+    return toRow(fields, i + 1);
+  });
+}
+
+/** Parses a manifest by its file name. Throws `ManifestError` when it cannot be read at all. */
+export function parseManifest(name: string, source: string): ManifestRow[] {
+  const body = source.replace(/^\uFEFF/, "");
+  const rows = name.toLowerCase().endsWith(".json")
+    ? parseJsonManifest(body)
+    : parseCsvManifest(body);
+  if (rows.length === 0) throw new ManifestError("Manifest lists no models");
+  if (rows.length > MAX_MANIFEST_ROWS) {
+    throw new ManifestError(
+      `Manifest lists ${rows.length} models; import at most ${MAX_MANIFEST_ROWS} at a time`,
+    );
+  }
+  return rows;
+}
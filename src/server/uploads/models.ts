@@ -0,0 +1,304 @@
+import { db } from "~/server/db";
+import {
+  type ByteSource,
+  inspectGlb,
+  GlbValidationError,
+} from "~/server/gltf/glb";
+import {
+  convertToGlb,
+  IMPORT_MAX_BYTES,
+  importFormatOf,
+  ModelImportError,
+} from "~/server/gltf/import";
+import { storeOnce } from "~/server/models/dedup";
+import { deleteIfUnreferenced } from "~/server/models/files";
+import { scheduleOptimization } from "~/server/models/optimization";
+import { recordStoredFile } from "~/server/models/quota";
+import {
+  addModelVersion,
+  createModel,
+  setCurrentUsdz,
+  type VersionSource,
+} from "~/server/models/versions";
+import { storage } from "~/server/storage";
+import { readAll } from "~/server/storage/utils";
+import { scheduleUsdzConversion } from "~/server/usdz/generate";
+import { inspectUsdz, UsdzValidationError } from "~/server/usdz/usdz";
+
+export const MAX_MODEL_BYTES = 512 * 1024 * 1024;
+export const MODEL_CONTENT_TYPES = [
+  "model/gltf-binary",
+  "application/octet-stream",
+];
+/**
+ * Whether an upload may be a model: a GLB by content type, or another format recognised by its
+ * file extension, since browsers report those inconsistently.
+ */
+export function isModelUpload(name: string, type: string) {
+  return MODEL_CONTENT_TYPES.includes(type) || importFormatOf(name) !== null;
+}
+export const USDZ_CONTENT_TYPES = [
+  "model/vnd.usdz+zip",
+  "model/usd",
+  "application/octet-stream",
+];
+
+/** Ranged reads against a stored object, so inspection never loads the whole file. */
+export function storageSource(key: string, size: number): ByteSource {
+  return {
+    size,
+    read: async (start, end) =>
+      readAll(await storage.stream(key, { start, end: end - 1 })),
+  };
+}
+
+/** Validates a stored GLB. Throws `GlbValidationError` when it is not glTF 2.0. */
+export async function inspectStoredModel(key: string) {
+  const object = await storage.stat(key);
+  if (!object) throw new GlbValidationError("Uploaded file was not found");
+  const inspection = await inspectGlb(storageSource(key, object.size));
+  return { inspection, sizeBytes: object.size };
+}
+
+/**
+ * Converts an upload in another format (OBJ, STL, PLY, FBX, glTF or a zip of them) to a stored
+ * GLB. Returns null for GLB uploads, which are used as they are.
+ */
+async function importUpload(key: string, name: string) {
+  const format = importFormatOf(name);
+  if (!format) return null;
+  const object = await storage.stat(key);
+  if (!object) throw new ModelImportError("Uploaded file was not found");
+  if (object.size > IMPORT_MAX_BYTES) {
+    throw new ModelImportError(
+      `Files over ${IMPORT_MAX_BYTES / 1024 / 1024} MB cannot be converted; convert to GLB before uploading`,
+    );
+  }
+  const { glb, warnings } = await convertToGlb(
+    await readAll(await storage.stream(key)),
+    name,
+  );
+  const stored = await storage.put(glb, {
+    name: `${name.replace(/\.[^.]+$/, "")}.glb`,
+    contentType: "model/gltf-binary",
+    size: glb.byteLength,
+  });
+  const source: VersionSource = { storageId: key, format, warnings };
+  return { key: stored.key, source, sourceBytes: object.size };
+}
+
+/**
+ * Records a freshly stored model file, either as a new `Model` or, with `modelId`, as a new
+ * version of an existing one. Shared by the UploadThing callback and the direct upload route used
+ * by the local and S3 drivers. Other formats are converted to GLB first and kept as the version's
+ * source. Files that fail conversion or inspection are deleted again and the `ModelImportError` or
+ * `GlbValidationError` is rethrown for the caller to report. A file identical to one already
+ * stored is dropped in favour of the existing copy; the returned `key` is the one kept and
+ * `deduplicated` says so.
+ */
+export async function recordModelUpload(upload: {
+  userId: string;
+  key: string;
+  name: string;
+  type: string;
+  url?: string;
+  modelId?: string;
+  /** Build a lighter derivative for the viewer once the upload is recorded. */
+  optimize?: boolean;
+}) {
+  let imported: Awaited<ReturnType<typeof importUpload>> = null;
+  let stats: Awaited<ReturnType<typeof inspectStoredModel>>;
+  try {
+    imported = await importUpload(upload.key, upload.name);
+    stats = await inspectStoredModel(imported?.key ?? upload.key);
+  } catch (err) {
+    await storage.delete(upload.key).catch(() => undefined);
+    if (imported) await storage.delete(imported.key).catch(() => undefined);
+    await db.auditLog.create({
+      data: {
+        actorId: upload.userId,
+        event: "FILE_REJECTED",
+        details: {
+          key: upload.key,
+          type: upload.type,
+          reason: err instanceof Error ? err.message : String(err),
+        },
+      },
+    });
+    throw err;
+  }
+
+  // New versions are charged to the model owner
+  const ownerId = upload.modelId
+    ? (
+        await db.model.findUniqueOrThrow({
+          where: { id: upload.modelId },
+          select: { ownerId: true },
+        })
+      ).ownerId
+    : upload.userId;
+  const { key, sha256, deduplicated } = await storeOnce(
+    imported?.key ?? upload.key,
+    ownerId,
+    stats.sizeBytes,
+  );
+  const source = imported?.source;
+  if (imported) {
+    await recordStoredFile(upload.key, ownerId, imported.sourceBytes);
+  }
+
+  let rec;
+  let version: number;
+  if (upload.modelId) {
+    const added = await addModelVersion({
+      modelId: upload.modelId,
+      userId: upload.userId,
+      glbStorageId: key,
+      stats,
+      source,
+    });
+    version = added.version;
+    rec = await db.model.findUniqueOrThrow({ where: { id: upload.modelId } });
+    await scheduleUsdzConversion(added.id);
+    if (upload.optimize) await scheduleOptimization(added.id);
+  } else {
+    rec = await createModel({
+      title: upload.name,
+      description: `Uploaded ${upload.type} model`,
+      ownerId: upload.userId,
+      glbStorageId: key, // Store the key as storageId
+      stats,
+      source,
+    });
+    version = 1;
+    await scheduleUsdzConversion(rec.currentVersionId!);
+    if (upload.optimize) await scheduleOptimization(rec.currentVersionId!);
+  }
+  await db.auditLog.create({
+    data: {
+      actorId: upload.userId,
+      event: "FILE_UPLOADED",
+      details: {
+        key,
+        url: upload.url,
+        type: upload.type,
+        modelId: rec.id,
+        version,
+        sha256,
+        deduplicated,
+        sourceKey: source?.storageId,
+        sourceFormat: source?.format,
+        importWarnings: source?.warnings,
+      },
+    },
+  });
+  return {
+    ...rec,
+    key,
+    sha256,
+    deduplicated,
+    sourceFormat: source?.format ?? null,
+    importWarnings: source?.warnings ?? [],
+  };
+}
+
+/** Validates a stored USDZ. Throws `UsdzValidationError` when it breaks the package rules. */
+export async function inspectStoredUsdz(key: string) {
+  const object = await storage.stat(key);
+  if (!object) throw new UsdzValidationError("Uploaded file was not found");
+  return inspectUsdz(storageSource(key, object.size));
+}
+
+/**
+ * Pairs a freshly stored USDZ with the current version of `modelId`, replacing any previous
+ * companion. Invalid packages are deleted again and the `UsdzValidationError` is rethrown.
+ */
+export async function recordUsdzUpload(upload: {
+  userId: string;
+  key: string;
+  type: string;
+  modelId: string;
+  url?: string;
+}) {
+  let inspection: Awaited<ReturnType<typeof inspectStoredUsdz>>;
+  try {
+    inspection = await inspectStoredUsdz(upload.key);
+  } catch (err) {
+    await storage.delete(upload.key).catch(() => undefined);
+    await db.auditLog.create({
+      data: {
+        actorId: upload.userId,
+        event: "FILE_REJECTED",
+        details: {
+          key: upload.key,
+          type: upload.type,
+          modelId: upload.modelId,
+          reason: err instanceof Error ? err.message : String(err),
+        },
+      },
+    });
+    throw err;
+  }
+
+  const previous = await setCurrentUsdz(upload.modelId, upload.key);
+  const { ownerId } = await db.model.findUniqueOrThrow({
+    where: { id: upload.modelId },
+    select: { ownerId: true },
+  });
+  await recordStoredFile(upload.key, ownerId);
+  if (previous && previous !== upload.key) {
+    await deleteIfUnreferenced(previous, upload.modelId);
+  }
+  await db.auditLog.create({
+    data: {
+      actorId: upload.userId,
+      event: "USDZ_ATTACHED",
+      details: {
+        key: upload.key,
+        url: upload.url,
+        modelId: upload.modelId,
+        replaced: previous,
+        rootLayer: inspection.rootLayer,
+      },
+    },
+  });
+  return db.model.findUniqueOrThrow({ where: { id: upload.modelId } });
+}
+
+/** Unpairs the USDZ from the model's current version and deletes the file. */
+export async function removeUsdz(modelId: string, userId: string) {
+  const previous = await setCurrentUsdz(modelId, null);
+  if (previous) await deleteIfUnreferenced(previous, modelId);
+  await db.auditLog.create({
+    data: {
+      actorId: userId,
+      event: "USDZ_REMOVED",
+      details: { modelId, key: previous },
+    },
+  });
+  return db.model.findUniqueOrThrow({ where: { id: modelId } });
+}
+
+type StoredFiles = {
+  glbStorageId: string;
+  usdzStorageId: string | null;
+  optimizedGlbStorageId: string | null;
+  sourceStorageId?: string | null;
+};
+
+/**
+ * Releases the stored files of a model and all its versions, deleting those no other model uses.
+ * Failures are logged, not thrown: the rows are already gone.
+ */
+export async function deleteModelFiles(
+  model: StoredFiles & { id: string; versions?: StoredFiles[] },
+) {
+  const keys = new Set<string>();
+  for (const files of [model, ...(model.versions ?? [])]) {
+    keys.add(files.glbStorageId);
+    if (files.usdzStorageId) keys.add(files.usdzStorageId);
+    if (files.optimizedGlbStorageId) keys.add(files.optimizedGlbStorageId);
+    if (files.sourceStorageId) keys.add(files.sourceStorageId);
+  }
+  for (const key of keys) await deleteIfUnreferenced(key, model.id);
+}
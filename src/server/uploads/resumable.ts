@@ -0,0 +1,290 @@
+import { createHash } from "crypto";
+import type { UploadSession } from "@prisma/client";
+import { logger } from "~/lib/logger";
+import { db } from "~/server/db";
+import { enqueueJob } from "~/server/jobs/queue";
+import { storage } from "~/server/storage";
+
+/** Size of every chunk but the last; small enough to retry cheaply on a flaky connection. */
+export const RESUMABLE_CHUNK_BYTES = 8 * 1024 * 1024;
+/** An upload nobody has sent a chunk to for this long is discarded. */
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** A request the resumable upload protocol refuses; `status` is the HTTP status to answer with. */
+export class UploadSessionError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = "UploadSessionError";
+  }
+}
+
+function chunkCount(session: Pick<UploadSession, "size" | "chunkSize">) {
+  return Math.ceil(session.size / session.chunkSize);
+}
+
+function expectedChunkBytes(
+  session: Pick<UploadSession, "size" | "chunkSize">,
+  index: number,
+) {
+  const last = chunkCount(session) - 1;
+  return index < last
+    ? session.chunkSize
+    : session.size - session.chunkSize * last;
+}
+
+function expiresAt() {
+  return new Date(Date.now() + SESSION_TTL_MS);
+}
+
+/** Deletes a chunk file, leaving it to the job queue when storage fails. */
+async function discardPart(key: string) {
+  try {
+    await storage.delete(key);
+  } catch (err) {
+    logger.warn("Failed to delete upload chunk", {
+      key,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    await enqueueJob("storage.delete", { key });
+  }
+}
+
+export async function createUploadSession(input: {
+  ownerId: string;
+  modelId?: string;
+  name: string;
+  contentType: string;
+  size: number;
+  optimize: boolean;
+  /** `"bulk-import"` for a zip of models with a manifest; see `~/server/uploads/bulk`. */
+  purpose?: string;
+}) {
+  const session = await db.uploadSession.create({
+    data: {
+      ...input,
+      chunkSize: RESUMABLE_CHUNK_BYTES,
+      expiresAt: expiresAt(),
+    },
+  });
+  await enqueueJob(
+    "upload.expire",
+    { sessionId: session.id },
+    { runAt: session.expiresAt },
+  );
+  return session;
+}
+
+/** Loads the caller's own upload session with the chunks received so far. */
+export async function getUploadSession(id: string, ownerId: string) {
+  const session = await db.uploadSession.findUnique({
+    where: { id },
+    include: {
+      chunks: {
+        select: { index: true, size: true },
+        orderBy: { index: "asc" },
+      },
+    },
+  });
+  if (session?.ownerId !== ownerId) {
+    throw new UploadSessionError("upload not found", 404);
+  }
+  return session;
+}
+
+/** What a client needs to resume: the chunk layout and which chunks already arrived. */
+export function describeUploadSession(
+  session: Awaited<ReturnType<typeof getUploadSession>>,
+) {
+  return {
+    id: session.id,
+    name: session.name,
+    size: session.size,
+    chunkSize: session.chunkSize,
+    chunkCount: chunkCount(session),
+    received: session.chunks.map((c) => c.index),
+    receivedBytes: session.chunks.reduce((sum, c) => sum + c.size, 0),
+    expiresAt: session.expiresAt,
+  };
+}
+
+/**
+ * Reads a chunk's request body, giving up as soon as it runs past the session's chunk size rather
+ * than trusting `Content-Length`.
+ */
+export async function readChunk(
+  session: Pick<UploadSession, "chunkSize">,
+  body: ReadableStream<Uint8Array> | null,
+) {
+  const bytes = new Uint8Array(session.chunkSize);
+  let length = 0;
+  if (!body) return bytes.subarray(0, length);
+  const reader = body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (length + value.byteLength > bytes.byteLength) {
+      await reader.cancel();
+      throw new UploadSessionError("chunk too large", 413);
+    }
+    bytes.set(value, length);
+    length += value.byteLength;
+  }
+  return bytes.subarray(0, length);
+}
+
+/**
+ * Stores one chunk after checking its length and SHA-256 (base64, as sent by the client). Sending
+ * a chunk again replaces the earlier copy.
+ */
+export async function putChunk(
+  session: UploadSession,
+  index: number,
+  bytes: Uint8Array<ArrayBuffer>,
+  sha256: string,
+) {
+  if (session.completing) {
+    throw new UploadSessionError("upload is being completed", 409);
+  }
+  if (!Number.isInteger(index) || index < 0 || index >= chunkCount(session)) {
+    throw new UploadSessionError("chunk index out of range", 400);
+  }
+  if (bytes.byteLength !== expectedChunkBytes(session, index)) {
+    throw new UploadSessionError(
+      `chunk ${index} must be ${expectedChunkBytes(session, index)} bytes`,
+      400,
+    );
+  }
+  const digest = createHash("sha256").update(bytes).digest("base64");
+  if (digest !== sha256) {
+    throw new UploadSessionError("checksum mismatch", 422);
+  }
+
+  const stored = await storage.put(bytes, {
+    name: `${session.id}.part`,
+    contentType: "application/octet-stream",
+    size: bytes.byteLength,
+  });
+  const previous = await db.uploadChunk.findUnique({
+    where: { sessionId_index: { sessionId: session.id, index } },
+  });
+  await db.uploadChunk.upsert({
+    where: { sessionId_index: { sessionId: session.id, index } },
+    create: {
+      sessionId: session.id,
+      index,
+      key: stored.key,
+      size: bytes.byteLength,
+      sha256: digest,
+    },
+    update: { key: stored.key, size: bytes.byteLength, sha256: digest },
+  });
+  if (previous && previous.key !== stored.key) await discardPart(previous.key);
+  await db.uploadSession.update({
+    where: { id: session.id },
+    data: { expiresAt: expiresAt() },
+  });
+}
+
+/** Reads the chunk files one after another as a single stream. */
+function joinParts(keys: string[]) {
+  let next = 0;
+  let reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      for (;;) {
+        if (!reader) {
+          const key = keys[next++];
+          if (!key) {
+            controller.close();
+            return;
+          }
+          reader = (await storage.stream(key)).getReader();
+        }
+        const { done, value } = await reader.read();
+        if (!done) {
+          controller.enqueue(value);
+          return;
+        }
+        reader = null;
+      }
+    },
+  });
+}
+
+/**
+ * Joins the chunks into the final file and ends the session. Returns the stored key; recording
+ * the model is left to the caller, as with the single-request upload routes.
+ */
+export async function completeUploadSession(session: UploadSession) {
+  // Claimed first, so a second request cannot join the same chunks while this one does
+  const claim = await db.uploadSession.updateMany({
+    where: { id: session.id, completing: false },
+    data: { completing: true },
+  });
+  if (claim.count !== 1) {
+    throw new UploadSessionError("upload is already being completed", 409);
+  }
+  let keys: string[];
+  let key: string;
+  try {
+    const chunks = await db.uploadChunk.findMany({
+      where: { sessionId: session.id },
+      orderBy: { index: "asc" },
+    });
+    const missing = chunkCount(session) - chunks.length;
+    if (missing > 0) {
+      throw new UploadSessionError(`${missing} chunks still missing`, 409);
+    }
+    keys = chunks.map((c) => c.key);
+    const stored = await storage.put(joinParts(keys), {
+      name: session.name,
+      contentType: session.contentType,
+      size: session.size,
+    });
+    if (stored.size !== session.size) {
+      await storage.delete(stored.key).catch(() => undefined);
+      throw new UploadSessionError("joined file has the wrong size", 500);
+    }
+    key = stored.key;
+  } catch (err) {
+    // Leaves the upload to be completed again
+    await db.uploadSession.updateMany({
+      where: { id: session.id },
+      data: { completing: false },
+    });
+    throw err;
+  }
+  await db.uploadSession.delete({ where: { id: session.id } });
+  for (const part of keys) await discardPart(part);
+  return key;
+}
+
+/** Drops an unfinished upload and its chunks. */
+export async function abortUploadSession(sessionId: string) {
+  const chunks = await db.uploadChunk.findMany({
+    where: { sessionId },
+    select: { key: true },
+  });
+  await db.uploadSession.deleteMany({ where: { id: sessionId } });
+  for (const { key } of chunks) await discardPart(key);
+}
+
+/** Job handler: aborts the upload once expired, or checks again when it has been resumed since. */
+export async function expireUploadSession(sessionId: string) {
+  const session = await db.uploadSession.findUnique({
+    where: { id: sessionId },
+  });
+  if (!session) return;
+  if (session.expiresAt > new Date()) {
+    await enqueueJob(
+      "upload.expire",
+      { sessionId },
+      { runAt: session.expiresAt },
+    );
+    return;
+  }
+  await abortUploadSession(sessionId);
+}
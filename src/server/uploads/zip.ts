@@ -0,0 +1,159 @@
+/**
+ * Reads plain zip archives through ranged reads: the central directory first, then one entry at a
+ * time on demand, so an archive far larger than memory can be unpacked piece by piece.
+ *
+ * @see https://pkware.cachefly.net/webdocs/casestudies/APPNOTE.TXT
+ */
+import { inflateRawSync } from "node:zlib";
+import type { ByteSource } from "~/server/gltf/glb";
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const EOCD_BYTES = 22;
+const MAX_COMMENT_BYTES = 0xffff;
+const CENTRAL_HEADER_BYTES = 46;
+const LOCAL_HEADER_BYTES = 30;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+export class ZipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ZipError";
+  }
+}
+
+export interface ZipEntry {
+  /** Path inside the archive, with forward slashes. */
+  name: string;
+  size: number;
+  compressedSize: number;
+  method: number;
+  encrypted: boolean;
+  localOffset: number;
+}
+
+function findEndOfCentralDirectory(tail: Uint8Array) {
+  const view = new DataView(tail.buffer, tail.byteOffset, tail.byteLength);
+  for (let i = tail.byteLength - EOCD_BYTES; i >= 0; i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) return i;
+  }
+  return -1;
+}
+
+/** Every file in the archive; folders and macOS resource forks are left out. */
+export async function listZipEntries(source: ByteSource): Promise<ZipEntry[]> {
+  if (source.size < EOCD_BYTES) throw new ZipError("Not a zip archive");
+  const tailStart = Math.max(0, source.size - EOCD_BYTES - MAX_COMMENT_BYTES);
+  const tail = await source.read(tailStart, source.size);
+  const eocd = findEndOfCentralDirectory(tail);
+  if (eocd === -1) throw new ZipError("Not a zip archive");
+  const eocdView = new DataView(
+    tail.buffer,
+    tail.byteOffset + eocd,
+    EOCD_BYTES,
+  );
+  const entryCount = eocdView.getUint16(10, true);
+  const directorySize = eocdView.getUint32(12, true);
+  const directoryOffset = eocdView.getUint32(16, true);
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new ZipError("ZIP64 archives are not supported");
+  }
+  if (directoryOffset + directorySize > source.size) {
+    throw new ZipError("Central directory is truncated");
+  }
+
+  const directory = await source.read(
+    directoryOffset,
+    directoryOffset + directorySize,
+  );
+  const view = new DataView(
+    directory.buffer,
+    directory.byteOffset,
+    directory.byteLength,
+  );
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let pos = 0;
+  for (let i = 0; i < entryCount; i++) {
+    if (
+      pos + CENTRAL_HEADER_BYTES > directory.byteLength ||
+      view.getUint32(pos, true) !== CENTRAL_SIGNATURE
+    ) {
+      throw new ZipError("Central directory is corrupt");
+    }
+    const nameLength = view.getUint16(pos + 28, true);
+    const name = decoder
+      .decode(
+        directory.subarray(
+          pos + CENTRAL_HEADER_BYTES,
+          pos + CENTRAL_HEADER_BYTES + nameLength,
+        ),
+      )
+      .replace(/\\/g, "/");
+    const entry: ZipEntry = {
+      name,
+      encrypted: (view.getUint16(pos + 8, true) & 0x1) !== 0,
+      method: view.getUint16(pos + 10, true),
+      compressedSize: view.getUint32(pos + 20, true),
+      size: view.getUint32(pos + 24, true),
+      localOffset: view.getUint32(pos + 42, true),
+    };
+    pos +=
+      CENTRAL_HEADER_BYTES +
+      nameLength +
+      view.getUint16(pos + 30, true) +
+      view.getUint16(pos + 32, true);
+    if (name.endsWith("/") || name.startsWith("__MACOSX/")) continue;
+    entries.push(entry);
+  }
+  return entries;
+}
+
+/** Reads and decompresses one entry. Stored and deflated entries are supported. */
+export async function readZipEntry(source: ByteSource, entry: ZipEntry) {
+  if (entry.encrypted) throw new ZipError(`${entry.name} is encrypted`);
+  if (entry.method !== METHOD_STORED && entry.method !== METHOD_DEFLATE) {
+    throw new ZipError(`${entry.name} uses an unsupported compression method`);
+  }
+  const local = await source.read(
+    entry.localOffset,
+    entry.localOffset + LOCAL_HEADER_BYTES,
+  );
+  const localView = new DataView(
+    local.buffer,
+    local.byteOffset,
+    local.byteLength,
+  );
+  if (
+    local.byteLength < LOCAL_HEADER_BYTES ||
+    localView.getUint32(0, true) !== LOCAL_SIGNATURE
+  ) {
+    throw new ZipError(`Local header for ${entry.name} is corrupt`);
+  }
+  const dataOffset =
+    entry.localOffset +
+    LOCAL_HEADER_BYTES +
+    localView.getUint16(26, true) +
+    localView.getUint16(28, true);
+  if (dataOffset + entry.compressedSize > source.size) {
+    throw new ZipError(`${entry.name} is truncated`);
+  }
+  const data = await source.read(dataOffset, dataOffset + entry.compressedSize);
+  if (entry.method === METHOD_STORED) return data;
+  try {
+    // The declared size bounds the output, so a crafted entry cannot balloon in memory
+    const inflated = inflateRawSync(data, {
+      maxOutputLength: Math.max(entry.size, 1),
+    });
+    if (inflated.byteLength !== entry.size) throw new Error("size mismatch");
+    return new Uint8Array(
+      inflated.buffer,
+      inflated.byteOffset,
+      inflated.byteLength,
+    );
+  } catch {
+    throw new ZipError(`${entry.name} is corrupt`);
+  }
+}
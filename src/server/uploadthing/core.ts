@@ -1,57 +1,158 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
 import { createUploadthing, type FileRouter } from "uploadthing/next";
 import { UploadThingError } from "uploadthing/server";
+import { z } from "zod";
 import { auth } from "~/server/auth";
 import { db } from "~/server/db";
+import { GlbValidationError } from "~/server/gltf/glb";
+import { ModelImportError } from "~/server/gltf/import";
+import { canManageModel } from "~/server/models/access";
+import { assertWithinQuota, QuotaExceededError } from "~/server/models/quota";
+import { recordModelUpload, recordUsdzUpload } from "~/server/uploads/models";
+import { UsdzValidationError } from "~/server/usdz/usdz";
 
 const f = createUploadthing();
 
+/** Rejects the upload before any bytes are sent when it would exceed the owner's quota. */
+async function checkQuota(
+  ownerId: string,
+  files: readonly { size: number }[],
+  newModel: boolean,
+) {
+  const bytes = files.reduce((sum, file) => sum + file.size, 0);
+  try {
+    await assertWithinQuota(ownerId, { bytes, newModel });
+  } catch (err) {
+    if (err instanceof QuotaExceededError) {
+      // eslint-disable-next-line @typescript-eslint/only-throw-error
+      throw new UploadThingError(err.message);
+    }
+    throw err;
+  }
+}
+
 export const ourFileRouter = {
   modelFiles: f({
+    // Keep in sync with MAX_MODEL_BYTES for the direct upload route
     "model/gltf-binary": { maxFileSize: "512MB", maxFileCount: 1 },
     "application/octet-stream": { maxFileSize: "512MB", maxFileCount: 1 },
+    // OBJ, STL, PLY, FBX, glTF and zips, converted to GLB by file extension
+    blob: { maxFileSize: "512MB", maxFileCount: 1 },
   })
-    .middleware(async ({ req }) => {
+    // Pass a modelId to upload a new version of an existing model
+    .input(
+      z.object({
+        modelId: z.string().cuid().optional(),
+        optimize: z.boolean().optional(),
+      }),
+    )
+    .middleware(async ({ req, input, files }) => {
       const session = await auth();
       if (!session?.user) {
-                throw new Error("Unauthorized");
+        throw new Error("Unauthorized");
       }
-      return { userId: session.user.id };
+      // New versions count against the model owner's quota
+      let ownerId = session.user.id;
+      if (input.modelId) {
+        const model = await db.model.findFirst({
+          where: { id: input.modelId, deletedAt: null },
+        });
+        if (!model || !canManageModel(session, model)) {
+          // eslint-disable-next-line @typescript-eslint/only-throw-error
+          throw new UploadThingError("Forbidden");
+        }
+        ownerId = model.ownerId;
+      }
+      await checkQuota(ownerId, files, !input.modelId);
+      return {
+        userId: session.user.id,
+        modelId: input.modelId,
+        optimize: input.optimize ?? false,
+      };
     })
     .onUploadComplete(async ({ metadata, file }) => {
       console.log("Upload complete for userId:", metadata.userId);
       console.log("File URL:", file.url);
 
-      const userId = metadata.userId;
-      const key = file.key;
-      const type = file.type;
-      const name = file.name ?? file.key;
+      try {
+        const rec = await recordModelUpload({
+          userId: metadata.userId,
+          key: file.key,
+          name: file.name ?? file.key,
+          type: file.type,
+          url: file.url,
+          modelId: metadata.modelId,
+          optimize: metadata.optimize,
+        });
+        return {
+          uploadedBy: metadata.userId,
+          modelId: rec.id,
+          meshCount: rec.meshCount,
+          triangleCount: rec.triangleCount,
+          textureCount: rec.textureCount,
+          sizeBytes: rec.sizeBytes,
+          deduplicated: rec.deduplicated,
+          sourceFormat: rec.sourceFormat,
+          importWarnings: rec.importWarnings,
+        };
+      } catch (err) {
+        if (err instanceof GlbValidationError) {
+          // eslint-disable-next-line @typescript-eslint/only-throw-error
+          throw new UploadThingError(`Invalid GLB: ${err.message}`);
+        }
+        if (err instanceof ModelImportError) {
+          // eslint-disable-next-line @typescript-eslint/only-throw-error
+          throw new UploadThingError(`Could not convert: ${err.message}`);
+        }
+        throw err;
+      }
+    }),
 
-      // Store in database  
-      const rec = await db.model.create({
-        data: {
-          title: name,
-          description: `Uploaded ${type} model`,
-          ownerId: userId,
-          glbStorageId: file.key, // Store the key as storageId
-          usdzStorageId: null,
-        },
-      });
-      await db.auditLog.create({
-        data: {
-          actorId: metadata.userId,
-          event: "FILE_UPLOADED",
-          details: { key: file.key, url: file.url, type: file.type, modelId: rec.id },
-        },
+  // iOS Quick Look companion for an existing model's current version
+  usdzFiles: f({
+    "model/vnd.usdz+zip": { maxFileSize: "512MB", maxFileCount: 1 },
+    "application/octet-stream": { maxFileSize: "512MB", maxFileCount: 1 },
+  })
+    .input(z.object({ modelId: z.string().cuid() }))
+    .middleware(async ({ input, files }) => {
+      const session = await auth();
+      if (!session?.user) {
+        throw new Error("Unauthorized");
+      }
+      const model = await db.model.findFirst({
+        where: { id: input.modelId, deletedAt: null },
       });
-      return { uploadedBy: metadata.userId };
+      if (!model || !canManageModel(session, model)) {
+        // eslint-disable-next-line @typescript-eslint/only-throw-error
+        throw new UploadThingError("Forbidden");
+      }
+      await checkQuota(model.ownerId, files, false);
+      return { userId: session.user.id, modelId: input.modelId };
+    })
+    .onUploadComplete(async ({ metadata, file }) => {
+      try {
+        const rec = await recordUsdzUpload({
+          userId: metadata.userId,
+          key: file.key,
+          type: file.type,
+          url: file.url,
+          modelId: metadata.modelId,
+        });
+        return { modelId: rec.id, usdzStorageId: rec.usdzStorageId };
+      } catch (err) {
+        if (err instanceof UsdzValidationError) {
+          // eslint-disable-next-line @typescript-eslint/only-throw-error
+          throw new UploadThingError(`Invalid USDZ: ${err.message}`);
+        }
+        throw err;
+      }
     }),
 
   imageFiles: f({ image: { maxFileSize: "4MB", maxFileCount: 1 } })
     .middleware(async ({ req }) => {
       const session = await auth();
       if (!session?.user) {
-                throw new Error("Unauthorized");
+        throw new Error("Unauthorized");
       }
       return { userId: session.user.id };
     })
@@ -67,4 +168,4 @@ export const ourFileRouter = {
     }),
 } satisfies FileRouter;
 
-export type OurFileRouter = typeof ourFileRouter;
\ No newline at end of file
+export type OurFileRouter = typeof ourFileRouter;
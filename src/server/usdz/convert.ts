@@ -0,0 +1,225 @@
+import {
+  DoubleSide,
+  type Material,
+  type Mesh,
+  type Object3D,
+  Texture,
+} from "three";
+import { USDZExporter } from "three/examples/jsm/exporters/USDZExporter.js";
+import {
+  GLTFLoader,
+  type GLTFParser,
+} from "three/examples/jsm/loaders/GLTFLoader.js";
+import { MeshoptDecoder } from "three/examples/jsm/libs/meshopt_decoder.module.js";
+import type { GltfJson } from "~/server/gltf/glb";
+import { bytesSource } from "~/server/gltf/glb";
+import {
+  decodeHeadlessImage,
+  HeadlessImage,
+  runHeadless,
+} from "~/server/usdz/headless";
+import { inspectUsdz } from "~/server/usdz/usdz";
+
+/** Textures larger than this are downscaled in the USDZ; Quick Look gains nothing from more. */
+const MAX_TEXTURE_SIZE = 2048;
+
+export class UsdzConversionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsdzConversionError";
+  }
+}
+
+export interface UsdzConversion {
+  usdz: Uint8Array<ArrayBuffer>;
+  /** Everything that did not survive the conversion, phrased for the model's owner. */
+  warnings: string[];
+}
+
+type ImageDef = NonNullable<GltfJson["images"]>[number];
+
+/**
+ * Replaces the parser's browser image loading (`Image`/`createImageBitmap` on blob URLs) with
+ * sharp. Images sharp cannot decode, such as KTX2, load as empty textures and are reported.
+ */
+function headlessImages(parser: GLTFParser, dropped: string[]) {
+  const cache = new Map<number, Promise<Texture>>();
+  const json = parser.json as { images?: ImageDef[] };
+
+  const load = async (index: number) => {
+    const def = json.images?.[index];
+    let bytes: Uint8Array | null = null;
+    if (def?.bufferView !== undefined) {
+      const buffer = (await parser.getDependency(
+        "bufferView",
+        def.bufferView,
+      )) as ArrayBuffer;
+      bytes = new Uint8Array(buffer);
+    } else if (def?.uri?.startsWith("data:")) {
+      bytes = new Uint8Array(await (await fetch(def.uri)).arrayBuffer());
+    }
+    const image = bytes ? await decodeHeadlessImage(bytes) : null;
+    if (!image) {
+      dropped.push(def?.name ?? def?.uri ?? `image ${index}`);
+    }
+    const texture = new Texture(image ?? undefined);
+    texture.userData.mimeType = def?.mimeType;
+    return texture;
+  };
+
+  Object.assign(parser, {
+    loadImageSource: (index: number) => {
+      let pending = cache.get(index);
+      if (!pending) {
+        pending = load(index);
+        cache.set(index, pending);
+      }
+      return pending.then((texture) => texture.clone());
+    },
+  });
+  return { name: "BARNLABS_headless_images" };
+}
+
+function materialsOf(mesh: Mesh): Material[] {
+  return Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+}
+
+/** Unsets texture slots whose image could not be decoded; the exporters cannot skip them. */
+export function stripUndecodedTextures(material: Material) {
+  const slots = material as unknown as Record<string, unknown>;
+  for (const [slot, value] of Object.entries(slots)) {
+    if (value instanceof Texture && !(value.image instanceof HeadlessImage)) {
+      slots[slot] = null;
+    }
+  }
+}
+
+/** Collects what `USDZExporter` drops or degrades silently, and prepares materials for export. */
+function collectWarnings(scene: Object3D, animationCount: number) {
+  const unsupportedMaterials = new Set<string>();
+  let skinned = 0;
+  let morphed = 0;
+  let unsupportedObjects = 0;
+  let doubleSided = 0;
+  let mirrored = 0;
+  let missingNormals = 0;
+
+  scene.updateMatrixWorld(true);
+  scene.traverse((object) => {
+    if (object.matrixWorld.determinant() < 0) mirrored++;
+    if ((object as { isPoints?: boolean }).isPoints) unsupportedObjects++;
+    if ((object as { isLine?: boolean }).isLine) unsupportedObjects++;
+    const mesh = object as Mesh;
+    if (!mesh.isMesh) return;
+    if ((mesh as { isSkinnedMesh?: boolean }).isSkinnedMesh) skinned++;
+    if (Object.keys(mesh.geometry.morphAttributes).length > 0) morphed++;
+    if (!mesh.geometry.getAttribute("normal")) missingNormals++;
+    const materials = materialsOf(mesh);
+    if (materials.length > 1) unsupportedMaterials.add("multi-material meshes");
+    for (const material of materials) {
+      stripUndecodedTextures(material);
+      if (material.side === DoubleSide) doubleSided++;
+      if (
+        !(material as { isMeshStandardMaterial?: boolean })
+          .isMeshStandardMaterial
+      ) {
+        unsupportedMaterials.add(material.type);
+      }
+    }
+  });
+
+  const warnings: string[] = [];
+  if (unsupportedMaterials.size > 0) {
+    warnings.push(
+      `Meshes using unsupported materials were left out (${[...unsupportedMaterials].join(", ")}); only PBR metallic-roughness materials convert.`,
+    );
+  }
+  if (animationCount > 0) {
+    warnings.push(
+      `${animationCount} animation${animationCount === 1 ? " was" : "s were"} dropped; the USDZ is static.`,
+    );
+  }
+  if (skinned > 0) {
+    warnings.push(`${skinned} skinned mesh(es) are shown in their bind pose.`);
+  }
+  if (morphed > 0) {
+    warnings.push(`Morph targets on ${morphed} mesh(es) were dropped.`);
+  }
+  if (unsupportedObjects > 0) {
+    warnings.push(
+      `${unsupportedObjects} point or line object(s) were left out.`,
+    );
+  }
+  if (doubleSided > 0) {
+    warnings.push(
+      `${doubleSided} double-sided material(s) render single-sided in Quick Look.`,
+    );
+  }
+  if (mirrored > 0) {
+    warnings.push(
+      `${mirrored} mirrored (negative scale) node(s) may render inside out.`,
+    );
+  }
+  if (missingNormals > 0) {
+    warnings.push(
+      `${missingNormals} mesh(es) have no normals and may look flat.`,
+    );
+  }
+  return warnings;
+}
+
+/**
+ * Converts a GLB into a Quick Look compatible USDZ with three.js' `GLTFLoader` and
+ * `USDZExporter`, running headless in a child process. Throws `UsdzConversionError` when the GLB
+ * cannot be loaded at all (for example Draco-compressed meshes, which need a decoder we do not
+ * ship).
+ */
+export function convertGlbToUsdz(glb: Uint8Array): Promise<UsdzConversion> {
+  return runHeadless("usdz.convert", glb, UsdzConversionError);
+}
+
+/** The conversion itself; runs in the process `runHeadless` starts, where the shims exist. */
+export async function glbToUsdz(glb: Uint8Array): Promise<UsdzConversion> {
+  const droppedImages: string[] = [];
+  const loader = new GLTFLoader();
+  loader.setMeshoptDecoder(MeshoptDecoder);
+  loader.register((parser) => headlessImages(parser, droppedImages));
+
+  const buffer = glb.buffer.slice(
+    glb.byteOffset,
+    glb.byteOffset + glb.byteLength,
+  ) as ArrayBuffer;
+  let gltf;
+  try {
+    gltf = await loader.parseAsync(buffer, "");
+  } catch (err) {
+    throw new UsdzConversionError(
+      err instanceof Error ? err.message : String(err),
+    );
+  }
+
+  const warnings = collectWarnings(gltf.scene, gltf.animations.length);
+  if (droppedImages.length > 0) {
+    warnings.unshift(
+      `${droppedImages.length} texture(s) could not be decoded and were dropped: ${droppedImages.join(", ")}.`,
+    );
+  }
+
+  const exporter = new USDZExporter();
+  let usdz: Uint8Array<ArrayBuffer>;
+  try {
+    usdz = new Uint8Array(
+      await exporter.parseAsync(gltf.scene, {
+        quickLookCompatible: true,
+        maxTextureSize: MAX_TEXTURE_SIZE,
+      }),
+    );
+  } catch (err) {
+    throw new UsdzConversionError(
+      err instanceof Error ? err.message : String(err),
+    );
+  }
+  // The exporter pads entries itself; make sure the result passes our own upload checks.
+  await inspectUsdz(bytesSource(usdz));
+  return { usdz, warnings };
+}
@@ -0,0 +1,108 @@
+import type { Prisma } from "@prisma/client";
+import { logger } from "~/lib/logger";
+import { db } from "~/server/db";
+import { enqueueJob } from "~/server/jobs/queue";
+import { recordStoredFile } from "~/server/models/quota";
+import { attachGeneratedUsdz } from "~/server/models/versions";
+import { storage } from "~/server/storage";
+import { readAll } from "~/server/storage/utils";
+import { convertGlbToUsdz, UsdzConversionError } from "~/server/usdz/convert";
+
+/** The whole GLB is held in memory while converting, so very large files are left to the owner. */
+export const USDZ_CONVERSION_MAX_BYTES = 256 * 1024 * 1024;
+
+/** Stored on `ModelVersion.usdzConversion` so the owner can see how the generated USDZ fared. */
+export interface UsdzConversionState {
+  status: "pending" | "done" | "failed";
+  warnings: string[];
+  error?: string;
+  updatedAt: string;
+}
+
+export function parseUsdzConversion(
+  value: Prisma.JsonValue | null,
+): UsdzConversionState | null {
+  const v = value as Partial<UsdzConversionState> | null;
+  return v?.status ? (v as UsdzConversionState) : null;
+}
+
+async function saveState(
+  versionId: string,
+  state: Omit<UsdzConversionState, "updatedAt">,
+) {
+  await db.modelVersion.update({
+    where: { id: versionId },
+    data: {
+      usdzConversion: { ...state, updatedAt: new Date().toISOString() },
+    },
+  });
+}
+
+/**
+ * Generates a USDZ companion for a model version from its GLB and attaches it, unless the version
+ * already has one. Progress and warnings are recorded on the version. Models that cannot be
+ * converted fail quietly; anything else (storage, crashes) throws so the job is retried.
+ */
+export async function generateUsdzForVersion(versionId: string) {
+  const version = await db.modelVersion.findUnique({
+    where: { id: versionId },
+    include: { model: { select: { title: true, ownerId: true } } },
+  });
+  if (!version || version.usdzStorageId) return;
+  await saveState(versionId, { status: "pending", warnings: [] });
+
+  try {
+    const object = await storage.stat(version.glbStorageId);
+    if (!object) throw new UsdzConversionError("GLB file is missing");
+    if (object.size > USDZ_CONVERSION_MAX_BYTES) {
+      throw new UsdzConversionError(
+        "GLB is too large to convert automatically; upload a USDZ instead",
+      );
+    }
+    const glb = await readAll(await storage.stream(version.glbStorageId));
+    const { usdz, warnings } = await convertGlbToUsdz(glb);
+    const stored = await storage.put(usdz, {
+      name: `${version.model.title}.usdz`,
+      contentType: "model/vnd.usdz+zip",
+      size: usdz.byteLength,
+    });
+    if (!(await attachGeneratedUsdz(versionId, stored.key))) {
+      // A USDZ was uploaded while we were converting; the owner's file wins.
+      await storage.delete(stored.key).catch(() => undefined);
+      return;
+    }
+    await recordStoredFile(stored.key, version.model.ownerId, usdz.byteLength);
+    await saveState(versionId, { status: "done", warnings });
+    await db.auditLog.create({
+      data: {
+        actorId: version.model.ownerId,
+        event: "USDZ_GENERATED",
+        details: {
+          modelId: version.modelId,
+          versionId,
+          key: stored.key,
+          warnings,
+        },
+      },
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    logger.warn("USDZ conversion failed", {
+      modelId: version.modelId,
+      versionId,
+      error: message,
+    });
+    await saveState(versionId, {
+      status: "failed",
+      warnings: [],
+      error: err instanceof UsdzConversionError ? message : "Conversion failed",
+    });
+    if (!(err instanceof UsdzConversionError)) throw err;
+  }
+}
+
+/** Queues a conversion for the job worker; upload requests do not wait for it. */
+export async function scheduleUsdzConversion(versionId: string) {
+  await saveState(versionId, { status: "pending", warnings: [] });
+  return enqueueJob("usdz.generate", { versionId }, { maxAttempts: 3 });
+}
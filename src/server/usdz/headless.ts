@@ -0,0 +1,201 @@
+import { fork } from "node:child_process";
+import path from "node:path";
+import sharp from "sharp";
+import type { ModelImport } from "~/server/gltf/import";
+import type { PreparedPrint } from "~/server/gltf/print";
+import type { UsdzConversion } from "~/server/usdz/convert";
+
+/**
+ * An encoded texture (PNG, JPEG, WebP, ...) standing in for a browser `ImageBitmap`, so three.js
+ * code that only passes images around works without a DOM.
+ */
+export class HeadlessImage {
+  constructor(
+    // Not `data`: exporters take images with a `data` field for raw pixel buffers
+    readonly encoded: Uint8Array,
+    readonly width: number,
+    readonly height: number,
+  ) {}
+
+  close() {
+    // Nothing to release; matches the ImageBitmap interface.
+  }
+}
+
+/** Decodes just enough of an encoded image to size it. Returns null for formats sharp cannot read. */
+export async function decodeHeadlessImage(data: Uint8Array) {
+  try {
+    const meta = await sharp(data).metadata();
+    if (!meta.width || !meta.height) return null;
+    return new HeadlessImage(data, meta.width, meta.height);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The sliver of `CanvasRenderingContext2D` that `USDZExporter` uses to re-encode textures as PNG:
+ * an optional vertical flip, one `drawImage` and `toBlob`.
+ */
+class HeadlessCanvas {
+  width = 0;
+  height = 0;
+  private source: HeadlessImage | null = null;
+  private flipY = false;
+
+  getContext() {
+    return {
+      translate: () => undefined,
+      scale: (_x: number, y: number) => {
+        this.flipY = y < 0;
+      },
+      drawImage: (image: HeadlessImage) => {
+        this.source = image;
+      },
+    };
+  }
+
+  toBlob(callback: (blob: Blob | null) => void) {
+    const source = this.source;
+    if (!source) {
+      callback(null);
+      return;
+    }
+    sharp(source.encoded)
+      .resize(
+        Math.max(1, Math.floor(this.width)),
+        Math.max(1, Math.floor(this.height)),
+        { fit: "fill" },
+      )
+      .flip(this.flipY)
+      .png()
+      .toBuffer()
+      .then((png) => callback(new Blob([new Uint8Array(png)])))
+      .catch(() => callback(null));
+  }
+}
+
+/** The part of `FileReader` that `GLTFExporter` uses to assemble a GLB from blobs. */
+class HeadlessFileReader {
+  result: ArrayBuffer | string | null = null;
+  onloadend: (() => void) | null = null;
+
+  readAsArrayBuffer(blob: Blob) {
+    void blob.arrayBuffer().then((buffer) => {
+      this.result = buffer;
+      this.onloadend?.();
+    });
+  }
+
+  readAsDataURL(blob: Blob) {
+    void blob.arrayBuffer().then((buffer) => {
+      const type = blob.type || "application/octet-stream";
+      this.result = `data:${type};base64,${Buffer.from(buffer).toString("base64")}`;
+      this.onloadend?.();
+    });
+  }
+}
+
+/**
+ * Work for the child process, with what it takes and returns: conversions needing the shims below,
+ * and print preparation, which would hold up the server's other requests for seconds.
+ */
+export interface HeadlessTasks {
+  "usdz.convert": { input: Uint8Array; output: UsdzConversion };
+  "model.import": {
+    input: { files: Map<string, Uint8Array>; main: string };
+    output: ModelImport;
+  };
+  "print.prepare": {
+    input: { glb: Uint8Array; mesh?: number; metersPerUnit?: number | null };
+    output: PreparedPrint;
+  };
+}
+export type HeadlessTask = keyof HeadlessTasks;
+
+/** Sent back by `headlessProcess.ts`: the task's output, or the error it threw. */
+export type HeadlessReply =
+  { output: unknown } | { error: { name: string; message: string } };
+
+// Builds bundle the child entry with what it imports (`build:headless`); development runs the source
+const HEADLESS_ENTRY =
+  process.env.NODE_ENV === "production"
+    ? { path: path.join(process.cwd(), "build/headless.mjs"), execArgv: [] }
+    : {
+        path: path.join(process.cwd(), "src/server/usdz/headlessProcess.ts"),
+        execArgv: ["--import", "tsx"],
+      };
+/** A conversion still running after this long is assumed stuck and killed. */
+const HEADLESS_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Installs `ImageBitmap`, `FileReader`, `window.URL` and `document.createElement("canvas")`,
+ * backed by sharp and Node, and drops the warnings three's loaders and exporters log for what
+ * the conversions report themselves. Only for the process `runHeadless` starts: anything else
+ * sharing these globals would take itself for a browser.
+ */
+export function installHeadlessGlobals() {
+  Object.assign(globalThis, {
+    ImageBitmap: HeadlessImage,
+    FileReader: HeadlessFileReader,
+    document: { createElement: () => new HeadlessCanvas() },
+    // FBXLoader reaches blob URLs through `window.URL`
+    window: { URL },
+  });
+  const warn = console.warn.bind(console);
+  console.warn = (...args: unknown[]) => {
+    const [first] = args;
+    if (
+      typeof first === "string" &&
+      /^(THREE\.)?\w+(Loader|Exporter):/.test(first)
+    ) {
+      return;
+    }
+    warn(...args);
+  };
+}
+
+/**
+ * Runs a conversion in a child process with the headless globals, so the server and its other
+ * requests never see them. An error of the
+ * `expected` class is rethrown as one; anything else, including the process dying, as `Error`.
+ */
+export function runHeadless<T extends HeadlessTask>(
+  task: T,
+  input: HeadlessTasks[T]["input"],
+  expected: new (message: string) => Error,
+): Promise<HeadlessTasks[T]["output"]> {
+  return new Promise((resolve, reject) => {
+    const child = fork(HEADLESS_ENTRY.path, [], {
+      execArgv: HEADLESS_ENTRY.execArgv,
+      serialization: "advanced",
+      stdio: ["ignore", "inherit", "inherit", "ipc"],
+    });
+    let reply: HeadlessReply | null = null;
+    const timer = setTimeout(() => child.kill(), HEADLESS_TIMEOUT_MS);
+    child.once("message", (message) => {
+      reply = message as HeadlessReply;
+    });
+    child.once("error", (err) => {
+      clearTimeout(timer);
+      reject(err);
+    });
+    child.once("exit", (code, signal) => {
+      clearTimeout(timer);
+      if (!reply) {
+        reject(
+          new Error(
+            `Conversion process ${signal ? `was killed (${signal})` : `exited with code ${code}`}`,
+          ),
+        );
+      } else if ("error" in reply) {
+        const { name, message } = reply.error;
+        const error = new expected(message);
+        reject(error.name === name ? error : new Error(message));
+      } else {
+        resolve(reply.output as HeadlessTasks[T]["output"]);
+      }
+    });
+    child.send({ task, input });
+  });
+}
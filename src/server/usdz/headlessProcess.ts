@@ -0,0 +1,43 @@
+/**
+ * Child process entry for `runHeadless`: installs the browser shims, runs the one task it
+ * is sent and replies with the result before exiting.
+ */
+import {
+  installHeadlessGlobals,
+  type HeadlessReply,
+  type HeadlessTask,
+  type HeadlessTasks,
+} from "~/server/usdz/headless";
+
+installHeadlessGlobals();
+
+const { glbToUsdz } = await import("~/server/usdz/convert");
+const { sceneToGlb } = await import("~/server/gltf/import");
+const { preparePrint } = await import("~/server/gltf/print");
+
+const tasks: {
+  [T in HeadlessTask]: (
+    input: HeadlessTasks[T]["input"],
+  ) => Promise<HeadlessTasks[T]["output"]>;
+} = {
+  "usdz.convert": glbToUsdz,
+  "model.import": sceneToGlb,
+  // Arrays arrive at any offset into the message; glTF readers need their buffers aligned
+  "print.prepare": ({ glb, ...options }) => preparePrint(glb.slice(), options),
+};
+
+process.once(
+  "message",
+  (message: { task: HeadlessTask; input: never }) =>
+    void tasks[message.task](message.input)
+      .then(
+        (output): HeadlessReply => ({ output }),
+        (err: unknown): HeadlessReply => ({
+          error:
+            err instanceof Error
+              ? { name: err.name, message: err.message }
+              : { name: "Error", message: String(err) },
+        }),
+      )
+      .then((reply) => process.send!(reply, () => process.disconnect())),
+);
@@ -0,0 +1,178 @@
+/**
+ * Structural checks for `.usdz` packages. A USDZ is a plain zip archive with extra rules that
+ * Quick Look enforces: every entry is stored uncompressed and unencrypted, each entry's data starts
+ * on a 64-byte boundary, and the first entry is the root USD layer. Only the central directory and
+ * local headers are read, so large packages need a handful of ranged reads.
+ *
+ * @see https://openusd.org/release/spec_usdz.html
+ */
+import type { ByteSource } from "~/server/gltf/glb";
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const EOCD_BYTES = 22;
+const MAX_COMMENT_BYTES = 0xffff;
+const CENTRAL_HEADER_BYTES = 46;
+const LOCAL_HEADER_BYTES = 30;
+const DATA_ALIGNMENT = 64;
+const USD_LAYER_EXTENSIONS = ["usd", "usda", "usdc"];
+const ALLOWED_EXTENSIONS = [
+  ...USD_LAYER_EXTENSIONS,
+  "png",
+  "jpg",
+  "jpeg",
+  "exr",
+  "avif",
+  "m4a",
+  "mp3",
+  "wav",
+];
+
+export class UsdzValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsdzValidationError";
+  }
+}
+
+export interface UsdzInspection {
+  /** Path of the first entry, which USD opens as the package's root layer. */
+  rootLayer: string;
+  fileCount: number;
+  files: string[];
+}
+
+function extensionOf(path: string) {
+  const dot = path.lastIndexOf(".");
+  return dot === -1 ? "" : path.slice(dot + 1).toLowerCase();
+}
+
+function findEndOfCentralDirectory(tail: Uint8Array) {
+  const view = new DataView(tail.buffer, tail.byteOffset, tail.byteLength);
+  for (let i = tail.byteLength - EOCD_BYTES; i >= 0; i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) return i;
+  }
+  return -1;
+}
+
+export async function inspectUsdz(source: ByteSource): Promise<UsdzInspection> {
+  if (source.size < EOCD_BYTES) {
+    throw new UsdzValidationError("File is too small to be a USDZ package");
+  }
+  const tailStart = Math.max(0, source.size - EOCD_BYTES - MAX_COMMENT_BYTES);
+  const tail = await source.read(tailStart, source.size);
+  const eocd = findEndOfCentralDirectory(tail);
+  if (eocd === -1) {
+    throw new UsdzValidationError("Not a zip archive");
+  }
+  const eocdView = new DataView(
+    tail.buffer,
+    tail.byteOffset + eocd,
+    EOCD_BYTES,
+  );
+  const entryCount = eocdView.getUint16(10, true);
+  const directorySize = eocdView.getUint32(12, true);
+  const directoryOffset = eocdView.getUint32(16, true);
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new UsdzValidationError("ZIP64 archives are not supported");
+  }
+  if (entryCount === 0) {
+    throw new UsdzValidationError("Package is empty");
+  }
+  if (directoryOffset + directorySize > source.size) {
+    throw new UsdzValidationError("Central directory is truncated");
+  }
+
+  const directory = await source.read(
+    directoryOffset,
+    directoryOffset + directorySize,
+  );
+  const view = new DataView(
+    directory.buffer,
+    directory.byteOffset,
+    directory.byteLength,
+  );
+  const decoder = new TextDecoder();
+  const files: string[] = [];
+  let pos = 0;
+  for (let i = 0; i < entryCount; i++) {
+    if (
+      pos + CENTRAL_HEADER_BYTES > directory.byteLength ||
+      view.getUint32(pos, true) !== CENTRAL_SIGNATURE
+    ) {
+      throw new UsdzValidationError("Central directory is corrupt");
+    }
+    const flags = view.getUint16(pos + 8, true);
+    const method = view.getUint16(pos + 10, true);
+    const compressedSize = view.getUint32(pos + 20, true);
+    const size = view.getUint32(pos + 24, true);
+    const nameLength = view.getUint16(pos + 28, true);
+    const extraLength = view.getUint16(pos + 30, true);
+    const commentLength = view.getUint16(pos + 32, true);
+    const localOffset = view.getUint32(pos + 42, true);
+    const name = decoder.decode(
+      directory.subarray(
+        pos + CENTRAL_HEADER_BYTES,
+        pos + CENTRAL_HEADER_BYTES + nameLength,
+      ),
+    );
+    pos += CENTRAL_HEADER_BYTES + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/")) continue;
+    if (flags & 0x1) {
+      throw new UsdzValidationError(`${name} is encrypted`);
+    }
+    if (method !== 0 || compressedSize !== size) {
+      throw new UsdzValidationError(
+        `${name} is compressed; USDZ entries must be stored uncompressed`,
+      );
+    }
+    const ext = extensionOf(name);
+    if (files.length === 0 && !USD_LAYER_EXTENSIONS.includes(ext)) {
+      throw new UsdzValidationError(
+        `First entry must be a USD layer, found ${name}`,
+      );
+    }
+    if (!ALLOWED_EXTENSIONS.includes(ext)) {
+      throw new UsdzValidationError(
+        `${name} is not a supported USDZ file type`,
+      );
+    }
+
+    const local = await source.read(
+      localOffset,
+      localOffset + LOCAL_HEADER_BYTES,
+    );
+    const localView = new DataView(
+      local.buffer,
+      local.byteOffset,
+      local.byteLength,
+    );
+    if (
+      local.byteLength < LOCAL_HEADER_BYTES ||
+      localView.getUint32(0, true) !== LOCAL_SIGNATURE
+    ) {
+      throw new UsdzValidationError(`Local header for ${name} is corrupt`);
+    }
+    const dataOffset =
+      localOffset +
+      LOCAL_HEADER_BYTES +
+      localView.getUint16(26, true) +
+      localView.getUint16(28, true);
+    if (dataOffset % DATA_ALIGNMENT !== 0) {
+      throw new UsdzValidationError(
+        `${name} is not aligned to ${DATA_ALIGNMENT} bytes`,
+      );
+    }
+    if (dataOffset + size > source.size) {
+      throw new UsdzValidationError(`${name} is truncated`);
+    }
+    files.push(name);
+  }
+
+  if (files.length === 0) {
+    throw new UsdzValidationError("Package is empty");
+  }
+  return { rootLayer: files[0]!, fileCount: files.length, files };
+}
@@ -0,0 +1,22 @@
+/**
+ * Standalone job worker: `npm run worker`. Loads `.env` files the same way Next does, then runs
+ * jobs until SIGINT/SIGTERM, letting running jobs finish before exiting.
+ */
+import nextEnv from "@next/env";
+
+nextEnv.loadEnvConfig(process.cwd());
+
+const { env } = await import("~/env");
+const { db } = await import("~/server/db");
+const { runWorker } = await import("~/server/jobs/worker");
+
+const controller = new AbortController();
+for (const sig of ["SIGINT", "SIGTERM"] as const) {
+  process.once(sig, () => controller.abort());
+}
+
+await runWorker({
+  concurrency: env.JOB_CONCURRENCY,
+  signal: controller.signal,
+});
+await db.$disconnect();
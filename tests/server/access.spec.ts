@@ -0,0 +1,183 @@
+import { mockDb, sessionFor } from "./support";
+import { expect, test } from "@playwright/test";
+import type { Model } from "@prisma/client";
+import {
+  canDownloadModel,
+  findModelAsset,
+  hasDownloadAccess,
+  requiresSignedUrl,
+} from "~/server/assets/access";
+
+function model(fields: Partial<Model> & { shares?: number }) {
+  const { shares = 0, ...rest } = fields;
+  return {
+    id: "model-1",
+    ownerId: "owner",
+    glbStorageId: "abc.glb",
+    usdzStorageId: null,
+    optimizedGlbStorageId: null,
+    downloadPolicy: "ALLOWED",
+    deletedAt: null,
+    ...rest,
+    _count: { shares },
+  } as Model & { _count: { shares: number } };
+}
+
+/** Serves `models` for any key, as if each of them referenced it. */
+function withModels(...models: ReturnType<typeof model>[]) {
+  mockDb({
+    model: { findMany: async () => models },
+    modelVersion: { findFirst: async () => null },
+    collectionModel: { findMany: async () => [] },
+  });
+}
+
+const owner = sessionFor("owner");
+const stranger = sessionFor("stranger");
+const employee = sessionFor("employee", "EMPLOYEE");
+
+test.describe("download policy", () => {
+  test("lets everyone download ALLOWED models", () => {
+    expect(canDownloadModel(null, { downloadPolicy: "ALLOWED" })).toBe(true);
+  });
+
+  test("limits EMPLOYEES_ONLY to staff and VIEW_ONLY to nobody", () => {
+    const staffOnly = { downloadPolicy: "EMPLOYEES_ONLY" } as const;
+    expect(canDownloadModel(stranger, staffOnly)).toBe(false);
+    expect(canDownloadModel(employee, staffOnly)).toBe(true);
+    expect(canDownloadModel(employee, { downloadPolicy: "VIEW_ONLY" })).toBe(
+      false,
+    );
+  });
+
+  test("always lets owners and staff download, whatever the policy", () => {
+    const viewOnly = { downloadPolicy: "VIEW_ONLY", ownerId: "owner" } as const;
+    expect(hasDownloadAccess(owner, viewOnly)).toBe(true);
+    expect(hasDownloadAccess(employee, viewOnly)).toBe(true);
+    expect(hasDownloadAccess(stranger, viewOnly)).toBe(false);
+    expect(hasDownloadAccess(null, viewOnly)).toBe(false);
+  });
+
+  test("signs URLs for viewers who may not download, but not for owners or staff", () => {
+    const viewOnly = { downloadPolicy: "VIEW_ONLY", ownerId: "owner" } as const;
+    expect(requiresSignedUrl(null, viewOnly)).toBe(true);
+    expect(requiresSignedUrl(stranger, viewOnly)).toBe(true);
+    expect(requiresSignedUrl(owner, viewOnly)).toBe(false);
+    expect(requiresSignedUrl(employee, viewOnly)).toBe(false);
+    expect(
+      requiresSignedUrl(null, { downloadPolicy: "ALLOWED", ownerId: "owner" }),
+    ).toBe(false);
+  });
+});
+
+test.describe("findModelAsset", () => {
+  test("reports unknown keys as not found", async () => {
+    withModels();
+    expect(await findModelAsset("missing.glb", null)).toEqual({
+      status: "not_found",
+    });
+  });
+
+  test("serves shared models to anyone", async () => {
+    withModels(model({ shares: 1 }));
+    const lookup = await findModelAsset("abc.glb", null);
+    expect(lookup).toMatchObject({ status: "ok", kind: "glb", shared: true });
+  });
+
+  test("limits unshared models to their owner and staff", async () => {
+    withModels(model({}));
+    expect(await findModelAsset("abc.glb", null)).toEqual({
+      status: "forbidden",
+    });
+    expect(await findModelAsset("abc.glb", stranger)).toEqual({
+      status: "forbidden",
+    });
+    expect(await findModelAsset("abc.glb", owner)).toMatchObject({
+      status: "ok",
+      shared: false,
+    });
+    expect(await findModelAsset("abc.glb", employee)).toMatchObject({
+      status: "ok",
+    });
+  });
+
+  test("grants access through any readable model sharing a deduplicated file", async () => {
+    withModels(
+      model({ id: "private", ownerId: "someone-else" }),
+      model({ id: "mine", ownerId: "stranger" }),
+    );
+    const lookup = await findModelAsset("abc.glb", stranger);
+    expect(lookup.status === "ok" && lookup.model.id).toBe("mine");
+  });
+
+  test("tells USDZ companions from GLBs", async () => {
+    withModels(model({ usdzStorageId: "abc.usdz", shares: 1 }));
+    expect(await findModelAsset("abc.usdz", null)).toMatchObject({
+      status: "ok",
+      kind: "usdz",
+      extension: "usdz",
+    });
+  });
+
+  test("serves a version's imported source with its original extension", async () => {
+    mockDb({
+      model: { findMany: async () => [model({ shares: 1 })] },
+      modelVersion: {
+        findFirst: async () => ({
+          glbStorageId: "old.glb",
+          usdzStorageId: null,
+          optimizedGlbStorageId: null,
+          sourceStorageId: "source.bin",
+          sourceImport: { format: "obj", warnings: [] },
+        }),
+      },
+      collectionModel: { findMany: async () => [] },
+    });
+    expect(await findModelAsset("source.bin", null)).toMatchObject({
+      status: "ok",
+      kind: "source",
+      extension: "obj",
+    });
+  });
+
+  test("serves models in a shared collection, looking them all up at once", async () => {
+    let entryQueries = 0;
+    mockDb({
+      model: {
+        findMany: async () => [
+          model({ id: "first", ownerId: "someone-else" }),
+          model({ id: "second", ownerId: "someone-else" }),
+        ],
+      },
+      modelVersion: { findFirst: async () => null },
+      collectionModel: {
+        findMany: async () => {
+          entryQueries++;
+          return [{ modelId: "second", collectionId: "child" }];
+        },
+      },
+      // "child" sits inside "parent", which is shared
+      collection: {
+        findMany: async ({ where }: { where: { id: { in: string[] } } }) =>
+          [
+            { id: "child", parentId: "parent" },
+            { id: "parent", parentId: null },
+          ].filter((c) => where.id.in.includes(c.id)),
+      },
+      share: {
+        findMany: async ({
+          where,
+        }: {
+          where: { collectionId: { in: string[] } };
+        }) =>
+          where.collectionId.in.includes("parent")
+            ? [{ collectionId: "parent" }]
+            : [],
+      },
+    });
+    const lookup = await findModelAsset("abc.glb", null);
+    expect(lookup).toMatchObject({ status: "ok", shared: true });
+    expect(lookup.status === "ok" && lookup.model.id).toBe("second");
+    expect(entryQueries).toBe(1);
+  });
+});
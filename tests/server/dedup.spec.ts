@@ -0,0 +1,102 @@
+import { mockDb, sessionFor } from "./support";
+import { createHash } from "crypto";
+import { expect, test } from "@playwright/test";
+import type { Prisma, StoredFile } from "@prisma/client";
+import { findDuplicateModels, storeOnce } from "~/server/models/dedup";
+import { storage } from "~/server/storage";
+
+const bytes = new Uint8Array([1, 2, 3, 4, 5]);
+const sha256 = createHash("sha256").update(bytes).digest("hex");
+
+async function put() {
+  const stored = await storage.put(bytes, {
+    name: "model.glb",
+    contentType: "model/gltf-binary",
+    size: bytes.byteLength,
+  });
+  return stored.key;
+}
+
+/** A ledger holding `files`, matched by hash and size; records what gets upserted. */
+function ledger(files: Pick<StoredFile, "key" | "sha256" | "sizeBytes">[]) {
+  const upserts: Prisma.StoredFileUpsertArgs[] = [];
+  mockDb({
+    storedFile: {
+      findFirst: async ({ where }: Prisma.StoredFileFindFirstArgs) =>
+        files.find(
+          (f) => f.sha256 === where?.sha256 && f.sizeBytes === where?.sizeBytes,
+        ) ?? null,
+      findMany: async () => files,
+      upsert: async (args: Prisma.StoredFileUpsertArgs) => upserts.push(args),
+    },
+  });
+  return upserts;
+}
+
+test.describe("storeOnce", () => {
+  test("keeps and hashes content not stored before", async () => {
+    const upserts = ledger([]);
+    const key = await put();
+    expect(await storeOnce(key, "owner", bytes.byteLength)).toEqual({
+      key,
+      sha256,
+      deduplicated: false,
+    });
+    expect(upserts[0]?.create).toMatchObject({ key, ownerId: "owner", sha256 });
+  });
+
+  test("drops a second copy of the same bytes for the stored one", async () => {
+    const first = await put();
+    const upserts = ledger([
+      { key: first, sha256, sizeBytes: bytes.byteLength },
+    ]);
+    const second = await put();
+    expect(await storeOnce(second, "owner", bytes.byteLength)).toEqual({
+      key: first,
+      sha256,
+      deduplicated: true,
+    });
+    expect(await storage.stat(second)).toBeNull();
+    expect(upserts).toEqual([]);
+  });
+
+  test("keeps the new copy when the stored one has gone missing", async () => {
+    ledger([{ key: "missing.glb", sha256, sizeBytes: bytes.byteLength }]);
+    const key = await put();
+    expect(await storeOnce(key, "owner", bytes.byteLength)).toMatchObject({
+      key,
+      deduplicated: false,
+    });
+  });
+});
+
+test.describe("findDuplicateModels", () => {
+  function capture() {
+    const queries: Prisma.ModelFindManyArgs[] = [];
+    mockDb({
+      storedFile: { findMany: async () => [{ key: "abc.glb" }] },
+      model: {
+        findMany: async (args: Prisma.ModelFindManyArgs) => {
+          queries.push(args);
+          return [];
+        },
+      },
+    });
+    return queries;
+  }
+
+  test("only looks through the caller's own models", async () => {
+    const queries = capture();
+    await findDuplicateModels(sessionFor("user"), sha256);
+    expect(queries[0]?.where).toMatchObject({
+      deletedAt: null,
+      ownerId: "user",
+    });
+  });
+
+  test("looks through everyone's models for staff", async () => {
+    const queries = capture();
+    await findDuplicateModels(sessionFor("employee", "EMPLOYEE"), sha256);
+    expect(queries[0]?.where).not.toHaveProperty("ownerId");
+  });
+});
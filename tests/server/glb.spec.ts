@@ -0,0 +1,59 @@
+import { expect, test } from "@playwright/test";
+import { bytesSource, GlbValidationError, inspectGlb } from "~/server/gltf/glb";
+
+/** A GLB holding only `json` as its JSON chunk. */
+function glbWith(json: unknown) {
+  const text = JSON.stringify(json);
+  const chunk = new TextEncoder().encode(
+    text.padEnd(Math.ceil(text.length / 4) * 4, " "),
+  );
+  const bytes = new Uint8Array(20 + chunk.byteLength);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, 0x46546c67, true);
+  view.setUint32(4, 2, true);
+  view.setUint32(8, bytes.byteLength, true);
+  view.setUint32(12, chunk.byteLength, true);
+  view.setUint32(16, 0x4e4f534a, true);
+  bytes.set(chunk, 20);
+  return bytesSource(bytes);
+}
+
+const asset = { version: "2.0" };
+
+test.describe("inspectGlb", () => {
+  test("summarises a well-formed file", async () => {
+    const inspection = await inspectGlb(
+      glbWith({
+        asset,
+        meshes: [{ primitives: [{ attributes: { POSITION: 0 } }] }],
+        accessors: [{ count: 3, min: [0, 0, 0], max: [1, 2, 3] }],
+      }),
+    );
+    expect(inspection).toMatchObject({
+      meshCount: 1,
+      triangleCount: 1,
+      vertexCount: 3,
+      boundingBox: { size: [1, 2, 3] },
+    });
+  });
+
+  for (const [name, json] of [
+    ["a JSON chunk that is not an object", null],
+    ["a JSON chunk that is a number", 42],
+    ["bufferViews that are not a list", { asset, bufferViews: {} }],
+    ["buffers holding null", { asset, buffers: [null] }],
+    ["images that are a string", { asset, images: "texture.png" }],
+    ["meshes without attributes", { asset, meshes: [{ primitives: [{}] }] }],
+    [
+      "a node translation that is not a list",
+      { asset, nodes: [{ translation: 1 }] },
+    ],
+    ["an asset version that is not text", { asset: { version: 2 } }],
+  ] as const) {
+    test(`reports ${name} as invalid`, async () => {
+      await expect(inspectGlb(glbWith(json))).rejects.toThrow(
+        GlbValidationError,
+      );
+    });
+  }
+});
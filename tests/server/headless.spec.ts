@@ -0,0 +1,29 @@
+import "./support";
+import { Document, NodeIO } from "@gltf-transform/core";
+import { expect, test } from "@playwright/test";
+import { convertGlbToUsdz, UsdzConversionError } from "~/server/usdz/convert";
+
+test.describe("conversion process", () => {
+  test("starts and converts a model", async () => {
+    const doc = new Document();
+    const position = doc
+      .createAccessor()
+      .setType("VEC3")
+      .setArray(new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]))
+      .setBuffer(doc.createBuffer());
+    const mesh = doc
+      .createMesh()
+      .addPrimitive(doc.createPrimitive().setAttribute("POSITION", position));
+    doc.createScene().addChild(doc.createNode().setMesh(mesh));
+    const { usdz } = await convertGlbToUsdz(
+      await new NodeIO().writeBinary(doc),
+    );
+    expect(usdz.byteLength).toBeGreaterThan(0);
+  });
+
+  test("reports the conversion's own errors as such", async () => {
+    await expect(
+      convertGlbToUsdz(new Uint8Array([1, 2, 3, 4])),
+    ).rejects.toThrow(UsdzConversionError);
+  });
+});
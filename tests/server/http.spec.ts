@@ -0,0 +1,49 @@
+import { expect, test } from "@playwright/test";
+import { etagFor, matchesEtag, parseRange } from "~/server/assets/http";
+
+test.describe("parseRange", () => {
+  test("ignores a missing or malformed header", () => {
+    expect(parseRange(null, 100)).toBeNull();
+    expect(parseRange("items=0-10", 100)).toBeNull();
+    expect(parseRange("bytes=-", 100)).toBeNull();
+  });
+
+  test("reads closed and open-ended ranges", () => {
+    expect(parseRange("bytes=0-9", 100)).toEqual({ start: 0, end: 9 });
+    expect(parseRange("bytes=90-", 100)).toEqual({ start: 90, end: 99 });
+  });
+
+  test("clamps the end to the last byte", () => {
+    expect(parseRange("bytes=50-500", 100)).toEqual({ start: 50, end: 99 });
+  });
+
+  test("reads suffix ranges as the last bytes", () => {
+    expect(parseRange("bytes=-10", 100)).toEqual({ start: 90, end: 99 });
+    expect(parseRange("bytes=-500", 100)).toEqual({ start: 0, end: 99 });
+  });
+
+  test("rejects ranges outside the object", () => {
+    expect(parseRange("bytes=100-", 100)).toBe("unsatisfiable");
+    expect(parseRange("bytes=20-10", 100)).toBe("unsatisfiable");
+    expect(parseRange("bytes=-0", 100)).toBe("unsatisfiable");
+  });
+
+  test("answers multi-range requests with the whole body", () => {
+    expect(parseRange("bytes=0-1,5-6", 100)).toBeNull();
+  });
+});
+
+test.describe("matchesEtag", () => {
+  const etag = etagFor("abc.glb");
+
+  test("matches the key's tag, weak tags and wildcards", () => {
+    expect(matchesEtag(etag, etag)).toBe(true);
+    expect(matchesEtag(`"other", W/${etag}`, etag)).toBe(true);
+    expect(matchesEtag("*", etag)).toBe(true);
+  });
+
+  test("does not match other tags or a missing header", () => {
+    expect(matchesEtag('"other"', etag)).toBe(false);
+    expect(matchesEtag(null, etag)).toBe(false);
+  });
+});
@@ -0,0 +1,80 @@
+import "./support";
+import { Document, NodeIO } from "@gltf-transform/core";
+import { expect, test } from "@playwright/test";
+import {
+  preparePrint,
+  preparePrintOnce,
+  type PrintSolid,
+} from "~/server/gltf/print";
+
+/** A closed tetrahedron wound outwards, placed with `scale`. */
+function tetrahedron(scale: [number, number, number]) {
+  const doc = new Document();
+  const buffer = doc.createBuffer();
+  const position = doc
+    .createAccessor()
+    .setType("VEC3")
+    .setArray(new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0, 1]))
+    .setBuffer(buffer);
+  const indices = doc
+    .createAccessor()
+    .setType("SCALAR")
+    .setArray(new Uint32Array([0, 2, 1, 0, 1, 3, 0, 3, 2, 1, 2, 3]))
+    .setBuffer(buffer);
+  const mesh = doc
+    .createMesh()
+    .addPrimitive(
+      doc
+        .createPrimitive()
+        .setAttribute("POSITION", position)
+        .setIndices(indices),
+    );
+  doc.createScene().addChild(doc.createNode().setMesh(mesh).setScale(scale));
+  return new NodeIO().writeBinary(doc);
+}
+
+/** Positive when the triangles face outwards. */
+function signedVolume({ positions: p, indices }: PrintSolid) {
+  let volume = 0;
+  for (let t = 0; t < indices.length; t += 3) {
+    const [a, b, c] = [0, 1, 2].map((i) => indices[t + i]! * 3) as [
+      number,
+      number,
+      number,
+    ];
+    volume +=
+      p[a]! * (p[b + 1]! * p[c + 2]! - p[b + 2]! * p[c + 1]!) -
+      p[a + 1]! * (p[b]! * p[c + 2]! - p[b + 2]! * p[c]!) +
+      p[a + 2]! * (p[b]! * p[c + 1]! - p[b + 1]! * p[c]!);
+  }
+  return volume / 6;
+}
+
+test.describe("preparePrint", () => {
+  test("keeps a closed model facing outwards", async () => {
+    const { solid, report } = await preparePrint(await tetrahedron([1, 1, 1]));
+    expect(report.check.watertight).toBe(true);
+    expect(signedVolume(solid)).toBeGreaterThan(0);
+  });
+
+  test("keeps mirrored parts facing outwards", async () => {
+    const { solid } = await preparePrint(await tetrahedron([-1, 1, 1]));
+    expect(signedVolume(solid)).toBeGreaterThan(0);
+  });
+});
+
+test.describe("preparePrintOnce", () => {
+  test("prepares the print in the conversion process, once", async () => {
+    const glb = await tetrahedron([1, 1, 1]);
+    let reads = 0;
+    const read = async () => {
+      reads++;
+      return glb;
+    };
+    const first = await preparePrintOnce("tetrahedron.glb", read);
+    const second = await preparePrintOnce("tetrahedron.glb", read);
+    expect(first.report.sizeMm).toEqual([1000, 1000, 1000]);
+    expect(second).toBe(first);
+    expect(reads).toBe(1);
+  });
+});
@@ -0,0 +1,107 @@
+import { mockDb } from "./support";
+import { expect, test } from "@playwright/test";
+import type { Prisma } from "@prisma/client";
+import {
+  assertWithinQuota,
+  ownsStoredFiles,
+  QuotaExceededError,
+  quotaFor,
+  recordStoredFile,
+} from "~/server/models/quota";
+
+const MB = 1024 * 1024;
+
+/** A user with the given limits who already stores `bytes` across `models` models. */
+function userWith(
+  limits: { storageQuotaMb: number; modelQuota: number },
+  usage: { bytes: number; models: number },
+) {
+  mockDb({
+    user: { findUniqueOrThrow: async () => ({ role: "USER", ...limits }) },
+    storedFile: {
+      aggregate: async () => ({ _sum: { sizeBytes: usage.bytes } }),
+    },
+    model: { count: async () => usage.models },
+  });
+}
+
+test.describe("quotaFor", () => {
+  test("prefers the user's own limits over their role's", () => {
+    expect(
+      quotaFor({ role: "USER", storageQuotaMb: 5, modelQuota: 3 }),
+    ).toEqual({ maxBytes: 5 * MB, maxModels: 3 });
+  });
+
+  test("treats a limit of zero as unlimited", () => {
+    expect(
+      quotaFor({ role: "USER", storageQuotaMb: 0, modelQuota: 0 }),
+    ).toEqual({ maxBytes: null, maxModels: null });
+  });
+});
+
+test.describe("assertWithinQuota", () => {
+  const limits = { storageQuotaMb: 10, modelQuota: 2 };
+
+  test("accepts uploads that fit", async () => {
+    userWith(limits, { bytes: 4 * MB, models: 1 });
+    await assertWithinQuota("user", { bytes: 6 * MB, newModel: true });
+  });
+
+  test("rejects uploads past the storage limit", async () => {
+    userWith(limits, { bytes: 4 * MB, models: 1 });
+    await expect(
+      assertWithinQuota("user", { bytes: 6 * MB + 1, newModel: false }),
+    ).rejects.toThrow(QuotaExceededError);
+  });
+
+  test("only counts models against the limit when adding them", async () => {
+    userWith(limits, { bytes: 0, models: 2 });
+    await assertWithinQuota("user", { bytes: MB, newModel: false });
+    await expect(
+      assertWithinQuota("user", { bytes: MB, newModel: true }),
+    ).rejects.toThrow("Model limit reached (2)");
+  });
+
+  test("checks a batch of new models as a whole", async () => {
+    userWith(limits, { bytes: 0, models: 1 });
+    await expect(
+      assertWithinQuota("user", { bytes: 0, newModel: true, newModels: 2 }),
+    ).rejects.toThrow("leaves room for 1 more models, not 2");
+  });
+});
+
+test.describe("stored file ledger", () => {
+  test("keeps a file charged to whoever stored it first", async () => {
+    const upserts: Prisma.StoredFileUpsertArgs[] = [];
+    mockDb({
+      storedFile: {
+        upsert: async (args: Prisma.StoredFileUpsertArgs) => upserts.push(args),
+      },
+    });
+    await recordStoredFile("abc.glb", "someone-else", 100);
+    expect(upserts[0]?.create.ownerId).toBe("someone-else");
+    expect(upserts[0]?.update).not.toHaveProperty("ownerId");
+  });
+
+  test("tells files the caller stored from anyone else's", async () => {
+    const files = [
+      { key: "mine.glb", ownerId: "user" },
+      { key: "theirs.glb", ownerId: "other" },
+    ];
+    mockDb({
+      storedFile: {
+        count: async ({ where }: Prisma.StoredFileCountArgs) =>
+          files.filter(
+            (f) =>
+              f.ownerId === where?.ownerId &&
+              (where.key as { in: string[] }).in.includes(f.key),
+          ).length,
+      },
+    });
+    expect(await ownsStoredFiles("user", ["mine.glb", "mine.glb"])).toBe(true);
+    expect(await ownsStoredFiles("user", ["mine.glb", "theirs.glb"])).toBe(
+      false,
+    );
+    expect(await ownsStoredFiles("user", ["unknown.glb"])).toBe(false);
+  });
+});
@@ -0,0 +1,153 @@
+import { mockDb } from "./support";
+import { createHash } from "crypto";
+import { expect, test } from "@playwright/test";
+import type { UploadSession } from "@prisma/client";
+import { storage } from "~/server/storage";
+import { readAll } from "~/server/storage/utils";
+import {
+  completeUploadSession,
+  putChunk,
+  readChunk,
+  UploadSessionError,
+} from "~/server/uploads/resumable";
+
+const session = {
+  id: "upload-1",
+  name: "model.glb",
+  contentType: "model/gltf-binary",
+  size: 10,
+  chunkSize: 4,
+} as UploadSession;
+
+const sha256 = (bytes: Uint8Array) =>
+  createHash("sha256").update(bytes).digest("base64");
+
+function bodyOf(...parts: number[][]) {
+  return new Response(new Blob(parts.map((p) => new Uint8Array(p)))).body;
+}
+
+/** Upload chunks kept in memory, keyed by index. */
+function chunkStore() {
+  let completing = false;
+  const chunks = new Map<
+    number,
+    { index: number; key: string; size: number }
+  >();
+  mockDb({
+    uploadChunk: {
+      findUnique: async ({
+        where,
+      }: {
+        where: { sessionId_index: { index: number } };
+      }) => chunks.get(where.sessionId_index.index) ?? null,
+      upsert: async ({
+        create,
+      }: {
+        create: { index: number; key: string; size: number };
+      }) => chunks.set(create.index, create),
+      findMany: async () =>
+        [...chunks.values()].sort((a, b) => a.index - b.index),
+    },
+    uploadSession: {
+      update: async () => session,
+      // Claims like the database would: only while no completion holds the upload
+      updateMany: async ({ data }: { data: { completing: boolean } }) => {
+        const count = data.completing && completing ? 0 : 1;
+        if (count) completing = data.completing;
+        return { count };
+      },
+      delete: async () => session,
+    },
+    job: { create: async () => ({}) },
+  });
+  return chunks;
+}
+
+async function expectRefused(promise: Promise<unknown>, status: number) {
+  const err = await promise.catch((e: unknown) => e);
+  expect(err).toBeInstanceOf(UploadSessionError);
+  expect((err as UploadSessionError).status).toBe(status);
+}
+
+test.describe("readChunk", () => {
+  test("reads a body split across several parts", async () => {
+    const bytes = await readChunk(session, bodyOf([1, 2], [3, 4]));
+    expect([...bytes]).toEqual([1, 2, 3, 4]);
+  });
+
+  test("stops at the chunk size whatever the body claims", async () => {
+    await expectRefused(readChunk(session, bodyOf([1, 2, 3], [4, 5])), 413);
+  });
+});
+
+test.describe("putChunk", () => {
+  test("refuses chunks outside the upload or of the wrong length", async () => {
+    chunkStore();
+    const bytes = new Uint8Array([1, 2, 3, 4]);
+    await expectRefused(putChunk(session, 3, bytes, sha256(bytes)), 400);
+    await expectRefused(putChunk(session, 2, bytes, sha256(bytes)), 400);
+  });
+
+  test("refuses chunks whose checksum does not match", async () => {
+    chunkStore();
+    const bytes = new Uint8Array([1, 2, 3, 4]);
+    await expectRefused(
+      putChunk(session, 0, bytes, sha256(bytes.slice(1))),
+      422,
+    );
+  });
+});
+
+test.describe("completeUploadSession", () => {
+  const chunkBytes = [
+    new Uint8Array([1, 2, 3, 4]),
+    new Uint8Array([5, 6, 7, 8]),
+    new Uint8Array([9, 10]),
+  ];
+
+  test("waits until every chunk has arrived", async () => {
+    chunkStore();
+    await putChunk(session, 0, chunkBytes[0]!, sha256(chunkBytes[0]!));
+    await expectRefused(completeUploadSession(session), 409);
+  });
+
+  test("joins the chunks in order, whatever order they arrived in", async () => {
+    chunkStore();
+    for (const index of [2, 0, 1]) {
+      const bytes = chunkBytes[index]!;
+      await putChunk(session, index, bytes, sha256(bytes));
+    }
+    const key = await completeUploadSession(session);
+    const joined = await readAll(await storage.stream(key));
+    expect([...joined]).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+  });
+
+  test("completes an upload only once when asked twice at the same time", async () => {
+    chunkStore();
+    for (const [index, bytes] of chunkBytes.entries()) {
+      await putChunk(session, index, bytes, sha256(bytes));
+    }
+    const results = await Promise.allSettled([
+      completeUploadSession(session),
+      completeUploadSession(session),
+    ]);
+    expect(results.map((r) => r.status).sort()).toEqual([
+      "fulfilled",
+      "rejected",
+    ]);
+    const refused = results.find((r) => r.status === "rejected");
+    expect(refused?.reason).toBeInstanceOf(UploadSessionError);
+    expect(refused?.reason).toMatchObject({ status: 409 });
+  });
+
+  test("can be completed again once a failed attempt lets go", async () => {
+    chunkStore();
+    await putChunk(session, 0, chunkBytes[0]!, sha256(chunkBytes[0]!));
+    await expectRefused(completeUploadSession(session), 409);
+    for (const index of [1, 2]) {
+      const bytes = chunkBytes[index]!;
+      await putChunk(session, index, bytes, sha256(bytes));
+    }
+    expect(await completeUploadSession(session)).toBeTruthy();
+  });
+});
@@ -0,0 +1,32 @@
+import "./support";
+import { expect, test } from "@playwright/test";
+import { openAssetToken, signedAssetPath } from "~/server/storage/signing";
+
+function tokenOf(path: string) {
+  return path.split("/").pop()!;
+}
+
+test.describe("signed asset URLs", () => {
+  test("open to the key they were made for", () => {
+    expect(openAssetToken(tokenOf(signedAssetPath("abc.glb")))).toBe("abc.glb");
+  });
+
+  test("do not reveal the key", () => {
+    const path = signedAssetPath("abc.glb");
+    expect(path).not.toContain("abc");
+    expect(Buffer.from(tokenOf(path), "base64url").toString()).not.toContain(
+      "abc",
+    );
+  });
+
+  test("cannot be altered", () => {
+    const token = Buffer.from(tokenOf(signedAssetPath("abc.glb")), "base64url");
+    token[token.length - 1]! ^= 1;
+    expect(openAssetToken(token.toString("base64url"))).toBeNull();
+    expect(openAssetToken("forged")).toBeNull();
+  });
+
+  test("stop opening once expired", () => {
+    expect(openAssetToken(tokenOf(signedAssetPath("abc.glb", -1)))).toBeNull();
+  });
+});
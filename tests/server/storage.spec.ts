@@ -0,0 +1,68 @@
+import "./support";
+import { expect, test } from "@playwright/test";
+import { createUploadThingDriver } from "~/server/storage/drivers/uploadthing";
+import { readAll } from "~/server/storage/utils";
+
+const file = new Uint8Array([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+
+/** Answers every CDN request with `respond`, recording the requests made. */
+function cdn(respond: (req: Request) => Response) {
+  const requests: Request[] = [];
+  const original = globalThis.fetch;
+  globalThis.fetch = async (input, init) => {
+    const req = new Request(input, init);
+    requests.push(req);
+    return respond(req);
+  };
+  return { requests, restore: () => (globalThis.fetch = original) };
+}
+
+/** A body arriving `size` bytes at a time, as it would over the network. */
+function parts(bytes: Uint8Array, size: number) {
+  let offset = 0;
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (offset >= bytes.byteLength) return controller.close();
+      controller.enqueue(bytes.slice(offset, (offset += size)));
+    },
+  });
+}
+
+test.describe("UploadThing driver", () => {
+  const driver = createUploadThingDriver();
+
+  test("passes ranged answers from the CDN through", async () => {
+    const { requests, restore } = cdn(
+      () => new Response(file.slice(2, 6), { status: 206 }),
+    );
+    try {
+      const body = await driver.stream("abc.glb", { start: 2, end: 5 });
+      expect([...(await readAll(body))]).toEqual([2, 3, 4, 5]);
+      expect(requests[0]?.headers.get("range")).toBe("bytes=2-5");
+    } finally {
+      restore();
+    }
+  });
+
+  test("cuts the range out when the CDN sends the whole file", async () => {
+    const { restore } = cdn(
+      () => new Response(parts(file, 3), { status: 200 }),
+    );
+    try {
+      const body = await driver.stream("abc.glb", { start: 2, end: 7 });
+      expect([...(await readAll(body))]).toEqual([2, 3, 4, 5, 6, 7]);
+    } finally {
+      restore();
+    }
+  });
+
+  test("streams the whole file when no range is asked for", async () => {
+    const { restore } = cdn(() => new Response(file, { status: 200 }));
+    try {
+      const body = await driver.stream("abc.glb");
+      expect(await readAll(body)).toEqual(file);
+    } finally {
+      restore();
+    }
+  });
+});
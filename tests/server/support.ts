@@ -0,0 +1,36 @@
+/**
+ * Shared setup for the server tests, imported before any `~/server` module: those read the
+ * environment and pick up their Prisma client from `globalThis.prisma` when first imported.
+ */
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import type { Session } from "next-auth";
+
+process.env.DATABASE_URL ??= "postgresql://test@localhost:5432/test";
+process.env.AUTH_SECRET ??= "test-signing-secret";
+process.env.STORAGE_DRIVER = "local";
+process.env.STORAGE_LOCAL_DIR = mkdtempSync(path.join(tmpdir(), "barnlabs-"));
+
+const prisma: Record<string, unknown> = {};
+(globalThis as { prisma?: unknown }).prisma = prisma;
+
+/**
+ * Replaces the Prisma client's delegates with the ones a test expects to be called. Transactions
+ * run their callback against the same fake unless a test passes its own `$transaction`.
+ */
+export function mockDb(delegates: Record<string, unknown>) {
+  for (const key of Object.keys(prisma)) delete prisma[key];
+  Object.assign(
+    prisma,
+    { $transaction: (fn: (tx: unknown) => unknown) => fn(prisma) },
+    delegates,
+  );
+}
+
+export function sessionFor(
+  id: string,
+  role: "USER" | "EMPLOYEE" | "ADMIN" = "USER",
+): Session {
+  return { user: { id, role }, expires: "2100-01-01T00:00:00.000Z" };
+}
@@ -0,0 +1,148 @@
+import { mockDb } from "./support";
+import { expect, test } from "@playwright/test";
+import type { Model, ModelVersion } from "@prisma/client";
+import {
+  addModelVersion,
+  ensureInitialVersion,
+  resolveShareFiles,
+} from "~/server/models/versions";
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 1));
+
+/**
+ * One model and its versions in memory. `SELECT ... FOR UPDATE` holds the row until the
+ * transaction ends, and `(modelId, version)` is unique, as in Postgres.
+ */
+function modelStore(model: Partial<Model>, versions: number[] = []) {
+  const row = { id: "model-1", ownerId: "owner", ...model } as Model;
+  const rows: Pick<ModelVersion, "id" | "modelId" | "version">[] = versions.map(
+    (version) => ({ id: `v${version}`, modelId: row.id, version }),
+  );
+  let lock = Promise.resolve();
+
+  const delegates = {
+    model: {
+      findUniqueOrThrow: async () => ({ ...row }),
+      update: async ({ data }: { data: Partial<Model> }) =>
+        Object.assign(row, data),
+    },
+    modelVersion: {
+      findFirst: async () => {
+        // Gives a concurrent upload the chance to read the same latest version
+        await tick();
+        return rows.reduce<(typeof rows)[number] | null>(
+          (latest, v) => (!latest || v.version > latest.version ? v : latest),
+          null,
+        );
+      },
+      create: async ({ data }: { data: { version: number } }) => {
+        await tick();
+        if (rows.some((v) => v.version === data.version)) {
+          throw Object.assign(new Error("Unique constraint failed"), {
+            code: "P2002",
+          });
+        }
+        const created = { ...data, id: `v${data.version}`, modelId: row.id };
+        rows.push(created);
+        return created as ModelVersion;
+      },
+    },
+    storedFile: { upsert: async () => undefined },
+  };
+
+  mockDb({
+    ...delegates,
+    $transaction: async (fn: (tx: unknown) => Promise<unknown>) => {
+      let release = () => undefined as void;
+      const tx = {
+        ...delegates,
+        $queryRaw: async () => {
+          const held = lock;
+          lock = held.then(() => new Promise<void>((r) => (release = r)));
+          await held;
+        },
+      };
+      try {
+        return await fn(tx);
+      } finally {
+        release();
+      }
+    },
+  });
+  return { row, versions: () => rows.map((v) => v.version) };
+}
+
+const upload = { modelId: "model-1", userId: "owner", glbStorageId: "new.glb" };
+
+test.describe("model versions", () => {
+  test("numbers a new version after the latest one and makes it current", async () => {
+    const store = modelStore({ currentVersionId: "v2" }, [1, 2]);
+    const version = await addModelVersion(upload);
+    expect(version.version).toBe(3);
+    expect(store.row.currentVersionId).toBe("v3");
+  });
+
+  test("hands concurrent uploads consecutive numbers", async () => {
+    const store = modelStore({ currentVersionId: "v1" }, [1]);
+    const added = await Promise.all([
+      addModelVersion(upload),
+      addModelVersion(upload),
+      addModelVersion(upload),
+    ]);
+    expect(added.map((v) => v.version).sort()).toEqual([2, 3, 4]);
+    expect(store.versions()).toEqual([1, 2, 3, 4]);
+  });
+
+  test("records a model's files from before versioning as version 1 first", async () => {
+    const store = modelStore({
+      glbStorageId: "old.glb",
+      currentVersionId: null,
+    });
+    const version = await addModelVersion(upload);
+    expect(store.versions()).toEqual([1, 2]);
+    expect(version.version).toBe(2);
+  });
+
+  test("records version 1 once when asked from several requests at once", async () => {
+    const store = modelStore({
+      glbStorageId: "old.glb",
+      currentVersionId: null,
+    });
+    const model = { ...store.row };
+    await Promise.all([
+      ensureInitialVersion(model),
+      ensureInitialVersion(model),
+    ]);
+    expect(store.versions()).toEqual([1]);
+    expect(store.row.currentVersionId).toBe("v1");
+  });
+});
+
+test.describe("resolveShareFiles", () => {
+  const model = {
+    glbStorageId: "current.glb",
+    usdzStorageId: "current.usdz",
+    optimizedGlbStorageId: "current-web.glb",
+  };
+
+  test("shows the optimized GLB and keeps the original for downloads", () => {
+    expect(resolveShareFiles({ model, modelVersion: null })).toEqual({
+      glbStorageId: "current-web.glb",
+      originalGlbStorageId: "current.glb",
+      usdzStorageId: "current.usdz",
+    });
+  });
+
+  test("prefers a pinned version over the model's current files", () => {
+    const modelVersion = {
+      glbStorageId: "pinned.glb",
+      usdzStorageId: null,
+      optimizedGlbStorageId: null,
+    };
+    expect(resolveShareFiles({ model, modelVersion })).toEqual({
+      glbStorageId: "pinned.glb",
+      originalGlbStorageId: "pinned.glb",
+      usdzStorageId: null,
+    });
+  });
+});